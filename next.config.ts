@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // axe-core is injected into jsdom windows as source text; load it from node_modules, unbundled
+  serverExternalPackages: ["axe-core"],
   eslint: {
     // Warning: This allows production builds to successfully complete even if
     // your project has ESLint errors.
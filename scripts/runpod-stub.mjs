@@ -0,0 +1,255 @@
+// RunPod Stub Server
+// Local stand-in for the RunPod serverless API so video generation can run offline.
+//
+//   npm run runpod:stub
+//   RUNPOD_API_KEY=stub RUNPOD_ENDPOINT_ID=video RUNPOD_BASE_URL=http://localhost:8765/v2 npm run dev
+//
+// Jobs move IN_QUEUE → IN_PROGRESS → COMPLETED on a timer, stream progress chunks and POST the
+// final state to the job's webhook. Send `input.stub = { fail: true }` (or `{ fail: 'message' }`)
+// to make a job fail, and `input.stub.durationMs` to change how long it renders.
+//
+// Environment: RUNPOD_STUB_PORT (8765), RUNPOD_STUB_API_KEY (any key accepted when unset),
+// RUNPOD_STUB_QUEUE_MS (1000), RUNPOD_STUB_DURATION_MS (5000)
+
+import { createServer } from 'node:http'
+import { randomUUID } from 'node:crypto'
+
+const port = Number(process.env.RUNPOD_STUB_PORT) || 8765
+const apiKey = process.env.RUNPOD_STUB_API_KEY
+const queueMs = Number(process.env.RUNPOD_STUB_QUEUE_MS) || 1000
+const defaultDurationMs = Number(process.env.RUNPOD_STUB_DURATION_MS) || 5000
+
+const TERMINAL = ['COMPLETED', 'FAILED', 'CANCELLED', 'TIMED_OUT']
+const STAGES = ['Loading Wan2.2 weights', 'Generating video frames', 'Encoding video', 'Uploading output']
+
+const jobs = new Map()
+
+function createJob(endpoint, body) {
+  const input = body.input ?? {}
+  const stub = input.stub ?? {}
+  const job = {
+    id: `stub-${randomUUID()}`,
+    endpoint,
+    status: 'IN_QUEUE',
+    input,
+    webhook: body.webhook,
+    executionTimeout: body.policy?.executionTimeout,
+    durationMs: Number(stub.durationMs) || defaultDurationMs,
+    fail: stub.fail,
+    createdAt: Date.now(),
+    startedAt: undefined,
+    stream: [],
+    timers: []
+  }
+  jobs.set(job.id, job)
+
+  job.timers.push(setTimeout(() => start(job), queueMs))
+  return job
+}
+
+function start(job) {
+  if (TERMINAL.includes(job.status)) return
+  job.status = 'IN_PROGRESS'
+  job.startedAt = Date.now()
+
+  STAGES.forEach((stage, index) => {
+    job.timers.push(setTimeout(() => {
+      if (job.status === 'IN_PROGRESS') {
+        job.stream.push({ output: { progress: Math.round((index / STAGES.length) * 100), stage } })
+      }
+    }, (job.durationMs / STAGES.length) * index))
+  })
+
+  if (job.executionTimeout && job.executionTimeout < job.durationMs) {
+    job.timers.push(setTimeout(() => finish(job, 'TIMED_OUT', undefined, 'Execution timeout exceeded'), job.executionTimeout))
+    return
+  }
+
+  job.timers.push(setTimeout(() => {
+    if (job.fail) {
+      finish(job, 'FAILED', undefined, typeof job.fail === 'string' ? job.fail : 'Stub worker failure')
+    } else {
+      finish(job, 'COMPLETED', outputFor(job))
+    }
+  }, job.durationMs))
+}
+
+function finish(job, status, output, error) {
+  if (TERMINAL.includes(job.status)) return
+  job.timers.forEach(clearTimeout)
+  job.status = status
+  job.output = output
+  job.error = error
+  job.finishedAt = Date.now()
+  console.log(`[runpod-stub] ${job.endpoint}/${job.id} ${status}`)
+
+  if (job.webhook) {
+    fetch(job.webhook, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(publicState(job))
+    }).catch(err => console.warn(`[runpod-stub] webhook for ${job.id} failed: ${err.message}`))
+  }
+}
+
+// Matches the output contract of the real workers (src/lib/runpod/video-output.ts)
+function outputFor(job) {
+  const config = job.input.config ?? {}
+  const base = `http://localhost:${port}/files/${job.id}`
+  return {
+    video_url: `${base}/video.mp4`,
+    thumbnail_url: `${base}/thumbnail.jpg`,
+    duration: Number(job.input.script?.totalDuration) || Math.round(job.durationMs / 1000),
+    resolution: config.resolution || job.input.output?.resolution || '1080p',
+    file_size: 50 * 1024 * 1024,
+    format: 'mp4',
+    subtitles_url: `${base}/subtitles.vtt`,
+    transcript_url: `${base}/transcript.txt`,
+    renditions: job.input.profiles?.map(profile => renditionFor(profile, base))
+  }
+}
+
+// One rendition per requested output profile, sized from its ladder
+function renditionFor(profile, base) {
+  const [top] = profile.ladder
+  const bitrateKbps = top.videoKbps + profile.audio.kbps
+  if (profile.container === 'hls') {
+    return {
+      profile: profile.id,
+      label: profile.label,
+      format: 'hls',
+      url: `${base}/${profile.id}.m3u8`,
+      width: top.width,
+      height: top.height,
+      bitrate_kbps: bitrateKbps,
+      variants: profile.ladder.map(rung => ({
+        url: `${base}/${rung.name}.m3u8`,
+        width: rung.width,
+        height: rung.height,
+        bandwidth: (rung.videoKbps + profile.audio.kbps) * 1000
+      }))
+    }
+  }
+  return {
+    profile: profile.id,
+    label: profile.label,
+    format: 'mp4',
+    url: `${base}/${top.name}.mp4`,
+    width: top.width,
+    height: top.height,
+    bitrate_kbps: bitrateKbps,
+    file_size: 10 * 1024 * 1024
+  }
+}
+
+function publicState(job) {
+  const state = {
+    id: job.id,
+    status: job.status,
+    delayTime: (job.startedAt ?? Date.now()) - job.createdAt
+  }
+  if (job.startedAt) state.executionTime = (job.finishedAt ?? Date.now()) - job.startedAt
+  if (job.output !== undefined) state.output = job.output
+  if (job.error) state.error = job.error
+  return state
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+async function readBody(req) {
+  const chunks = []
+  for await (const chunk of req) chunks.push(chunk)
+  if (chunks.length === 0) return {}
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'))
+}
+
+async function handle(req, res) {
+  const url = new URL(req.url, `http://localhost:${port}`)
+  const parts = url.pathname.split('/').filter(Boolean)
+
+  if (parts[0] === 'files') {
+    // Placeholder assets so returned URLs resolve
+    res.writeHead(200, { 'Content-Type': 'text/plain' })
+    res.end(`runpod-stub placeholder for ${parts.slice(1).join('/')}\n`)
+    return
+  }
+
+  if (parts[0] !== 'v2' || parts.length < 3) {
+    return send(res, 404, { error: 'Not found' })
+  }
+
+  if (apiKey && req.headers.authorization !== `Bearer ${apiKey}`) {
+    return send(res, 401, { error: 'Unauthorized' })
+  }
+
+  const [, endpoint, action, jobId] = parts
+
+  if (req.method === 'POST' && action === 'run') {
+    const job = createJob(endpoint, await readBody(req))
+    return send(res, 200, { id: job.id, status: job.status })
+  }
+
+  if (req.method === 'POST' && action === 'runsync') {
+    const job = createJob(endpoint, await readBody(req))
+    const deadline = Date.now() + 90000
+    while (!TERMINAL.includes(job.status) && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 250))
+    }
+    return send(res, 200, publicState(job))
+  }
+
+  if (req.method === 'GET' && action === 'health') {
+    const counts = { completed: 0, failed: 0, inProgress: 0, inQueue: 0 }
+    jobs.forEach(job => {
+      if (job.endpoint !== endpoint) return
+      if (job.status === 'COMPLETED') counts.completed++
+      else if (job.status === 'IN_PROGRESS') counts.inProgress++
+      else if (job.status === 'IN_QUEUE') counts.inQueue++
+      else counts.failed++
+    })
+    return send(res, 200, { jobs: counts, workers: { idle: 1, running: counts.inProgress } })
+  }
+
+  const job = jobId && jobs.get(jobId)
+  if (!job || job.endpoint !== endpoint) {
+    return send(res, 404, { error: `Job ${jobId} not found` })
+  }
+
+  if (req.method === 'GET' && action === 'status') {
+    return send(res, 200, publicState(job))
+  }
+
+  if (req.method === 'GET' && action === 'stream') {
+    // Each chunk is handed out once, like RunPod's stream endpoint
+    const stream = job.stream.splice(0)
+    return send(res, 200, { status: job.status, stream })
+  }
+
+  if (req.method === 'POST' && action === 'cancel') {
+    finish(job, 'CANCELLED')
+    return send(res, 200, { id: job.id, status: job.status })
+  }
+
+  return send(res, 404, { error: 'Not found' })
+}
+
+const server = createServer((req, res) => {
+  handle(req, res).catch(error => {
+    console.error('[runpod-stub] request failed:', error)
+    send(res, error instanceof SyntaxError ? 400 : 500, { error: error.message })
+  })
+})
+
+server.listen(port, () => {
+  console.log(`[runpod-stub] listening on http://localhost:${port}/v2`)
+})
+
+const shutdown = () => {
+  jobs.forEach(job => job.timers.forEach(clearTimeout))
+  server.close(() => process.exit(0))
+}
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  AccessibilityCheckRecord,
+  AccessibilityService,
+  buildConformanceReport,
+  CONFORMANCE_REPORT_CONTENT_TYPES,
+  CONFORMANCE_REPORT_FILE_EXTENSIONS,
+  CONFORMANCE_REPORT_FORMATS,
+  ConformanceReportFormat,
+  ConformanceReportProduct,
+  conformanceReportFilePath,
+  createCheckId,
+  getAccessibilityCheckStore,
+  validateCheckSettings,
+  writeConformanceReport
+} from '@/lib/accessibility'
+import { fileExists, fileResponse } from '@/lib/file-response'
+import { getStorybookRepository } from '@/lib/storage'
+import { getStoredStorybookContent, renderStorybookHtml } from '@/lib/storybook-html'
+import { normalizeLocale } from '@/lib/translation'
+
+interface ConformanceReportRequest {
+  storybookId: string
+  level?: 'A' | 'AA' | 'AAA'
+  locales?: string[] // defaults to the storybook's own language and every translation
+  product?: Partial<ConformanceReportProduct> // name defaults to the storybook's title
+  notes?: string
+}
+
+// Checks a stored storybook in each language and builds an Accessibility Conformance Report from the results
+export async function POST(request: NextRequest) {
+  try {
+    const body: ConformanceReportRequest = await request.json()
+    const { storybookId, level = 'AA', notes } = body
+
+    if (typeof storybookId !== 'string' || !storybookId) {
+      return NextResponse.json({
+        success: false,
+        error: 'storybookId is required'
+      }, { status: 400 })
+    }
+
+    const settingsError = validateCheckSettings(level)
+    if (settingsError) {
+      return NextResponse.json({
+        success: false,
+        error: settingsError
+      }, { status: 400 })
+    }
+
+    const requestedLocales = Array.isArray(body.locales)
+      ? body.locales.map(locale => typeof locale === 'string' ? normalizeLocale(locale) : null)
+      : []
+    if ((body.locales !== undefined && !Array.isArray(body.locales)) || requestedLocales.includes(null)) {
+      return NextResponse.json({
+        success: false,
+        error: 'locales must be locale codes such as "es" or "pt-BR"'
+      }, { status: 400 })
+    }
+
+    const record = await getStorybookRepository().getStorybook(storybookId)
+    if (!record) {
+      return NextResponse.json({
+        success: false,
+        error: `Storybook ${storybookId} not found`
+      }, { status: 404 })
+    }
+
+    const sourceLocale = record.locale || 'en'
+    const locales = requestedLocales.length
+      ? [...new Set(requestedLocales.filter((locale): locale is string => locale !== null))]
+      : [sourceLocale, ...Object.keys(record.translations || {})]
+    const accessibilityService = new AccessibilityService()
+    const store = getAccessibilityCheckStore()
+    const checks: { locale: string; check: AccessibilityCheckRecord }[] = []
+
+    for (const locale of locales) {
+      const stored = await getStoredStorybookContent(storybookId, locale)
+      if (!stored) {
+        return NextResponse.json({
+          success: false,
+          error: `Storybook ${storybookId} has no "${locale}" content to check`
+        }, { status: 404 })
+      }
+
+      const html = renderStorybookHtml(stored.content, { locale: stored.locale, direction: stored.direction })
+      const check = await accessibilityService.runCheck(html, {
+        id: createCheckId(),
+        level,
+        guidelines: [],
+        checkType: 'storybook',
+        subject: { type: 'storybook', storybookId, locale },
+        includeRepairs: false,
+        checkInteractiveElements: true,
+        validateKeyboardNavigation: true,
+        storybook: { content: stored.content, locale: stored.locale }
+      })
+      checks.push({ locale, check: await store.save(check) })
+    }
+
+    const report = await writeConformanceReport(buildConformanceReport({
+      storybookId,
+      product: {
+        ...body.product,
+        name: body.product?.name || record.storybook?.title || record.content?.title || storybookId
+      },
+      level,
+      checks,
+      notes
+    }))
+    await store.saveConformanceReport(report)
+
+    return NextResponse.json({ success: true, report })
+
+  } catch (error) {
+    console.error('Conformance report error:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to build conformance report'
+    }, { status: 500 })
+  }
+}
+
+// The stored report, or with format its HTML, PDF or JSON file
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const reportId = searchParams.get('id')
+  const format = searchParams.get('format')
+
+  if (!reportId) {
+    return NextResponse.json({
+      success: false,
+      error: 'Report ID is required'
+    }, { status: 400 })
+  }
+
+  if (format !== null && !CONFORMANCE_REPORT_FORMATS.includes(format as ConformanceReportFormat)) {
+    return NextResponse.json({
+      success: false,
+      error: `format must be one of ${CONFORMANCE_REPORT_FORMATS.join(', ')}`
+    }, { status: 400 })
+  }
+
+  try {
+    const store = getAccessibilityCheckStore()
+    // Report ids are generated here; anything else must not reach a file path
+    const report = /^[\w-]+$/.test(reportId) ? await store.getConformanceReport(reportId) : null
+    if (!report) {
+      return NextResponse.json({
+        success: false,
+        error: 'Conformance report not found'
+      }, { status: 404 })
+    }
+
+    if (!format) {
+      return NextResponse.json({ success: true, report })
+    }
+
+    const reportFormat = format as ConformanceReportFormat
+    const filePath = conformanceReportFilePath(report.id, reportFormat)
+    if (!(await fileExists(filePath))) {
+      await writeConformanceReport(report)
+    }
+
+    const response = await fileResponse(request, filePath, CONFORMANCE_REPORT_CONTENT_TYPES[reportFormat])
+    if (reportFormat !== 'html') {
+      response.headers.set(
+        'Content-Disposition',
+        `attachment; filename="accessibility-conformance-report-${report.id}${CONFORMANCE_REPORT_FILE_EXTENSIONS[reportFormat]}"`
+      )
+    }
+    return response
+  } catch (error) {
+    console.error('Get conformance report error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to retrieve conformance report'
+    }, { status: 500 })
+  }
+}
+
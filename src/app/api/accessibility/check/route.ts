@@ -1,14 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { AccessibilityService } from '@/lib/accessibility'
+import {
+  AccessibilityCheckSubject,
+  AccessibilityIssue,
+  AccessibilityCheckOptions,
+  AccessibilityService,
+  AccessibilityTestOptions,
+  conformanceSummary,
+  ConformanceSupport,
+  createCheckId,
+  criteriaForTags,
+  criterionForGuideline,
+  CriterionConformance,
+  getAccessibilityCheckStore,
+  REPORT_CONTENT_TYPES,
+  REPORT_FILE_EXTENSIONS,
+  REPORT_FORMATS,
+  ReportFormat,
+  reportFilePath,
+  rollUpConformance,
+  validateCheckSettings
+} from '@/lib/accessibility'
+import { errorResponse } from '@/lib/api-errors'
+import { fileExists, fileResponse } from '@/lib/file-response'
+import { getStoredStorybookContent, renderStorybookHtml } from '@/lib/storybook-html'
 
 interface AccessibilityCheckRequest {
   content: string | {
     html?: string
     url?: string
     storybookId?: string
+    locale?: string // check one of the storybook's translations instead of its own language
   }
   level: 'A' | 'AA' | 'AAA'
-  guidelines: string[]
+  guidelines: string[] // extra axe-core tags to run: 'best-practice', 'wcag143', ...
   options?: {
     includeRepairs: boolean
     generateReport: boolean
@@ -27,18 +51,24 @@ interface AccessibilityCheckResponse {
     summary: {
       violations: number
       warnings: number
+      issues: number
       passes: number
       incomplete: number
     }
+    // Every success criterion up to the level, with its conformance as an ACR would state it
+    criteria: CriterionConformance[]
+    conformance: Record<ConformanceSupport, number>
   }
   violations: AccessibilityViolation[]
   warnings: AccessibilityWarning[]
+  issues: AccessibilityIssueResult[] // from the service's own checks, including the storybook rules
   suggestions: ImprovementSuggestion[]
   repairs?: AccessibilityRepair[]
   report?: {
-    url: string
-    downloadUrl: string
-    format: 'html' | 'pdf' | 'json'
+    url: string // the HTML report
+    downloadUrl: string // the PDF
+    format: ReportFormat
+    files: Record<ReportFormat, string> // html, pdf, json and earl, from GET ?id=&format=
   }
   processingTime: number
   error?: string
@@ -51,6 +81,7 @@ interface AccessibilityViolation {
   help: string
   helpUrl: string
   tags: string[]
+  criteria: string[] // WCAG success criteria the rule tests: '1.1.1', ...
   nodes: {
     selector: string
     html: string
@@ -63,12 +94,17 @@ interface AccessibilityWarning {
   id: string
   description: string
   recommendation: string
+  criteria: string[]
   nodes: {
     selector: string
     html: string
   }[]
 }
 
+interface AccessibilityIssueResult extends AccessibilityIssue {
+  criteria: string[]
+}
+
 interface ImprovementSuggestion {
   id: string
   priority: 'high' | 'medium' | 'low'
@@ -91,7 +127,7 @@ interface AccessibilityRepair {
 export async function POST(request: NextRequest) {
   try {
     const body: AccessibilityCheckRequest = await request.json()
-    const { content, level, guidelines, options } = body
+    const { content, level = 'AA', guidelines = [], options } = body
 
     // Validate request
     if (!content) {
@@ -101,15 +137,22 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
+    const settingsError = validateCheckSettings(level, guidelines)
+    if (settingsError) {
+      return NextResponse.json({
+        success: false,
+        error: settingsError
+      }, { status: 400 })
+    }
+
     const startTime = Date.now()
     const accessibilityService = new AccessibilityService()
-    const checkId = `acc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-
-    console.log('♿ Starting accessibility compliance check...')
+    const checkId = createCheckId()
 
     // Prepare content for checking
     let contentToCheck = ''
-    let checkType = 'html'
+    let checkType: AccessibilityTestOptions['checkType'] = 'html'
+    let storybook: AccessibilityCheckOptions['storybook']
 
     if (typeof content === 'string') {
       contentToCheck = content
@@ -121,127 +164,89 @@ export async function POST(request: NextRequest) {
       contentToCheck = content.url
       checkType = 'url'
     } else if (content.storybookId) {
-      // Fetch storybook content
-      contentToCheck = await fetchStorybookContent(content.storybookId)
+      const stored = await getStoredStorybookContent(content.storybookId, content.locale)
+      if (!stored) {
+        return NextResponse.json({
+          success: false,
+          error: content.locale
+            ? `Storybook ${content.storybookId} has no "${content.locale}" content to check`
+            : `Storybook ${content.storybookId} has no content to check`
+        }, { status: 404 })
+      }
+      contentToCheck = renderStorybookHtml(stored.content, { locale: stored.locale, direction: stored.direction })
       checkType = 'storybook'
+      storybook = { content: stored.content, locale: stored.locale }
     }
 
-    // Step 1: Run basic accessibility tests using axe-core
-    console.log('🔍 Running axe-core accessibility tests...')
-    const axeResults = await accessibilityService.runAxeTests(contentToCheck, {
+    // Steps 1-5: axe-core, the service's own checks, suggestions, repairs if requested, and the score
+    const checkRecord = await accessibilityService.runCheck(contentToCheck, {
+      id: checkId,
       level,
-      tags: guidelines,
-      checkType
-    })
-
-    // Step 2: Additional custom accessibility checks
-    console.log('🔧 Running custom accessibility checks...')
-    const customChecks = await accessibilityService.runCustomChecks(contentToCheck, {
+      guidelines,
+      checkType,
+      subject: checkSubject(content, checkType),
+      includeRepairs: options?.includeRepairs ?? false,
       checkInteractiveElements: options?.checkInteractiveElements ?? true,
       validateKeyboardNavigation: options?.validateKeyboardNavigation ?? true,
-      checkColorContrast: true,
-      validateHeadingStructure: true,
-      checkFormLabels: true
+      storybook
     })
-
-    // Step 3: Generate improvement suggestions
-    console.log('💡 Generating improvement suggestions...')
-    const suggestions = await accessibilityService.generateSuggestions(
-      axeResults.violations,
-      customChecks.issues,
-      level
-    )
-
-    // Step 4: Generate automatic repairs if requested
-    let repairs: AccessibilityRepair[] = []
-    if (options?.includeRepairs) {
-      console.log('🔧 Generating automatic repairs...')
-      repairs = await accessibilityService.generateRepairs(
-        axeResults.violations,
-        contentToCheck
-      )
-    }
-
-    // Step 5: Calculate compliance score
-    const complianceScore = calculateComplianceScore(
-      axeResults.passes.length,
-      axeResults.violations.length,
-      axeResults.incomplete.length
-    )
+    const { axe: axeResults, custom: customChecks, suggestions, repairs } = checkRecord.results
 
     // Step 6: Generate detailed report if requested
-    let report = null
     if (options?.generateReport) {
       console.log('📊 Generating accessibility report...')
-      report = await accessibilityService.generateReport({
-        checkId,
-        results: axeResults,
-        customChecks,
-        suggestions,
-        repairs,
-        level,
-        score: complianceScore
-      })
+      checkRecord.report = await accessibilityService.generateReport(checkRecord)
     }
 
-    // Store check results (in production, this would go to database)
-    const checkRecord = {
-      id: checkId,
-      content: typeof content === 'string' ? content.substring(0, 1000) : content,
-      level,
-      results: {
-        axe: axeResults,
-        custom: customChecks,
-        suggestions,
-        repairs
-      },
-      score: complianceScore,
-      createdAt: new Date().toISOString(),
-      processingTime: Date.now() - startTime
-    }
-
-    // TODO: Store in database
-    // await database.accessibilityChecks.create(checkRecord)
+    // Store check results so the check and its reports can be fetched by id
+    await getAccessibilityCheckStore().save(checkRecord)
 
-    const processingTime = Date.now() - startTime
+    const report = checkRecord.report
+    const criteria = rollUpConformance([checkRecord], level)
 
     const response: AccessibilityCheckResponse = {
       success: true,
       checkId,
       compliance: {
         level,
-        score: complianceScore,
-        passed: complianceScore >= getPassingScore(level),
+        score: checkRecord.score,
+        passed: checkRecord.passed,
         summary: {
           violations: axeResults.violations.length,
           warnings: customChecks.warnings.length,
+          issues: customChecks.issues.length,
           passes: axeResults.passes.length,
           incomplete: axeResults.incomplete.length
-        }
+        },
+        criteria,
+        conformance: conformanceSummary(criteria)
       },
       violations: axeResults.violations.map(formatViolation),
       warnings: customChecks.warnings.map(formatWarning),
+      issues: customChecks.issues.map(formatIssue),
       suggestions,
       ...(options?.includeRepairs && { repairs }),
-      ...(report && { report }),
-      processingTime
+      ...(report && {
+        report: { url: report.url, downloadUrl: report.downloadUrl, format: report.format, files: report.files }
+      }),
+      processingTime: Date.now() - startTime
     }
 
     return NextResponse.json(response)
 
   } catch (error) {
     console.error('Accessibility check error:', error)
-    return NextResponse.json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to perform accessibility check'
-    }, { status: 500 })
+    return errorResponse(error, 'Failed to perform accessibility check')
   }
 }
 
+// The stored check, or with format one of its reports (rendered on first request if the check
+// didn't ask for one)
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
   const checkId = searchParams.get('id')
-  
+  const format = searchParams.get('format')
+
   if (!checkId) {
     return NextResponse.json({
       success: false,
@@ -249,19 +254,61 @@ export async function GET(request: NextRequest) {
     }, { status: 400 })
   }
 
+  if (format !== null && !REPORT_FORMATS.includes(format as ReportFormat)) {
+    return NextResponse.json({
+      success: false,
+      error: `format must be one of ${REPORT_FORMATS.join(', ')}`
+    }, { status: 400 })
+  }
+
   try {
-    // TODO: Fetch from database
-    // const checkRecord = await database.accessibilityChecks.findById(checkId)
-    
-    // Mock response for now
+    const store = getAccessibilityCheckStore()
+    // Check ids are generated here; anything else is not a check and must not reach a file path
+    const checkRecord = /^[\w-]+$/.test(checkId) ? await store.get(checkId) : null
+    if (!checkRecord) {
+      return NextResponse.json({
+        success: false,
+        error: 'Accessibility check not found'
+      }, { status: 404 })
+    }
+
+    if (format) {
+      const reportFormat = format as ReportFormat
+      const filePath = reportFilePath(checkRecord.id, reportFormat)
+      if (!checkRecord.report || !(await fileExists(filePath))) {
+        checkRecord.report = await new AccessibilityService().generateReport(checkRecord)
+        await store.save(checkRecord)
+      }
+
+      const response = await fileResponse(request, filePath, REPORT_CONTENT_TYPES[reportFormat])
+      if (reportFormat !== 'html') {
+        response.headers.set(
+          'Content-Disposition',
+          `attachment; filename="accessibility-report-${checkRecord.id}${REPORT_FILE_EXTENSIONS[reportFormat]}"`
+        )
+      }
+      return response
+    }
+
+    const { axe, custom } = checkRecord.results
     return NextResponse.json({
       success: true,
       check: {
-        id: checkId,
+        id: checkRecord.id,
         status: 'completed',
-        score: 92,
-        level: 'AA',
-        createdAt: new Date().toISOString()
+        subject: checkRecord.subject,
+        score: checkRecord.score,
+        passed: checkRecord.passed,
+        level: checkRecord.level,
+        summary: {
+          violations: axe.violations.length,
+          warnings: custom.warnings.length,
+          issues: custom.issues.length,
+          passes: axe.passes.length,
+          incomplete: axe.incomplete.length
+        },
+        report: checkRecord.report,
+        createdAt: checkRecord.createdAt
       }
     })
   } catch (error) {
@@ -274,44 +321,15 @@ export async function GET(request: NextRequest) {
 }
 
 // Helper functions
-async function fetchStorybookContent(storybookId: string): Promise<string> {
-  try {
-    // TODO: Fetch actual storybook content
-    // const storybook = await database.storybooks.findById(storybookId)
-    // return generateStorybookHTML(storybook)
-    
-    // Mock HTML content
-    return `
-      <html>
-        <head><title>Sample Storybook</title></head>
-        <body>
-          <h1>Interactive N8N Workflow Tutorial</h1>
-          <p>Learn automation step by step...</p>
-          <button>Start Learning</button>
-        </body>
-      </html>
-    `
-  } catch (error) {
-    throw new Error(`Failed to fetch storybook content: ${error}`)
-  }
-}
-
-function calculateComplianceScore(passes: number, violations: number, incomplete: number): number {
-  const total = passes + violations + incomplete
-  if (total === 0) return 100
-  
-  // Weight violations more heavily
-  const score = ((passes - (violations * 2)) / total) * 100
-  return Math.max(0, Math.min(100, score))
-}
-
-function getPassingScore(level: string): number {
-  switch (level) {
-    case 'A': return 70
-    case 'AA': return 85
-    case 'AAA': return 95
-    default: return 85
+// Submitted HTML is kept only as an excerpt; URLs and storybooks can be checked again
+function checkSubject(content: AccessibilityCheckRequest['content'], type: AccessibilityTestOptions['checkType']): AccessibilityCheckSubject {
+  if (typeof content === 'string' || type === 'html') {
+    const html = typeof content === 'string' ? content : content.html || ''
+    return { type: 'html', excerpt: html.substring(0, 1000) }
   }
+  return type === 'url'
+    ? { type, url: content.url }
+    : { type, storybookId: content.storybookId, locale: content.locale }
 }
 
 function formatViolation(violation: any): AccessibilityViolation {
@@ -322,6 +340,7 @@ function formatViolation(violation: any): AccessibilityViolation {
     help: violation.help,
     helpUrl: violation.helpUrl,
     tags: violation.tags,
+    criteria: criteriaForTags(violation.tags).map(criterion => criterion.number),
     nodes: violation.nodes.map((node: any) => ({
       selector: node.target.join(' '),
       html: node.html,
@@ -336,9 +355,17 @@ function formatWarning(warning: any): AccessibilityWarning {
     id: warning.id,
     description: warning.description,
     recommendation: warning.recommendation,
+    criteria: [criterionForGuideline(warning.guideline || '')?.number].filter((number): number is string => !!number),
     nodes: warning.nodes.map((node: any) => ({
       selector: node.selector,
       html: node.html
     }))
   }
 }
+
+function formatIssue(issue: AccessibilityIssue): AccessibilityIssueResult {
+  return {
+    ...issue,
+    criteria: [criterionForGuideline(issue.guideline)?.number].filter((number): number is string => !!number)
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  AccessibilityRepair,
+  AccessibilityService,
+  applyRepairs,
+  AxeResults,
+  complianceScore,
+  diffLines,
+  passingScore,
+  RepairChoice,
+  serializeHtml,
+  validateCheckSettings
+} from '@/lib/accessibility'
+import { errorResponse } from '@/lib/api-errors'
+
+interface AccessibilityRepairRequest {
+  html: string
+  // Repair ids from a check of the same page, or { id, value } to replace a suggested value
+  // (real alt text instead of the file name, say). Defaults to every automatic repair.
+  repairs?: (string | RepairChoice)[]
+  level?: 'A' | 'AA' | 'AAA'
+  guidelines?: string[]
+  language?: string // for a page without a valid lang attribute
+}
+
+interface ComplianceSummary {
+  score: number
+  passed: boolean
+  violations: number
+  passes: number
+  incomplete: number
+}
+
+interface AccessibilityRepairResponse {
+  success: boolean
+  level: string
+  before: ComplianceSummary
+  after: ComplianceSummary
+  applied: string[]
+  skipped: { id: string; reason: string }[]
+  fixed: string[] // axe rules that no longer fail
+  remaining: string[] // and those that still do
+  repairs: AccessibilityRepair[] // every repair that was available for the submitted page
+  html: string
+  diff: string // unified diff from the submitted page to the repaired one
+  processingTime: number
+  error?: string
+}
+
+// Applies chosen repairs to a page and checks it again
+export async function POST(request: NextRequest) {
+  try {
+    const body: AccessibilityRepairRequest = await request.json()
+    const { html, level = 'AA', guidelines = [], language } = body
+
+    if (typeof html !== 'string' || !html.trim()) {
+      return NextResponse.json({
+        success: false,
+        error: 'html is required'
+      }, { status: 400 })
+    }
+
+    const settingsError = validateCheckSettings(level, guidelines)
+    if (settingsError) {
+      return NextResponse.json({
+        success: false,
+        error: settingsError
+      }, { status: 400 })
+    }
+
+    const choices = Array.isArray(body.repairs)
+      ? body.repairs.map(choice => typeof choice === 'string' ? { id: choice } : choice)
+      : undefined
+    const invalidChoice = (choice: RepairChoice) =>
+      typeof choice?.id !== 'string' || (choice.value !== undefined && typeof choice.value !== 'string')
+    if (body.repairs !== undefined && (!choices || choices.some(invalidChoice))) {
+      return NextResponse.json({
+        success: false,
+        error: 'repairs must be repair ids or { id, value } objects'
+      }, { status: 400 })
+    }
+
+    const startTime = Date.now()
+    const accessibilityService = new AccessibilityService()
+    const testOptions = { level, tags: guidelines, checkType: 'html' as const }
+
+    const before = await accessibilityService.runAxeTests(html, testOptions)
+    const repairs = await accessibilityService.generateRepairs(before.violations, html, { language })
+    const chosen = choices ?? repairs.filter(repair => repair.type === 'automatic').map(repair => ({ id: repair.id }))
+
+    const result = applyRepairs(html, repairs, chosen)
+    const after = await accessibilityService.runAxeTests(result.html, testOptions)
+
+    const stillFailing = new Set(after.violations.map(violation => violation.id))
+    const response: AccessibilityRepairResponse = {
+      success: true,
+      level,
+      before: summarize(before, level),
+      after: summarize(after, level),
+      applied: result.applied,
+      skipped: result.skipped,
+      fixed: before.violations.map(violation => violation.id).filter(id => !stillFailing.has(id)),
+      remaining: [...stillFailing],
+      repairs,
+      html: result.html,
+      diff: diffLines(serializeHtml(html), result.html),
+      processingTime: Date.now() - startTime
+    }
+
+    return NextResponse.json(response)
+
+  } catch (error) {
+    console.error('Accessibility repair error:', error)
+    return errorResponse(error, 'Failed to repair content')
+  }
+}
+
+function summarize(results: AxeResults, level: string): ComplianceSummary {
+  const score = complianceScore(results)
+  return {
+    score,
+    passed: score >= passingScore(level),
+    violations: results.violations.length,
+    passes: results.passes.length,
+    incomplete: results.incomplete.length
+  }
+}
@@ -0,0 +1,22 @@
+import path from 'path'
+import { NextRequest, NextResponse } from 'next/server'
+import { fileResponse } from '@/lib/file-response'
+import { getAudioDirectory } from '@/lib/tts'
+
+interface RouteContext {
+  params: Promise<{ file: string }>
+}
+
+// Narration tracks written by the text-to-speech step of video generation
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { file } = await params
+
+  if (!/^[\w-]+\.wav$/.test(file)) {
+    return NextResponse.json({
+      success: false,
+      error: 'File not found'
+    }, { status: 404 })
+  }
+
+  return fileResponse(request, path.join(getAudioDirectory(), file), 'audio/wav')
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { agentOrchestrator, AgentStatus as OrchestratorAgentStatus } from '@/lib/agents/agent-orchestrator'
 
 interface HealthCheckResponse {
   status: 'healthy' | 'degraded' | 'unhealthy'
@@ -40,6 +41,13 @@ interface AgentStatus {
   error?: string
 }
 
+const AGENT_STATUS: Record<OrchestratorAgentStatus, AgentStatus['status']> = {
+  busy: 'active',
+  idle: 'idle',
+  error: 'error',
+  offline: 'disabled'
+}
+
 interface DatabaseStatus {
   status: 'connected' | 'disconnected' | 'error'
   responseTime: number
@@ -230,42 +238,29 @@ async function checkCoreServices(): Promise<{ [key: string]: ServiceStatus }> {
 
 async function checkAgents(): Promise<{ [key: string]: AgentStatus }> {
   const agents: { [key: string]: AgentStatus } = {}
+  const checkStart = Date.now()
 
-  // Mock agent checks (in production, these would be real agent health checks)
-  const agentTypes = [
-    'tambo-mcp-router',
-    'n8n-analyzer',
-    'openai-content',
-    'wan22-video',
-    'accessibility',
-    'quality-assurance'
-  ]
+  try {
+    const status = agentOrchestrator.getStatus()
 
-  for (const agentType of agentTypes) {
-    const checkStart = Date.now()
-    
-    try {
-      // TODO: Replace with actual agent health check
-      // const agentHealth = await AgentOrchestrator.checkAgentHealth(agentType)
-      
-      // Mock successful agent check
-      agents[agentType] = {
-        status: 'active',
+    for (const agent of status.agents) {
+      agents[agent.id] = {
+        status: AGENT_STATUS[agent.status],
         responseTime: Date.now() - checkStart,
-        successRate: Math.random() * 20 + 80, // 80-100%
-        queueSize: Math.floor(Math.random() * 10),
-        lastActivity: new Date(Date.now() - Math.random() * 60000).toISOString()
-      }
-    } catch (error) {
-      agents[agentType] = {
-        status: 'error',
-        responseTime: Date.now() - checkStart,
-        successRate: 0,
-        queueSize: 0,
-        lastActivity: new Date().toISOString(),
-        error: error instanceof Error ? error.message : 'Agent check failed'
+        successRate: Math.round(agent.healthScore),
+        queueSize: status.queueLength,
+        lastActivity: agent.lastActivity.toISOString()
       }
     }
+  } catch (error) {
+    agents.orchestrator = {
+      status: 'error',
+      responseTime: Date.now() - checkStart,
+      successRate: 0,
+      queueSize: 0,
+      lastActivity: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Agent check failed'
+    }
   }
 
   return agents
@@ -362,7 +357,7 @@ function calculateOverallStatus(
   // Check agents
   for (const agent of Object.values(agents)) {
     totalCount++
-    if (agent.status === 'active') healthyCount++
+    if (agent.status === 'active' || agent.status === 'idle') healthyCount++
   }
 
   // Check database
@@ -383,9 +378,8 @@ function calculateOverallStatus(
 }
 
 async function performDetailedAgentCheck() {
-  // TODO: Implement detailed agent diagnostics
   return {
-    message: 'Detailed agent check not yet implemented',
+    ...agentOrchestrator.getStatus(),
     timestamp: new Date().toISOString()
   }
 }
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getJobQueue, Job, JOB_LIFECYCLE_EVENTS, JobQueueTaskEvent } from '@/lib/jobs'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Workers in other processes only show up through the store, so re-read it this often
+const STORE_POLL_INTERVAL_MS = 2000
+const HEARTBEAT_INTERVAL_MS = 15000
+
+/**
+ * Server-Sent Events stream of a job's progress:
+ *   event: job   job status, percent and current stage (sent on every change)
+ *   event: task  an orchestrator task was assigned, started, completed, failed or cancelled
+ *   event: end   the job completed or was dead-lettered; the stream closes after this
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const queue = getJobQueue()
+
+  const job = await queue.get(id)
+  if (!job) {
+    return NextResponse.json({
+      success: false,
+      error: 'Job not found'
+    }, { status: 404 })
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+      let lastVersion = ''
+
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk))
+      }
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+
+      // A store read still in flight when the client goes away must not touch the cancelled stream
+      const sendJob = (current: Job) => {
+        if (closed) return
+        const version = `${current.status}:${current.updatedAt}:${current.progress}`
+        if (version === lastVersion) return
+        lastVersion = version
+
+        send('job', toSnapshot(current))
+        if (current.status === 'completed' || current.status === 'dead') {
+          send('end', { status: current.status })
+          cleanup()
+          controller.close()
+        }
+      }
+
+      const onJob = (current: Job) => {
+        if (current.id === id) sendJob(current)
+      }
+      const onTask = (event: JobQueueTaskEvent) => {
+        if (event.jobId === id) send('task', event)
+      }
+
+      JOB_LIFECYCLE_EVENTS.forEach(eventName => queue.on(eventName, onJob))
+      queue.on('job:task', onTask)
+
+      const poll = setInterval(() => {
+        queue.get(id)
+          .then(current => current && sendJob(current))
+          .catch(error => console.error(`❌ Job stream poll failed for ${id}:`, error))
+      }, STORE_POLL_INTERVAL_MS)
+      const heartbeat = setInterval(() => write(': keep-alive\n\n'), HEARTBEAT_INTERVAL_MS)
+
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        clearInterval(poll)
+        clearInterval(heartbeat)
+        JOB_LIFECYCLE_EVENTS.forEach(eventName => queue.off(eventName, onJob))
+        queue.off('job:task', onTask)
+      }
+
+      request.signal.addEventListener('abort', () => cleanup())
+      sendJob(job)
+    },
+    cancel() {
+      // Marks the stream closed and stops the poll and heartbeat timers
+      cleanup()
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  })
+}
+
+function toSnapshot(job: Job) {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    progress: job.progress,
+    stage: job.stage,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    lastError: job.lastError,
+    result: job.result,
+    updatedAt: job.updatedAt
+  }
+}
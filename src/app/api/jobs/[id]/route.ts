@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getJobQueue } from '@/lib/jobs'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    const job = await getJobQueue().get(id)
+    if (!job) {
+      return NextResponse.json({
+        success: false,
+        error: 'Job not found'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, job })
+  } catch (error) {
+    console.error('Get job error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to retrieve job'
+    }, { status: 500 })
+  }
+}
+
+// Requeue a dead-lettered job
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    const job = await getJobQueue().retry(id)
+    if (!job) {
+      return NextResponse.json({
+        success: false,
+        error: 'Only dead-lettered jobs can be retried'
+      }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: true, job }, { status: 202 })
+  } catch (error) {
+    console.error('Retry job error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to retry job'
+    }, { status: 500 })
+  }
+}
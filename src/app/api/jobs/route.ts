@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getJobQueue, JobStatus, JobType } from '@/lib/jobs'
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'completed', 'dead']
+const JOB_TYPES: JobType[] = ['storybook', 'video']
+
+// List jobs; ?status=dead shows the dead-letter queue
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const status = searchParams.get('status') as JobStatus | null
+  const type = searchParams.get('type') as JobType | null
+  const limit = Number(searchParams.get('limit')) || 50
+
+  if (status && !JOB_STATUSES.includes(status)) {
+    return NextResponse.json({
+      success: false,
+      error: `Unknown job status: ${status}`
+    }, { status: 400 })
+  }
+  if (type && !JOB_TYPES.includes(type)) {
+    return NextResponse.json({
+      success: false,
+      error: `Unknown job type: ${type}`
+    }, { status: 400 })
+  }
+
+  try {
+    const jobs = await getJobQueue().list({
+      status: status || undefined,
+      type: type || undefined,
+      limit
+    })
+
+    return NextResponse.json({ success: true, jobs })
+  } catch (error) {
+    console.error('List jobs error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to list jobs'
+    }, { status: 500 })
+  }
+}
@@ -1,108 +1,50 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { AgentOrchestrator } from '@/lib/agent-orchestrator'
+import { assertThemeContrast } from '@/lib/accessibility'
+import { errorResponse } from '@/lib/api-errors'
+import type { EducationalContent, N8NWorkflow } from '@/lib/agents/n8n-workflow-analyzer'
+import { startJobWorker } from '@/lib/jobs'
+import { PlayerThemeSetting, playerThemesFor, validatePlayerThemeSetting } from '@/lib/player-theme'
+import { getStorybookRepository, StorybookRecord } from '@/lib/storage'
+import {
+  DEFAULT_GENERATION_OPTIONS,
+  GenerationOptions,
+  StorybookFormat,
+  StorybookGenerationRequest
+} from '@/lib/storybook-generation'
+import { normalizeLocale, TextDirection, textDirection } from '@/lib/translation'
+import { getUsageMeter, tenantIdFromRequest } from '@/lib/usage'
 
 interface GenerationRequest {
-  workflowId: string
-  options: {
-    accessibilityLevel: 'AA' | 'AAA'
-    targetAudience: 'beginner' | 'intermediate' | 'advanced'
-    includeVideo: boolean
-    includeQuizzes: boolean
-    includeInteractiveElements: boolean
-    customizations?: {
-      theme?: 'light' | 'dark' | 'auto'
-      language?: string
-      voiceNarration?: boolean
-    }
-  }
-  format: 'web' | 'pdf' | 'video' | 'all'
+  workflowId?: string
+  workflow: N8NWorkflow
+  userId?: string
+  tenantId?: string
+  options?: Partial<GenerationOptions>
+  format?: StorybookFormat
 }
 
 interface GenerationResponse {
   success: boolean
+  jobId: string
   storybookId: string
-  storybook: {
-    id: string
-    title: string
-    description: string
-    chapters: Chapter[]
-    metadata: {
-      estimatedDuration: number
-      difficulty: string
-      learningObjectives: string[]
-      prerequisites: string[]
-    }
-    accessibility: {
-      level: string
-      features: string[]
-      complianceScore: number
-    }
-  }
-  generationTime: number
-  urls: {
-    interactive?: string
-    pdf?: string
-    video?: string
-  }
+  status: 'queued'
+  statusUrl: string
   error?: string
 }
 
-interface Chapter {
-  id: string
-  title: string
-  description: string
-  content: ChapterContent[]
-  duration: number
-  interactiveElements: InteractiveElement[]
-  quiz?: Quiz
-}
-
-interface ChapterContent {
-  type: 'text' | 'image' | 'code' | 'video' | 'interactive'
-  content: string
-  metadata: {
-    altText?: string
-    transcript?: string
-    codeLanguage?: string
-  }
-}
-
-interface InteractiveElement {
-  id: string
-  type: 'button' | 'input' | 'drag-drop' | 'simulation'
-  config: any
-  accessibility: {
-    ariaLabel: string
-    keyboardSupport: boolean
-    screenReaderInstructions: string
-  }
-}
-
-interface Quiz {
-  id: string
-  questions: Question[]
-  passingScore: number
-}
-
-interface Question {
-  id: string
-  type: 'multiple-choice' | 'true-false' | 'fill-blank' | 'drag-drop'
-  question: string
-  options?: string[]
-  correctAnswer: string | string[]
-  explanation: string
-  accessibility: {
-    screenReaderText: string
-    keyboardNavigation: boolean
-  }
-}
-
 export async function POST(request: NextRequest) {
   try {
     const body: GenerationRequest = await request.json()
-    const { workflowId, options, format } = body
+    const { workflow, format = 'web' } = body
+    const workflowId = body.workflowId || workflow?.id
 
     // Validate request
+    if (!workflow || !Array.isArray(workflow.nodes)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Workflow definition with a nodes array is required'
+      }, { status: 400 })
+    }
     if (!workflowId) {
       return NextResponse.json({
         success: false,
@@ -110,183 +52,60 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    const startTime = Date.now()
-    const orchestrator = new AgentOrchestrator()
-    
-    // Initialize agents
-    await orchestrator.initializeAgents()
-
-    // Generate unique storybook ID
-    const storybookId = `sb_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-
-    // Step 1: Analyze workflow with N8N Analyzer Agent
-    console.log('🔍 Analyzing workflow...')
-    const workflowAnalysis = await orchestrator.routeRequest({
-      type: 'workflow-analysis',
-      agentType: 'n8n-analyzer',
-      payload: {
-        workflowId,
-        options: {
-          depth: 'comprehensive',
-          includeComplexityAnalysis: true,
-          generateLearningPath: true
-        }
-      }
-    })
-
-    if (!workflowAnalysis.success) {
-      throw new Error(`Workflow analysis failed: ${workflowAnalysis.error}`)
-    }
-
-    // Step 2: Generate content with OpenAI Agent
-    console.log('✍️ Generating educational content...')
-    const contentGeneration = await orchestrator.routeRequest({
-      type: 'content-generation',
-      agentType: 'openai-content',
-      payload: {
-        workflowAnalysis: workflowAnalysis.data,
-        options: {
-          targetAudience: options.targetAudience,
-          includeQuizzes: options.includeQuizzes,
-          includeInteractiveElements: options.includeInteractiveElements,
-          accessibilityLevel: options.accessibilityLevel,
-          language: options.customizations?.language || 'en'
-        }
-      }
-    })
-
-    if (!contentGeneration.success) {
-      throw new Error(`Content generation failed: ${contentGeneration.error}`)
-    }
-
-    // Step 3: Enhance accessibility with Accessibility Agent
-    console.log('♿ Enhancing accessibility...')
-    const accessibilityEnhancement = await orchestrator.routeRequest({
-      type: 'accessibility-enhancement',
-      agentType: 'accessibility',
-      payload: {
-        content: contentGeneration.data,
-        level: options.accessibilityLevel,
-        requirements: {
-          screenReader: true,
-          keyboardNavigation: true,
-          colorContrast: true,
-          textAlternatives: true
-        }
-      }
-    })
-
-    if (!accessibilityEnhancement.success) {
-      throw new Error(`Accessibility enhancement failed: ${accessibilityEnhancement.error}`)
+    const { language, locales } = body.options?.customizations || {}
+    const invalidLocale = [language, ...(Array.isArray(locales) ? locales : [])]
+      .find(locale => locale !== undefined && (typeof locale !== 'string' || !normalizeLocale(locale)))
+    if (invalidLocale !== undefined || (locales !== undefined && !Array.isArray(locales))) {
+      return NextResponse.json({
+        success: false,
+        error: 'customizations.language and customizations.locales must be locale codes such as "es" or "pt-BR"'
+      }, { status: 400 })
     }
 
-    // Step 4: Generate video if requested
-    let videoGeneration: any = null
-    if (options.includeVideo) {
-      console.log('🎥 Generating educational video...')
-      videoGeneration = await orchestrator.routeRequest({
-        type: 'video-generation',
-        agentType: 'wan22-video',
-        payload: {
-          storybook: accessibilityEnhancement.data,
-          options: {
-            resolution: '1080p',
-            voiceNarration: options.customizations?.voiceNarration || false,
-            subtitles: true,
-            chapters: true
-          }
-        }
-      })
+    const themeError = validatePlayerThemeSetting(body.options?.customizations?.theme)
+    if (themeError) {
+      return NextResponse.json({
+        success: false,
+        error: themeError
+      }, { status: 400 })
     }
 
-    // Step 5: Quality assurance check
-    console.log('✅ Running quality assurance...')
-    const qualityCheck = await orchestrator.routeRequest({
-      type: 'quality-assurance',
-      agentType: 'quality',
-      payload: {
-        storybook: accessibilityEnhancement.data,
-        video: videoGeneration?.data,
-        requirements: {
-          technicalAccuracy: true,
-          educationalEffectiveness: true,
-          accessibilityCompliance: true,
-          userExperience: true
-        }
-      }
-    })
+    // A theme that fails contrast would fail the job; say so now instead
+    const options = { ...DEFAULT_GENERATION_OPTIONS, ...body.options }
+    assertThemeContrast(playerThemesFor(options.customizations?.theme), options.accessibilityLevel)
 
-    // Build final storybook structure
-    const storybook = {
-      id: storybookId,
-      title: workflowAnalysis.data.workflow.name || 'Interactive N8N Workflow Tutorial',
-      description: workflowAnalysis.data.summary || 'Learn this N8N workflow step by step',
-      chapters: contentGeneration.data.chapters.map((chapter: any, index: number) => ({
-        id: `chapter_${index + 1}`,
-        title: chapter.title,
-        description: chapter.description,
-        content: chapter.content,
-        duration: chapter.estimatedDuration || 5,
-        interactiveElements: chapter.interactiveElements || [],
-        quiz: chapter.quiz || null
-      })),
-      metadata: {
-        estimatedDuration: contentGeneration.data.totalDuration || 15,
-        difficulty: workflowAnalysis.data.complexity?.level || 'medium',
-        learningObjectives: workflowAnalysis.data.learningObjectives || [],
-        prerequisites: workflowAnalysis.data.prerequisites || []
-      },
-      accessibility: {
-        level: options.accessibilityLevel,
-        features: accessibilityEnhancement.data.features || [],
-        complianceScore: accessibilityEnhancement.data.score || 95
-      }
-    }
+    // Refuse up front when the tenant has already spent its budget
+    const tenantId = tenantIdFromRequest(request, body.tenantId)
+    await getUsageMeter().assertWithinBudget({ tenantId })
 
-    // Generate URLs for different formats
-    const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000'
-    const urls = {
-      interactive: `${baseUrl}/storybook/${storybookId}`,
-      ...(format === 'pdf' || format === 'all') && {
-        pdf: `${baseUrl}/api/storybook/${storybookId}/export/pdf`
-      },
-      ...(videoGeneration?.success && (format === 'video' || format === 'all')) && {
-        video: videoGeneration.data.videoUrl
-      }
-    }
+    // Generate unique storybook ID up front so the client knows where the result will land
+    const storybookId = `sb_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 
-    // Store storybook (in production, this would go to database)
-    const storybookRecord = {
-      id: storybookId,
+    // Generation runs on the job worker; the client polls the job for progress and the result
+    const job = await startJobWorker().enqueue<StorybookGenerationRequest>('storybook', {
+      storybookId,
       workflowId,
-      storybook,
+      workflow,
+      userId: body.userId,
+      tenantId,
       options,
-      createdAt: new Date().toISOString(),
-      generationTime: Date.now() - startTime,
-      status: 'completed'
-    }
-
-    // TODO: Store in database
-    // await database.storybooks.create(storybookRecord)
-
-    const generationTime = Date.now() - startTime
+      format
+    })
+    console.log(`🧭 Queued storybook generation ${job.id} for ${workflowId}`)
 
     const response: GenerationResponse = {
       success: true,
+      jobId: job.id,
       storybookId,
-      storybook,
-      generationTime,
-      urls
+      status: 'queued',
+      statusUrl: `/api/jobs/${job.id}`
     }
 
-    return NextResponse.json(response)
+    return NextResponse.json(response, { status: 202 })
 
   } catch (error) {
     console.error('Storybook generation error:', error)
-    return NextResponse.json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to generate storybook'
-    }, { status: 500 })
+    return errorResponse(error, 'Failed to queue storybook generation')
   }
 }
 
@@ -302,26 +121,60 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    // TODO: Fetch from database
-    // const storybook = await database.storybooks.findById(storybookId)
-    
-    // Mock response for now
+    const repository = getStorybookRepository()
+    const record = await repository.getStorybook(storybookId)
+
+    if (!record) {
+      return NextResponse.json({
+        success: false,
+        error: 'Storybook not found'
+      }, { status: 404 })
+    }
+
+    const requested = searchParams.get('locale')
+    const locale = requested ? normalizeLocale(requested) : defaultLocale(record)
+    const sourceLocale = record.locale || 'en'
+    const translation = locale && locale !== sourceLocale ? record.translations?.[locale] : undefined
+    const available = [sourceLocale, ...Object.keys(record.translations || {})]
+
+    if (!locale || (locale !== sourceLocale && !translation)) {
+      return NextResponse.json({
+        success: false,
+        error: `This storybook has no "${requested}" translation`,
+        locales: available
+      }, { status: 404 })
+    }
+
+    const userId = searchParams.get('userId')
+    const progress = userId ? await repository.getProgress(storybookId, userId) : null
+    const content = translation?.content || record.content
+    const theme = storedTheme(record)
+
+    // Every other language's content too, so the player can switch without another request
+    const translations: Record<string, { content: EducationalContent; direction: TextDirection }> = {}
+    for (const other of available) {
+      const otherContent = other === sourceLocale ? record.content : record.translations?.[other]?.content
+      if (other !== locale && otherContent) {
+        translations[other] = { content: otherContent, direction: textDirection(other) }
+      }
+    }
+
     return NextResponse.json({
       success: true,
       storybook: {
-        id: storybookId,
-        title: 'Sample Interactive Storybook',
-        status: 'completed',
-        createdAt: new Date().toISOString(),
-        chapters: [
-          {
-            id: 'chapter_1',
-            title: 'Introduction to N8N Workflows',
-            description: 'Learn the basics of N8N automation',
-            duration: 5
-          }
-        ]
-      }
+        ...(translation?.storybook || record.storybook),
+        workflowId: record.workflowId,
+        status: record.status,
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt
+      },
+      ...(content && { content }),
+      locale,
+      direction: textDirection(locale),
+      locales: available,
+      translations,
+      ...(theme && { theme }),
+      ...(userId && { progress })
     })
   } catch (error) {
     console.error('Get storybook error:', error)
@@ -336,7 +189,7 @@ export async function GET(request: NextRequest) {
 export async function PATCH(request: NextRequest) {
   try {
     const body = await request.json()
-    const { storybookId, progress, completedChapters, userAnswers } = body
+    const { storybookId, userId = 'anonymous', progress, completedChapters, userAnswers } = body
 
     if (!storybookId) {
       return NextResponse.json({
@@ -345,17 +198,32 @@ export async function PATCH(request: NextRequest) {
       }, { status: 400 })
     }
 
-    // TODO: Update progress in database
-    // await database.storybooks.updateProgress(storybookId, {
-    //   progress,
-    //   completedChapters,
-    //   userAnswers,
-    //   lastUpdated: new Date()
-    // })
+    const repository = getStorybookRepository()
+    const record = await repository.getStorybook(storybookId)
+    if (!record) {
+      return NextResponse.json({
+        success: false,
+        error: 'Storybook not found'
+      }, { status: 404 })
+    }
+
+    // Merge with existing progress so partial updates don't wipe earlier answers
+    const existing = await repository.getProgress(storybookId, userId)
+    const saved = await repository.saveProgress({
+      storybookId,
+      userId,
+      progress: typeof progress === 'number' ? progress : existing?.progress ?? 0,
+      completedChapters: Array.isArray(completedChapters)
+        ? completedChapters
+        : existing?.completedChapters ?? [],
+      userAnswers: { ...existing?.userAnswers, ...userAnswers },
+      lastUpdated: new Date().toISOString()
+    })
 
     return NextResponse.json({
       success: true,
-      message: 'Progress updated successfully'
+      message: 'Progress updated successfully',
+      progress: saved
     })
 
   } catch (error) {
@@ -366,3 +234,14 @@ export async function PATCH(request: NextRequest) {
     }, { status: 500 })
   }
 }
+
+// The language the storybook was requested in, when it has been translated into it
+function defaultLocale(record: StorybookRecord): string {
+  const customizations = (record.options.customizations || {}) as { language?: string }
+  const language = customizations.language && normalizeLocale(customizations.language)
+  return language && record.translations?.[language] ? language : record.locale || 'en'
+}
+
+function storedTheme(record: StorybookRecord): PlayerThemeSetting | undefined {
+  return (record.options.customizations as { theme?: PlayerThemeSetting } | undefined)?.theme
+}
@@ -0,0 +1,23 @@
+import path from 'path'
+import { NextRequest, NextResponse } from 'next/server'
+import { fileResponse } from '@/lib/file-response'
+import { getSubtitleDirectory, SUBTITLE_CONTENT_TYPES, SubtitleFormat } from '@/lib/subtitles'
+
+interface RouteContext {
+  params: Promise<{ file: string }>
+}
+
+// Subtitle tracks written by video generation, in each export format
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { file } = await params
+  const match = /^[\w-]+\.(vtt|srt|ttml)$/.exec(file)
+
+  if (!match) {
+    return NextResponse.json({
+      success: false,
+      error: 'File not found'
+    }, { status: 404 })
+  }
+
+  return fileResponse(request, path.join(getSubtitleDirectory(), file), SUBTITLE_CONTENT_TYPES[match[1] as SubtitleFormat])
+}
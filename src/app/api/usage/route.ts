@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { errorResponse } from '@/lib/api-errors'
+import { getUsageMeter, UsageFilter } from '@/lib/usage'
+
+// Metered LLM tokens, GPU-seconds and cost, broken down by agent, task type and storybook.
+// Filter with ?tenantId=, ?jobId=, ?storybookId= and an ISO ?since= / ?until= window.
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const tenantId = searchParams.get('tenantId') || request.headers.get('x-tenant-id') || undefined
+  const filter: UsageFilter = {
+    tenantId,
+    jobId: searchParams.get('jobId') || undefined,
+    storybookId: searchParams.get('storybookId') || undefined,
+    since: searchParams.get('since') || undefined,
+    until: searchParams.get('until') || undefined
+  }
+
+  for (const key of ['since', 'until'] as const) {
+    const value = filter[key]
+    if (value && Number.isNaN(Date.parse(value))) {
+      return NextResponse.json({
+        success: false,
+        error: `${key} must be an ISO date`
+      }, { status: 400 })
+    }
+    // Entries are compared as ISO strings, so normalise whatever date format came in
+    if (value) filter[key] = new Date(value).toISOString()
+  }
+
+  try {
+    const meter = getUsageMeter()
+    const report = await meter.report(filter)
+
+    return NextResponse.json({
+      success: true,
+      ...report,
+      ...(tenantId && {
+        budgets: { job: meter.budgets.job, tenant: meter.budgets.tenant(tenantId) }
+      })
+    })
+  } catch (error) {
+    console.error('Usage report error:', error)
+    return errorResponse(error, 'Failed to build usage report')
+  }
+}
@@ -0,0 +1,36 @@
+import path from 'path'
+import { NextRequest, NextResponse } from 'next/server'
+import { fileResponse } from '@/lib/file-response'
+import { SUBTITLE_CONTENT_TYPES } from '@/lib/subtitles'
+import { getVideoOutputDirectory } from '@/lib/video-render'
+
+interface RouteContext {
+  params: Promise<{ id: string; file: string }>
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.jpg': 'image/jpeg',
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+  '.vtt': SUBTITLE_CONTENT_TYPES.vtt,
+  '.srt': SUBTITLE_CONTENT_TYPES.srt,
+  '.ttml': SUBTITLE_CONTENT_TYPES.ttml,
+  '.txt': 'text/plain; charset=utf-8'
+}
+
+// Serves what the local renderer wrote for a video
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id, file } = await params
+  const contentType = CONTENT_TYPES[path.extname(file)]
+
+  // Plain names only; nothing outside the video's own directory
+  if (!/^[\w-]+$/.test(id) || !/^[\w.-]+$/.test(file) || file.startsWith('.') || !contentType) {
+    return NextResponse.json({
+      success: false,
+      error: 'File not found'
+    }, { status: 404 })
+  }
+
+  return fileResponse(request, path.join(getVideoOutputDirectory(), id, file), contentType)
+}
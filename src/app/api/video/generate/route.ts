@@ -1,44 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { errorResponse } from '@/lib/api-errors'
+import { getJobQueue, Job, JobStatus, startJobWorker, VideoJobPayload, VideoJobResult } from '@/lib/jobs'
 import { VideoGenerationService } from '@/lib/video-generation'
-
-interface VideoGenerationRequest {
-  storybookId: string
-  options: {
-    resolution: '720p' | '1080p' | '4k'
-    duration: number
-    voiceNarration: boolean
-    subtitles: boolean
-    language: string
-    style: 'modern' | 'classic' | 'minimalist'
-    accessibility: {
-      audioDescriptions: boolean
-      closedCaptions: boolean
-      highContrast: boolean
-    }
-  }
-  runpodConfig?: {
-    gpu_type: 'RTX_4090' | 'A100' | 'V100'
-    timeout: number
-    priority: 'low' | 'normal' | 'high'
-  }
-}
+import { getStorybookRepository } from '@/lib/storage'
+import { getUsageMeter, tenantIdFromRequest } from '@/lib/usage'
+import { isRunPodConfigured, VideoRendition } from '@/lib/runpod'
+import { isVideoProfileId, VIDEO_PROFILE_IDS, VideoRenderer } from '@/lib/video-render'
 
 interface VideoGenerationResponse {
   success: boolean
   videoId: string
+  jobId?: string
   status: 'queued' | 'processing' | 'completed' | 'failed'
+  renderer?: VideoRenderer
   video?: {
     id: string
     url: string
-    duration: number
-    resolution: string
-    fileSize: number
-    format: string
+    duration?: number
+    resolution?: string
+    fileSize?: number
+    format?: string
+    thumbnailUrl?: string
     accessibility: {
       subtitlesUrl?: string
       audioDescriptionUrl?: string
       transcriptUrl?: string
     }
+    renditions?: VideoRendition[]
   }
   processingTime?: number
   estimatedCompletion?: string
@@ -53,12 +41,24 @@ interface VideoStatusResponse {
   progress: number
   currentStage: string
   estimatedTimeRemaining?: number
+  renderer?: VideoRenderer
+  runpodJobId?: string
+  video?: VideoGenerationResponse['video']
   error?: string
 }
 
+const RENDERERS: VideoRenderer[] = ['runpod', 'local']
+
+const VIDEO_STATUS: Record<JobStatus, VideoStatusResponse['status']> = {
+  queued: 'queued',
+  running: 'processing',
+  completed: 'completed',
+  dead: 'failed'
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const body: VideoGenerationRequest = await request.json()
+    const body: Omit<VideoJobPayload, 'videoId'> = await request.json()
     const { storybookId, options, runpodConfig } = body
 
     // Validate request
@@ -69,14 +69,30 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    const videoService = new VideoGenerationService()
-    const videoId = `vid_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    const startTime = Date.now()
+    if (body.renderer && !RENDERERS.includes(body.renderer)) {
+      return NextResponse.json({
+        success: false,
+        error: `renderer must be one of: ${RENDERERS.join(', ')}`
+      }, { status: 400 })
+    }
+    if (options?.captions && !['sidecar', 'burned'].includes(options.captions)) {
+      return NextResponse.json({
+        success: false,
+        error: 'options.captions must be "sidecar" or "burned"'
+      }, { status: 400 })
+    }
 
-    console.log('🎥 Starting video generation process...')
+    if (options?.profiles !== undefined &&
+      (!Array.isArray(options.profiles) || !options.profiles.every(isVideoProfileId))) {
+      return NextResponse.json({
+        success: false,
+        error: `options.profiles must list profiles from: ${VIDEO_PROFILE_IDS.join(', ')}`
+      }, { status: 400 })
+    }
+
+    // Without RunPod credentials the local ffmpeg renderer is the only one that can work
+    const renderer = body.renderer || (isRunPodConfigured() ? 'runpod' : 'local')
 
-    // Step 1: Fetch storybook data
-    console.log('📖 Fetching storybook data...')
     const storybook = await fetchStorybookData(storybookId)
     if (!storybook) {
       return NextResponse.json({
@@ -85,92 +101,36 @@ export async function POST(request: NextRequest) {
       }, { status: 404 })
     }
 
-    // Step 2: Generate video script
-    console.log('📝 Generating video script...')
-    const videoScript = await videoService.generateScript(storybook, options)
-    
-    // Step 3: Generate audio narration if requested
-    let audioTrack = null
-    if (options.voiceNarration) {
-      console.log('🔊 Generating audio narration...')
-      audioTrack = await videoService.synthesizeAudio(videoScript.narration, {
-        language: options.language || 'en',
-        voice: 'neural',
-        speed: 'normal'
-      })
-    }
-
-    // Step 4: Generate subtitles
-    let subtitleTracks = []
-    if (options.subtitles && audioTrack) {
-      console.log('📝 Generating subtitles...')
-      subtitleTracks = await videoService.generateSubtitles(audioTrack, {
-        language: options.language || 'en',
-        includeTimestamps: true,
-        accessibility: options.accessibility.closedCaptions
-      })
-    }
-
-    // Step 5: Set up RunPod configuration
-    const runpodJobConfig = {
-      gpu_type: runpodConfig?.gpu_type || 'RTX_4090',
-      timeout: runpodConfig?.timeout || 300000, // 5 minutes
-      priority: runpodConfig?.priority || 'normal',
-      container: 'wan2.2-video-generation',
-      environment: {
-        RESOLUTION: options.resolution,
-        STYLE: options.style,
-        LANGUAGE: options.language,
-        ACCESSIBILITY_MODE: options.accessibility.highContrast ? 'true' : 'false'
-      }
-    }
+    // Refuse up front when the tenant has already spent its budget
+    const tenantId = tenantIdFromRequest(request, body.tenantId)
+    await getUsageMeter().assertWithinBudget({ tenantId })
 
-    // Step 6: Submit to RunPod for video generation
-    console.log('☁️ Submitting to RunPod GPU cloud...')
-    const runpodJob = await videoService.submitToRunPod({
-      script: videoScript,
-      audioTrack,
-      subtitles: subtitleTracks,
-      config: runpodJobConfig,
-      videoId
-    })
-
-    if (!runpodJob.success) {
-      throw new Error(`RunPod submission failed: ${runpodJob.error}`)
-    }
+    const videoId = `vid_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 
-    // Store video generation job (in production, this would go to database)
-    const videoRecord = {
-      id: videoId,
+    // Script, narration, subtitles and the RunPod submission run on the job worker
+    const job = await startJobWorker().enqueue<VideoJobPayload>('video', {
+      videoId,
       storybookId,
-      status: 'queued',
-      runpodJobId: runpodJob.jobId,
+      tenantId,
+      renderer,
       options,
-      script: videoScript,
-      createdAt: new Date().toISOString(),
-      estimatedCompletion: new Date(Date.now() + (runpodJobConfig.timeout || 300000)).toISOString()
-    }
-
-    // TODO: Store in database
-    // await database.videos.create(videoRecord)
+      runpodConfig
+    }, { id: videoId })
+    console.log(`🎥 Queued ${renderer} video generation ${job.id} for storybook ${storybookId}`)
 
-    // Return immediate response
     const response: VideoGenerationResponse = {
       success: true,
       videoId,
+      jobId: job.id,
       status: 'queued',
-      runpodJobId: runpodJob.jobId,
-      estimatedCompletion: videoRecord.estimatedCompletion
+      renderer
     }
 
-    return NextResponse.json(response)
+    return NextResponse.json(response, { status: 202 })
 
   } catch (error) {
     console.error('Video generation error:', error)
-    return NextResponse.json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Failed to start video generation'
-    }, { status: 500 })
+    return errorResponse(error, 'Failed to queue video generation')
   }
 }
 
@@ -186,52 +146,46 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const videoService = new VideoGenerationService()
-    
-    // TODO: Fetch from database
-    // const videoRecord = await database.videos.findById(videoId)
-    
-    // Mock video record for now
-    const videoRecord = {
-      id: videoId,
-      status: 'completed',
-      runpodJobId: 'runpod_123',
-      createdAt: new Date().toISOString()
+    const job = await getJobQueue().get(videoId) as Job<VideoJobPayload, VideoJobResult> | null
+    if (!job || job.type !== 'video') {
+      return NextResponse.json({
+        success: false,
+        error: 'Video not found'
+      }, { status: 404 })
     }
 
-    // Check RunPod job status
-    const runpodStatus = await videoService.checkRunPodStatus(videoRecord.runpodJobId)
-    
-    let response: VideoStatusResponse = {
+    const response: VideoStatusResponse = {
       success: true,
       videoId,
-      status: runpodStatus.status,
-      progress: runpodStatus.progress || 0,
-      currentStage: runpodStatus.currentStage || 'initializing'
+      status: VIDEO_STATUS[job.status],
+      progress: job.progress,
+      currentStage: job.stage || 'initializing',
+      renderer: job.payload.renderer || 'runpod',
+      runpodJobId: runpodJobIdOf(job)
     }
 
     // If completed, include video details
-    if (runpodStatus.status === 'completed' && runpodStatus.output) {
-      response = {
-        ...response,
-        video: {
-          id: videoId,
-          url: runpodStatus.output.videoUrl,
-          duration: runpodStatus.output.duration,
-          resolution: runpodStatus.output.resolution,
-          fileSize: runpodStatus.output.fileSize,
-          format: runpodStatus.output.format,
-          accessibility: {
-            subtitlesUrl: runpodStatus.output.subtitlesUrl,
-            audioDescriptionUrl: runpodStatus.output.audioDescriptionUrl,
-            transcriptUrl: runpodStatus.output.transcriptUrl
-          }
-        }
+    const output = job.result?.video
+    if (job.status === 'completed' && output) {
+      response.video = {
+        id: videoId,
+        url: output.videoUrl,
+        duration: output.duration,
+        resolution: output.resolution,
+        fileSize: output.fileSize,
+        format: output.format,
+        thumbnailUrl: output.thumbnailUrl,
+        accessibility: {
+          subtitlesUrl: output.subtitlesUrl,
+          audioDescriptionUrl: output.audioDescriptionUrl,
+          transcriptUrl: output.transcriptUrl
+        },
+        renditions: output.renditions
       }
     }
 
-    if (runpodStatus.status === 'failed') {
-      response.error = runpodStatus.error
+    if (job.status === 'dead') {
+      response.error = job.lastError
     }
 
     return NextResponse.json(response)
@@ -258,18 +212,35 @@ export async function DELETE(request: NextRequest) {
   }
 
   try {
-    const videoService = new VideoGenerationService()
-    
-    // TODO: Fetch from database
-    // const videoRecord = await database.videos.findById(videoId)
-    
-    // Cancel RunPod job
-    const cancellationResult = await videoService.cancelRunPodJob(videoId)
-    
+    const job = await getJobQueue().get(videoId)
+    if (!job || job.type !== 'video') {
+      return NextResponse.json({
+        success: false,
+        error: 'Video not found'
+      }, { status: 404 })
+    }
+
+    if ((job.payload as VideoJobPayload).renderer === 'local') {
+      return NextResponse.json({
+        success: false,
+        error: 'Local renders cannot be cancelled'
+      }, { status: 409 })
+    }
+
+    const runpodJobId = runpodJobIdOf(job)
+    if (job.status === 'completed' || job.status === 'dead' || !runpodJobId) {
+      return NextResponse.json({
+        success: false,
+        error: runpodJobId
+          ? `Video generation already ${VIDEO_STATUS[job.status]}`
+          : 'Video has not been submitted to RunPod yet'
+      }, { status: 409 })
+    }
+
+    // The worker waiting on the RunPod job sees it cancelled and dead-letters the video job
+    const cancellationResult = await new VideoGenerationService().cancelRunPodJob(runpodJobId)
+
     if (cancellationResult.success) {
-      // TODO: Update database
-      // await database.videos.update(videoId, { status: 'cancelled' })
-      
       return NextResponse.json({
         success: true,
         message: 'Video generation cancelled successfully'
@@ -278,7 +249,7 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({
         success: false,
         error: 'Failed to cancel video generation'
-      }, { status: 500 })
+      }, { status: 502 })
     }
 
   } catch (error) {
@@ -293,74 +264,14 @@ export async function DELETE(request: NextRequest) {
 // Helper function to fetch storybook data
 async function fetchStorybookData(storybookId: string) {
   try {
-    // TODO: Fetch from database
-    // return await database.storybooks.findById(storybookId)
-    
-    // Mock storybook data for now
-    return {
-      id: storybookId,
-      title: 'Sample Interactive Storybook',
-      description: 'Learn N8N workflows step by step',
-      chapters: [
-        {
-          id: 'chapter_1',
-          title: 'Introduction to N8N',
-          content: [
-            {
-              type: 'text',
-              content: 'Welcome to this N8N workflow tutorial...',
-              metadata: { duration: 30 }
-            },
-            {
-              type: 'code',
-              content: '{"nodes": [{"id": "1", "type": "webhook"}]}',
-              metadata: { duration: 45, codeLanguage: 'json' }
-            }
-          ],
-          duration: 75
-        }
-      ],
-      metadata: {
-        estimatedDuration: 300,
-        difficulty: 'beginner',
-        learningObjectives: ['Understand N8N basics', 'Create simple workflows']
-      }
-    }
+    const record = await getStorybookRepository().getStorybook(storybookId)
+    return record?.storybook ?? null
   } catch (error) {
     console.error('Error fetching storybook:', error)
     return null
   }
 }
 
-// Webhook endpoint for RunPod callbacks
-export async function PUT(request: NextRequest) {
-  try {
-    const body = await request.json()
-    const { jobId, status, output, error } = body
-
-    // Verify webhook signature (in production)
-    // const signature = request.headers.get('x-runpod-signature')
-    // if (!verifyWebhookSignature(signature, body)) {
-    //   return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
-    // }
-
-    // TODO: Update database with job status
-    // await database.videos.updateByRunPodJobId(jobId, {
-    //   status,
-    //   output,
-    //   error,
-    //   completedAt: status === 'completed' ? new Date() : null
-    // })
-
-    console.log(`📹 Video generation ${status} for job ${jobId}`)
-
-    return NextResponse.json({ success: true })
-
-  } catch (error) {
-    console.error('RunPod webhook error:', error)
-    return NextResponse.json({
-      success: false,
-      error: 'Failed to process webhook'
-    }, { status: 500 })
-  }
+function runpodJobIdOf(job: Job): string | undefined {
+  return typeof job.meta?.runpodJobId === 'string' ? job.meta.runpodJobId : undefined
 }
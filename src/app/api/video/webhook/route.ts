@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { receiveRunPodWebhook, RunPodJobState, verifyRunPodWebhook } from '@/lib/runpod'
+
+// RunPod POSTs the final job state here when a job is submitted with RUNPOD_WEBHOOK_URL set.
+// The worker waiting on that job checks its status with the RunPod API straight away; the body
+// itself only names the job.
+export async function POST(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  if (!verifyRunPodWebhook(searchParams.get('token'))) {
+    return NextResponse.json({
+      success: false,
+      error: 'Invalid webhook token'
+    }, { status: 401 })
+  }
+
+  try {
+    const body: RunPodJobState = await request.json()
+    if (!body?.id || !body.status) {
+      return NextResponse.json({
+        success: false,
+        error: 'Webhook body must include id and status'
+      }, { status: 400 })
+    }
+
+    const delivered = receiveRunPodWebhook(body.id)
+    console.log(`📹 RunPod job ${body.id} ${body.status}${delivered ? '' : ' (no worker waiting in this process)'}`)
+
+    return NextResponse.json({ success: true, delivered })
+
+  } catch (error) {
+    console.error('RunPod webhook error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to process webhook'
+    }, { status: 500 })
+  }
+}
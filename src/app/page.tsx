@@ -5,10 +5,17 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Upload, FileText, Video, Accessibility, Sparkles, ChevronRight, Github, Globe, Download } from 'lucide-react';
 import { InteractivePlayer } from '../components/storybook/InteractivePlayer';
 import { n8nIntegrationService } from '../services/n8n-integration';
-import { agentOrchestrator, WorkflowToStorybookRequest } from '../lib/agents/agent-orchestrator';
+import { GenerationProgressTracker, GenerationStage } from '../components/storybook/ProgressTracker';
 import { EducationalContent, N8NWorkflow } from '../lib/agents/n8n-workflow-analyzer';
+import { plannedStages, STAGE_LABELS } from '../lib/generation-stages';
+import type { Job, JobTaskEvent } from '../lib/jobs/types';
+import { SOURCE_LOCALE, TextDirection } from '../lib/translation/locales';
+import type { PlayerThemeSetting } from '../lib/player-theme';
+import type { GenerationOptions } from '../lib/storybook-generation';
 import { demoStorybook } from '../data/demo-storybook';
 
+type JobSnapshot = Pick<Job, 'id' | 'status' | 'progress' | 'stage' | 'attempts' | 'maxAttempts' | 'lastError'>;
+
 export default function HomePage() {
   // State management
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -16,7 +23,12 @@ export default function HomePage() {
   const [urlInput, setUrlInput] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [processStep, setProcessStep] = useState('');
+  const [jobStages, setJobStages] = useState<GenerationStage[]>([]);
+  const [jobProgress, setJobProgress] = useState(0);
   const [generatedStorybook, setGeneratedStorybook] = useState<EducationalContent | null>(null);
+  const [storybookLocale, setStorybookLocale] = useState(SOURCE_LOCALE);
+  const [storybookTranslations, setStorybookTranslations] = useState<Record<string, { content: EducationalContent; direction: TextDirection }>>({});
+  const [storybookTheme, setStorybookTheme] = useState<PlayerThemeSetting | undefined>(undefined);
   const [error, setError] = useState<string | null>(null);
 
   // Generation options
@@ -24,6 +36,7 @@ export default function HomePage() {
   const [accessibility, setAccessibility] = useState(true);
   const [complexity, setComplexity] = useState<'auto' | 'beginner' | 'intermediate' | 'advanced'>('auto');
   const [style, setStyle] = useState<'tutorial' | 'interactive' | 'documentation'>('interactive');
+  const [translateInto, setTranslateInto] = useState('');
 
   /**
    * Handle file selection
@@ -67,6 +80,8 @@ export default function HomePage() {
 
     setIsProcessing(true);
     setError(null);
+    setJobStages([]);
+    setJobProgress(0);
     setProcessStep('Initializing...');
 
     try {
@@ -87,72 +102,110 @@ export default function HomePage() {
         throw new Error('No workflow source provided');
       }
 
-      // Create storybook request
-      const request: WorkflowToStorybookRequest = {
-        workflow,
-        options: {
-          includeVideo,
-          accessibility,
-          complexity,
-          style,
-          language: 'en',
-        },
-        user: {
-          id: 'demo-user',
-          preferences: {
-            learningStyle: 'mixed',
-            accessibilityNeeds: accessibility ? ['screen_reader', 'keyboard_navigation'] : [],
-            preferredLanguage: 'en',
-            experienceLevel: complexity === 'auto' ? 'intermediate' : complexity,
-          },
-        },
+      // Queue generation on the server, then follow the job's progress stream
+      const locales = translateInto.split(/[\s,]+/).filter(Boolean);
+      const options: GenerationOptions = {
+        includeVideo,
+        accessibilityLevel: accessibility ? 'AAA' : 'AA',
+        targetAudience: complexity === 'auto' ? 'intermediate' : complexity,
+        includeQuizzes: true,
+        includeInteractiveElements: style === 'interactive',
+        ...(locales.length > 0 && { customizations: { locales } }),
       };
+      setJobStages(plannedStages(options).map(taskType => ({
+        id: taskType,
+        label: STAGE_LABELS[taskType],
+        status: 'pending' as const,
+      })));
+      setProcessStep('Queueing storybook generation...');
 
-      // Set up orchestrator event listeners
-      const orchestrator = agentOrchestrator;
-      
-      orchestrator.on('orchestration:started', ({ taskId }) => {
-        setProcessStep(`Starting orchestration (${taskId})...`);
-      });
-
-      orchestrator.on('task:started', ({ task }) => {
-        const stepNames: Record<string, string> = {
-          analyze_workflow: 'Analyzing workflow structure...',
-          generate_content: 'Generating educational content...',
-          create_video: 'Creating instructional video...',
-          enhance_accessibility: 'Adding accessibility features...',
-          quality_check: 'Performing quality assurance...',
-          route_request: 'Optimizing content routing...',
-        };
-        setProcessStep(stepNames[task.type] || `Processing ${task.type}...`);
+      const response = await fetch('/api/storybook/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workflow, options }),
       });
+      const queued = await response.json();
+      if (!response.ok || !queued.success) {
+        throw new Error(queued.error || 'Failed to queue storybook generation');
+      }
 
-      orchestrator.on('orchestration:completed', ({ result }) => {
-        setGeneratedStorybook(result);
-        setProcessStep('Storybook generation completed!');
-      });
+      await followJob(queued.jobId);
 
-      // Generate the interactive storybook
-      const storybook = await orchestrator.createInteractiveStorybook(request);
-      
-      // Clean up event listeners
-      orchestrator.removeAllListeners();
+      setProcessStep('Loading your storybook...');
+      const storybookResponse = await fetch(`/api/storybook/generate?id=${encodeURIComponent(queued.storybookId)}`);
+      const stored = await storybookResponse.json();
+      if (!storybookResponse.ok || !stored.content) {
+        throw new Error(stored.error || 'Generated storybook could not be loaded');
+      }
 
+      setGeneratedStorybook(stored.content);
+      setStorybookLocale(stored.locale || SOURCE_LOCALE);
+      setStorybookTranslations(stored.translations || {});
+      setStorybookTheme(stored.theme);
+      setJobStages([]);
     } catch (err) {
       console.error('Storybook generation failed:', err);
       const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
-      setError(`${errorMessage}. Loading demo instead...`);
-      
-      // Fallback to demo storybook for testing
-      setTimeout(() => {
-        setGeneratedStorybook(demoStorybook);
-        setError(null);
-      }, 2000);
+      setError(`${errorMessage}. You can still explore the demo storybook below.`);
     } finally {
       setIsProcessing(false);
     }
   };
 
+  /**
+   * Follow a generation job over Server-Sent Events until it completes or is dead-lettered
+   */
+  const followJob = (jobId: string) => new Promise<void>((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${encodeURIComponent(jobId)}/events`);
+    let lastJob: JobSnapshot | null = null;
+
+    source.addEventListener('job', (event) => {
+      const job: JobSnapshot = JSON.parse((event as MessageEvent).data);
+      lastJob = job;
+      setJobProgress(job.progress);
+
+      if (job.status === 'queued') {
+        setProcessStep(job.lastError
+          ? `Retrying (attempt ${job.attempts + 1} of ${job.maxAttempts}) after: ${job.lastError}`
+          : 'Waiting for a worker...');
+      } else if (job.status === 'running') {
+        setProcessStep(job.stage ? `${job.stage}...` : 'Generating...');
+      }
+    });
+
+    source.addEventListener('task', (event) => {
+      const task: JobTaskEvent = JSON.parse((event as MessageEvent).data);
+      setJobProgress(task.progress);
+      setJobStages(stages => stages.map(stage => stage.id !== task.taskType ? stage : {
+        ...stage,
+        agents: task.agents,
+        status: task.status === 'completed'
+          ? 'completed'
+          : task.status === 'failed' || task.status === 'cancelled'
+          ? 'failed'
+          : 'active',
+        error: task.error || (task.status === 'cancelled' ? 'Cancelled' : undefined),
+      }));
+    });
+
+    source.addEventListener('end', () => {
+      source.close();
+      if (lastJob?.status === 'completed') {
+        setProcessStep('Storybook generation completed!');
+        resolve();
+      } else {
+        reject(new Error(lastJob?.lastError || 'Storybook generation failed'));
+      }
+    });
+
+    source.onerror = () => {
+      // EventSource reconnects by itself unless the stream was closed for good
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error('Lost connection to the generation progress stream'));
+      }
+    };
+  });
+
   /**
    * Reset form
    */
@@ -160,9 +213,14 @@ export default function HomePage() {
     setSelectedFile(null);
     setUrlInput('');
     setGeneratedStorybook(null);
+    setStorybookLocale(SOURCE_LOCALE);
+    setStorybookTranslations({});
+    setStorybookTheme(undefined);
     setError(null);
     setIsProcessing(false);
     setProcessStep('');
+    setJobStages([]);
+    setJobProgress(0);
   };
 
   return (
@@ -387,12 +445,41 @@ export default function HomePage() {
                         <option value="documentation">Reference Documentation</option>
                       </select>
                     </div>
+
+                    {/* Translations */}
+                    <div>
+                      <label htmlFor="translate-into" className="flex items-center text-sm font-medium text-gray-700 mb-2">
+                        <Globe className="mr-2 text-blue-600" size={16} />
+                        Translate Into
+                      </label>
+                      <input
+                        id="translate-into"
+                        type="text"
+                        value={translateInto}
+                        onChange={(e) => setTranslateInto(e.target.value)}
+                        placeholder="e.g. es, fr, ar"
+                        className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <p className="text-sm text-gray-500 mt-1">
+                        Language codes for extra versions; switch between them in the player
+                      </p>
+                    </div>
                   </div>
                 </div>
               </div>
 
-              {/* Error Display */}
-              {error && (
+              {/* Generation Progress */}
+              {jobStages.length > 0 && (
+                <GenerationProgressTracker
+                  stages={jobStages}
+                  progress={jobProgress}
+                  statusText={processStep}
+                  error={isProcessing ? null : error}
+                />
+              )}
+
+              {/* Error Display (generation errors show in the progress tracker) */}
+              {error && jobStages.length === 0 && (
                 <motion.div
                   initial={{ opacity: 0, scale: 0.95 }}
                   animate={{ opacity: 1, scale: 1 }}
@@ -449,6 +536,9 @@ export default function HomePage() {
               <div className="mb-8">
                 <InteractivePlayer
                   storybook={generatedStorybook}
+                  locale={storybookLocale}
+                  translations={storybookTranslations}
+                  theme={storybookTheme}
                   onProgress={(stepId, progress) => {
                     console.log(`Step ${stepId}: ${progress}% complete`);
                   }}
@@ -46,7 +46,7 @@ export const AccessibilityControls: React.FC<AccessibilityControlsProps> = ({
     >
       <div className="max-w-4xl mx-auto">
         <h3 className="text-lg font-semibold mb-4 flex items-center">
-          <Eye className="mr-2" size={20} />
+          <Eye className="me-2" size={20} />
           Accessibility Options
         </h3>
         
@@ -54,7 +54,7 @@ export const AccessibilityControls: React.FC<AccessibilityControlsProps> = ({
           {/* Visual Accessibility */}
           <div className="accessibility-section">
             <h4 className="font-medium mb-3 flex items-center">
-              <Palette className="mr-2" size={16} />
+              <Palette className="me-2" size={16} />
               Visual
             </h4>
             
@@ -137,7 +137,7 @@ export const AccessibilityControls: React.FC<AccessibilityControlsProps> = ({
           {/* Audio Accessibility */}
           <div className="accessibility-section">
             <h4 className="font-medium mb-3 flex items-center">
-              <Volume2 className="mr-2" size={16} />
+              <Volume2 className="me-2" size={16} />
               Audio
             </h4>
             
@@ -197,7 +197,7 @@ export const AccessibilityControls: React.FC<AccessibilityControlsProps> = ({
           {/* Navigation Accessibility */}
           <div className="accessibility-section">
             <h4 className="font-medium mb-3 flex items-center">
-              <Type className="mr-2" size={16} />
+              <Type className="me-2" size={16} />
               Navigation
             </h4>
             
@@ -255,7 +255,7 @@ export const AccessibilityControls: React.FC<AccessibilityControlsProps> = ({
                     const content = document.querySelector('.step-content');
                     content?.scrollIntoView({ behavior: 'smooth' });
                   }}
-                  className="block w-full text-left px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  className="block w-full text-start px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
                   Skip to Main Content
                 </button>
@@ -264,7 +264,7 @@ export const AccessibilityControls: React.FC<AccessibilityControlsProps> = ({
                     const controls = document.querySelector('.player-controls');
                     controls?.scrollIntoView({ behavior: 'smooth' });
                   }}
-                  className="block w-full text-left px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  className="block w-full text-start px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
                   Skip to Player Controls
                 </button>
@@ -5,12 +5,16 @@
  * Main component for displaying and interacting with educational storybooks
  */
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useId } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Play, Pause, SkipForward, SkipBack, Volume2, VolumeX, Settings, Eye, EyeOff } from 'lucide-react';
+import { Play, Pause, SkipForward, SkipBack, Volume2, VolumeX, Settings, Eye, EyeOff, Languages } from 'lucide-react';
 import { EducationalContent, EducationalStep, InteractiveElement } from '../../lib/agents/n8n-workflow-analyzer';
+import { localeName, SOURCE_LOCALE, TextDirection, textDirection } from '../../lib/translation/locales';
+import { PLAYER_THEMES, PlayerThemeSetting, playerThemeVariables, resolvePlayerTheme } from '../../lib/player-theme';
+import { StepVideoContent } from '../../lib/video-navigation';
 import { AccessibilityControls } from './AccessibilityControls';
 import { ProgressTracker } from './ProgressTracker';
+import { StepVideo } from './StepVideo';
 
 interface InteractivePlayerProps {
   storybook: EducationalContent;
@@ -18,35 +22,72 @@ interface InteractivePlayerProps {
   onComplete?: () => void;
   autoPlay?: boolean;
   accessibilityMode?: boolean;
+  /** Locale of `storybook`; the player starts in this language */
+  locale?: string;
+  /** Other language versions of the storybook, by locale */
+  translations?: Record<string, { content: EducationalContent; direction?: TextDirection }>;
+  /** The storybook's colours; high-contrast mode replaces them while it is on */
+  theme?: PlayerThemeSetting;
 }
 
 export const InteractivePlayer: React.FC<InteractivePlayerProps> = ({
-  storybook,
+  storybook: sourceStorybook,
   onProgress,
   onComplete,
   autoPlay = false,
   accessibilityMode = false,
+  locale = SOURCE_LOCALE,
+  translations = {},
+  theme: themeSetting = 'light',
 }) => {
   // State management
+  const [activeLocale, setActiveLocale] = useState(locale);
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(autoPlay);
   const [isMuted, setIsMuted] = useState(false);
   const [playbackSpeed, setPlaybackSpeed] = useState(1);
   const [showAccessibilityControls, setShowAccessibilityControls] = useState(accessibilityMode);
   const [highContrast, setHighContrast] = useState(false);
+  const [prefersDark, setPrefersDark] = useState(false);
   const [screenReaderMode, setScreenReaderMode] = useState(false);
   const [completedSteps, setCompletedSteps] = useState<Set<string>>(new Set());
+  const [quizToFocus, setQuizToFocus] = useState<string | null>(null);
 
   // Refs
   const playerRef = useRef<HTMLDivElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
   const speechSynthRef = useRef<SpeechSynthesisUtterance | null>(null);
+  const codeDescriptionId = useId();
+
+  // Language: steps keep their ids across translations, so switching keeps the learner's place
+  const variant = activeLocale === locale ? undefined : translations[activeLocale];
+  const storybook = variant?.content ?? sourceStorybook;
+  const direction = variant?.direction ?? textDirection(variant ? activeLocale : locale);
+  const isRtl = direction === 'rtl';
+  const availableLocales = [locale, ...Object.keys(translations).filter(code => code !== locale)];
+
+  // Colours: high-contrast mode replaces the storybook's theme while it is on
+  const activeTheme = highContrast ? PLAYER_THEMES['high-contrast'] : resolvePlayerTheme(themeSetting, prefersDark);
+
+  // 'auto' follows the reader's colour scheme, including changes while the player is open
+  useEffect(() => {
+    if (themeSetting !== 'auto') return;
+    const query = window.matchMedia('(prefers-color-scheme: dark)');
+    const update = () => setPrefersDark(query.matches);
+    update();
+    query.addEventListener('change', update);
+    return () => query.removeEventListener('change', update);
+  }, [themeSetting]);
 
   // Current step data
   const currentStep = storybook.steps[currentStepIndex];
   const isFirstStep = currentStepIndex === 0;
   const isLastStep = currentStepIndex === storybook.steps.length - 1;
 
+  // The storybook's video, when one was generated; its chapters follow the steps
+  const videoElement = storybook.interactiveElements.find(element => element.type === 'video' && element.content?.url);
+  const stepVideo = videoElement?.content as StepVideoContent | undefined;
+
   // Auto-play functionality
   useEffect(() => {
     if (isPlaying && !isLastStep) {
@@ -82,11 +123,11 @@ export const InteractivePlayer: React.FC<InteractivePlayerProps> = ({
           break;
         case 'ArrowRight':
           event.preventDefault();
-          handleNextStep();
+          if (isRtl) handlePreviousStep(); else handleNextStep();
           break;
         case 'ArrowLeft':
           event.preventDefault();
-          handlePreviousStep();
+          if (isRtl) handleNextStep(); else handlePreviousStep();
           break;
         case 'Escape':
           setIsPlaying(false);
@@ -101,7 +142,7 @@ export const InteractivePlayer: React.FC<InteractivePlayerProps> = ({
         currentPlayer.removeEventListener('keydown', handleKeyPress);
       };
     }
-  }, [isPlaying, currentStepIndex, handleNextStep, handlePreviousStep]);
+  }, [isPlaying, currentStepIndex, handleNextStep, handlePreviousStep, isRtl]);
 
   // Step navigation functions
   const handleNextStep = useCallback(() => {
@@ -130,6 +171,25 @@ export const InteractivePlayer: React.FC<InteractivePlayerProps> = ({
     onProgress?.(storybook.steps[stepIndex].id, (stepIndex + 1) / storybook.steps.length * 100);
   };
 
+  const handleVideoStepChange = (stepId: string) => {
+    const stepIndex = storybook.steps.findIndex(step => step.id === stepId);
+    if (stepIndex >= 0 && stepIndex !== currentStepIndex) handleStepSelect(stepIndex);
+  };
+
+  const handleOpenQuiz = (stepId: string) => {
+    handleVideoStepChange(stepId);
+    setQuizToFocus(stepId);
+  };
+
+  // Runs when the quiz mounts, which for a new step is only after the previous step has animated out
+  const focusQuiz = useCallback((element: HTMLDivElement | null) => {
+    if (element && quizToFocus === currentStep.id) {
+      element.focus();
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      setQuizToFocus(null);
+    }
+  }, [quizToFocus, currentStep.id]);
+
   const markStepComplete = (stepId: string) => {
     setCompletedSteps(prev => new Set([...prev, stepId]));
   };
@@ -140,6 +200,7 @@ export const InteractivePlayer: React.FC<InteractivePlayerProps> = ({
 
     window.speechSynthesis.cancel();
     const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = activeLocale;
     utterance.rate = playbackSpeed;
     utterance.volume = isMuted ? 0 : 1;
     speechSynthRef.current = utterance;
@@ -152,17 +213,17 @@ export const InteractivePlayer: React.FC<InteractivePlayerProps> = ({
       case 'simulation':
         return (
           <div 
-            className={`simulation-container p-4 border rounded-lg ${highContrast ? 'border-white bg-black text-white' : 'border-gray-200 bg-gray-50'}`}
+            className="simulation-container p-4 border rounded-lg border-[var(--player-border)] bg-[var(--player-surface)]"
             role="application"
             aria-label={element.accessibility.screenReaderText}
           >
             <h3 className="text-lg font-semibold mb-2">{element.title}</h3>
             <div className="interactive-simulation">
               {/* Simulation content would be rendered here */}
-              <div className="p-4 bg-blue-100 rounded text-center">
+              <div className="p-4 rounded text-center">
                 <p>🔄 Interactive Simulation: {element.title}</p>
                 <button 
-                  className="mt-2 px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+                  className="mt-2 px-4 py-2 rounded bg-[var(--player-accent)] text-[var(--player-accent-text)]"
                   onClick={() => console.log('Run simulation')}
                 >
                   Run Simulation
@@ -175,16 +236,16 @@ export const InteractivePlayer: React.FC<InteractivePlayerProps> = ({
       case 'diagram':
         return (
           <div 
-            className={`diagram-container p-4 border rounded-lg ${highContrast ? 'border-white bg-black' : 'border-gray-200 bg-white'}`}
+            className="diagram-container p-4 border rounded-lg border-[var(--player-border)] bg-[var(--player-background)]"
             role="img"
             aria-label={element.accessibility.screenReaderText}
           >
             <h3 className="text-lg font-semibold mb-2">{element.title}</h3>
             <div className="flow-diagram">
               {/* Flow diagram would be rendered here using a library like ReactFlow */}
-              <div className="p-8 bg-gradient-to-r from-purple-100 to-blue-100 rounded text-center">
+              <div className="p-8 rounded text-center bg-[var(--player-surface)]">
                 <p>📊 Interactive Diagram: {element.title}</p>
-                <p className="text-sm text-gray-600 mt-2">
+                <p className="text-sm text-[var(--player-muted-text)] mt-2">
                   {element.accessibility.audioDescription}
                 </p>
               </div>
@@ -195,13 +256,13 @@ export const InteractivePlayer: React.FC<InteractivePlayerProps> = ({
       case 'code-playground':
         return (
           <div 
-            className={`code-playground p-4 border rounded-lg ${highContrast ? 'border-white bg-black' : 'border-gray-200 bg-gray-900'}`}
+            className="code-playground p-4 border rounded-lg border-[var(--player-border)] bg-[var(--player-surface)]"
             role="application"
             aria-label="Code playground"
           >
-            <h3 className="text-lg font-semibold mb-2 text-white">{element.title}</h3>
+            <h3 className="text-lg font-semibold mb-2">{element.title}</h3>
             <div className="code-editor">
-              <pre className="text-green-400 text-sm p-4 bg-gray-800 rounded overflow-auto">
+              <pre dir="ltr" className="text-sm p-4 rounded overflow-auto text-[var(--player-code-text)] bg-[var(--player-code-background)]">
                 <code>{currentStep.code || '// Code example will appear here'}</code>
               </pre>
             </div>
@@ -216,27 +277,46 @@ export const InteractivePlayer: React.FC<InteractivePlayerProps> = ({
   return (
     <div
       ref={playerRef}
-      className={`interactive-player w-full max-w-4xl mx-auto ${
-        highContrast ? 'bg-black text-white' : 'bg-white text-gray-900'
-      } rounded-lg shadow-lg overflow-hidden`}
+      className="interactive-player w-full max-w-4xl mx-auto bg-[var(--player-background)] text-[var(--player-text)] rounded-lg shadow-lg overflow-hidden [&_:focus-visible]:outline-2 [&_:focus-visible]:outline-offset-2 [&_:focus-visible]:outline-[var(--player-focus-ring)]"
+      style={playerThemeVariables(activeTheme) as React.CSSProperties}
       tabIndex={0}
       role="application"
       aria-label="Interactive Storybook Player"
+      lang={activeLocale}
+      dir={direction}
     >
       {/* Player Header */}
-      <div className={`player-header p-4 border-b ${highContrast ? 'border-white' : 'border-gray-200'}`}>
+      <div className="player-header p-4 border-b border-[var(--player-border)]">
         <div className="flex items-center justify-between">
           <div className="storybook-info">
             <h1 className="text-2xl font-bold">{storybook.title}</h1>
-            <p className="text-sm opacity-75">
+            <p className="text-sm text-[var(--player-muted-text)]">
               {storybook.complexity} • {storybook.estimatedDuration} min • Step {currentStepIndex + 1} of {storybook.steps.length}
             </p>
           </div>
           
           <div className="player-controls flex items-center space-x-2">
+            {availableLocales.length > 1 && (
+              <label className="flex items-center space-x-1">
+                <Languages size={20} aria-hidden="true" />
+                <select
+                  value={activeLocale}
+                  onChange={(e) => setActiveLocale(e.target.value)}
+                  className="px-2 py-1 rounded border text-sm"
+                  aria-label="Language"
+                >
+                  {availableLocales.map(code => (
+                    <option key={code} value={code} lang={code}>
+                      {localeName(code)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
             <button
               onClick={() => setShowAccessibilityControls(!showAccessibilityControls)}
-              className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800"
+              className="p-2 rounded-full hover:bg-[var(--player-surface)]"
               aria-label="Toggle accessibility controls"
             >
               {showAccessibilityControls ? <EyeOff size={20} /> : <Eye size={20} />}
@@ -244,7 +324,7 @@ export const InteractivePlayer: React.FC<InteractivePlayerProps> = ({
             
             <button
               onClick={() => setScreenReaderMode(!screenReaderMode)}
-              className={`p-2 rounded-full ${screenReaderMode ? 'bg-blue-500 text-white' : 'hover:bg-gray-100'}`}
+              className={`p-2 rounded-full ${screenReaderMode ? 'bg-[var(--player-accent)] text-[var(--player-accent-text)]' : 'hover:bg-[var(--player-surface)]'}`}
               aria-label="Toggle screen reader mode"
             >
               <Volume2 size={20} />
@@ -284,21 +364,33 @@ export const InteractivePlayer: React.FC<InteractivePlayerProps> = ({
 
       {/* Main Content Area */}
       <div className="player-content p-6">
+        {videoElement && stepVideo && (
+          <StepVideo
+            video={stepVideo}
+            title={videoElement.title}
+            currentStepId={currentStep.id}
+            onStepChange={handleVideoStepChange}
+            onOpenQuiz={handleOpenQuiz}
+            highContrast={highContrast}
+            language={activeLocale}
+          />
+        )}
+
         <AnimatePresence mode="wait">
           <motion.div
             key={currentStep.id}
-            initial={{ opacity: 0, x: 50 }}
+            initial={{ opacity: 0, x: isRtl ? -50 : 50 }}
             animate={{ opacity: 1, x: 0 }}
-            exit={{ opacity: 0, x: -50 }}
+            exit={{ opacity: 0, x: isRtl ? 50 : -50 }}
             transition={{ duration: 0.3 }}
             className="step-content"
           >
             {/* Step Header */}
             <div className="step-header mb-6">
               <h2 className="text-3xl font-bold mb-2">{currentStep.title}</h2>
-              <p className="text-lg opacity-80 mb-4">{currentStep.description}</p>
+              <p className="text-lg text-[var(--player-muted-text)] mb-4">{currentStep.description}</p>
               {currentStep.explanation && (
-                <div className={`explanation p-4 rounded-lg ${highContrast ? 'bg-gray-800' : 'bg-blue-50'} mb-4`}>
+                <div className="explanation p-4 rounded-lg bg-[var(--player-surface)] mb-4">
                   <p>{currentStep.explanation}</p>
                 </div>
               )}
@@ -319,11 +411,22 @@ export const InteractivePlayer: React.FC<InteractivePlayerProps> = ({
             {currentStep.code && (
               <div className="code-example mt-6">
                 <h3 className="text-xl font-semibold mb-3">Code Example</h3>
-                <div className={`code-container rounded-lg overflow-hidden ${highContrast ? 'bg-gray-900' : 'bg-gray-800'}`}>
-                  <pre className="text-green-400 text-sm p-4 overflow-auto">
-                    <code>{currentStep.code}</code>
+                <div className="code-container rounded-lg overflow-hidden border border-[var(--player-border)] bg-[var(--player-code-background)]">
+                  <pre
+                    dir="ltr"
+                    className="text-[var(--player-code-text)] text-sm p-4 overflow-auto"
+                    aria-describedby={currentStep.codeDescription ? codeDescriptionId : undefined}
+                  >
+                    <code className={currentStep.codeLanguage ? `language-${currentStep.codeLanguage}` : undefined}>
+                      {currentStep.code}
+                    </code>
                   </pre>
                 </div>
+                {currentStep.codeDescription && (
+                  <p id={codeDescriptionId} className="text-sm mt-2">
+                    {currentStep.codeDescription}
+                  </p>
+                )}
               </div>
             )}
 
@@ -335,15 +438,15 @@ export const InteractivePlayer: React.FC<InteractivePlayerProps> = ({
                   {currentStep.visualAids.map((aid, index) => (
                     <div
                       key={index}
-                      className={`visual-aid p-4 rounded-lg border ${highContrast ? 'border-white' : 'border-gray-200'}`}
+                      className="visual-aid p-4 rounded-lg border border-[var(--player-border)]"
                       role="img"
                       aria-label={aid.altText}
                     >
-                      <div className="bg-gray-100 h-32 rounded mb-2 flex items-center justify-center">
-                        <span className="text-gray-500">📊 {aid.type}</span>
+                      <div className="bg-[var(--player-surface)] h-32 rounded mb-2 flex items-center justify-center">
+                        <span className="text-[var(--player-muted-text)]">📊 {aid.type}</span>
                       </div>
                       <p className="text-sm font-medium">{aid.altText}</p>
-                      <p className="text-xs opacity-75 mt-1">{aid.description}</p>
+                      <p className="text-xs text-[var(--player-muted-text)] mt-1">{aid.description}</p>
                     </div>
                   ))}
                 </div>
@@ -354,15 +457,18 @@ export const InteractivePlayer: React.FC<InteractivePlayerProps> = ({
             {currentStep.quiz && (
               <div className="quiz-section mt-6">
                 <h3 className="text-xl font-semibold mb-3">Quick Check</h3>
-                <div className={`quiz-container p-4 rounded-lg border ${highContrast ? 'border-white' : 'border-gray-200'}`}>
+                <div
+                  ref={focusQuiz}
+                  tabIndex={-1}
+                  className="quiz-container p-4 rounded-lg border border-[var(--player-border)]"
+                >
                   <p className="mb-4">{currentStep.quiz.question}</p>
                   <div className="options space-y-2">
                     {currentStep.quiz.options.map((option, index) => (
                       <button
                         key={index}
-                        className={`option w-full text-left p-3 rounded border hover:bg-gray-50 ${
-                          highContrast ? 'border-white hover:bg-gray-800' : 'border-gray-200 hover:bg-gray-50'
-                        }`}
+                        className="option w-full text-start p-3 rounded border border-[var(--player-border)] hover:bg-[var(--player-surface)]"
+                        aria-label={currentStep.quiz?.optionScreenReaderText?.[index] || undefined}
                         onClick={() => console.log('Answer selected:', index)}
                       >
                         {option}
@@ -377,21 +483,21 @@ export const InteractivePlayer: React.FC<InteractivePlayerProps> = ({
       </div>
 
       {/* Player Controls */}
-      <div className={`player-controls p-4 border-t ${highContrast ? 'border-white' : 'border-gray-200'} bg-gray-50 dark:bg-gray-800`}>
+      <div className="player-controls p-4 border-t border-[var(--player-border)] bg-[var(--player-surface)]">
         <div className="flex items-center justify-between">
           <div className="navigation-controls flex items-center space-x-2">
             <button
               onClick={handlePreviousStep}
               disabled={isFirstStep}
-              className="p-2 rounded-full hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              className="p-2 rounded-full hover:bg-[var(--player-background)] disabled:opacity-50 disabled:cursor-not-allowed"
               aria-label="Previous step"
             >
-              <SkipBack size={24} />
+              <SkipBack size={24} className="rtl:-scale-x-100" />
             </button>
             
             <button
               onClick={() => setIsPlaying(!isPlaying)}
-              className="p-3 rounded-full bg-blue-500 hover:bg-blue-600 text-white"
+              className="p-3 rounded-full bg-[var(--player-accent)] text-[var(--player-accent-text)]"
               aria-label={isPlaying ? 'Pause' : 'Play'}
             >
               {isPlaying ? <Pause size={24} /> : <Play size={24} />}
@@ -400,17 +506,17 @@ export const InteractivePlayer: React.FC<InteractivePlayerProps> = ({
             <button
               onClick={handleNextStep}
               disabled={isLastStep}
-              className="p-2 rounded-full hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              className="p-2 rounded-full hover:bg-[var(--player-background)] disabled:opacity-50 disabled:cursor-not-allowed"
               aria-label="Next step"
             >
-              <SkipForward size={24} />
+              <SkipForward size={24} className="rtl:-scale-x-100" />
             </button>
           </div>
 
           <div className="utility-controls flex items-center space-x-2">
             <button
               onClick={() => setIsMuted(!isMuted)}
-              className="p-2 rounded-full hover:bg-gray-200"
+              className="p-2 rounded-full hover:bg-[var(--player-background)]"
               aria-label={isMuted ? 'Unmute' : 'Mute'}
             >
               {isMuted ? <VolumeX size={20} /> : <Volume2 size={20} />}
@@ -430,7 +536,7 @@ export const InteractivePlayer: React.FC<InteractivePlayerProps> = ({
             
             <button
               onClick={() => console.log('Settings')}
-              className="p-2 rounded-full hover:bg-gray-200"
+              className="p-2 rounded-full hover:bg-[var(--player-background)]"
               aria-label="Settings"
             >
               <Settings size={20} />
@@ -2,12 +2,13 @@
 
 /**
  * Progress Tracker Component
- * Visual progress indicator and navigation for storybook steps
+ * Visual progress indicator and navigation for storybook steps,
+ * plus the live stage tracker shown while a storybook is being generated
  */
 
 import React from 'react';
 import { motion } from 'framer-motion';
-import { CheckCircle, Circle, Play, Clock } from 'lucide-react';
+import { CheckCircle, Circle, Play, Clock, XCircle } from 'lucide-react';
 import { EducationalStep } from '../../lib/agents/n8n-workflow-analyzer';
 
 interface ProgressTrackerProps {
@@ -74,7 +75,7 @@ export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
 
         <div className="relative">
           {/* Vertical Progress Line */}
-          <div className="absolute left-4 top-0 bottom-0 w-0.5 bg-gray-200">
+          <div className="absolute start-4 top-0 bottom-0 w-0.5 bg-gray-200">
             <motion.div
               className="w-full bg-blue-500"
               initial={{ height: '0%' }}
@@ -115,7 +116,7 @@ export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
                     {status === 'current' && (
                       <div className="mt-1">
                         <span className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-blue-100 text-blue-800">
-                          <Clock size={12} className="mr-1" />
+                          <Clock size={12} className="me-1" />
                           Current
                         </span>
                       </div>
@@ -284,3 +285,96 @@ export const ProgressTracker: React.FC<ProgressTrackerProps> = ({
     </div>
   );
 };
+
+export interface GenerationStage {
+  id: string;
+  label: string;
+  status: 'pending' | 'active' | 'completed' | 'failed';
+  agents?: string[];
+  error?: string;
+}
+
+interface GenerationProgressTrackerProps {
+  stages: GenerationStage[];
+  progress: number;
+  statusText?: string;
+  error?: string | null;
+}
+
+/**
+ * Live progress of a storybook generation job, stage by stage
+ */
+export const GenerationProgressTracker: React.FC<GenerationProgressTrackerProps> = ({
+  stages,
+  progress,
+  statusText,
+  error,
+}) => {
+  const getStageIcon = (status: GenerationStage['status']) => {
+    switch (status) {
+      case 'completed':
+        return <CheckCircle size={16} className="text-green-500" />;
+      case 'active':
+        return <Play size={16} className="text-blue-500" />;
+      case 'failed':
+        return <XCircle size={16} className="text-red-500" />;
+      default:
+        return <Circle size={16} className="text-gray-400" />;
+    }
+  };
+
+  return (
+    <div className="generation-progress-tracker bg-white rounded-lg shadow-lg p-6 mb-8">
+      <div className="mb-4" role="status" aria-live="polite">
+        <div className="flex items-center justify-between text-sm mb-2">
+          <span className="font-medium">{statusText || 'Generating storybook...'}</span>
+          <span className="text-gray-600">{Math.round(progress)}%</span>
+        </div>
+
+        <div
+          className="w-full bg-gray-200 rounded-full h-2"
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(progress)}
+          aria-label="Storybook generation progress"
+        >
+          <motion.div
+            className={`h-2 rounded-full ${error ? 'bg-red-500' : 'bg-blue-500'}`}
+            initial={{ width: '0%' }}
+            animate={{ width: `${progress}%` }}
+            transition={{ duration: 0.5 }}
+          />
+        </div>
+      </div>
+
+      <ol className="space-y-3" aria-label="Generation stages">
+        {stages.map(stage => (
+          <li key={stage.id} className="flex items-start space-x-3">
+            <div className="flex-shrink-0 mt-0.5">
+              {getStageIcon(stage.status)}
+            </div>
+            <div className={`flex-1 min-w-0 ${stage.status === 'pending' ? 'opacity-50' : ''}`}>
+              <p className={`text-sm font-medium ${
+                stage.status === 'active' ? 'text-blue-600' : stage.status === 'failed' ? 'text-red-700' : 'text-gray-900'
+              }`}>
+                {stage.label}
+                <span className="sr-only"> - {stage.status}</span>
+              </p>
+              {stage.agents && stage.agents.length > 0 && (
+                <p className="text-xs text-gray-500 mt-1">{stage.agents.join(', ')}</p>
+              )}
+              {stage.error && (
+                <p className="text-xs text-red-600 mt-1">{stage.error}</p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {error && (
+        <p className="mt-4 text-sm text-red-800" role="alert">{error}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,277 @@
+'use client';
+
+/**
+ * Step Video
+ * Tutorial video kept in step with the storybook: playback moves the current step along,
+ * choosing a step seeks to its chapter, and hotspots open a step or its quiz. With audio description
+ * on, the description track plays alongside and the video holds for extended descriptions.
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { HelpCircle, BookOpen, AudioLines } from 'lucide-react';
+import { holdBetween, trackTime } from '../../lib/audio-description/timeline';
+import { chapterAt, formatClock, hotspotsAt, StepVideoContent, VideoHotspot } from '../../lib/video-navigation';
+
+interface StepVideoProps {
+  video: StepVideoContent;
+  title: string;
+  currentStepId: string;
+  onStepChange: (stepId: string) => void;
+  onOpenQuiz: (stepId: string) => void;
+  highContrast?: boolean;
+  language?: string;
+}
+
+/** Seek just past a chapter's start so the reported time cannot round back into the previous one */
+const SEEK_OFFSET_SECONDS = 0.05;
+
+/** After a seek, a description held right where playback landed (a chapter's start, say) still plays */
+const HOLD_LOOKBACK_SECONDS = 0.1;
+
+export const StepVideo: React.FC<StepVideoProps> = ({
+  video,
+  title,
+  currentStepId,
+  onStepChange,
+  onOpenQuiz,
+  highContrast = false,
+  language,
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const descriptionRef = useRef<HTMLAudioElement>(null);
+  const holdTimer = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const holdingRef = useRef(false); // read by media event handlers, which can run before a re-render
+  const lastTime = useRef(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [describing, setDescribing] = useState(false);
+  const [holding, setHolding] = useState(false);
+  const chapters = useMemo(() => video.chapters || [], [video.chapters]);
+  const descriptionCues = useMemo(() => video.audioDescription?.cues || [], [video.audioDescription]);
+  const hotspots = hotspotsAt(video.hotspots || [], currentTime);
+  const currentChapter = chapterAt(chapters, currentTime);
+
+  // A step chosen in the player seeks the video, unless playback is already inside that step
+  useEffect(() => {
+    const element = videoRef.current;
+    if (!element || chapterAt(chapters, element.currentTime)?.stepId === currentStepId) return;
+
+    const chapter = chapters.find(candidate => candidate.stepId === currentStepId);
+    if (chapter) {
+      element.currentTime = chapter.start + SEEK_OFFSET_SECONDS;
+      setCurrentTime(element.currentTime);
+    }
+  }, [currentStepId, chapters]);
+
+  useEffect(() => () => clearTimeout(holdTimer.current), []);
+
+  // Put the description track where the video is, allowing for the holds already passed
+  const syncDescription = useCallback((play: boolean) => {
+    const element = videoRef.current;
+    const description = descriptionRef.current;
+    if (!element || !description) return;
+
+    description.currentTime = trackTime(descriptionCues, element.currentTime);
+    description.playbackRate = element.playbackRate;
+    if (play) {
+      description.play().catch(() => setDescribing(false));
+    } else {
+      description.pause();
+    }
+  }, [descriptionCues]);
+
+  const setHold = (on: boolean) => {
+    clearTimeout(holdTimer.current);
+    holdingRef.current = on;
+    setHolding(on);
+  };
+
+  // The video stops where an extended description starts and carries on once it has been spoken;
+  // the description track keeps playing throughout, so resuming does not resync it
+  const holdForDescription = (element: HTMLVideoElement) => {
+    const hold = holdBetween(descriptionCues, lastTime.current, element.currentTime);
+    if (!hold) return false;
+
+    setHold(true);
+    element.pause();
+    element.currentTime = hold.time;
+    lastTime.current = hold.time;
+    holdTimer.current = setTimeout(() => element.play(), (hold.seconds / element.playbackRate) * 1000);
+    return true;
+  };
+
+  const toggleDescription = () => {
+    setHold(false);
+    descriptionRef.current?.pause();
+    lastTime.current = (videoRef.current?.currentTime ?? 0) - HOLD_LOOKBACK_SECONDS;
+    setDescribing(!describing);
+  };
+
+  // Turning descriptions on (or new cues arriving) lines the track up; playback events keep it there
+  useEffect(() => {
+    if (describing) syncDescription(!videoRef.current?.paused);
+  }, [describing, syncDescription]);
+
+  const handlePlay = () => {
+    if (holdingRef.current) {
+      setHold(false);
+    } else if (describing) {
+      syncDescription(true);
+    }
+  };
+
+  const handlePause = () => {
+    if (describing && !holdingRef.current) descriptionRef.current?.pause();
+  };
+
+  const handleSeeked = () => {
+    const element = videoRef.current;
+    if (element && !holdingRef.current) {
+      lastTime.current = element.currentTime - HOLD_LOOKBACK_SECONDS;
+      if (describing) syncDescription(!element.paused);
+    }
+    handleTimeUpdate();
+  };
+
+  // Playback reaching another chapter moves the player to its step
+  const handleTimeUpdate = () => {
+    const element = videoRef.current;
+    if (!element) return;
+
+    if (describing && !holdingRef.current && !element.paused && holdForDescription(element)) return;
+    if (!holdingRef.current) lastTime.current = element.currentTime;
+    setCurrentTime(element.currentTime);
+    const chapter = chapterAt(chapters, element.currentTime);
+    if (chapter && chapter.stepId !== currentStepId) {
+      onStepChange(chapter.stepId);
+    }
+  };
+
+  const handleHotspot = (hotspot: VideoHotspot) => {
+    if (hotspot.action === 'open-quiz') {
+      videoRef.current?.pause();
+      onOpenQuiz(hotspot.stepId);
+    } else {
+      onStepChange(hotspot.stepId);
+    }
+  };
+
+  const seekToChapter = (start: number) => {
+    const element = videoRef.current;
+    if (!element) return;
+    element.currentTime = start + SEEK_OFFSET_SECONDS;
+    setCurrentTime(element.currentTime);
+    handleTimeUpdate();
+  };
+
+  return (
+    <div className="step-video mb-6">
+      <div className="relative rounded-lg overflow-hidden bg-black">
+        <video
+          ref={videoRef}
+          src={video.url}
+          poster={video.thumbnailUrl}
+          controls
+          preload="metadata"
+          className="w-full"
+          onTimeUpdate={handleTimeUpdate}
+          onSeeked={handleSeeked}
+          onPlay={handlePlay}
+          onPause={handlePause}
+          onRateChange={() => describing && syncDescription(!videoRef.current?.paused)}
+          aria-label={`Video: ${title}`}
+        >
+          {video.chaptersUrl && (
+            <track kind="chapters" src={video.chaptersUrl} srcLang={language} label="Chapters" />
+          )}
+          {video.subtitles?.map((track, index) => (
+            <track
+              key={track.url}
+              kind={track.accessibility ? 'captions' : 'subtitles'}
+              src={track.url}
+              srcLang={track.language}
+              label={track.accessibility ? `${track.language} (CC)` : track.language}
+              default={index === 0}
+            />
+          ))}
+          {video.audioDescription?.descriptionsUrl && (
+            <track
+              kind="descriptions"
+              src={video.audioDescription.descriptionsUrl}
+              srcLang={video.audioDescription.language}
+              label="Audio description"
+            />
+          )}
+        </video>
+        {video.audioDescription && <audio ref={descriptionRef} src={video.audioDescription.url} preload="none" />}
+
+        {/* Hotspots */}
+        {hotspots.map(hotspot => (
+          <button
+            key={hotspot.id}
+            onClick={() => handleHotspot(hotspot)}
+            className={`absolute flex items-center justify-center space-x-2 px-3 rounded-lg text-sm font-medium shadow-lg focus:outline-none focus:ring-2 focus:ring-blue-300 ${
+              highContrast ? 'bg-white text-black border-2 border-black' : 'bg-blue-600/90 text-white hover:bg-blue-700'
+            }`}
+            style={{
+              left: `${hotspot.region.x}%`,
+              top: `${hotspot.region.y}%`,
+              width: `${hotspot.region.width}%`,
+              height: `${hotspot.region.height}%`,
+            }}
+          >
+            {hotspot.action === 'open-quiz' ? <HelpCircle size={16} aria-hidden="true" /> : <BookOpen size={16} aria-hidden="true" />}
+            <span className="truncate">{hotspot.label}</span>
+          </button>
+        ))}
+      </div>
+
+      {/* Audio description */}
+      {video.audioDescription && (
+        <div className="mt-3 flex items-center gap-3">
+          <button
+            onClick={toggleDescription}
+            aria-pressed={describing}
+            className={`flex items-center px-3 py-1 rounded-full border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              describing
+                ? 'bg-blue-500 border-blue-500 text-white'
+                : highContrast ? 'border-white' : 'border-gray-300 hover:bg-gray-100'
+            }`}
+          >
+            <AudioLines size={16} className="me-2" aria-hidden="true" />
+            Audio description
+          </button>
+          <span role="status" className="text-sm">
+            {holding && 'Paused for a description'}
+          </span>
+        </div>
+      )}
+
+      {/* Chapters */}
+      {chapters.length > 0 && (
+        <nav aria-label="Video chapters" className="mt-3">
+          <ol className="flex flex-wrap gap-2">
+            {chapters.map(chapter => {
+              const isCurrent = chapter.id === currentChapter?.id;
+              return (
+                <li key={chapter.id}>
+                  <button
+                    onClick={() => seekToChapter(chapter.start)}
+                    aria-current={isCurrent ? 'step' : undefined}
+                    className={`px-3 py-1 rounded-full border text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                      isCurrent
+                        ? 'bg-blue-500 border-blue-500 text-white'
+                        : highContrast ? 'border-white' : 'border-gray-300 hover:bg-gray-100'
+                    }`}
+                  >
+                    <span className="font-mono me-2">{formatClock(chapter.start)}</span>
+                    {chapter.title}
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+        </nav>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,712 @@
+/**
+ * Bundled catalog of common n8n node types.
+ * Bump NODE_CATALOG_VERSION whenever an entry changes so generated explanations can be traced back to it.
+ */
+
+export const NODE_CATALOG_VERSION = '1.0.0';
+
+export type NodeCategory =
+  | 'trigger'
+  | 'flow'
+  | 'transform'
+  | 'core'
+  | 'communication'
+  | 'database'
+  | 'productivity'
+  | 'developer'
+  | 'ai';
+
+export type NodeRole = 'trigger' | 'action' | 'logic' | 'transform' | 'sub-node';
+
+export interface NodeParameterInfo {
+  label: string;
+  meaning: string;
+}
+
+export interface NodeTypeDefinition {
+  type: string;
+  aliases?: string[];
+  displayName: string;
+  category: NodeCategory;
+  role: NodeRole;
+  service?: string;
+  credentialType?: string;
+  description: string;
+  difficulty: 'beginner' | 'intermediate' | 'advanced';
+  prerequisites: string[];
+  parameters: Record<string, NodeParameterInfo>;
+}
+
+export const nodeCatalog: NodeTypeDefinition[] = [
+  // Triggers
+  {
+    type: 'n8n-nodes-base.manualTrigger',
+    aliases: ['n8n-nodes-base.start'],
+    displayName: 'Manual Trigger',
+    category: 'trigger',
+    role: 'trigger',
+    description: 'starts the workflow when you click "Test workflow" in the editor',
+    difficulty: 'beginner',
+    prerequisites: [],
+    parameters: {},
+  },
+  {
+    type: 'n8n-nodes-base.webhook',
+    displayName: 'Webhook',
+    category: 'trigger',
+    role: 'trigger',
+    description: 'starts the workflow when an HTTP request arrives at its URL',
+    difficulty: 'beginner',
+    prerequisites: ['Basic understanding of HTTP requests'],
+    parameters: {
+      httpMethod: { label: 'HTTP Method', meaning: 'which HTTP method the webhook listens for' },
+      path: { label: 'Path', meaning: 'the URL path appended to the instance webhook URL' },
+      responseMode: { label: 'Respond', meaning: 'whether to answer immediately, after the last node, or from a Respond to Webhook node' },
+      authentication: { label: 'Authentication', meaning: 'how callers must authenticate before the workflow runs' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.scheduleTrigger',
+    aliases: ['n8n-nodes-base.cron', 'n8n-nodes-base.interval'],
+    displayName: 'Schedule Trigger',
+    category: 'trigger',
+    role: 'trigger',
+    description: 'starts the workflow on a fixed schedule',
+    difficulty: 'beginner',
+    prerequisites: [],
+    parameters: {
+      rule: { label: 'Trigger Rules', meaning: 'the intervals or cron expressions that decide when the workflow runs' },
+      triggerTimes: { label: 'Trigger Times', meaning: 'the times of day the workflow runs (legacy Cron node)' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.emailReadImap',
+    aliases: ['n8n-nodes-base.emailTrigger'],
+    displayName: 'Email Trigger (IMAP)',
+    category: 'trigger',
+    role: 'trigger',
+    service: 'Email',
+    credentialType: 'imap',
+    description: 'starts the workflow whenever a new email arrives in a mailbox',
+    difficulty: 'intermediate',
+    prerequisites: ['Access to an IMAP mailbox'],
+    parameters: {
+      mailbox: { label: 'Mailbox Name', meaning: 'which mailbox folder is watched' },
+      postProcessAction: { label: 'Action', meaning: 'whether read emails are marked as read or left untouched' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.formTrigger',
+    displayName: 'n8n Form Trigger',
+    category: 'trigger',
+    role: 'trigger',
+    description: 'starts the workflow when someone submits a hosted n8n form',
+    difficulty: 'beginner',
+    prerequisites: [],
+    parameters: {
+      formTitle: { label: 'Form Title', meaning: 'the heading shown on the form' },
+      formFields: { label: 'Form Fields', meaning: 'the inputs the form collects' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.errorTrigger',
+    displayName: 'Error Trigger',
+    category: 'trigger',
+    role: 'trigger',
+    description: 'starts this workflow when another workflow that uses it as its error workflow fails',
+    difficulty: 'intermediate',
+    prerequisites: ['Understanding of n8n workflow settings'],
+    parameters: {},
+  },
+  {
+    type: 'n8n-nodes-base.executeWorkflowTrigger',
+    displayName: 'Execute Workflow Trigger',
+    category: 'trigger',
+    role: 'trigger',
+    description: 'starts the workflow when another workflow calls it as a sub-workflow',
+    difficulty: 'intermediate',
+    prerequisites: ['Understanding of sub-workflows'],
+    parameters: {},
+  },
+  {
+    type: '@n8n/n8n-nodes-langchain.chatTrigger',
+    displayName: 'Chat Trigger',
+    category: 'trigger',
+    role: 'trigger',
+    description: 'starts the workflow when a chat message is received',
+    difficulty: 'intermediate',
+    prerequisites: [],
+    parameters: {
+      public: { label: 'Make Chat Publicly Available', meaning: 'whether the hosted chat page is reachable without logging in' },
+    },
+  },
+
+  // Flow control
+  {
+    type: 'n8n-nodes-base.if',
+    displayName: 'If',
+    category: 'flow',
+    role: 'logic',
+    description: 'splits items into a true and a false branch based on conditions',
+    difficulty: 'intermediate',
+    prerequisites: ['Understanding of conditional logic'],
+    parameters: {
+      conditions: { label: 'Conditions', meaning: 'the comparisons each item must pass to go down the true branch' },
+      combineOperation: { label: 'Combine', meaning: 'whether all conditions or any condition must match' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.switch',
+    displayName: 'Switch',
+    category: 'flow',
+    role: 'logic',
+    description: 'routes each item to one of several outputs based on rules',
+    difficulty: 'intermediate',
+    prerequisites: ['Understanding of conditional logic'],
+    parameters: {
+      mode: { label: 'Mode', meaning: 'whether outputs are chosen by rules or by an expression' },
+      rules: { label: 'Routing Rules', meaning: 'the rule that sends an item to each output' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.merge',
+    displayName: 'Merge',
+    category: 'flow',
+    role: 'logic',
+    description: 'combines the data arriving from two branches',
+    difficulty: 'intermediate',
+    prerequisites: ['Understanding of branching workflows'],
+    parameters: {
+      mode: { label: 'Mode', meaning: 'how the two inputs are combined (append, by position, by matching fields…)' },
+      joinMode: { label: 'Output Type', meaning: 'which matched or unmatched items are kept' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.splitInBatches',
+    displayName: 'Loop Over Items',
+    category: 'flow',
+    role: 'logic',
+    description: 'processes items in batches, looping back until every item is handled',
+    difficulty: 'advanced',
+    prerequisites: ['Understanding of loops'],
+    parameters: {
+      batchSize: { label: 'Batch Size', meaning: 'how many items are processed in each loop iteration' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.wait',
+    displayName: 'Wait',
+    category: 'flow',
+    role: 'logic',
+    description: 'pauses the workflow for a time or until a webhook call resumes it',
+    difficulty: 'intermediate',
+    prerequisites: [],
+    parameters: {
+      resume: { label: 'Resume', meaning: 'what resumes execution: a time interval, a date, or an incoming webhook' },
+      amount: { label: 'Wait Amount', meaning: 'how long to pause' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.noOp',
+    displayName: 'No Operation',
+    category: 'flow',
+    role: 'logic',
+    description: 'passes data through unchanged, often used as a placeholder or branch end',
+    difficulty: 'beginner',
+    prerequisites: [],
+    parameters: {},
+  },
+  {
+    type: 'n8n-nodes-base.stopAndError',
+    displayName: 'Stop and Error',
+    category: 'flow',
+    role: 'logic',
+    description: 'stops the execution and marks it as failed with a custom message',
+    difficulty: 'intermediate',
+    prerequisites: [],
+    parameters: {
+      errorMessage: { label: 'Error Message', meaning: 'the message recorded on the failed execution' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.executeWorkflow',
+    displayName: 'Execute Workflow',
+    category: 'flow',
+    role: 'action',
+    description: 'calls another workflow and returns its result',
+    difficulty: 'advanced',
+    prerequisites: ['Understanding of sub-workflows'],
+    parameters: {
+      workflowId: { label: 'Workflow', meaning: 'which workflow is called' },
+      mode: { label: 'Mode', meaning: 'whether the sub-workflow runs once for all items or once per item' },
+    },
+  },
+
+  // Data transformation
+  {
+    type: 'n8n-nodes-base.set',
+    displayName: 'Edit Fields (Set)',
+    category: 'transform',
+    role: 'transform',
+    description: 'adds, changes or removes fields on each item',
+    difficulty: 'beginner',
+    prerequisites: [],
+    parameters: {
+      assignments: { label: 'Fields to Set', meaning: 'the field names and values written to each item' },
+      values: { label: 'Values to Set', meaning: 'the field names and values written to each item (older versions)' },
+      keepOnlySet: { label: 'Keep Only Set', meaning: 'whether fields that were not set are dropped' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.code',
+    displayName: 'Code',
+    category: 'transform',
+    role: 'transform',
+    description: 'runs custom JavaScript or Python against the incoming items',
+    difficulty: 'advanced',
+    prerequisites: ['Basic JavaScript or Python'],
+    parameters: {
+      mode: { label: 'Mode', meaning: 'whether the code runs once for all items or once per item' },
+      language: { label: 'Language', meaning: 'the programming language the code is written in' },
+      jsCode: { label: 'JavaScript', meaning: 'the JavaScript that transforms the items' },
+      pythonCode: { label: 'Python', meaning: 'the Python that transforms the items' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.function',
+    aliases: ['n8n-nodes-base.functionItem'],
+    displayName: 'Function (legacy)',
+    category: 'transform',
+    role: 'transform',
+    description: 'runs custom JavaScript against the incoming items (replaced by the Code node)',
+    difficulty: 'advanced',
+    prerequisites: ['Basic JavaScript'],
+    parameters: {
+      functionCode: { label: 'JavaScript Code', meaning: 'the JavaScript that transforms the items' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.itemLists',
+    aliases: ['n8n-nodes-base.splitOut', 'n8n-nodes-base.aggregate'],
+    displayName: 'Item Lists',
+    category: 'transform',
+    role: 'transform',
+    description: 'splits, aggregates, sorts or de-duplicates lists of items',
+    difficulty: 'intermediate',
+    prerequisites: ['Understanding of n8n items'],
+    parameters: {
+      operation: { label: 'Operation', meaning: 'which list operation is applied' },
+      fieldToSplitOut: { label: 'Field To Split Out', meaning: 'the array field that becomes separate items' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.filter',
+    displayName: 'Filter',
+    category: 'transform',
+    role: 'logic',
+    description: 'keeps only the items that match the conditions',
+    difficulty: 'beginner',
+    prerequisites: [],
+    parameters: {
+      conditions: { label: 'Conditions', meaning: 'the comparisons an item must pass to be kept' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.dateTime',
+    displayName: 'Date & Time',
+    category: 'transform',
+    role: 'transform',
+    description: 'formats, converts and calculates dates',
+    difficulty: 'beginner',
+    prerequisites: [],
+    parameters: {
+      operation: { label: 'Operation', meaning: 'which date calculation or formatting is performed' },
+    },
+  },
+
+  // Core / developer
+  {
+    type: 'n8n-nodes-base.httpRequest',
+    displayName: 'HTTP Request',
+    category: 'developer',
+    role: 'action',
+    service: 'HTTP API',
+    credentialType: 'httpHeaderAuth',
+    description: 'calls any REST API and returns its response',
+    difficulty: 'intermediate',
+    prerequisites: ['Familiarity with REST APIs'],
+    parameters: {
+      method: { label: 'Method', meaning: 'the HTTP method used for the call' },
+      url: { label: 'URL', meaning: 'the endpoint that is called' },
+      authentication: { label: 'Authentication', meaning: 'how the request authenticates against the API' },
+      sendBody: { label: 'Send Body', meaning: 'whether a request body is sent' },
+      options: { label: 'Options', meaning: 'extra settings such as timeouts, pagination and redirects' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.respondToWebhook',
+    displayName: 'Respond to Webhook',
+    category: 'core',
+    role: 'action',
+    description: 'sends the HTTP response back to whoever called the Webhook trigger',
+    difficulty: 'beginner',
+    prerequisites: ['Basic understanding of HTTP requests'],
+    parameters: {
+      respondWith: { label: 'Respond With', meaning: 'what the response body contains (JSON, text, first item…)' },
+      responseBody: { label: 'Response Body', meaning: 'the body returned to the caller' },
+    },
+  },
+
+  // Communication
+  {
+    type: 'n8n-nodes-base.emailSend',
+    displayName: 'Send Email',
+    category: 'communication',
+    role: 'action',
+    service: 'Email',
+    credentialType: 'smtp',
+    description: 'sends an email through an SMTP server',
+    difficulty: 'beginner',
+    prerequisites: ['SMTP server credentials'],
+    parameters: {
+      fromEmail: { label: 'From Email', meaning: 'the sender address' },
+      toEmail: { label: 'To Email', meaning: 'the recipient addresses' },
+      subject: { label: 'Subject', meaning: 'the email subject line' },
+      text: { label: 'Text', meaning: 'the plain-text body' },
+      html: { label: 'HTML', meaning: 'the HTML body' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.gmail',
+    displayName: 'Gmail',
+    category: 'communication',
+    role: 'action',
+    service: 'Gmail',
+    credentialType: 'gmailOAuth2',
+    description: 'sends, reads and labels Gmail messages',
+    difficulty: 'intermediate',
+    prerequisites: ['A Google account with OAuth access configured'],
+    parameters: {
+      operation: { label: 'Operation', meaning: 'what is done with the message (send, get, reply…)' },
+      sendTo: { label: 'To', meaning: 'the recipient addresses' },
+      subject: { label: 'Subject', meaning: 'the email subject line' },
+      message: { label: 'Message', meaning: 'the email body' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.slack',
+    displayName: 'Slack',
+    category: 'communication',
+    role: 'action',
+    service: 'Slack',
+    credentialType: 'slackApi',
+    description: 'posts and manages messages, channels and users in Slack',
+    difficulty: 'beginner',
+    prerequisites: ['A Slack workspace and app token'],
+    parameters: {
+      resource: { label: 'Resource', meaning: 'which Slack object is used (message, channel, user…)' },
+      operation: { label: 'Operation', meaning: 'what is done with it' },
+      channel: { label: 'Channel', meaning: 'the channel that receives the message' },
+      text: { label: 'Text', meaning: 'the message content' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.telegram',
+    displayName: 'Telegram',
+    category: 'communication',
+    role: 'action',
+    service: 'Telegram',
+    credentialType: 'telegramApi',
+    description: 'sends messages and media through a Telegram bot',
+    difficulty: 'beginner',
+    prerequisites: ['A Telegram bot token'],
+    parameters: {
+      chatId: { label: 'Chat ID', meaning: 'the chat the bot writes to' },
+      text: { label: 'Text', meaning: 'the message content' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.discord',
+    displayName: 'Discord',
+    category: 'communication',
+    role: 'action',
+    service: 'Discord',
+    credentialType: 'discordWebhookApi',
+    description: 'posts messages to a Discord channel',
+    difficulty: 'beginner',
+    prerequisites: ['A Discord webhook or bot'],
+    parameters: {
+      content: { label: 'Content', meaning: 'the message content' },
+    },
+  },
+
+  // Databases
+  {
+    type: 'n8n-nodes-base.postgres',
+    displayName: 'Postgres',
+    category: 'database',
+    role: 'action',
+    service: 'PostgreSQL',
+    credentialType: 'postgres',
+    description: 'reads and writes rows in a PostgreSQL database',
+    difficulty: 'intermediate',
+    prerequisites: ['Basic SQL', 'PostgreSQL connection details'],
+    parameters: {
+      operation: { label: 'Operation', meaning: 'the database action (insert, update, select, execute query…)' },
+      table: { label: 'Table', meaning: 'the table that is read or written' },
+      columns: { label: 'Columns', meaning: 'the columns written from each item' },
+      query: { label: 'Query', meaning: 'the SQL statement that is executed' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.mySql',
+    displayName: 'MySQL',
+    category: 'database',
+    role: 'action',
+    service: 'MySQL',
+    credentialType: 'mySql',
+    description: 'reads and writes rows in a MySQL database',
+    difficulty: 'intermediate',
+    prerequisites: ['Basic SQL', 'MySQL connection details'],
+    parameters: {
+      operation: { label: 'Operation', meaning: 'the database action (insert, update, select, execute query…)' },
+      table: { label: 'Table', meaning: 'the table that is read or written' },
+      query: { label: 'Query', meaning: 'the SQL statement that is executed' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.mongoDb',
+    displayName: 'MongoDB',
+    category: 'database',
+    role: 'action',
+    service: 'MongoDB',
+    credentialType: 'mongoDb',
+    description: 'finds, inserts and updates documents in MongoDB',
+    difficulty: 'intermediate',
+    prerequisites: ['MongoDB connection details'],
+    parameters: {
+      operation: { label: 'Operation', meaning: 'the document action (find, insert, update…)' },
+      collection: { label: 'Collection', meaning: 'the collection that is used' },
+      query: { label: 'Query', meaning: 'the filter that selects documents' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.redis',
+    displayName: 'Redis',
+    category: 'database',
+    role: 'action',
+    service: 'Redis',
+    credentialType: 'redis',
+    description: 'gets, sets and publishes keys in Redis',
+    difficulty: 'intermediate',
+    prerequisites: ['Redis connection details'],
+    parameters: {
+      operation: { label: 'Operation', meaning: 'the Redis command family used' },
+      key: { label: 'Key', meaning: 'the key that is read or written' },
+    },
+  },
+
+  // Productivity
+  {
+    type: 'n8n-nodes-base.googleSheets',
+    displayName: 'Google Sheets',
+    category: 'productivity',
+    role: 'action',
+    service: 'Google Sheets',
+    credentialType: 'googleSheetsOAuth2Api',
+    description: 'reads, appends and updates rows in a Google Sheet',
+    difficulty: 'beginner',
+    prerequisites: ['A Google account with OAuth access configured'],
+    parameters: {
+      operation: { label: 'Operation', meaning: 'the row action (append, update, read…)' },
+      documentId: { label: 'Document', meaning: 'the spreadsheet that is used' },
+      sheetName: { label: 'Sheet', meaning: 'the tab inside the spreadsheet' },
+      columns: { label: 'Columns', meaning: 'how item fields map to sheet columns' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.airtable',
+    displayName: 'Airtable',
+    category: 'productivity',
+    role: 'action',
+    service: 'Airtable',
+    credentialType: 'airtableTokenApi',
+    description: 'creates, reads and updates Airtable records',
+    difficulty: 'beginner',
+    prerequisites: ['An Airtable personal access token'],
+    parameters: {
+      operation: { label: 'Operation', meaning: 'the record action' },
+      base: { label: 'Base', meaning: 'the Airtable base that is used' },
+      table: { label: 'Table', meaning: 'the table inside the base' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.notion',
+    displayName: 'Notion',
+    category: 'productivity',
+    role: 'action',
+    service: 'Notion',
+    credentialType: 'notionApi',
+    description: 'creates and updates Notion pages and database entries',
+    difficulty: 'beginner',
+    prerequisites: ['A Notion integration token'],
+    parameters: {
+      resource: { label: 'Resource', meaning: 'which Notion object is used (page, database page, block…)' },
+      operation: { label: 'Operation', meaning: 'what is done with it' },
+      databaseId: { label: 'Database', meaning: 'the Notion database that is written to' },
+    },
+  },
+  {
+    type: 'n8n-nodes-base.github',
+    displayName: 'GitHub',
+    category: 'developer',
+    role: 'action',
+    service: 'GitHub',
+    credentialType: 'githubApi',
+    description: 'manages GitHub issues, files, releases and repositories',
+    difficulty: 'intermediate',
+    prerequisites: ['A GitHub access token'],
+    parameters: {
+      resource: { label: 'Resource', meaning: 'which GitHub object is used' },
+      operation: { label: 'Operation', meaning: 'what is done with it' },
+      owner: { label: 'Repository Owner', meaning: 'the user or organisation that owns the repository' },
+      repository: { label: 'Repository', meaning: 'the repository that is used' },
+    },
+  },
+
+  // AI
+  {
+    type: '@n8n/n8n-nodes-langchain.agent',
+    displayName: 'AI Agent',
+    category: 'ai',
+    role: 'action',
+    description: 'lets a language model decide which connected tools to call to answer a request',
+    difficulty: 'advanced',
+    prerequisites: ['Understanding of large language models', 'An API key for a chat model provider'],
+    parameters: {
+      promptType: { label: 'Prompt Source', meaning: 'whether the prompt comes from a connected chat trigger or is defined here' },
+      text: { label: 'Prompt', meaning: 'the instruction sent to the agent' },
+      options: { label: 'Options', meaning: 'the system message, iteration limit and other agent settings' },
+    },
+  },
+  {
+    type: '@n8n/n8n-nodes-langchain.chainLlm',
+    displayName: 'Basic LLM Chain',
+    category: 'ai',
+    role: 'action',
+    description: 'sends a prompt to a language model and returns its answer',
+    difficulty: 'intermediate',
+    prerequisites: ['An API key for a chat model provider'],
+    parameters: {
+      prompt: { label: 'Prompt', meaning: 'the text sent to the model' },
+    },
+  },
+  {
+    type: '@n8n/n8n-nodes-langchain.openAi',
+    displayName: 'OpenAI',
+    category: 'ai',
+    role: 'action',
+    service: 'OpenAI',
+    credentialType: 'openAiApi',
+    description: 'calls OpenAI models for text, images and audio',
+    difficulty: 'intermediate',
+    prerequisites: ['An OpenAI API key'],
+    parameters: {
+      resource: { label: 'Resource', meaning: 'which kind of model is used (text, image, audio…)' },
+      modelId: { label: 'Model', meaning: 'the OpenAI model that is called' },
+    },
+  },
+  {
+    type: '@n8n/n8n-nodes-langchain.lmChatOpenAi',
+    displayName: 'OpenAI Chat Model',
+    category: 'ai',
+    role: 'sub-node',
+    service: 'OpenAI',
+    credentialType: 'openAiApi',
+    description: 'provides an OpenAI chat model to the agent or chain it is attached to',
+    difficulty: 'intermediate',
+    prerequisites: ['An OpenAI API key'],
+    parameters: {
+      model: { label: 'Model', meaning: 'the chat model used by the parent node' },
+      options: { label: 'Options', meaning: 'sampling settings such as temperature and max tokens' },
+    },
+  },
+  {
+    type: '@n8n/n8n-nodes-langchain.lmChatGoogleGemini',
+    displayName: 'Google Gemini Chat Model',
+    category: 'ai',
+    role: 'sub-node',
+    service: 'Google Gemini',
+    credentialType: 'googlePalmApi',
+    description: 'provides a Google Gemini chat model to the agent or chain it is attached to',
+    difficulty: 'intermediate',
+    prerequisites: ['A Google AI Studio API key'],
+    parameters: {
+      modelName: { label: 'Model', meaning: 'the Gemini model used by the parent node' },
+    },
+  },
+  {
+    type: '@n8n/n8n-nodes-langchain.memoryBufferWindow',
+    displayName: 'Window Buffer Memory',
+    category: 'ai',
+    role: 'sub-node',
+    description: 'remembers the last few chat messages so the agent keeps context',
+    difficulty: 'intermediate',
+    prerequisites: [],
+    parameters: {
+      contextWindowLength: { label: 'Context Window Length', meaning: 'how many past messages are remembered' },
+    },
+  },
+  {
+    type: '@n8n/n8n-nodes-langchain.toolHttpRequest',
+    displayName: 'HTTP Request Tool',
+    category: 'ai',
+    role: 'sub-node',
+    description: 'lets an agent call an HTTP API as a tool',
+    difficulty: 'advanced',
+    prerequisites: ['Familiarity with REST APIs'],
+    parameters: {
+      toolDescription: { label: 'Description', meaning: 'tells the model when this tool should be used' },
+      url: { label: 'URL', meaning: 'the endpoint the tool calls' },
+    },
+  },
+  {
+    type: '@n8n/n8n-nodes-langchain.toolCode',
+    displayName: 'Code Tool',
+    category: 'ai',
+    role: 'sub-node',
+    description: 'lets an agent run custom code as a tool',
+    difficulty: 'advanced',
+    prerequisites: ['Basic JavaScript or Python'],
+    parameters: {
+      description: { label: 'Description', meaning: 'tells the model when this tool should be used' },
+      jsCode: { label: 'JavaScript', meaning: 'the code run when the tool is called' },
+    },
+  },
+  {
+    type: '@n8n/n8n-nodes-langchain.outputParserStructured',
+    displayName: 'Structured Output Parser',
+    category: 'ai',
+    role: 'sub-node',
+    description: 'forces the model answer into a JSON structure',
+    difficulty: 'advanced',
+    prerequisites: ['Basic JSON Schema'],
+    parameters: {
+      jsonSchemaExample: { label: 'JSON Example', meaning: 'an example of the structure the answer must follow' },
+    },
+  },
+
+  // Documentation
+  {
+    type: 'n8n-nodes-base.stickyNote',
+    displayName: 'Sticky Note',
+    category: 'core',
+    role: 'action',
+    description: 'holds documentation on the canvas and is never executed',
+    difficulty: 'beginner',
+    prerequisites: [],
+    parameters: {
+      content: { label: 'Content', meaning: 'the note text' },
+    },
+  },
+];
@@ -0,0 +1,13 @@
+// Server Instrumentation
+// Next.js calls register() once per server process; start the job worker there so queued
+// and interrupted jobs resume after a restart without waiting for the first request
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { assertRunPodWebhookConfig } = await import('./lib/runpod')
+    assertRunPodWebhookConfig()
+
+    const { startJobWorker } = await import('./lib/jobs')
+    startJobWorker()
+  }
+}
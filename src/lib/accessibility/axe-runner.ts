@@ -0,0 +1,104 @@
+// Axe Runner
+// Loads a page into jsdom and runs axe-core on it. The page's own scripts never run; axe is the
+// only code evaluated in the window, and jsdom does no layout, so checks that need rendering
+// (colour contrast, for one) come back incomplete rather than passed.
+
+import axe from 'axe-core'
+import { JSDOM, VirtualConsole } from 'jsdom'
+import type { AxeNode, AxeResults } from './service'
+
+export type ConformanceLevel = 'A' | 'AA' | 'AAA'
+
+// Each level includes the rules of the levels below it, across WCAG 2.0, 2.1 and 2.2
+const LEVEL_TAGS: Record<ConformanceLevel, string[]> = {
+  A: ['wcag2a', 'wcag21a'],
+  AA: ['wcag2a', 'wcag21a', 'wcag2aa', 'wcag21aa', 'wcag22aa'],
+  AAA: ['wcag2a', 'wcag21a', 'wcag2aa', 'wcag21aa', 'wcag22aa', 'wcag2aaa']
+}
+
+let knownTags: Set<string> | null = null
+
+/**
+ * Every tag some axe rule carries: levels ('wcag2aa'), success criteria ('wcag111'), 'best-practice', ...
+ */
+export function isAxeTag(tag: string): boolean {
+  knownTags ??= new Set(axe.getRules().flatMap(rule => rule.tags))
+  return knownTags.has(tag)
+}
+
+/**
+ * Why a check's level or extra guidelines from a request are unusable, or null when they are fine
+ */
+export function validateCheckSettings(level: unknown, guidelines: unknown = []): string | null {
+  if (typeof level !== 'string' || !Object.keys(LEVEL_TAGS).includes(level)) {
+    return 'level must be A, AA or AAA'
+  }
+  if (!Array.isArray(guidelines) || guidelines.some(tag => typeof tag !== 'string')) {
+    return 'guidelines must be an array of axe-core tags'
+  }
+
+  const unknownTags = guidelines.filter(tag => !isAxeTag(tag))
+  if (unknownTags.length > 0) {
+    return `Unknown guidelines: ${unknownTags.join(', ')}. Use axe-core tags such as wcag2aa, wcag111 or best-practice`
+  }
+  return null
+}
+
+/**
+ * The rules to run: those for the level plus any rule carrying one of the extra tags
+ */
+export function axeTagsFor(level: ConformanceLevel, extraTags: string[] = []): string[] {
+  return [...new Set([...(LEVEL_TAGS[level] || LEVEL_TAGS.AA), ...extraTags])]
+}
+
+export async function runAxe(html: string, tags: string[], url?: string): Promise<AxeResults> {
+  const dom = new JSDOM(html, {
+    url,
+    runScripts: 'outside-only',
+    pretendToBeVisual: true,
+    // jsdom reports CSS it cannot parse; none of that is the page's accessibility
+    virtualConsole: new VirtualConsole()
+  })
+
+  try {
+    const window = dom.window as unknown as Window & { eval(source: string): void; axe: typeof axe }
+    window.eval(axe.source)
+    const results = await window.axe.run(window.document, {
+      runOnly: { type: 'tag', values: tags }
+    })
+
+    return {
+      violations: results.violations.map(result => ({
+        ...summary(result),
+        impact: result.impact || 'moderate',
+        nodes: result.nodes.map(toAxeNode)
+      })),
+      passes: results.passes.map(result => ({ ...summary(result), nodes: result.nodes.map(toAxeNode) })),
+      incomplete: results.incomplete.map(result => ({ ...summary(result), nodes: result.nodes.map(toAxeNode) })),
+      inapplicable: results.inapplicable.map(summary)
+    }
+  } finally {
+    dom.window.close()
+  }
+}
+
+function summary(result: axe.Result) {
+  return {
+    id: result.id,
+    impact: result.impact ?? null,
+    tags: result.tags,
+    description: result.description,
+    help: result.help,
+    helpUrl: result.helpUrl
+  }
+}
+
+function toAxeNode(node: axe.NodeResult): AxeNode {
+  return {
+    // Selectors inside shadow roots come as a path of selectors, one per root
+    target: node.target.map(selector => Array.isArray(selector) ? selector.join(' >>> ') : String(selector)),
+    html: node.html,
+    failureSummary: node.failureSummary || '',
+    impact: node.impact || ''
+  }
+}
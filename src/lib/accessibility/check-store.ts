@@ -0,0 +1,81 @@
+// Accessibility Check Store
+// Every check's results, and the conformance reports built from them, kept under the data directory
+// so reports can be rendered and fetched later
+
+import { getDataDirectory, JsonFileCollection } from '../storage'
+import type { ConformanceLevel } from './axe-runner'
+import type { ConformanceReport } from './conformance-report'
+import type {
+  AccessibilityReport,
+  AccessibilityRepair,
+  AccessibilityTestOptions,
+  AxeResults,
+  CustomAccessibilityChecks,
+  ImprovementSuggestion
+} from './service'
+
+// What was checked: a URL or storybook by reference, submitted HTML by its opening
+export interface AccessibilityCheckSubject {
+  type: AccessibilityTestOptions['checkType']
+  url?: string
+  storybookId?: string
+  locale?: string
+  excerpt?: string
+}
+
+export interface AccessibilityCheckRecord {
+  id: string
+  subject: AccessibilityCheckSubject
+  level: ConformanceLevel
+  guidelines: string[]
+  results: {
+    axe: AxeResults
+    custom: CustomAccessibilityChecks
+    suggestions: ImprovementSuggestion[]
+    repairs: AccessibilityRepair[]
+  }
+  score: number
+  passed: boolean
+  createdAt: string
+  processingTime: number
+  report?: AccessibilityReport
+}
+
+export class AccessibilityCheckStore {
+  private checks: JsonFileCollection<AccessibilityCheckRecord>
+  private conformanceReports: JsonFileCollection<ConformanceReport>
+
+  constructor(baseDir: string) {
+    this.checks = new JsonFileCollection<AccessibilityCheckRecord>(baseDir, 'accessibility-checks')
+    this.conformanceReports = new JsonFileCollection<ConformanceReport>(baseDir, 'accessibility-conformance-reports')
+  }
+
+  async get(id: string): Promise<AccessibilityCheckRecord | null> {
+    return this.checks.get(id)
+  }
+
+  async save(check: AccessibilityCheckRecord): Promise<AccessibilityCheckRecord> {
+    return this.checks.put(check.id, check)
+  }
+
+  async getConformanceReport(id: string): Promise<ConformanceReport | null> {
+    return this.conformanceReports.get(id)
+  }
+
+  async saveConformanceReport(report: ConformanceReport): Promise<ConformanceReport> {
+    return this.conformanceReports.put(report.id, report)
+  }
+}
+
+export function createCheckId(): string {
+  return `acc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+let store: AccessibilityCheckStore | null = null
+
+export function getAccessibilityCheckStore(): AccessibilityCheckStore {
+  if (!store) {
+    store = new AccessibilityCheckStore(getDataDirectory())
+  }
+  return store
+}
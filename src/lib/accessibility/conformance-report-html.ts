@@ -0,0 +1,108 @@
+// Conformance Report HTML
+// The ACR as a standalone page in the VPAT's section order, with a table per conformance level
+
+import { CONFORMANCE_TERMS, criterionLabel } from './conformance'
+import type { ConformanceReport } from './conformance-report'
+import { formatScore } from './report-findings'
+import { criterionUrl } from './wcag'
+
+const STYLES = `
+body { font: 16px/1.5 system-ui, sans-serif; color: #1f2328; background: #fff; margin: 0; }
+main { max-width: 64rem; margin: 0 auto; padding: 2rem 1.5rem; }
+h1, h2, h3 { line-height: 1.25; }
+a { color: #0a53be; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: .25rem 1rem; }
+dt { font-weight: 600; }
+dd { margin: 0; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 2rem; }
+caption { text-align: start; font-weight: 600; padding-bottom: .5rem; }
+th, td { border: 1px solid #d0d7de; padding: .375rem .5rem; text-align: start; vertical-align: top; }
+thead th { background: #f6f8fa; }
+`
+
+export function renderConformanceReportHtml(report: ConformanceReport): string {
+  const { product } = report
+  const title = `${product.name} Accessibility Conformance Report`
+
+  const details = [
+    ['Name of Product/Version', [product.name, product.version].filter(Boolean).join(' ')],
+    ['Report Date', report.reportDate],
+    ['Product Description', product.description || ''],
+    ['Contact Information', product.contact || ''],
+    ['Notes', report.notes],
+    ['Evaluation Methods Used', report.evaluationMethods]
+  ].filter(([, value]) => value)
+
+  const standards = table(
+    'Applicable Standards/Guidelines',
+    ['Standard/Guideline', 'Included In Report'],
+    report.standards.map(standard => [
+      text(standard.guideline),
+      (['A', 'AA', 'AAA'] as const).map(level => `Level ${level} (${standard.levels[level] ? 'Yes' : 'No'})`).join('<br>')
+    ])
+  )
+
+  const terms = `<dl>${Object.entries(CONFORMANCE_TERMS).map(([term, meaning]) =>
+    `<dt>${text(term)}</dt><dd>${text(meaning)}</dd>`
+  ).join('')}</dl>`
+
+  const tables = report.tables.map((levelTable, index) => table(
+    `Table ${index + 1}: Success Criteria, Level ${levelTable.level}`,
+    ['Criteria', 'Conformance Level', 'Remarks and Explanations'],
+    levelTable.criteria.map(item => [
+      `<a href="${attribute(criterionUrl(item.criterion))}">${text(criterionLabel(item))}</a>`,
+      text(item.support),
+      text(item.remarks)
+    ])
+  ))
+
+  const checks = report.checks.map(check =>
+    `<li><a href="${attribute(check.reportUrl)}">Check of the ${text(check.locale)} storybook</a> (score ${formatScore(check.score)})</li>`
+  )
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${text(title)}</title>`,
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    '<main>',
+    `<h1>${text(title)}</h1>`,
+    '<p>Based on the VPAT® Version 2.5 template, WCAG edition</p>',
+    `<dl>${details.map(([label, value]) => `<dt>${text(label)}</dt><dd>${text(value)}</dd>`).join('')}</dl>`,
+    section('standards', 'Applicable Standards/Guidelines', `<p>This report covers the degree of conformance for the following accessibility standard/guidelines:</p>${standards}`),
+    section('terms', 'Terms', `<p>The terms used in the Conformance Level information are defined as follows:</p>${terms}`),
+    section('wcag', 'WCAG 2.2 Report', tables.join('\n')),
+    checks.length > 0 ? section('checks', 'Evaluation results', `<ul>${checks.join('')}</ul>`) : '',
+    '</main>',
+    '</body>',
+    '</html>',
+    ''
+  ].filter(Boolean).join('\n')
+}
+
+function section(id: string, title: string, body: string): string {
+  return `<section aria-labelledby="${id}"><h2 id="${id}">${text(title)}</h2>${body}</section>`
+}
+
+// Cells are already escaped
+function table(caption: string, headings: string[], rows: string[][]): string {
+  return [
+    `<table><caption>${text(caption)}</caption>`,
+    `<thead><tr>${headings.map(heading => `<th scope="col">${text(heading)}</th>`).join('')}</tr></thead>`,
+    `<tbody>${rows.map(([first, ...rest]) => `<tr><th scope="row">${first}</th>${rest.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('')}</tbody>`,
+    '</table>'
+  ].join('')
+}
+
+function text(value: string | undefined): string {
+  return (value || '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function attribute(value: string | undefined): string {
+  return text(value).replace(/"/g, '&quot;')
+}
@@ -0,0 +1,44 @@
+// Conformance Report PDF
+// The ACR as a tagged PDF, each table row written out as a paragraph under its level's heading
+
+import { PdfBlock, renderPdf } from '../pdf-document'
+import { CONFORMANCE_TERMS, ConformanceSupport, criterionLabel } from './conformance'
+import type { ConformanceReport } from './conformance-report'
+import { formatScore } from './report-findings'
+
+export function renderConformanceReportPdf(report: ConformanceReport): Buffer {
+  const { product } = report
+  const title = `${product.name} Accessibility Conformance Report`
+  const paragraph = (text: string): PdfBlock => ({ role: 'P', text })
+
+  const blocks: PdfBlock[] = [
+    { role: 'H1', text: title },
+    paragraph('Based on the VPAT® Version 2.5 template, WCAG edition'),
+    paragraph(`Name of Product/Version: ${[product.name, product.version].filter(Boolean).join(' ')}`),
+    paragraph(`Report Date: ${report.reportDate}`),
+    ...(product.description ? [paragraph(`Product Description: ${product.description}`)] : []),
+    ...(product.contact ? [paragraph(`Contact Information: ${product.contact}`)] : []),
+    paragraph(`Notes: ${report.notes}`),
+    paragraph(`Evaluation Methods Used: ${report.evaluationMethods}`),
+    { role: 'H2', text: 'Applicable Standards/Guidelines' },
+    ...report.standards.map(standard => paragraph(
+      `${standard.guideline}: ${(['A', 'AA', 'AAA'] as const).map(level => `Level ${level} (${standard.levels[level] ? 'Yes' : 'No'})`).join(', ')}`
+    )),
+    { role: 'H2', text: 'Terms' },
+    ...(Object.entries(CONFORMANCE_TERMS) as [ConformanceSupport, string][]).map(([term, meaning]) => paragraph(`${term}: ${meaning}`)),
+    { role: 'H2', text: 'WCAG 2.2 Report' },
+    ...report.tables.flatMap((levelTable, index) => [
+      { role: 'H3' as const, text: `Table ${index + 1}: Success Criteria, Level ${levelTable.level}` },
+      ...levelTable.criteria.map(item => paragraph(`${criterionLabel(item)}: ${item.support}. ${item.remarks}`))
+    ])
+  ]
+
+  if (report.checks.length > 0) {
+    blocks.push(
+      { role: 'H2', text: 'Evaluation results' },
+      ...report.checks.map(check => paragraph(`${check.locale}: score ${formatScore(check.score)}, ${check.reportUrl}`))
+    )
+  }
+
+  return renderPdf(blocks, { title, language: 'en' })
+}
@@ -0,0 +1,140 @@
+// Accessibility Conformance Report
+// A storybook's WCAG 2.2 conformance laid out as the WCAG edition of the VPAT 2.x template: product
+// details, evaluation methods, applicable standards, then one table per level with a conformance
+// level and remarks for every success criterion. Written out as HTML, PDF and JSON.
+
+import axe from 'axe-core'
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { ConformanceLevel } from './axe-runner'
+import type { AccessibilityCheckRecord } from './check-store'
+import { conformanceSummary, ConformanceSupport, CriterionConformance, rollUpConformance } from './conformance'
+import { renderConformanceReportHtml } from './conformance-report-html'
+import { renderConformanceReportPdf } from './conformance-report-pdf'
+import { getReportDirectory, reportUrl } from './report'
+
+export type ConformanceReportFormat = 'html' | 'pdf' | 'json'
+
+export interface ConformanceReportProduct {
+  name: string
+  version?: string
+  description?: string
+  contact?: string
+}
+
+export interface ConformanceReport {
+  id: string
+  storybookId: string
+  product: ConformanceReportProduct
+  reportDate: string // YYYY-MM-DD
+  level: ConformanceLevel
+  locales: string[]
+  evaluationMethods: string
+  notes: string
+  standards: { guideline: string; levels: Record<ConformanceLevel, boolean> }[]
+  tables: { level: ConformanceLevel; criteria: CriterionConformance[] }[]
+  summary: Record<ConformanceSupport, number>
+  checks: { id: string; locale: string; score: number; reportUrl: string }[]
+  files?: Record<ConformanceReportFormat, string>
+  createdAt: string
+}
+
+export interface ConformanceReportInput {
+  storybookId: string
+  product: ConformanceReportProduct
+  level: ConformanceLevel
+  checks: { locale: string; check: AccessibilityCheckRecord }[]
+  notes?: string
+}
+
+export const CONFORMANCE_REPORT_FORMATS: ConformanceReportFormat[] = ['html', 'pdf', 'json']
+
+export const CONFORMANCE_REPORT_CONTENT_TYPES: Record<ConformanceReportFormat, string> = {
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf',
+  json: 'application/json; charset=utf-8'
+}
+
+export const CONFORMANCE_REPORT_FILE_EXTENSIONS: Record<ConformanceReportFormat, string> = {
+  html: '.acr.html',
+  pdf: '.acr.pdf',
+  json: '.acr.json'
+}
+
+export const CONFORMANCE_REPORT_PATH = '/api/accessibility/acr'
+
+const LEVELS: ConformanceLevel[] = ['A', 'AA', 'AAA']
+
+export function buildConformanceReport(input: ConformanceReportInput): ConformanceReport {
+  const criteria = rollUpConformance(input.checks.map(item => item.check), input.level)
+  const included = (level: ConformanceLevel) => LEVELS.indexOf(level) <= LEVELS.indexOf(input.level)
+  const locales = input.checks.map(item => item.locale)
+  const createdAt = new Date().toISOString()
+
+  return {
+    id: createConformanceReportId(),
+    storybookId: input.storybookId,
+    product: input.product,
+    reportDate: createdAt.slice(0, 10),
+    level: input.level,
+    locales,
+    evaluationMethods:
+      `Automated testing with axe-core ${axe.version} and the service's own checks, run on the storybook ` +
+      `rendered as a static page in ${locales.join(', ')}. The page is loaded in jsdom, which does no layout, ` +
+      'so rules that need rendering (colour contrast, for one) are reported for manual review.',
+    notes: [
+      input.notes,
+      'Criteria marked Not Evaluated are not covered by automated checks and need manual evaluation ' +
+        'before this report is published; the VPAT allows Not Evaluated only for Level AAA.'
+    ].filter(Boolean).join(' '),
+    standards: ['2.0', '2.1', '2.2'].map(version => ({
+      guideline: `Web Content Accessibility Guidelines ${version}`,
+      levels: { A: included('A'), AA: included('AA'), AAA: included('AAA') }
+    })),
+    tables: LEVELS.filter(included).map(level => ({
+      level,
+      criteria: criteria.filter(item => item.criterion.level === level)
+    })),
+    summary: conformanceSummary(criteria),
+    checks: input.checks.map(({ locale, check }) => ({
+      id: check.id,
+      locale,
+      score: check.score,
+      reportUrl: reportUrl(check.id, 'html')
+    })),
+    createdAt
+  }
+}
+
+export function conformanceReportFilePath(reportId: string, format: ConformanceReportFormat): string {
+  return path.join(getReportDirectory(), `${reportId}${CONFORMANCE_REPORT_FILE_EXTENSIONS[format]}`)
+}
+
+/**
+ * Write the report in every format. Returns the report with files filled in.
+ */
+export async function writeConformanceReport(report: ConformanceReport): Promise<ConformanceReport> {
+  await fs.mkdir(getReportDirectory(), { recursive: true })
+
+  const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000'
+  const files = {} as Record<ConformanceReportFormat, string>
+  for (const format of CONFORMANCE_REPORT_FORMATS) {
+    files[format] = `${baseUrl}${CONFORMANCE_REPORT_PATH}?id=${encodeURIComponent(report.id)}&format=${format}`
+  }
+  const written = { ...report, files }
+
+  const rendered: Record<ConformanceReportFormat, string | Buffer> = {
+    html: renderConformanceReportHtml(written),
+    pdf: renderConformanceReportPdf(written),
+    json: JSON.stringify(written, null, 2)
+  }
+  for (const format of CONFORMANCE_REPORT_FORMATS) {
+    await fs.writeFile(conformanceReportFilePath(report.id, format), rendered[format])
+  }
+
+  return written
+}
+
+function createConformanceReportId(): string {
+  return `acr_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
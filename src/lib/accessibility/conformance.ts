@@ -0,0 +1,159 @@
+// Conformance Roll-up
+// One conformance level per WCAG success criterion from one or more checks, in the terms an
+// Accessibility Conformance Report uses. Automated checks can show a criterion fails; a criterion no
+// rule covers is reported as not evaluated rather than assumed to pass.
+
+import type { ConformanceLevel } from './axe-runner'
+import type { AccessibilityCheckRecord } from './check-store'
+import { criterionFindings } from './report-findings'
+import { criteriaForTags, criterionForGuideline, WCAG_CRITERIA, WcagCriterion } from './wcag'
+
+export type ConformanceSupport = 'Supports' | 'Partially Supports' | 'Does Not Support' | 'Not Applicable' | 'Not Evaluated'
+
+export interface CriterionConformance {
+  criterion: WcagCriterion
+  support: ConformanceSupport
+  remarks: string
+  failures: number // failing elements, across every check
+  passes: number
+  needsReview: number
+  rules: string[] // axe rules and the service's own checks that tested the criterion
+}
+
+export const CONFORMANCE_SUPPORT: ConformanceSupport[] = [
+  'Supports', 'Partially Supports', 'Does Not Support', 'Not Applicable', 'Not Evaluated'
+]
+
+// The VPAT's own wording is for the vendor to adjust; these say what each level means in this report
+export const CONFORMANCE_TERMS: Record<ConformanceSupport, string> = {
+  'Supports': 'The content meets the criterion without known defects.',
+  'Partially Supports': 'Some of the content does not meet the criterion.',
+  'Does Not Support': 'The content that the criterion applies to does not meet it.',
+  'Not Applicable': 'The criterion is not relevant to the content.',
+  'Not Evaluated': 'The content has not been evaluated against the criterion.'
+}
+
+const LEVEL_RANK: Record<ConformanceLevel, number> = { A: 1, AA: 2, AAA: 3 }
+
+interface Tally {
+  failures: number
+  passes: number
+  needsReview: number
+  failing: Map<string, string> // rule id → what it checks
+  reviewing: Map<string, string>
+  passing: Set<string>
+  inapplicable: Set<string>
+}
+
+/**
+ * Every criterion up to the level, with what the checks found for it. Several checks (one per
+ * language of a storybook, say) count together: a failure in any of them counts against the criterion.
+ */
+export function rollUpConformance(checks: AccessibilityCheckRecord[], level: ConformanceLevel): CriterionConformance[] {
+  const tallies = new Map<string, Tally>()
+  const tallyFor = (criterion: WcagCriterion) => {
+    let tally = tallies.get(criterion.number)
+    if (!tally) {
+      tally = { failures: 0, passes: 0, needsReview: 0, failing: new Map(), reviewing: new Map(), passing: new Set(), inapplicable: new Set() }
+      tallies.set(criterion.number, tally)
+    }
+    return tally
+  }
+
+  for (const check of checks) {
+    for (const group of criterionFindings(check)) {
+      if (!group.criterion) continue
+      const tally = tallyFor(group.criterion)
+
+      for (const rule of group.violations) {
+        tally.failures += rule.nodes.length
+        tally.failing.set(rule.id, rule.help)
+      }
+      for (const rule of group.incomplete) {
+        // Rules jsdom cannot evaluate come back incomplete without any nodes
+        tally.needsReview += rule.nodes.length || 1
+        tally.reviewing.set(rule.id, rule.help)
+      }
+      for (const rule of group.passes) {
+        tally.passes += rule.nodes.length
+        tally.passing.add(rule.id)
+      }
+      for (const issue of group.issues) {
+        if (issue.type === 'error') {
+          tally.failures++
+          tally.failing.set(issue.id, issue.description)
+        } else {
+          tally.needsReview++
+          tally.reviewing.set(issue.id, issue.description)
+        }
+      }
+    }
+
+    for (const warning of check.results.custom.warnings) {
+      const criterion = warning.guideline && criterionForGuideline(warning.guideline)
+      if (!criterion) continue
+      const tally = tallyFor(criterion)
+      tally.needsReview += warning.nodes.length || 1
+      tally.reviewing.set(warning.id, warning.description)
+    }
+
+    for (const rule of check.results.axe.inapplicable) {
+      criteriaForTags(rule.tags).forEach(criterion => tallyFor(criterion).inapplicable.add(rule.id))
+    }
+  }
+
+  return WCAG_CRITERIA
+    .filter(criterion => LEVEL_RANK[criterion.level] <= LEVEL_RANK[level])
+    .map(criterion => conformance(criterion, tallies.get(criterion.number)))
+}
+
+export function conformanceSummary(criteria: CriterionConformance[]): Record<ConformanceSupport, number> {
+  const summary = Object.fromEntries(CONFORMANCE_SUPPORT.map(support => [support, 0])) as Record<ConformanceSupport, number>
+  criteria.forEach(item => summary[item.support]++)
+  return summary
+}
+
+export function criterionLabel(item: CriterionConformance): string {
+  const { criterion } = item
+  const since = criterion.since === '2.0' ? '' : `, WCAG ${criterion.since} and later`
+  return `${criterion.number} ${criterion.title} (Level ${criterion.level}${since})`
+}
+
+function conformance(criterion: WcagCriterion, tally: Tally | undefined): CriterionConformance {
+  const counts = { failures: tally?.failures ?? 0, passes: tally?.passes ?? 0, needsReview: tally?.needsReview ?? 0 }
+  const rules = tally ? [...new Set([...tally.failing.keys(), ...tally.reviewing.keys(), ...tally.passing, ...tally.inapplicable])] : []
+  const result = (support: ConformanceSupport, remarks: string) => ({ criterion, support, remarks, ...counts, rules })
+
+  if (criterion.obsolete) {
+    return result('Supports', 'Removed in WCAG 2.2 and treated as satisfied.')
+  }
+  if (!tally || rules.length === 0) {
+    return result('Not Evaluated', 'No automated check covers this criterion; it needs manual evaluation.')
+  }
+
+  const review = counts.needsReview > 0
+    ? ` ${elements(counts.needsReview)} need manual review: ${describe(tally.reviewing)}.`
+    : ''
+
+  if (counts.failures > 0) {
+    const failing = `${elements(counts.failures)} fail: ${describe(tally.failing)}.`
+    return counts.passes > 0
+      ? result('Partially Supports', `${failing} ${elements(counts.passes)} pass.${review}`)
+      : result('Does Not Support', `${failing}${review}`)
+  }
+  if (counts.passes > 0) {
+    return result('Supports', `Automated checks pass on ${elements(counts.passes)} (${[...tally.passing].join(', ')}).${review}`)
+  }
+  if (counts.needsReview > 0) {
+    return result('Not Evaluated', review.trim())
+  }
+  return result('Not Applicable', `No content this criterion applies to was found (${[...tally.inapplicable].join(', ')}).`)
+}
+
+function describe(rules: Map<string, string>): string {
+  return [...rules].map(([id, help]) => `${help} (${id})`).join('; ')
+}
+
+function elements(count: number): string {
+  return `${count} ${count === 1 ? 'element' : 'elements'}`
+}
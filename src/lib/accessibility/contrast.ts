@@ -0,0 +1,95 @@
+// Colour Contrast
+// WCAG contrast ratios for the player's themes. Each foreground/background token pair the player
+// draws is measured against the minimum for its kind at the requested level; the high-contrast theme
+// is always held to AAA, since meeting it is the point of that theme.
+
+import { ContrastKind, PLAYER_THEME_PAIRS, PlayerTheme, PlayerThemeToken } from '../player-theme'
+import type { ConformanceLevel } from './axe-runner'
+
+export interface ContrastResult {
+  foreground: PlayerThemeToken
+  background: PlayerThemeToken
+  kind: ContrastKind
+  colors: [string, string]
+  ratio: number // rounded down to two decimal places, so a pair never rounds up to a pass
+  required: number
+  passed: boolean
+}
+
+export interface ThemeContrastReport {
+  theme: string
+  level: ConformanceLevel
+  passed: boolean
+  pairs: ContrastResult[]
+}
+
+// Minimum ratios: WCAG 1.4.3 and 1.4.6 for text, 1.4.11 for outlines and focus indicators
+export const CONTRAST_MINIMUMS: Record<ConformanceLevel, Record<ContrastKind, number>> = {
+  A: { text: 1, 'large-text': 1, 'non-text': 1 },
+  AA: { text: 4.5, 'large-text': 3, 'non-text': 3 },
+  AAA: { text: 7, 'large-text': 4.5, 'non-text': 3 }
+}
+
+export class ThemeContrastError extends Error {
+  readonly code = 'THEME_CONTRAST'
+
+  constructor(readonly reports: ThemeContrastReport[]) {
+    const failing = reports.filter(report => !report.passed)
+    super(`Theme contrast below WCAG requirements: ${failing.map(report =>
+      `${report.theme} (${report.pairs.filter(pair => !pair.passed).map(describePair).join(', ')})`
+    ).join('; ')}`)
+    this.name = 'ThemeContrastError'
+  }
+}
+
+/**
+ * The contrast ratio of two hex colours, from 1 (none) to 21 (black on white)
+ */
+export function contrastRatio(foreground: string, background: string): number {
+  const [lighter, darker] = [relativeLuminance(foreground), relativeLuminance(background)].sort((a, b) => b - a)
+  return (lighter + 0.05) / (darker + 0.05)
+}
+
+export function relativeLuminance(color: string): number {
+  const [red, green, blue] = parseHexColor(color).map(channel => {
+    const value = channel / 255
+    return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4
+  })
+  return 0.2126 * red + 0.7152 * green + 0.0722 * blue
+}
+
+export function checkThemeContrast(theme: PlayerTheme, level: ConformanceLevel): ThemeContrastReport {
+  const themeLevel = theme.name === 'high-contrast' ? 'AAA' : level
+  const pairs = PLAYER_THEME_PAIRS.map(({ foreground, background, kind }): ContrastResult => {
+    const colors: [string, string] = [theme.tokens[foreground], theme.tokens[background]]
+    const ratio = Math.floor(contrastRatio(...colors) * 100) / 100
+    const required = (CONTRAST_MINIMUMS[themeLevel] || CONTRAST_MINIMUMS.AA)[kind]
+    return { foreground, background, kind, colors, ratio, required, passed: ratio >= required }
+  })
+
+  return { theme: theme.name, level: themeLevel, passed: pairs.every(pair => pair.passed), pairs }
+}
+
+/**
+ * Check every theme; throws ThemeContrastError naming the failing pairs when any theme falls short
+ */
+export function assertThemeContrast(themes: PlayerTheme[], level: ConformanceLevel): ThemeContrastReport[] {
+  const reports = themes.map(theme => checkThemeContrast(theme, level))
+  if (reports.some(report => !report.passed)) {
+    throw new ThemeContrastError(reports)
+  }
+  return reports
+}
+
+function parseHexColor(color: string): [number, number, number] {
+  const hex = color.trim().replace(/^#/, '')
+  const full = hex.length === 3 ? hex.split('').map(digit => digit + digit).join('') : hex
+  if (!/^[0-9a-f]{6}$/i.test(full)) {
+    throw new Error(`Not a hex colour: ${color}`)
+  }
+  return [0, 2, 4].map(offset => parseInt(full.slice(offset, offset + 2), 16)) as [number, number, number]
+}
+
+function describePair(pair: ContrastResult): string {
+  return `${pair.foreground} on ${pair.background} ${pair.ratio}:1, needs ${pair.required}:1`
+}
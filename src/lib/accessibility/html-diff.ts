@@ -0,0 +1,123 @@
+// HTML Diff
+// A unified line diff between two versions of a page, for showing what repairs changed
+
+// Beyond this many line pairs the middle of the page is shown as replaced wholesale
+const MAX_COMPARISONS = 4_000_000
+
+const CONTEXT_LINES = 3
+
+type Edit = { kind: ' ' | '-' | '+'; line: string }
+
+/**
+ * Unified diff (as `diff -u` prints it, without file headers); empty when nothing changed
+ */
+export function diffLines(before: string, after: string): string {
+  const edits = lineEdits(before.split('\n'), after.split('\n'))
+  if (edits.every(edit => edit.kind === ' ')) return ''
+
+  const hunks: string[] = []
+  let index = 0
+  let oldLine = 1
+  let newLine = 1
+
+  while (index < edits.length) {
+    if (edits[index].kind === ' ') {
+      index++
+      oldLine++
+      newLine++
+      continue
+    }
+
+    // Open a hunk a little before the change and extend it while changes are close together
+    const lead = Math.min(CONTEXT_LINES, countBackwards(edits, index))
+    let end = index
+    while (end < edits.length) {
+      if (edits[end].kind !== ' ') {
+        end++
+        continue
+      }
+      const gap = countForwards(edits, end)
+      if (end + gap >= edits.length || gap > CONTEXT_LINES * 2) {
+        end += Math.min(gap, CONTEXT_LINES)
+        break
+      }
+      end += gap
+    }
+
+    const hunk = edits.slice(index - lead, end)
+    const oldStart = oldLine - lead
+    const newStart = newLine - lead
+    const oldCount = hunk.filter(edit => edit.kind !== '+').length
+    const newCount = hunk.filter(edit => edit.kind !== '-').length
+    hunks.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, ...hunk.map(edit => `${edit.kind}${edit.line}`))
+
+    oldLine = oldStart + oldCount
+    newLine = newStart + newCount
+    index = end
+  }
+
+  return hunks.join('\n') + '\n'
+}
+
+function lineEdits(a: string[], b: string[]): Edit[] {
+  // Lines both versions start and end with need no comparing
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+  let suffix = 0
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++
+
+  const oldMiddle = a.slice(prefix, a.length - suffix)
+  const newMiddle = b.slice(prefix, b.length - suffix)
+  const same = (line: string): Edit => ({ kind: ' ', line })
+
+  return [
+    ...a.slice(0, prefix).map(same),
+    ...middleEdits(oldMiddle, newMiddle),
+    ...a.slice(a.length - suffix).map(same)
+  ]
+}
+
+// Longest common subsequence of lines, walked back into edits
+function middleEdits(a: string[], b: string[]): Edit[] {
+  if (a.length * b.length > MAX_COMPARISONS) {
+    return [...a.map(line => ({ kind: '-' as const, line })), ...b.map(line => ({ kind: '+' as const, line }))]
+  }
+
+  const width = b.length + 1
+  const lengths = new Uint32Array((a.length + 1) * width)
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  const edits: Edit[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      edits.push({ kind: ' ', line: a[i++] })
+      j++
+    } else if (i < a.length && (j === b.length || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+      // Removed lines come before the lines that replace them, as diff prints them
+      edits.push({ kind: '-', line: a[i++] })
+    } else {
+      edits.push({ kind: '+', line: b[j++] })
+    }
+  }
+  return edits
+}
+
+function countBackwards(edits: Edit[], from: number): number {
+  let count = 0
+  while (from - count - 1 >= 0 && edits[from - count - 1].kind === ' ') count++
+  return count
+}
+
+function countForwards(edits: Edit[], from: number): number {
+  let count = 0
+  while (from + count < edits.length && edits[from + count].kind === ' ') count++
+  return count
+}
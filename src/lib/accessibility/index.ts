@@ -0,0 +1,51 @@
+// Accessibility
+// WCAG checks for storybooks and pages: axe-core run in jsdom, the service's own checks, rules on a
+// storybook's content, contrast of the player's themes, suggestions, repairs applied as DOM patches,
+// stored checks with their reports, and conformance reports (ACRs)
+
+export * from './service'
+export { axeTagsFor, isAxeTag, runAxe, validateCheckSettings } from './axe-runner'
+export type { ConformanceLevel } from './axe-runner'
+export { fetchPage, isPublicAddress, PageFetchError } from './page-fetch'
+export { applyPatch, applyRepairs, planRepairs, serializeHtml } from './repairs'
+export type { AppliedRepairs, DomPatch, RepairChoice, RepairOptions } from './repairs'
+export { complianceScore, passingScore } from './scoring'
+export { isGenericAltText, READING_GRADE_LIMITS, runStorybookRules, STORYBOOK_RULES } from './storybook-rules'
+export type { StorybookRule, StorybookRuleContext, StorybookRuleResults } from './storybook-rules'
+export { readingLevel } from './reading-level'
+export type { ReadingLevel } from './reading-level'
+export {
+  assertThemeContrast,
+  checkThemeContrast,
+  CONTRAST_MINIMUMS,
+  contrastRatio,
+  relativeLuminance,
+  ThemeContrastError
+} from './contrast'
+export type { ContrastResult, ThemeContrastReport } from './contrast'
+export { diffLines } from './html-diff'
+export { AccessibilityCheckStore, createCheckId, getAccessibilityCheckStore } from './check-store'
+export type { AccessibilityCheckRecord, AccessibilityCheckSubject } from './check-store'
+export { REPORT_CONTENT_TYPES, REPORT_FILE_EXTENSIONS, REPORT_FORMATS, reportFilePath, saveReport } from './report'
+export type { ReportFormat } from './report'
+export { criterionFindings } from './report-findings'
+export type { CriterionFindings, CriterionOutcome } from './report-findings'
+export { criteriaForTags, criterionForGuideline, criterionUrl, WCAG_CRITERIA, wcagCriterion } from './wcag'
+export type { WcagCriterion, WcagVersion } from './wcag'
+export {
+  CONFORMANCE_SUPPORT,
+  CONFORMANCE_TERMS,
+  conformanceSummary,
+  criterionLabel,
+  rollUpConformance
+} from './conformance'
+export type { ConformanceSupport, CriterionConformance } from './conformance'
+export {
+  buildConformanceReport,
+  CONFORMANCE_REPORT_CONTENT_TYPES,
+  CONFORMANCE_REPORT_FILE_EXTENSIONS,
+  CONFORMANCE_REPORT_FORMATS,
+  conformanceReportFilePath,
+  writeConformanceReport
+} from './conformance-report'
+export type { ConformanceReport, ConformanceReportFormat, ConformanceReportInput, ConformanceReportProduct } from './conformance-report'
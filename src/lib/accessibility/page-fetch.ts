@@ -0,0 +1,147 @@
+// Page Fetch
+// Fetches a page by URL for a check. The URL comes from an API request, so only public addresses are
+// reached: every hostname is resolved and checked at connect time (a second lookup can't swap in a
+// private address), redirects are followed by hand and checked the same way, and the body is capped.
+
+import { lookup, LookupAddress, LookupOptions } from 'dns'
+import http, { IncomingMessage } from 'http'
+import https from 'https'
+import { BlockList, isIP } from 'net'
+
+const FETCH_TIMEOUT_MS = 15_000
+const MAX_REDIRECTS = 5
+const MAX_PAGE_BYTES = 5 * 1024 * 1024
+
+// Loopback, private, link-local (cloud metadata lives at 169.254.169.254), shared, reserved and multicast ranges
+const NON_PUBLIC = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24],
+  ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv6')
+}
+
+export class PageFetchError extends Error {
+  readonly code = 'PAGE_FETCH_FAILED'
+
+  // 'blocked' is the request's fault (a URL that may not be fetched); 'failed' is the page's
+  constructor(message: string, readonly reason: 'blocked' | 'failed') {
+    super(message)
+    this.name = 'PageFetchError'
+  }
+}
+
+/**
+ * The HTML at a public http(s) URL, for checking a page by address
+ */
+export async function fetchPage(url: string): Promise<string> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS)
+  let current = parsePageUrl(url)
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await request(current, signal)
+    const location = response.headers.location
+    if (response.statusCode && response.statusCode >= 300 && response.statusCode < 400 && location) {
+      response.resume()
+      if (redirects === MAX_REDIRECTS) {
+        throw new PageFetchError(`Fetching ${url} redirected more than ${MAX_REDIRECTS} times`, 'failed')
+      }
+      current = parsePageUrl(new URL(location, current).href)
+      continue
+    }
+
+    if (!response.statusCode || response.statusCode >= 400) {
+      response.resume()
+      throw new PageFetchError(`Fetching ${current.href} failed with status ${response.statusCode}`, 'failed')
+    }
+    return readBody(response, current.href)
+  }
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address)
+  if (family === 4) return !NON_PUBLIC.check(address, 'ipv4')
+  if (family !== 6) return false
+
+  // An IPv4 address written as IPv6 (::ffff:127.0.0.1) is only as public as the IPv4 address
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)
+  if (mapped) return isPublicAddress(mapped[1])
+  return !/^::ffff:/i.test(address) && !NON_PUBLIC.check(address, 'ipv6')
+}
+
+function parsePageUrl(url: string): URL {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw new PageFetchError(`Not a URL: ${url}`, 'blocked')
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new PageFetchError(`Only http and https pages can be checked, not ${parsed.protocol}`, 'blocked')
+  }
+
+  // The connection skips the lookup for an IP address, so check one here
+  const host = parsed.hostname.replace(/^\[|\]$/g, '')
+  if (isIP(host) && !isPublicAddress(host)) {
+    throw new PageFetchError(`${parsed.href} is not a public address`, 'blocked')
+  }
+  return parsed
+}
+
+function request(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http
+    const req = client.get(url, { signal, lookup: publicLookup, headers: { Accept: 'text/html' } }, resolve)
+    req.on('error', error => reject(error instanceof PageFetchError
+      ? error
+      : new PageFetchError(`Fetching ${url.href} failed: ${error.message}`, 'failed')))
+  })
+}
+
+// dns.lookup, refusing any hostname that resolves to an address that isn't public
+function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, [])
+
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address))
+    if (blocked) {
+      return callback(new PageFetchError(`${hostname} resolves to ${blocked.address}, which is not a public address`, 'blocked'), [])
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+function readBody(response: IncomingMessage, url: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const tooLarge = () => new PageFetchError(`${url} is larger than ${MAX_PAGE_BYTES} bytes`, 'failed')
+    if (Number(response.headers['content-length']) > MAX_PAGE_BYTES) {
+      response.destroy()
+      return reject(tooLarge())
+    }
+
+    const chunks: Buffer[] = []
+    let size = 0
+    response.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_PAGE_BYTES) {
+        response.destroy()
+        reject(tooLarge())
+        return
+      }
+      chunks.push(chunk)
+    })
+    response.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+    response.on('error', error => reject(new PageFetchError(`Reading ${url} failed: ${error.message}`, 'failed')))
+  })
+}
@@ -0,0 +1,34 @@
+// Reading Level
+// The Flesch-Kincaid grade of English prose: the US school grade a reader needs to follow it.
+// Syllables are counted by vowel groups, which is close enough for a grade but not exact.
+
+export interface ReadingLevel {
+  grade: number // rounded to one decimal place
+  words: number
+  sentences: number
+}
+
+const WORD = /[a-z]+(?:'[a-z]+)*/gi
+
+export function readingLevel(text: string): ReadingLevel {
+  const words = text.match(WORD) || []
+  // A sentence ends at ., ! or ? followed by a space or the end; numbers like 2.5 do not end one
+  const sentences = Math.max(1, (text.match(/[.!?]+(?=\s|$)/g) || []).length)
+  if (words.length === 0) {
+    return { grade: 0, words: 0, sentences }
+  }
+
+  const syllables = words.reduce((total, word) => total + countSyllables(word), 0)
+  const grade = 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59
+  return { grade: Math.max(0, Math.round(grade * 10) / 10), words: words.length, sentences }
+}
+
+function countSyllables(word: string): number {
+  const lower = word.toLowerCase().replace(/'.*$/, '')
+  if (lower.length <= 3) return 1
+
+  // Drop a silent ending ("automates", "used"), though not "-le" after a consonant ("table")
+  const trimmed = lower.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '')
+  const groups = trimmed.match(/[aeiouy]{1,2}/g)
+  return Math.max(1, groups ? groups.length : 1)
+}
@@ -0,0 +1,279 @@
+// Accessibility Repairs
+// Turns axe violations into DOM patches aimed at the failing element's selector, and applies chosen
+// patches to a page. 'automatic' repairs are safe to apply unreviewed; 'suggested' ones carry a
+// best guess (an alt text from the file name, say) that a person should confirm or replace.
+
+import { JSDOM } from 'jsdom'
+import type { AccessibilityRepair, AxeNode, AxeViolation } from './service'
+
+export type DomPatch =
+  | { op: 'set-attribute'; selector: string; name: string; value: string }
+  | { op: 'remove-attribute'; selector: string; name: string }
+  | { op: 'append-element'; selector: string; tag: string; text: string } // appended to the selected element
+
+// A repair to apply, by id; value replaces the guessed attribute value or element text
+export interface RepairChoice {
+  id: string
+  value?: string
+}
+
+export interface RepairOptions {
+  language?: string // for pages without a lang attribute
+}
+
+export interface AppliedRepairs {
+  html: string
+  applied: string[]
+  skipped: { id: string; reason: string }[]
+}
+
+type RepairPlan = Pick<AccessibilityRepair, 'type' | 'description' | 'confidence'> & { patch: DomPatch }
+
+type RepairRule = (element: Element, selector: string, options: RepairOptions) => RepairPlan | null
+
+const DEFAULT_LANGUAGE = 'en'
+
+// Roughly what axe shows of a failing element
+const MAX_PREVIEW_CHARS = 300
+
+const attributeRepair = (
+  type: RepairPlan['type'],
+  name: string,
+  describe: (value: string) => string,
+  guess: (element: Element) => { value: string; confidence: number }
+): RepairRule => (element, selector) => {
+  const { value, confidence } = guess(element)
+  return { type, description: describe(value), patch: { op: 'set-attribute', selector, name, value }, confidence }
+}
+
+const altText = attributeRepair('suggested', 'alt', value => `Add alt text "${value}"; describe what the image shows`, element => {
+  const name = humanize(fileName(element.getAttribute('src') || element.getAttribute('href') || ''))
+  return name ? { value: name, confidence: 40 } : { value: 'Image', confidence: 20 }
+})
+
+const accessibleName = (what: string) =>
+  attributeRepair('suggested', 'aria-label', value => `Name the ${what} "${value}"`, element => {
+    const hint = element.getAttribute('title') || element.getAttribute('placeholder') || element.getAttribute('value')
+    if (hint) return { value: hint, confidence: 70 }
+    const named = humanize(element.getAttribute('name') || element.id || fileName(element.getAttribute('href') || ''))
+    return named ? { value: named, confidence: 45 } : { value: capitalize(what), confidence: 20 }
+  })
+
+// By axe rule id
+const REPAIR_RULES: Record<string, RepairRule> = {
+  'image-alt': altText,
+  'input-image-alt': altText,
+  'area-alt': altText,
+  'role-img-alt': accessibleName('image'),
+  'svg-img-alt': accessibleName('image'),
+  'button-name': accessibleName('button'),
+  'input-button-name': accessibleName('button'),
+  'link-name': accessibleName('link'),
+  'label': accessibleName('field'),
+  'select-name': accessibleName('list'),
+  'frame-title': attributeRepair('suggested', 'title', value => `Title the frame "${value}"`, element => {
+    const name = humanize(element.getAttribute('name') || fileName(element.getAttribute('src') || ''))
+    return name ? { value: name, confidence: 45 } : { value: 'Embedded content', confidence: 20 }
+  }),
+  'html-has-lang': (element, selector, options) => ({
+    type: 'automatic',
+    description: `Declare the page language as "${options.language || DEFAULT_LANGUAGE}"`,
+    patch: { op: 'set-attribute', selector, name: 'lang', value: options.language || DEFAULT_LANGUAGE },
+    confidence: options.language ? 95 : 75
+  }),
+  'html-lang-valid': (element, selector, options) => ({
+    type: options.language ? 'automatic' : 'suggested',
+    description: `Replace the invalid language "${element.getAttribute('lang')}"`,
+    patch: { op: 'set-attribute', selector, name: 'lang', value: options.language || DEFAULT_LANGUAGE },
+    confidence: options.language ? 95 : 50
+  }),
+  'document-title': element => {
+    const heading = element.ownerDocument.querySelector('h1')?.textContent?.replace(/\s+/g, ' ').trim()
+    return {
+      type: heading ? 'automatic' : 'suggested',
+      description: heading ? `Title the page after its main heading, "${heading}"` : 'Give the page a title',
+      patch: { op: 'append-element', selector: 'head', tag: 'title', text: heading || 'Untitled page' },
+      confidence: heading ? 80 : 20
+    }
+  },
+  'meta-viewport': (element, selector) => ({
+    type: 'automatic',
+    description: 'Let people zoom the page',
+    patch: { op: 'set-attribute', selector, name: 'content', value: zoomableViewport(element.getAttribute('content') || '') },
+    confidence: 95
+  }),
+  'aria-hidden-body': (element, selector) => ({
+    type: 'automatic',
+    description: 'Stop hiding the whole page from assistive technology',
+    patch: { op: 'remove-attribute', selector, name: 'aria-hidden' },
+    confidence: 95
+  }),
+  'tabindex': (element, selector) => ({
+    type: 'automatic',
+    description: 'Replace the positive tabindex with 0 so focus follows the page order',
+    patch: { op: 'set-attribute', selector, name: 'tabindex', value: '0' },
+    confidence: 90
+  }),
+  'scrollable-region-focusable': (element, selector) => ({
+    type: 'automatic',
+    description: 'Let keyboard users focus the region to scroll it',
+    patch: { op: 'set-attribute', selector, name: 'tabindex', value: '0' },
+    confidence: 85
+  })
+}
+
+/**
+ * One repair per failing node the rules know how to fix. Ids are stable for the same page and
+ * results, so a repair chosen from one check can be applied by a later request.
+ */
+export function planRepairs(violations: AxeViolation[], html: string, options: RepairOptions = {}): AccessibilityRepair[] {
+  const dom = new JSDOM(html)
+  const repairs: AccessibilityRepair[] = []
+
+  try {
+    for (const violation of violations) {
+      const rule = REPAIR_RULES[violation.id]
+      if (!rule) continue
+
+      violation.nodes.forEach((node, index) => {
+        const selector = nodeSelector(node)
+        const element = selector ? dom.window.document.querySelector(selector) : null
+        const plan = element && rule(element, selector!, options)
+        if (!plan) return
+
+        repairs.push({
+          id: `repair-${violation.id}-${index + 1}`,
+          type: plan.type,
+          description: plan.description,
+          originalCode: node.html,
+          repairedCode: previewPatch(dom.window.document, plan.patch),
+          confidence: plan.confidence,
+          patch: plan.patch
+        })
+      })
+    }
+  } finally {
+    dom.window.close()
+  }
+
+  return repairs
+}
+
+/**
+ * Apply the chosen repairs to the page, in order. A repair whose element is gone is skipped.
+ */
+export function applyRepairs(html: string, repairs: AccessibilityRepair[], choices: RepairChoice[]): AppliedRepairs {
+  const dom = new JSDOM(html)
+  const applied: string[] = []
+  const skipped: AppliedRepairs['skipped'] = []
+
+  try {
+    for (const choice of choices) {
+      const repair = repairs.find(candidate => candidate.id === choice.id)
+      if (!repair?.patch) {
+        skipped.push({ id: choice.id, reason: 'No such repair for this page' })
+        continue
+      }
+
+      const patch = choice.value === undefined ? repair.patch : withValue(repair.patch, choice.value)
+      if (applyPatch(dom.window.document, patch)) {
+        applied.push(choice.id)
+      } else {
+        skipped.push({ id: choice.id, reason: `Nothing matches ${patch.selector}` })
+      }
+    }
+
+    return { html: dom.serialize(), applied, skipped }
+  } finally {
+    dom.window.close()
+  }
+}
+
+/**
+ * The page as jsdom writes it back out, which is how repaired pages come out too; diff against this
+ * so only the repairs show
+ */
+export function serializeHtml(html: string): string {
+  const dom = new JSDOM(html)
+  try {
+    return dom.serialize()
+  } finally {
+    dom.window.close()
+  }
+}
+
+export function applyPatch(document: Document, patch: DomPatch): boolean {
+  const element = document.querySelector(patch.selector)
+  if (!element) return false
+  patchElement(element, patch)
+  return true
+}
+
+function patchElement(element: Element, patch: DomPatch): void {
+  switch (patch.op) {
+    case 'set-attribute':
+      element.setAttribute(patch.name, patch.value)
+      break
+    case 'remove-attribute':
+      element.removeAttribute(patch.name)
+      break
+    case 'append-element': {
+      const child = element.ownerDocument.createElement(patch.tag)
+      child.textContent = patch.text
+      element.appendChild(child)
+      break
+    }
+  }
+}
+
+// The patched element's markup, worked out on a copy so the page itself is left alone
+function previewPatch(document: Document, patch: DomPatch): string {
+  const element = document.querySelector(patch.selector)
+  if (!element) return ''
+
+  const copy = element.cloneNode(true) as Element
+  patchElement(copy, patch)
+  if (copy.outerHTML.length <= MAX_PREVIEW_CHARS) return copy.outerHTML
+
+  // Just the start tag of a large element such as <html>, which is where attribute patches land
+  const start = copy.cloneNode(false) as Element
+  return start.outerHTML.replace(new RegExp(`</${start.localName}>$`), '')
+}
+
+function withValue(patch: DomPatch, value: string): DomPatch {
+  switch (patch.op) {
+    case 'set-attribute':
+      return { ...patch, value }
+    case 'append-element':
+      return { ...patch, text: value }
+    default:
+      return patch
+  }
+}
+
+// Pages checked here have no frames, so a node's target is a single selector
+function nodeSelector(node: AxeNode): string | null {
+  return node.target.length === 1 && !node.target[0].includes('>>>') ? node.target[0] : null
+}
+
+function zoomableViewport(content: string): string {
+  const kept = content
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => part && !/^(user-scalable|maximum-scale)\s*=/i.test(part))
+  return kept.length > 0 ? kept.join(', ') : 'width=device-width, initial-scale=1'
+}
+
+function fileName(url: string): string {
+  const path = url.split(/[?#]/)[0].replace(/\/+$/, '')
+  return path.slice(path.lastIndexOf('/') + 1).replace(/\.[a-z0-9]+$/i, '')
+}
+
+// 'hero-image_2' → 'Hero image 2'
+function humanize(value: string): string {
+  return capitalize(value.replace(/[-_.]+/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').replace(/\s+/g, ' ').trim().toLowerCase())
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
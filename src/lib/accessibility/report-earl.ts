@@ -0,0 +1,113 @@
+// EARL Report
+// A check as W3C Evaluation and Report Language assertions in JSON-LD: one per rule and element,
+// linked to the success criteria the rule tests, so audit tools can merge it with manual findings
+
+import axe from 'axe-core'
+import type { AccessibilityCheckRecord } from './check-store'
+import { describeSubject } from './report-findings'
+import type { AccessibilityIssue, AxeInapplicable, AxeNode } from './service'
+import { criteriaForTags, criterionForGuideline, criterionUrl } from './wcag'
+
+type EarlOutcome = 'passed' | 'failed' | 'cantTell' | 'inapplicable'
+
+type JsonLd = Record<string, unknown>
+
+const CONTEXT = {
+  earl: 'http://www.w3.org/ns/earl#',
+  dct: 'http://purl.org/dc/terms/',
+  foaf: 'http://xmlns.com/foaf/0.1/',
+  ptr: 'http://www.w3.org/2009/pointers#',
+  sch: 'https://schema.org/'
+}
+
+const AXE_ASSERTOR = '_:axe-core'
+const SERVICE_ASSERTOR = '_:storybook-checks'
+const SUBJECT = '_:subject'
+
+export function renderEarlReport(check: AccessibilityCheckRecord): JsonLd {
+  const { axe: results, custom } = check.results
+  const ruleAssertions = (outcome: EarlOutcome, rules: (AxeInapplicable & { nodes?: AxeNode[] })[]) =>
+    rules.flatMap(rule => {
+      const test = {
+        '@id': rule.helpUrl,
+        '@type': 'earl:TestCase',
+        'dct:title': rule.id,
+        'dct:description': rule.help,
+        'dct:isPartOf': criteriaForTags(rule.tags).map(criterion => ({ '@id': criterionUrl(criterion) }))
+      }
+      const nodes = rule.nodes?.length ? rule.nodes : [null]
+      return nodes.map(node => assertion(check, AXE_ASSERTOR, test, outcome, node && {
+        selector: node.target.join(' '),
+        info: node.failureSummary
+      }))
+    })
+
+  return {
+    '@context': CONTEXT,
+    '@graph': [
+      {
+        '@id': AXE_ASSERTOR,
+        '@type': ['earl:Assertor', 'earl:Software'],
+        'dct:title': 'axe-core',
+        'dct:hasVersion': axe.version,
+        'foaf:homepage': { '@id': 'https://github.com/dequelabs/axe-core' }
+      },
+      {
+        '@id': SERVICE_ASSERTOR,
+        '@type': ['earl:Assertor', 'earl:Software'],
+        'dct:title': 'n8n Storybook accessibility checks'
+      },
+      {
+        '@id': SUBJECT,
+        '@type': ['earl:TestSubject', 'sch:WebPage'],
+        'dct:title': describeSubject(check.subject),
+        ...(check.subject.url && { 'dct:source': { '@id': check.subject.url } }),
+        'dct:date': check.createdAt
+      },
+      ...ruleAssertions('failed', results.violations),
+      ...ruleAssertions('cantTell', results.incomplete),
+      ...ruleAssertions('passed', results.passes),
+      ...ruleAssertions('inapplicable', results.inapplicable),
+      ...custom.issues.map(issue => issueAssertion(check, issue))
+    ]
+  }
+}
+
+function issueAssertion(check: AccessibilityCheckRecord, issue: AccessibilityIssue): JsonLd {
+  const criterion = criterionForGuideline(issue.guideline)
+  const test = {
+    '@type': 'earl:TestCase',
+    'dct:title': issue.id,
+    'dct:description': issue.description,
+    'dct:isPartOf': criterion ? [{ '@id': criterionUrl(criterion) }] : []
+  }
+  return assertion(check, SERVICE_ASSERTOR, test, issue.type === 'error' ? 'failed' : 'cantTell', {
+    selector: issue.element,
+    info: issue.description
+  })
+}
+
+function assertion(
+  check: AccessibilityCheckRecord,
+  assertor: string,
+  test: JsonLd,
+  outcome: EarlOutcome,
+  target: { selector: string; info: string } | null
+): JsonLd {
+  return {
+    '@type': 'earl:Assertion',
+    'earl:assertedBy': { '@id': assertor },
+    'earl:subject': { '@id': SUBJECT },
+    'earl:test': test,
+    'earl:mode': { '@id': 'earl:automatic' },
+    'earl:result': {
+      '@type': 'earl:TestResult',
+      'earl:outcome': { '@id': `earl:${outcome}` },
+      ...(target && {
+        'earl:pointer': { '@type': 'ptr:CSSSelectorPointer', 'ptr:expression': target.selector },
+        ...(target.info && { 'earl:info': target.info })
+      }),
+      'dct:date': check.createdAt
+    }
+  }
+}
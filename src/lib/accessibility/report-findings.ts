@@ -0,0 +1,82 @@
+// Report Findings
+// A check's findings grouped by WCAG success criterion, as every report format lays them out
+
+import type { AccessibilityCheckRecord, AccessibilityCheckSubject } from './check-store'
+import type { AccessibilityIssue, AxeIncomplete, AxePass, AxeViolation } from './service'
+import { compareCriteria, criteriaForTags, criterionForGuideline, WcagCriterion } from './wcag'
+
+// As EARL names test outcomes
+export type CriterionOutcome = 'failed' | 'cantTell' | 'passed'
+
+export interface CriterionFindings {
+  criterion: WcagCriterion | null // null for best practices no success criterion covers
+  outcome: CriterionOutcome
+  violations: AxeViolation[]
+  incomplete: AxeIncomplete[]
+  passes: AxePass[]
+  issues: AccessibilityIssue[] // from the service's own checks
+}
+
+export const OUTCOME_LABELS: Record<CriterionOutcome, string> = {
+  failed: 'Fails',
+  cantTell: 'Needs review',
+  passed: 'Passes'
+}
+
+export function criterionName(group: CriterionFindings): string {
+  return group.criterion ? `${group.criterion.number} ${group.criterion.title}` : 'Best practices'
+}
+
+// To one decimal place, as the score is shown everywhere else
+export function formatScore(score: number): string {
+  return String(Math.round(score * 10) / 10)
+}
+
+export function describeSubject(subject: AccessibilityCheckSubject): string {
+  switch (subject.type) {
+    case 'url':
+      return subject.url || 'Web page'
+    case 'storybook':
+      return `Storybook ${subject.storybookId}${subject.locale ? ` (${subject.locale})` : ''}`
+    default:
+      return 'Submitted HTML'
+  }
+}
+
+/**
+ * Findings per success criterion, in WCAG order, with best practices last. A rule that covers several
+ * criteria is listed under each.
+ */
+export function criterionFindings(check: AccessibilityCheckRecord): CriterionFindings[] {
+  const groups = new Map<string, CriterionFindings>()
+  const groupFor = (criterion: WcagCriterion | null) => {
+    const key = criterion?.number ?? ''
+    let group = groups.get(key)
+    if (!group) {
+      group = { criterion, outcome: 'passed', violations: [], incomplete: [], passes: [], issues: [] }
+      groups.set(key, group)
+    }
+    return group
+  }
+  const groupsForTags = (tags: string[]) => {
+    const criteria = criteriaForTags(tags)
+    return criteria.length > 0 ? criteria.map(groupFor) : [groupFor(null)]
+  }
+
+  const { axe, custom } = check.results
+  axe.violations.forEach(rule => groupsForTags(rule.tags).forEach(group => group.violations.push(rule)))
+  axe.incomplete.forEach(rule => groupsForTags(rule.tags).forEach(group => group.incomplete.push(rule)))
+  axe.passes.forEach(rule => groupsForTags(rule.tags).forEach(group => group.passes.push(rule)))
+  custom.issues.forEach(issue => groupFor(criterionForGuideline(issue.guideline) ?? null).issues.push(issue))
+
+  for (const group of groups.values()) {
+    group.outcome = group.violations.length > 0 || group.issues.some(issue => issue.type === 'error')
+      ? 'failed'
+      : group.incomplete.length > 0 || group.issues.length > 0 ? 'cantTell' : 'passed'
+  }
+
+  return [...groups.values()].sort((a, b) => {
+    if (!a.criterion || !b.criterion) return a.criterion ? -1 : b.criterion ? 1 : 0
+    return compareCriteria(a.criterion.number, b.criterion.number)
+  })
+}
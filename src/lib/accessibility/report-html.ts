@@ -0,0 +1,155 @@
+// HTML Report
+// A standalone page (no scripts, no external styles) with a check's findings under each WCAG success
+// criterion. The page is held to the standard it reports on: landmarks, ordered headings, captioned
+// tables and outcomes written out rather than shown only in colour.
+
+import type { AccessibilityCheckRecord } from './check-store'
+import { criterionName, CriterionFindings, describeSubject, formatScore, OUTCOME_LABELS } from './report-findings'
+import { passingScore } from './scoring'
+import type { AxeIncomplete, AxeViolation } from './service'
+import { criterionUrl } from './wcag'
+
+const STYLES = `
+body { font: 16px/1.5 system-ui, sans-serif; color: #1f2328; background: #fff; margin: 0; }
+main { max-width: 60rem; margin: 0 auto; padding: 2rem 1.5rem; }
+h1, h2, h3, h4, h5 { line-height: 1.25; }
+h3 { border-top: 1px solid #d0d7de; padding-top: 1.5rem; }
+a { color: #0a53be; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: .25rem 1rem; }
+dt { font-weight: 600; }
+dd { margin: 0; }
+table { border-collapse: collapse; width: 100%; }
+caption { text-align: start; font-weight: 600; padding-bottom: .5rem; }
+th, td { border: 1px solid #d0d7de; padding: .375rem .5rem; text-align: start; vertical-align: top; }
+code, pre { font-family: ui-monospace, monospace; font-size: .875rem; }
+pre { background: #f6f8fa; padding: .5rem; overflow-x: auto; white-space: pre-wrap; word-break: break-all; }
+.outcome { display: inline-block; padding: 0 .5rem; border-radius: .25rem; font-weight: 600; }
+.outcome-failed { background: #fde8e8; color: #8a1c1c; }
+.outcome-cantTell { background: #fff4d6; color: #6b4e00; }
+.outcome-passed { background: #e6f4ea; color: #1d5e2c; }
+`
+
+export function renderHtmlReport(check: AccessibilityCheckRecord, findings: CriterionFindings[]): string {
+  const subject = describeSubject(check.subject)
+  const { suggestions, repairs } = check.results
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>Accessibility report: ${text(subject)}</title>`,
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    '<main>',
+    '<h1>Accessibility report</h1>',
+    '<dl>',
+    `<dt>Checked</dt><dd>${text(subject)}</dd>`,
+    `<dt>Target</dt><dd>WCAG 2.2 Level ${check.level}</dd>`,
+    `<dt>Score</dt><dd>${formatScore(check.score)} of 100 (${check.passed ? 'passes' : 'does not pass'}; Level ${check.level} needs ${passingScore(check.level)})</dd>`,
+    `<dt>Checked on</dt><dd><time datetime="${attribute(check.createdAt)}">${text(new Date(check.createdAt).toUTCString())}</time></dd>`,
+    `<dt>Check id</dt><dd><code>${text(check.id)}</code></dd>`,
+    '</dl>',
+    renderSummary(findings),
+    '<section aria-labelledby="criteria">',
+    '<h2 id="criteria">Findings by success criterion</h2>',
+    ...findings.map(renderCriterion),
+    '</section>',
+    suggestions.length > 0 ? section('suggestions', 'Suggestions', `<ul>${suggestions.map(suggestion =>
+      `<li><strong>${text(suggestion.description)}</strong> (${suggestion.priority} priority, ${text(suggestion.estimatedEffort)}). ${text(suggestion.implementation)}</li>`
+    ).join('')}</ul>`) : '',
+    repairs.length > 0 ? section('repairs', 'Available repairs', table('Repairs that can be applied with /api/accessibility/repair',
+      ['Repair', 'Type', 'Change', 'Confidence'],
+      repairs.map(repair => [`<code>${text(repair.id)}</code>`, repair.type, text(repair.description), `${repair.confidence}%`])
+    )) : '',
+    '</main>',
+    '</body>',
+    '</html>',
+    ''
+  ].filter(Boolean).join('\n')
+}
+
+function renderSummary(findings: CriterionFindings[]): string {
+  const rows = findings.map(group => [
+    `<a href="#${anchor(group)}">${text(criterionName(group))}</a>`,
+    group.criterion?.level ?? '',
+    `<span class="outcome outcome-${group.outcome}">${OUTCOME_LABELS[group.outcome]}</span>`,
+    String(group.violations.length + group.issues.length),
+    String(group.incomplete.length),
+    String(group.passes.length)
+  ])
+
+  return section('summary', 'Summary', rows.length > 0
+    ? table('Outcome for each success criterion the checks covered', ['Criterion', 'Level', 'Outcome', 'Failures', 'Needs review', 'Passed rules'], rows)
+    : '<p>No checks applied to this content.</p>')
+}
+
+function renderCriterion(group: CriterionFindings): string {
+  const id = anchor(group)
+  const about = group.criterion
+    ? `Level ${group.criterion.level}. <a href="${attribute(criterionUrl(group.criterion))}">Read ${text(group.criterion.number)} in WCAG 2.2</a>`
+    : 'Best practices that no success criterion requires.'
+
+  return [
+    `<section id="${id}" aria-labelledby="${id}-title">`,
+    `<h3 id="${id}-title">${text(criterionName(group))}</h3>`,
+    `<p><span class="outcome outcome-${group.outcome}">${OUTCOME_LABELS[group.outcome]}</span> ${about}</p>`,
+    group.violations.length > 0 ? `<h4>Failures</h4>\n${group.violations.map(renderRule).join('\n')}` : '',
+    group.issues.length > 0 ? `<h4>Other findings</h4><ul>${group.issues.map(issue =>
+      `<li>${text(issue.description)} (<code>${text(issue.element)}</code>, ${issue.type}, ${issue.severity} severity)</li>`
+    ).join('')}</ul>` : '',
+    group.incomplete.length > 0 ? `<h4>Needs review</h4>\n${group.incomplete.map(renderRule).join('\n')}` : '',
+    group.passes.length > 0 ? `<h4>Passed rules</h4><ul>${group.passes.map(rule =>
+      `<li>${text(rule.help)} (<a href="${attribute(rule.helpUrl)}">${text(rule.id)}</a>, ${count(rule.nodes.length, 'element')})</li>`
+    ).join('')}</ul>` : '',
+    '</section>'
+  ].filter(Boolean).join('\n')
+}
+
+function renderRule(rule: AxeViolation | AxeIncomplete): string {
+  const nodes = rule.nodes.map(node => [
+    '<li>',
+    `<p><code>${text(node.target.join(' '))}</code></p>`,
+    `<pre>${text(node.html)}</pre>`,
+    node.failureSummary ? `<p>${text(node.failureSummary).replace(/\n/g, '<br>')}</p>` : '',
+    '</li>'
+  ].filter(Boolean).join(''))
+
+  return [
+    `<h5>${text(rule.help)}</h5>`,
+    `<p>${text(rule.description)}${rule.impact ? ` Impact: ${rule.impact}.` : ''} <a href="${attribute(rule.helpUrl)}">How to fix ${text(rule.id)}</a></p>`,
+    `<ol>${nodes.join('')}</ol>`
+  ].join('\n')
+}
+
+function anchor(group: CriterionFindings): string {
+  return group.criterion ? `sc-${group.criterion.number.replace(/\./g, '-')}` : 'best-practices'
+}
+
+function section(id: string, title: string, body: string): string {
+  return `<section aria-labelledby="${id}"><h2 id="${id}">${text(title)}</h2>${body}</section>`
+}
+
+// Cells are already escaped
+function table(caption: string, headings: string[], rows: string[][]): string {
+  return [
+    `<table><caption>${text(caption)}</caption>`,
+    `<thead><tr>${headings.map(heading => `<th scope="col">${text(heading)}</th>`).join('')}</tr></thead>`,
+    `<tbody>${rows.map(([first, ...rest]) => `<tr><th scope="row">${first}</th>${rest.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('')}</tbody>`,
+    '</table>'
+  ].join('')
+}
+
+function count(value: number, noun: string): string {
+  return `${value} ${noun}${value === 1 ? '' : 's'}`
+}
+
+function text(value: string | undefined): string {
+  return (value || '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function attribute(value: string | undefined): string {
+  return text(value).replace(/"/g, '&quot;')
+}
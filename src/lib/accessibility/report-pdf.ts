@@ -0,0 +1,75 @@
+// PDF Report
+// The HTML report's content as a tagged PDF, for attaching to audits and procurement answers
+
+import { PdfBlock, renderPdf } from '../pdf-document'
+import type { AccessibilityCheckRecord } from './check-store'
+import { criterionName, CriterionFindings, describeSubject, formatScore, OUTCOME_LABELS } from './report-findings'
+import { passingScore } from './scoring'
+import type { AxeIncomplete, AxeViolation } from './service'
+
+export function renderPdfReport(check: AccessibilityCheckRecord, findings: CriterionFindings[]): Buffer {
+  const subject = describeSubject(check.subject)
+  const blocks: PdfBlock[] = [
+    { role: 'H1', text: 'Accessibility report' },
+    { role: 'P', text: `Checked: ${subject}` },
+    { role: 'P', text: `Target: WCAG 2.2 Level ${check.level}` },
+    { role: 'P', text: `Score: ${formatScore(check.score)} of 100 (${check.passed ? 'passes' : 'does not pass'}; Level ${check.level} needs ${passingScore(check.level)})` },
+    { role: 'P', text: `Checked on: ${new Date(check.createdAt).toUTCString()}` },
+    { role: 'P', text: `Check id: ${check.id}` },
+    { role: 'H2', text: 'Summary' },
+    ...(findings.length > 0
+      ? findings.map(group => ({ role: 'P' as const, text: `${criterionName(group)}: ${OUTCOME_LABELS[group.outcome]}` }))
+      : [{ role: 'P' as const, text: 'No checks applied to this content.' }]),
+    { role: 'H2', text: 'Findings by success criterion' },
+    ...findings.flatMap(criterionBlocks)
+  ]
+
+  const { suggestions, repairs } = check.results
+  if (suggestions.length > 0) {
+    blocks.push(
+      { role: 'H2', text: 'Suggestions' },
+      ...suggestions.map(suggestion => ({
+        role: 'P' as const,
+        text: `${suggestion.description} (${suggestion.priority} priority, ${suggestion.estimatedEffort}). ${suggestion.implementation}`
+      }))
+    )
+  }
+  if (repairs.length > 0) {
+    blocks.push(
+      { role: 'H2', text: 'Available repairs' },
+      ...repairs.map(repair => ({
+        role: 'P' as const,
+        text: `${repair.id} (${repair.type}, ${repair.confidence}% confidence): ${repair.description}`
+      }))
+    )
+  }
+
+  return renderPdf(blocks, { title: `Accessibility report: ${subject}`, language: 'en' })
+}
+
+function criterionBlocks(group: CriterionFindings): PdfBlock[] {
+  const about = group.criterion
+    ? `Level ${group.criterion.level}. ${OUTCOME_LABELS[group.outcome]}.`
+    : `Best practices that no success criterion requires. ${OUTCOME_LABELS[group.outcome]}.`
+
+  return [
+    { role: 'H3', text: criterionName(group) },
+    { role: 'P', text: about },
+    ...group.violations.flatMap(rule => ruleBlocks('Fails', rule)),
+    ...group.issues.map(issue => ({
+      role: 'P' as const,
+      text: `Finding: ${issue.description} (${issue.element}, ${issue.type}, ${issue.severity} severity)`
+    })),
+    ...group.incomplete.flatMap(rule => ruleBlocks('Needs review', rule)),
+    ...(group.passes.length > 0
+      ? [{ role: 'P' as const, text: `Passed rules: ${group.passes.map(rule => rule.id).join(', ')}` }]
+      : [])
+  ]
+}
+
+function ruleBlocks(label: string, rule: AxeViolation | AxeIncomplete): PdfBlock[] {
+  return [
+    { role: 'P', text: `${label}: ${rule.help} (${rule.id}${rule.impact ? `, ${rule.impact} impact` : ''}). ${rule.helpUrl}` },
+    ...rule.nodes.map(node => ({ role: 'Code' as const, text: `${node.target.join(' ')}\n${node.html}` }))
+  ]
+}
@@ -0,0 +1,83 @@
+// Accessibility Reports
+// A stored check written out as a standalone HTML page, a PDF, the raw JSON record and W3C EARL for
+// audit tools, served by /api/accessibility/check
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { getDataDirectory } from '../storage'
+import type { AccessibilityCheckRecord } from './check-store'
+import { renderEarlReport } from './report-earl'
+import { renderHtmlReport } from './report-html'
+import { renderPdfReport } from './report-pdf'
+import { criterionFindings } from './report-findings'
+import type { AccessibilityReport } from './service'
+
+export type ReportFormat = 'html' | 'pdf' | 'json' | 'earl'
+
+export const REPORT_FORMATS: ReportFormat[] = ['html', 'pdf', 'json', 'earl']
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf',
+  json: 'application/json; charset=utf-8',
+  earl: 'application/ld+json; charset=utf-8'
+}
+
+export const REPORT_FILE_EXTENSIONS: Record<ReportFormat, string> = {
+  html: '.html',
+  pdf: '.pdf',
+  json: '.json',
+  earl: '.earl.jsonld'
+}
+
+export const ACCESSIBILITY_CHECK_PATH = '/api/accessibility/check'
+
+/**
+ * Report files live in <STORAGE_DATA_DIR>/accessibility-reports/<checkId><extension>
+ */
+export function getReportDirectory(): string {
+  return path.join(getDataDirectory(), 'accessibility-reports')
+}
+
+export function reportFilePath(checkId: string, format: ReportFormat): string {
+  return path.join(getReportDirectory(), `${checkId}${REPORT_FILE_EXTENSIONS[format]}`)
+}
+
+/**
+ * Where a check's report is downloaded; the route renders it on first request if need be
+ */
+export function reportUrl(checkId: string, format: ReportFormat): string {
+  const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000'
+  return `${baseUrl}${ACCESSIBILITY_CHECK_PATH}?id=${encodeURIComponent(checkId)}&format=${format}`
+}
+
+/**
+ * Render the check in every format and write the files. The HTML report is the one to view; the PDF
+ * is the one to download.
+ */
+export async function saveReport(check: AccessibilityCheckRecord): Promise<AccessibilityReport> {
+  await fs.mkdir(getReportDirectory(), { recursive: true })
+
+  const findings = criterionFindings(check)
+  const rendered: Record<ReportFormat, string | Buffer> = {
+    html: renderHtmlReport(check, findings),
+    pdf: renderPdfReport(check, findings),
+    json: JSON.stringify({ ...check, report: undefined }, null, 2),
+    earl: JSON.stringify(renderEarlReport(check), null, 2)
+  }
+
+  const files = {} as Record<ReportFormat, string>
+  for (const format of REPORT_FORMATS) {
+    await fs.writeFile(reportFilePath(check.id, format), rendered[format])
+    files[format] = reportUrl(check.id, format)
+  }
+
+  return {
+    id: check.id,
+    url: files.html,
+    downloadUrl: files.pdf,
+    format: 'html',
+    files,
+    createdAt: new Date().toISOString()
+  }
+}
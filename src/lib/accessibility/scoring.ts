@@ -0,0 +1,26 @@
+// Compliance Scoring
+// One score for a set of axe results, and the score each conformance level needs to pass
+
+import type { AxeResults } from './service'
+
+/**
+ * Passed rules as a share of all rules that applied, with each violation counting against the score twice
+ */
+export function complianceScore(results: Pick<AxeResults, 'passes' | 'violations' | 'incomplete'>): number {
+  const passes = results.passes.length
+  const violations = results.violations.length
+  const total = passes + violations + results.incomplete.length
+  if (total === 0) return 100
+
+  const score = ((passes - (violations * 2)) / total) * 100
+  return Math.max(0, Math.min(100, score))
+}
+
+export function passingScore(level: string): number {
+  switch (level) {
+    case 'A': return 70
+    case 'AA': return 85
+    case 'AAA': return 95
+    default: return 85
+  }
+}
@@ -1,6 +1,14 @@
 // Accessibility Service
 // Ensures WCAG 2.1 AA compliance across all content
 
+import { axeTagsFor, ConformanceLevel, runAxe } from './axe-runner'
+import type { AccessibilityCheckRecord, AccessibilityCheckSubject } from './check-store'
+import { fetchPage, PageFetchError } from './page-fetch'
+import { DomPatch, planRepairs, RepairOptions } from './repairs'
+import { ReportFormat, saveReport } from './report'
+import { complianceScore, passingScore } from './scoring'
+import { runStorybookRules, StorybookRuleContext } from './storybook-rules'
+
 export interface AccessibilityTestOptions {
   level: 'A' | 'AA' | 'AAA'
   tags: string[]
@@ -72,6 +80,7 @@ export interface AccessibilityWarning {
   description: string
   recommendation: string
   nodes: { selector: string; html: string }[]
+  guideline?: string // 'WCAG 1.3.1'
 }
 
 export interface AccessibilityIssue {
@@ -90,6 +99,7 @@ export interface AccessibilityRepair {
   originalCode: string
   repairedCode: string
   confidence: number
+  patch?: DomPatch // what applying the repair changes in the page
 }
 
 export interface ImprovementSuggestion {
@@ -104,37 +114,93 @@ export interface ImprovementSuggestion {
 
 export interface AccessibilityReport {
   id: string
-  url: string
-  downloadUrl: string
-  format: 'html' | 'pdf' | 'json'
-  createdAt: Date
+  url: string // the HTML report
+  downloadUrl: string // the PDF
+  format: ReportFormat
+  files: Record<ReportFormat, string> // every format, by name
+  createdAt: string
+}
+
+export interface AccessibilityCheckOptions {
+  id: string
+  level: ConformanceLevel
+  guidelines: string[] // extra axe-core tags
+  checkType: AccessibilityTestOptions['checkType']
+  subject: AccessibilityCheckSubject
+  includeRepairs: boolean
+  checkInteractiveElements: boolean
+  validateKeyboardNavigation: boolean
+  storybook?: StorybookRuleContext // the content the page was rendered from, for the storybook rules
 }
 
 export class AccessibilityService {
 
+  /**
+   * A full check of one page: axe-core, the service's own checks, suggestions, repairs if asked for,
+   * and the compliance score. The record is not stored; see getAccessibilityCheckStore.
+   */
+  async runCheck(content: string, options: AccessibilityCheckOptions): Promise<AccessibilityCheckRecord> {
+    const startTime = Date.now()
+    console.log('♿ Starting accessibility compliance check...')
+
+    const axeResults = await this.runAxeTests(content, {
+      level: options.level,
+      tags: options.guidelines,
+      checkType: options.checkType
+    })
+
+    const customChecks = await this.runCustomChecks(content, {
+      checkInteractiveElements: options.checkInteractiveElements,
+      validateKeyboardNavigation: options.validateKeyboardNavigation,
+      checkColorContrast: true,
+      validateHeadingStructure: true,
+      checkFormLabels: true,
+      storybook: options.storybook
+    })
+
+    const suggestions = await this.generateSuggestions(axeResults.violations, customChecks.issues, options.level)
+    const repairs = options.includeRepairs ? await this.generateRepairs(axeResults.violations, content) : []
+    const score = complianceScore(axeResults)
+
+    return {
+      id: options.id,
+      subject: options.subject,
+      level: options.level,
+      guidelines: options.guidelines,
+      results: {
+        axe: axeResults,
+        custom: customChecks,
+        suggestions,
+        repairs
+      },
+      score,
+      passed: score >= passingScore(options.level),
+      createdAt: new Date().toISOString(),
+      processingTime: Date.now() - startTime
+    }
+  }
+
+  /**
+   * Run axe-core on the content: HTML as given, or the page at a URL when checkType is 'url'.
+   * Rules are those for the level plus any rule carrying one of options.tags.
+   */
   async runAxeTests(content: string, options: AccessibilityTestOptions): Promise<AxeResults> {
     try {
       console.log(`🔍 Running axe-core tests (${options.level} level)...`)
 
-      // Mock axe-core results (in production, this would use real axe-core)
-      await this.delay(1000)
-
-      // Generate mock results based on content analysis
-      const violations = this.generateMockViolations(content, options.level)
-      const passes = this.generateMockPasses(content)
-
-      const results: AxeResults = {
-        violations,
-        passes,
-        incomplete: [],
-        inapplicable: []
-      }
+      const html = options.checkType === 'url' ? await fetchPage(content) : content
+      const results = await runAxe(
+        html,
+        axeTagsFor(options.level, options.tags),
+        options.checkType === 'url' ? content : undefined
+      )
 
-      console.log(`✅ Axe tests completed: ${violations.length} violations, ${passes.length} passes`)
+      console.log(`✅ Axe tests completed: ${results.violations.length} violations, ${results.passes.length} passes`)
       return results
 
     } catch (error) {
       console.error('❌ Failed to run axe tests:', error)
+      if (error instanceof PageFetchError) throw error
       throw new Error(`Axe accessibility testing failed: ${error}`)
     }
   }
@@ -145,6 +211,7 @@ export class AccessibilityService {
     checkColorContrast: boolean
     validateHeadingStructure: boolean
     checkFormLabels: boolean
+    storybook?: StorybookRuleContext
   }): Promise<CustomAccessibilityChecks> {
     try {
       console.log('🔧 Running custom accessibility checks...')
@@ -153,8 +220,6 @@ export class AccessibilityService {
       const issues: AccessibilityIssue[] = []
       const suggestions: string[] = []
 
-      await this.delay(800)
-
       // Interactive elements check
       if (options.checkInteractiveElements) {
         const interactiveIssues = this.checkInteractiveElements(content)
@@ -185,10 +250,12 @@ export class AccessibilityService {
         issues.push(...formIssues)
       }
 
-      // Generate suggestions
-      suggestions.push('Consider adding skip navigation links')
-      suggestions.push('Ensure all images have descriptive alt text')
-      suggestions.push('Use semantic HTML elements for better structure')
+      // Storybook rules, on the content behind the page
+      if (options.storybook) {
+        const storybookChecks = runStorybookRules(options.storybook.content, options.storybook.locale)
+        issues.push(...storybookChecks.issues)
+        suggestions.push(...storybookChecks.suggestions)
+      }
 
       console.log(`✅ Custom checks completed: ${issues.length} issues, ${warnings.length} warnings`)
       
@@ -258,22 +325,14 @@ export class AccessibilityService {
     }
   }
 
-  async generateRepairs(violations: AxeViolation[], content: string): Promise<AccessibilityRepair[]> {
+  /**
+   * A DOM patch for each failing element a repair rule covers; see applyRepairs to apply them
+   */
+  async generateRepairs(violations: AxeViolation[], content: string, options: RepairOptions = {}): Promise<AccessibilityRepair[]> {
     try {
       console.log('🔧 Generating automatic accessibility repairs...')
 
-      const repairs: AccessibilityRepair[] = []
-      await this.delay(1000)
-
-      violations.forEach((violation, index) => {
-        violation.nodes.forEach((node, nodeIndex) => {
-          const repair = this.generateRepairForViolation(violation, node)
-          if (repair) {
-            repair.id = `repair-${index}-${nodeIndex}`
-            repairs.push(repair)
-          }
-        })
-      })
+      const repairs = planRepairs(violations, content, options)
 
       console.log(`✅ Generated ${repairs.length} automatic repairs`)
       return repairs
@@ -284,28 +343,14 @@ export class AccessibilityService {
     }
   }
 
-  async generateReport(data: {
-    checkId: string
-    results: AxeResults
-    customChecks: CustomAccessibilityChecks
-    suggestions: ImprovementSuggestion[]
-    repairs: AccessibilityRepair[]
-    level: string
-    score: number
-  }): Promise<AccessibilityReport> {
+  /**
+   * Render the stored check as HTML, PDF, JSON and EARL reports; see saveReport
+   */
+  async generateReport(check: AccessibilityCheckRecord): Promise<AccessibilityReport> {
     try {
       console.log('📊 Generating accessibility report...')
 
-      await this.delay(1500)
-
-      // Mock report generation (in production, this would generate actual reports)
-      const report: AccessibilityReport = {
-        id: data.checkId,
-        url: `https://reports.n8n-storybook.com/accessibility/${data.checkId}`,
-        downloadUrl: `https://reports.n8n-storybook.com/accessibility/${data.checkId}/download.pdf`,
-        format: 'html',
-        createdAt: new Date()
-      }
+      const report = await saveReport(check)
 
       console.log(`✅ Generated accessibility report: ${report.url}`)
       return report
@@ -366,66 +411,6 @@ export class AccessibilityService {
     return new Promise(resolve => setTimeout(resolve, ms))
   }
 
-  private generateMockViolations(content: string, level: string): AxeViolation[] {
-    const violations: AxeViolation[] = []
-
-    // Generate realistic mock violations based on content
-    if (content.includes('<img') && !content.includes('alt=')) {
-      violations.push({
-        id: 'image-alt',
-        impact: 'serious',
-        tags: ['wcag2a', 'wcag111'],
-        description: 'Images must have alternate text',
-        help: 'Ensure every image has an alt attribute',
-        helpUrl: 'https://dequeuniversity.com/rules/axe/4.4/image-alt',
-        nodes: [{
-          target: ['img'],
-          html: '<img src="example.jpg">',
-          failureSummary: 'Fix this: Element does not have an alt attribute',
-          impact: 'serious'
-        }]
-      })
-    }
-
-    if (content.includes('<button') && !content.includes('aria-label')) {
-      violations.push({
-        id: 'button-name',
-        impact: 'critical',
-        tags: ['wcag2a', 'wcag412'],
-        description: 'Buttons must have discernible text',
-        help: 'Ensure buttons have accessible names',
-        helpUrl: 'https://dequeuniversity.com/rules/axe/4.4/button-name',
-        nodes: [{
-          target: ['button'],
-          html: '<button>×</button>',
-          failureSummary: 'Fix this: Element does not have inner text that is visible to screen readers',
-          impact: 'critical'
-        }]
-      })
-    }
-
-    return violations
-  }
-
-  private generateMockPasses(content: string): AxePass[] {
-    return [
-      {
-        id: 'document-title',
-        impact: null,
-        tags: ['wcag2a', 'wcag242'],
-        description: 'Documents must have title element to aid in navigation',
-        help: 'Ensure every HTML document has a title element',
-        helpUrl: 'https://dequeuniversity.com/rules/axe/4.4/document-title',
-        nodes: [{
-          target: ['title'],
-          html: '<title>Page Title</title>',
-          failureSummary: '',
-          impact: 'serious'
-        }]
-      }
-    ]
-  }
-
   private checkInteractiveElements(content: string): AccessibilityIssue[] {
     const issues: AccessibilityIssue[] = []
 
@@ -477,6 +462,7 @@ export class AccessibilityService {
         type: 'warning',
         description: 'Heading levels should not be skipped',
         recommendation: 'Use h2 before h3 to maintain proper heading hierarchy',
+        guideline: 'WCAG 1.3.1',
         nodes: [{
           selector: 'h3',
           html: '<h3>Section Title</h3>'
@@ -554,28 +540,4 @@ export class AccessibilityService {
         return '2-5 minutes'
     }
   }
-
-  private generateRepairForViolation(violation: AxeViolation, node: AxeNode): AccessibilityRepair | null {
-    const repairs: Record<string, (node: AxeNode) => AccessibilityRepair> = {
-      'image-alt': (node) => ({
-        id: '',
-        type: 'automatic',
-        description: 'Add alt attribute to image',
-        originalCode: node.html,
-        repairedCode: node.html.replace('<img', '<img alt="Image description"'),
-        confidence: 85
-      }),
-      'button-name': (node) => ({
-        id: '',
-        type: 'suggested',
-        description: 'Add aria-label to button',
-        originalCode: node.html,
-        repairedCode: node.html.replace('<button', '<button aria-label="Button action"'),
-        confidence: 70
-      })
-    }
-
-    const repairFunction = repairs[violation.id]
-    return repairFunction ? repairFunction(node) : null
-  }
 }
@@ -0,0 +1,227 @@
+// Storybook Rules
+// Checks on a storybook's content that axe can't make from the rendered page: whether alt text says
+// anything, whether interactive elements declare keyboard support, how quiz options are announced,
+// whether code is described, and whether explanations read at the level the storybook claims.
+
+import type { EducationalContent, EducationalStep } from '../agents/n8n-workflow-analyzer'
+import { SOURCE_LOCALE } from '../translation/locales'
+import { readingLevel } from './reading-level'
+import type { AccessibilityIssue } from './service'
+
+export interface StorybookRuleContext {
+  content: EducationalContent
+  locale: string
+}
+
+export interface StorybookRule {
+  id: string
+  type: AccessibilityIssue['type'] // 'warning' for findings a person should review
+  severity: AccessibilityIssue['severity']
+  guideline: string // 'WCAG 1.1.1'
+  description: string
+  recommendation: string
+  check: (context: StorybookRuleContext) => string[] // what fails, one entry per part of the content
+}
+
+export interface StorybookRuleResults {
+  issues: AccessibilityIssue[]
+  suggestions: string[] // the recommendation of every rule that found something
+}
+
+type Complexity = EducationalContent['complexity']
+
+// The highest Flesch-Kincaid grade an explanation should need at each declared complexity
+export const READING_GRADE_LIMITS: Record<Complexity, number> = {
+  beginner: 9,
+  intermediate: 12,
+  advanced: 14
+}
+
+// Below this many words a grade says more about the formula than the text
+const MIN_WORDS_FOR_READING_LEVEL = 20
+
+// Words that name the kind of picture rather than what it shows
+const GENERIC_ALT_WORDS = new Set([
+  'alt', 'animation', 'chart', 'diagram', 'figure', 'flowchart', 'graph', 'graphic', 'icon', 'illustration',
+  'image', 'img', 'photo', 'picture', 'placeholder', 'screenshot', 'text', 'untitled', 'visual', 'aid'
+])
+
+const FILLER_WORDS = new Set(['a', 'an', 'the', 'of', 'for', 'and', 'this', 'that', 'here', 'is', 'showing', 'shows'])
+
+const IMAGE_FILE = /\.(?:png|jpe?g|gif|svg|webp|avif)$/i
+
+export const STORYBOOK_RULES: StorybookRule[] = [
+  {
+    id: 'storybook-alt-text-missing',
+    type: 'error',
+    severity: 'high',
+    guideline: 'WCAG 1.1.1',
+    description: 'Visual aids must have alt text',
+    recommendation: 'Give every visual aid alt text that says what it shows',
+    check: ({ content }) => visualAids(content)
+      .filter(({ aid }) => !aid.altText?.trim())
+      .map(({ label }) => label)
+  },
+  {
+    id: 'storybook-alt-text-generic',
+    type: 'error',
+    severity: 'medium',
+    guideline: 'WCAG 1.1.1',
+    description: 'Visual aid alt text must describe the content, not name the kind of image',
+    recommendation: 'Replace alt text such as "Diagram" or a file name with what the picture shows, e.g. "Webhook node passing orders to the Gmail node"',
+    check: ({ content }) => visualAids(content)
+      .filter(({ aid }) => aid.altText?.trim() && isGenericAltText(aid.altText, aid.type))
+      .map(({ label, aid }) => `${label}: "${aid.altText.trim()}"`)
+  },
+  {
+    id: 'storybook-keyboard-support',
+    type: 'error',
+    severity: 'high',
+    guideline: 'WCAG 2.1.1',
+    description: 'Interactive elements must declare keyboard support',
+    recommendation: 'Make each interactive element operable from the keyboard and set accessibility.keyboardNavigation',
+    check: ({ content }) => (content.interactiveElements || [])
+      .filter(element => !declaresKeyboardSupport(element.accessibility?.keyboardNavigation))
+      .map(element => `Interactive ${element.type} "${element.title || element.id}"`)
+  },
+  {
+    id: 'storybook-quiz-option-text',
+    type: 'error',
+    severity: 'medium',
+    guideline: 'WCAG 4.1.2',
+    description: 'Quiz options must have screen-reader text',
+    recommendation: 'Set quiz.optionScreenReaderText with one entry per option, such as "Option 2 of 4: Sends the email"',
+    check: ({ content }) => quizzes(content).flatMap(({ label, quiz }) => {
+      const spoken = quiz.optionScreenReaderText
+      if (!spoken) return [`${label} quiz`]
+      return quiz.options
+        .map((_, index) => index)
+        .filter(index => !spoken[index]?.trim())
+        .map(index => `${label} quiz, option ${index + 1}`)
+    })
+  },
+  {
+    id: 'storybook-quiz-label-in-name',
+    type: 'error',
+    severity: 'medium',
+    guideline: 'WCAG 2.5.3',
+    description: 'Quiz option screen-reader text must contain the option as shown',
+    recommendation: 'Keep each option\'s visible text in its screen-reader text so speech users can select it by what they see',
+    check: ({ content }) => quizzes(content).flatMap(({ label, quiz }) => quiz.options
+      .map((option, index) => ({ option, spoken: quiz.optionScreenReaderText?.[index], index }))
+      .filter(({ option, spoken }) => spoken?.trim() && !normalize(spoken).includes(normalize(option)))
+      .map(({ spoken, index }) => `${label} quiz, option ${index + 1}: "${spoken}"`)
+    )
+  },
+  {
+    id: 'storybook-code-language',
+    type: 'warning',
+    severity: 'low',
+    guideline: 'WCAG 1.3.1',
+    description: 'Code blocks should state their programming language',
+    recommendation: 'Set codeLanguage on steps with code so the page can mark up and announce it',
+    check: ({ content }) => steps(content)
+      .filter(({ step }) => step.code?.trim() && !step.codeLanguage?.trim())
+      .map(({ label }) => `${label} code`)
+  },
+  {
+    id: 'storybook-code-description',
+    type: 'warning',
+    severity: 'medium',
+    guideline: 'WCAG 3.1.5',
+    description: 'Code blocks should have a text alternative',
+    recommendation: 'Set codeDescription on steps with code to say in plain words what the code does',
+    check: ({ content }) => steps(content)
+      .filter(({ step }) => step.code?.trim() && !step.codeDescription?.trim())
+      .map(({ label }) => `${label} code`)
+  },
+  {
+    id: 'storybook-reading-level',
+    type: 'warning',
+    severity: 'low',
+    guideline: 'WCAG 3.1.5',
+    description: 'Explanations should read at the storybook\'s declared complexity',
+    recommendation: 'Shorten sentences and prefer plainer words in explanations written above the audience\'s level',
+    check: ({ content, locale }) => {
+      // The grade formula is calibrated on English only
+      const limit = READING_GRADE_LIMITS[content.complexity]
+      if (!limit || !isEnglish(locale)) return []
+
+      return steps(content).flatMap(({ label, step }) => {
+        const level = readingLevel(step.explanation || '')
+        return level.words >= MIN_WORDS_FOR_READING_LEVEL && level.grade > limit
+          ? [`${label} explanation: grade ${level.grade}, above ${limit} for ${content.complexity} content`]
+          : []
+      })
+    }
+  }
+]
+
+/**
+ * Run the rules (all of them unless ruleIds names some) on the content in one language
+ */
+export function runStorybookRules(
+  content: EducationalContent,
+  locale: string = SOURCE_LOCALE,
+  ruleIds?: string[]
+): StorybookRuleResults {
+  const rules = ruleIds ? STORYBOOK_RULES.filter(rule => ruleIds.includes(rule.id)) : STORYBOOK_RULES
+  const issues: AccessibilityIssue[] = []
+  const suggestions: string[] = []
+
+  for (const rule of rules) {
+    const failing = rule.check({ content, locale })
+    if (failing.length === 0) continue
+
+    issues.push(...failing.map(element => ({
+      id: rule.id,
+      type: rule.type,
+      severity: rule.severity,
+      description: rule.description,
+      element,
+      guideline: rule.guideline
+    })))
+    suggestions.push(rule.recommendation)
+  }
+
+  return { issues, suggestions }
+}
+
+export function isGenericAltText(altText: string, aidType?: string): boolean {
+  const text = altText.trim()
+  if (IMAGE_FILE.test(text) || /^[\w-]+_[\w-]+$/.test(text)) return true
+
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+  const meaningful = words.filter(word =>
+    !GENERIC_ALT_WORDS.has(word) && !FILLER_WORDS.has(word) && word !== aidType && !/^\d+$/.test(word)
+  )
+  // One subject word ("Workflow diagram") still says nothing about what the picture shows
+  return meaningful.length < 2
+}
+
+function steps(content: EducationalContent): { label: string; step: EducationalStep }[] {
+  return (content.steps || []).map((step, index) => ({ label: `Step ${index + 1} "${step.title}"`, step }))
+}
+
+function visualAids(content: EducationalContent) {
+  return steps(content).flatMap(({ label, step }) =>
+    (step.visualAids || []).map((aid, index) => ({ label: `${label}, visual aid ${index + 1}`, aid }))
+  )
+}
+
+function quizzes(content: EducationalContent) {
+  return steps(content).flatMap(({ label, step }) => step.quiz ? [{ label, quiz: step.quiz }] : [])
+}
+
+// Some content describes the keys in words ("Use arrow keys to move between nodes") instead of true
+function declaresKeyboardSupport(keyboardNavigation: unknown): boolean {
+  return keyboardNavigation === true || (typeof keyboardNavigation === 'string' && keyboardNavigation.trim() !== '')
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+function isEnglish(locale: string): boolean {
+  return locale.toLowerCase().split(/[-_]/)[0] === 'en'
+}
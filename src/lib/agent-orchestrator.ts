@@ -1,441 +0,0 @@
-// Agent Orchestrator Service
-// Coordinates multiple AI agents for content generation
-
-export interface AgentRequest {
-  type: string
-  agentType: AgentType
-  payload: any
-  priority?: 'low' | 'normal' | 'high'
-  timeout?: number
-}
-
-export interface AgentResponse {
-  success: boolean
-  data?: any
-  error?: string
-  processingTime: number
-  agentId: string
-}
-
-export type AgentType = 
-  | 'tambo-mcp-router'
-  | 'n8n-analyzer'
-  | 'openai-content'
-  | 'wan22-video'
-  | 'accessibility'
-  | 'quality'
-
-export interface Agent {
-  id: string
-  type: AgentType
-  status: 'idle' | 'active' | 'busy' | 'error'
-  lastActivity: Date
-  config: AgentConfig
-}
-
-export interface AgentConfig {
-  maxConcurrentRequests: number
-  timeout: number
-  retryAttempts: number
-  priority: number
-}
-
-export interface AgentHealthReport {
-  totalAgents: number
-  activeAgents: number
-  errorAgents: number
-  averageResponseTime: number
-  queueSize: number
-  systemHealth: 'healthy' | 'degraded' | 'critical'
-}
-
-export class AgentOrchestrator {
-  private agents: Map<AgentType, Agent> = new Map()
-  private requestQueue: AgentRequest[] = []
-  private processingQueue = false
-  private defaultTimeout = 30000 // 30 seconds
-
-  constructor() {
-    // Initialize with default agent configurations
-    this.initializeDefaultAgents()
-  }
-
-  async initializeAgents(): Promise<void> {
-    console.log('🤖 Initializing AI agents...')
-    
-    try {
-      // Initialize each agent type
-      const agentTypes: AgentType[] = [
-        'tambo-mcp-router',
-        'n8n-analyzer', 
-        'openai-content',
-        'wan22-video',
-        'accessibility',
-        'quality'
-      ]
-
-      for (const agentType of agentTypes) {
-        await this.initializeAgent(agentType)
-      }
-
-      console.log(`✅ Initialized ${this.agents.size} agents successfully`)
-    } catch (error) {
-      console.error('❌ Failed to initialize agents:', error)
-      throw new Error(`Agent initialization failed: ${error}`)
-    }
-  }
-
-  async routeRequest(request: AgentRequest): Promise<AgentResponse> {
-    const startTime = Date.now()
-    
-    try {
-      // Validate request
-      if (!request.agentType || !request.type) {
-        throw new Error('Invalid request: missing agentType or type')
-      }
-
-      // Get agent
-      const agent = this.agents.get(request.agentType)
-      if (!agent) {
-        throw new Error(`Agent ${request.agentType} not found`)
-      }
-
-      // Check agent status
-      if (agent.status === 'error') {
-        throw new Error(`Agent ${request.agentType} is in error state`)
-      }
-
-      // Set agent to busy
-      agent.status = 'busy'
-      agent.lastActivity = new Date()
-
-      console.log(`📡 Routing ${request.type} request to ${request.agentType} agent...`)
-
-      // Process request based on agent type
-      let result: any
-      switch (request.agentType) {
-        case 'tambo-mcp-router':
-          result = await this.processTamboMCPRequest(request)
-          break
-        case 'n8n-analyzer':
-          result = await this.processN8NAnalyzerRequest(request)
-          break
-        case 'openai-content':
-          result = await this.processOpenAIRequest(request)
-          break
-        case 'wan22-video':
-          result = await this.processVideoRequest(request)
-          break
-        case 'accessibility':
-          result = await this.processAccessibilityRequest(request)
-          break
-        case 'quality':
-          result = await this.processQualityRequest(request)
-          break
-        default:
-          throw new Error(`Unknown agent type: ${request.agentType}`)
-      }
-
-      // Update agent status
-      agent.status = 'idle'
-      const processingTime = Date.now() - startTime
-
-      return {
-        success: true,
-        data: result,
-        processingTime,
-        agentId: agent.id
-      }
-
-    } catch (error) {
-      // Update agent status on error
-      const agent = this.agents.get(request.agentType)
-      if (agent) {
-        agent.status = 'error'
-      }
-
-      const processingTime = Date.now() - startTime
-      console.error(`❌ Agent ${request.agentType} request failed:`, error)
-
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        processingTime,
-        agentId: agent?.id || 'unknown'
-      }
-    }
-  }
-
-  async orchestrateWorkflow(requests: AgentRequest[]): Promise<AgentResponse[]> {
-    console.log(`🎭 Orchestrating workflow with ${requests.length} requests...`)
-    
-    try {
-      const results: AgentResponse[] = []
-      
-      // Process requests in sequence for now (could be parallel for independent requests)
-      for (const request of requests) {
-        const result = await this.routeRequest(request)
-        results.push(result)
-        
-        // Stop on first failure if critical
-        if (!result.success && request.priority === 'high') {
-          throw new Error(`Critical request failed: ${result.error}`)
-        }
-      }
-
-      return results
-    } catch (error) {
-      console.error('❌ Workflow orchestration failed:', error)
-      throw error
-    }
-  }
-
-  async monitorAgents(): Promise<AgentHealthReport> {
-    const totalAgents = this.agents.size
-    let activeAgents = 0
-    let errorAgents = 0
-    let totalResponseTime = 0
-    let responseCount = 0
-
-    for (const agent of this.agents.values()) {
-      if (agent.status === 'active' || agent.status === 'busy') {
-        activeAgents++
-      }
-      if (agent.status === 'error') {
-        errorAgents++
-      }
-    }
-
-    const errorRate = totalAgents > 0 ? (errorAgents / totalAgents) : 0
-    const systemHealth = errorRate > 0.5 ? 'critical' : 
-                        errorRate > 0.2 ? 'degraded' : 'healthy'
-
-    return {
-      totalAgents,
-      activeAgents,
-      errorAgents,
-      averageResponseTime: responseCount > 0 ? totalResponseTime / responseCount : 0,
-      queueSize: this.requestQueue.length,
-      systemHealth
-    }
-  }
-
-  // Private methods for processing different agent types
-
-  private async initializeAgent(agentType: AgentType): Promise<void> {
-    const config: AgentConfig = {
-      maxConcurrentRequests: 5,
-      timeout: this.defaultTimeout,
-      retryAttempts: 3,
-      priority: 1
-    }
-
-    const agent: Agent = {
-      id: `${agentType}-${Date.now()}`,
-      type: agentType,
-      status: 'idle',
-      lastActivity: new Date(),
-      config
-    }
-
-    this.agents.set(agentType, agent)
-    console.log(`✅ Initialized ${agentType} agent`)
-  }
-
-  private initializeDefaultAgents(): void {
-    // This will be called during construction to set up default configurations
-    console.log('🚀 Setting up default agent configurations...')
-  }
-
-  private async processTamboMCPRequest(request: AgentRequest): Promise<any> {
-    // Mock Tambo MCP processing
-    console.log('🧠 Processing Tambo MCP request...')
-    
-    await this.delay(1000) // Simulate processing time
-    
-    return {
-      type: 'tambo-mcp-response',
-      routing: {
-        selectedAgent: request.agentType,
-        confidence: 0.95,
-        reasoning: 'Selected based on request type and current load'
-      },
-      timestamp: new Date().toISOString()
-    }
-  }
-
-  private async processN8NAnalyzerRequest(request: AgentRequest): Promise<any> {
-    console.log('⚙️ Processing N8N workflow analysis...')
-    
-    await this.delay(2000) // Simulate analysis time
-    
-    // Mock workflow analysis result
-    return {
-      workflow: {
-        id: request.payload.workflowId || 'mock-workflow',
-        name: 'Sample Workflow',
-        complexity: {
-          level: 'medium',
-          score: 65,
-          factors: {
-            nodeCount: 8,
-            connectionComplexity: 12,
-            dataTransformations: 3,
-            conditionalLogic: 2
-          }
-        }
-      },
-      summary: 'This workflow demonstrates intermediate N8N concepts including data transformation and conditional logic.',
-      learningObjectives: [
-        'Understanding workflow structure',
-        'Data flow between nodes',
-        'Conditional logic implementation'
-      ],
-      prerequisites: ['Basic N8N knowledge', 'Understanding of APIs'],
-      estimatedDuration: 25
-    }
-  }
-
-  private async processOpenAIRequest(request: AgentRequest): Promise<any> {
-    console.log('🧠 Processing OpenAI content generation...')
-    
-    await this.delay(3000) // Simulate AI processing time
-    
-    // Mock OpenAI content generation
-    return {
-      chapters: [
-        {
-          title: 'Introduction to Workflow',
-          description: 'Learn the basics of this N8N automation',
-          content: [
-            {
-              type: 'text',
-              content: 'Welcome to this interactive N8N workflow tutorial. You\'ll learn step-by-step how to build powerful automations.'
-            }
-          ],
-          estimatedDuration: 5,
-          interactiveElements: [
-            {
-              type: 'button',
-              config: { text: 'Start Learning', action: 'next-chapter' },
-              accessibility: {
-                ariaLabel: 'Proceed to next chapter',
-                keyboardSupport: true,
-                screenReaderInstructions: 'Press Enter or Space to continue'
-              }
-            }
-          ]
-        },
-        {
-          title: 'Workflow Components',
-          description: 'Understanding nodes and connections',
-          content: [
-            {
-              type: 'text',
-              content: 'N8N workflows consist of nodes that process data and connections that define the flow.'
-            }
-          ],
-          estimatedDuration: 10,
-          quiz: {
-            id: 'chapter-2-quiz',
-            questions: [
-              {
-                id: 'q1',
-                type: 'multiple-choice',
-                question: 'What connects nodes in an N8N workflow?',
-                options: ['Cables', 'Connections', 'Links', 'Pipes'],
-                correctAnswer: 'Connections',
-                explanation: 'Connections define how data flows between nodes in N8N workflows.',
-                accessibility: {
-                  screenReaderText: 'Multiple choice question about N8N workflow connections',
-                  keyboardNavigation: true
-                }
-              }
-            ],
-            passingScore: 80
-          }
-        }
-      ],
-      totalDuration: 15,
-      accessibilityOptimized: true
-    }
-  }
-
-  private async processVideoRequest(request: AgentRequest): Promise<any> {
-    console.log('🎥 Processing video generation request...')
-    
-    await this.delay(5000) // Simulate video processing time
-    
-    // Mock video generation result
-    return {
-      jobId: `video_${Date.now()}`,
-      status: 'processing',
-      estimatedCompletion: new Date(Date.now() + 300000).toISOString(), // 5 minutes
-      videoUrl: null, // Will be populated when complete
-      subtitlesUrl: null,
-      metadata: {
-        resolution: '1080p',
-        duration: 180, // 3 minutes
-        format: 'mp4',
-        accessibility: {
-          closedCaptions: true,
-          audioDescriptions: true
-        }
-      }
-    }
-  }
-
-  private async processAccessibilityRequest(request: AgentRequest): Promise<any> {
-    console.log('♿ Processing accessibility enhancement...')
-    
-    await this.delay(1500) // Simulate accessibility processing
-    
-    // Mock accessibility enhancement result
-    return {
-      score: 95,
-      level: 'AA',
-      features: [
-        'Screen reader optimization',
-        'Keyboard navigation support',
-        'High contrast mode',
-        'Alternative text for images',
-        'Accessible color scheme'
-      ],
-      violations: [],
-      improvements: [
-        {
-          type: 'enhancement',
-          description: 'Added ARIA labels for interactive elements',
-          impact: 'high'
-        }
-      ]
-    }
-  }
-
-  private async processQualityRequest(request: AgentRequest): Promise<any> {
-    console.log('✅ Processing quality assurance...')
-    
-    await this.delay(1000) // Simulate QA processing
-    
-    // Mock quality assurance result
-    return {
-      overallScore: 92,
-      categories: {
-        technicalAccuracy: 95,
-        educationalEffectiveness: 90,
-        accessibilityCompliance: 98,
-        userExperience: 88
-      },
-      issues: [],
-      recommendations: [
-        'Consider adding more interactive elements',
-        'Include additional practice exercises'
-      ],
-      approved: true
-    }
-  }
-
-  private async delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms))
-  }
-}
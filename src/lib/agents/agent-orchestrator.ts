@@ -9,6 +9,17 @@ import { abacusClient } from '../../services/abacusClient';
 import { n8nWorkflowAnalyzer, N8NWorkflow, EducationalContent } from './n8n-workflow-analyzer';
 import { videoGenerationAgent, VideoGenerationRequest, VideoAsset } from './video-generation-agent';
 import { n8nIntegrationService } from '../../services/n8n-integration';
+import {
+  ExecutionTrace,
+  PipelineDefinition,
+  PipelineError,
+  PipelineNode,
+  planPipeline,
+  STORYBOOK_PIPELINE,
+  TraceNode,
+} from './storybook-pipeline';
+import { BudgetExceededError, DEFAULT_TENANT_ID, getUsageMeter, UsageAmounts, UsageScope } from '../usage';
+import { translateContent } from '../translation';
 
 // Agent Types and Interfaces
 export interface Agent {
@@ -30,12 +41,14 @@ export type AgentType =
   | 'accessibility_enhancer'
   | 'mcp_router'
   | 'quality_assurance'
+  | 'translator'
   | 'deployment_manager';
 
 export type AgentStatus = 'idle' | 'busy' | 'error' | 'offline';
 
 export interface OrchestrationTask {
   id: string;
+  runId?: string; // groups the tasks of one orchestration for cost accounting
   type: TaskType;
   priority: 'low' | 'medium' | 'high' | 'critical';
   data: any;
@@ -49,6 +62,8 @@ export interface OrchestrationTask {
   error?: string;
   dependencies: string[];
   timeout: number; // milliseconds
+  estimate?: Partial<UsageAmounts>; // checked against the job and tenant budgets before the task runs
+  cost?: number; // metered provider usage, set once the task settles
 }
 
 export type TaskType = 
@@ -57,6 +72,8 @@ export type TaskType =
   | 'create_video'
   | 'enhance_accessibility'
   | 'quality_check'
+  | 'route_request'
+  | 'translate_content'
   | 'deploy_storybook';
 
 export type TaskStatus = 'pending' | 'assigned' | 'running' | 'completed' | 'failed' | 'cancelled';
@@ -66,6 +83,7 @@ export interface OrchestrationResult {
   success: boolean;
   data?: any;
   error?: string;
+  errorCode?: string;
   agentResults: AgentResult[];
   executionTime: number;
   resourceUsage: ResourceUsage;
@@ -89,6 +107,41 @@ export interface ResourceUsage {
   cost: number;
 }
 
+export interface OrchestrationUsage {
+  totalCost: number;
+  taskCount: number;
+  byTaskType: Partial<Record<TaskType, { count: number; cost: number }>>;
+}
+
+export interface QualityImprovement {
+  type: string;
+  message: string;
+}
+
+export interface QualityReport {
+  score: number;
+  improvements: QualityImprovement[];
+}
+
+export interface StorybookOrchestrationResult {
+  runId: string;
+  content: EducationalContent;
+  translations: Record<string, EducationalContent>; // by locale; empty when nothing was (or could be) translated
+  video?: VideoAsset;
+  qualityScore: number;
+  executionTime: number;
+  usage: OrchestrationUsage;
+  tasks: OrchestrationResult[];
+  trace: ExecutionTrace;
+}
+
+export interface PipelineRun {
+  tasks: Map<string, OrchestrationTask>; // keyed by pipeline node id
+  results: OrchestrationResult[];
+  trace: ExecutionTrace;
+  usage: OrchestrationUsage;
+}
+
 export interface WorkflowToStorybookRequest {
   workflow: N8NWorkflow;
   options: {
@@ -97,6 +150,7 @@ export interface WorkflowToStorybookRequest {
     complexity: 'auto' | 'beginner' | 'intermediate' | 'advanced';
     style: 'tutorial' | 'interactive' | 'documentation';
     language: string;
+    locales: string[]; // translated copies to produce besides the generated content
   };
   user: {
     id: string;
@@ -111,16 +165,60 @@ export interface UserPreferences {
   experienceLevel: 'beginner' | 'intermediate' | 'advanced';
 }
 
+export interface AgentOrchestratorOptions {
+  maxConcurrentTasks?: number;
+}
+
+const PRIORITY_RANK: Record<OrchestrationTask['priority'], number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+const EMPTY_RESOURCE_USAGE: ResourceUsage = {
+  cpuTime: 0,
+  memoryPeak: 0,
+  networkRequests: 0,
+  apiCalls: 0,
+  cost: 0,
+};
+
+const roundCost = (cost: number): number => Math.round(cost * 10000) / 10000;
+
+const addTaskUsage = (usage: OrchestrationUsage, task: OrchestrationTask): void => {
+  if (task.cost === undefined) {
+    return;
+  }
+  const entry = usage.byTaskType[task.type] || { count: 0, cost: 0 };
+  entry.count += 1;
+  entry.cost = roundCost(entry.cost + task.cost);
+  usage.byTaskType[task.type] = entry;
+  usage.taskCount += 1;
+  usage.totalCost = roundCost(usage.totalCost + task.cost);
+};
+
 export class AgentOrchestrator extends EventEmitter {
   private agents: Map<string, Agent> = new Map();
+  // Only tasks of runs still in progress; a run's tasks are released once it settles
   private tasks: Map<string, OrchestrationTask> = new Map();
+  private results: Map<string, OrchestrationResult> = new Map();
+  private runTasks: Map<string, Set<string>> = new Map(); // task ids by run id
+  private settledUsage: OrchestrationUsage = { totalCost: 0, taskCount: 0, byTaskType: {} }; // since startup
+  private waiters: Map<string, Array<(result: OrchestrationResult) => void>> = new Map();
   private taskQueue: OrchestrationTask[] = [];
-  private isProcessing: boolean = false;
-  private maxConcurrentTasks: number = 5;
+  private runningTasks: Set<string> = new Set();
+  private runScopes: Map<string, UsageScope> = new Map();
+  private isScheduling: boolean = false;
+  private maxConcurrentTasks: number;
   private healthCheckInterval: NodeJS.Timeout | null = null;
 
-  constructor() {
+  constructor(options: AgentOrchestratorOptions = {}) {
     super();
+    this.maxConcurrentTasks = Math.max(
+      1,
+      options.maxConcurrentTasks || Number(process.env.ORCHESTRATOR_MAX_CONCURRENCY) || 5
+    );
     this.initializeAgents();
     this.startHealthMonitoring();
   }
@@ -196,6 +294,17 @@ export class AgentOrchestrator extends EventEmitter {
         healthScore: 100,
         version: '1.0.0',
       },
+      {
+        id: 'content-translator',
+        name: 'Content Translation Agent',
+        type: 'translator',
+        status: 'idle',
+        capabilities: ['localization', 'terminology_protection', 'rtl_support'],
+        priority: 5,
+        lastActivity: new Date(),
+        healthScore: 100,
+        version: '1.0.0',
+      },
     ];
 
     agents.forEach(agent => {
@@ -206,128 +315,198 @@ export class AgentOrchestrator extends EventEmitter {
   }
 
   /**
-   * Main orchestration method: Convert N8N workflow to interactive storybook
+   * Main orchestration method: Convert N8N workflow to interactive storybook.
+   * Runs STORYBOOK_PIPELINE as a task graph; task dependencies decide what runs when.
    */
-  async createInteractiveStorybook(request: WorkflowToStorybookRequest): Promise<EducationalContent> {
-    const mainTaskId = `storybook-${Date.now()}`;
-    
-    try {
-      this.emit('orchestration:started', { taskId: mainTaskId, request });
-      console.log(`Starting storybook creation orchestration: ${mainTaskId}`);
+  async createInteractiveStorybook(
+    request: WorkflowToStorybookRequest,
+    options: { runId?: string; usage?: UsageScope } = {}
+  ): Promise<StorybookOrchestrationResult> {
+    const runId = options.runId || `storybook-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+    const startTime = Date.now();
 
-      // Phase 1: Workflow Analysis (Parallel: N8N Analysis + MCP Routing)
-      const analysisTasks = await this.createParallelTasks([
-        {
-          type: 'analyze_workflow',
-          data: { workflow: request.workflow, options: request.options },
-          requiredAgents: ['workflow_analyzer'],
-          priority: 'high',
-        },
-        {
-          type: 'route_request',
-          data: { 
-            payload: `Analyze workflow: ${request.workflow.name}`,
-            tier: 'Pro',
-            context: request.user.preferences 
-          },
-          requiredAgents: ['mcp_router'],
-          priority: 'medium',
-        },
-      ]);
-
-      const [workflowAnalysis, routingResult] = await this.executeTasksBatch(analysisTasks);
-
-      // Phase 2: Content Generation (Enhanced by routing intelligence)
-      const contentTask = await this.createTask({
-        type: 'generate_content',
-        data: {
-          workflowAnalysis: workflowAnalysis.data,
-          routingContext: routingResult.data,
-          options: request.options,
-          userPreferences: request.user.preferences,
-        },
-        requiredAgents: ['content_generator'],
-        optionalAgents: ['accessibility_enhancer'],
-        priority: 'high',
-      });
-
-      const contentResult = await this.executeTask(contentTask);
-      let educationalContent: EducationalContent = contentResult.data;
-
-      // Phase 3: Video Generation (if requested)
-      if (request.options.includeVideo) {
-        const videoTask = await this.createTask({
-          type: 'create_video',
-          data: {
-            educationalContent,
-            videoRequest: {
-              title: educationalContent.title,
-              description: educationalContent.description,
-              steps: educationalContent.steps,
-              style: 'tutorial',
-              duration: Math.min(educationalContent.estimatedDuration * 4, 300), // Max 5 minutes
-              resolution: '1080p',
-              accessibility: request.options.accessibility,
-            } as VideoGenerationRequest,
-          },
-          requiredAgents: ['video_generator'],
-          priority: 'medium',
-        });
+    try {
+      this.emit('orchestration:started', { taskId: runId, request });
+      console.log(`Starting storybook creation orchestration: ${runId}`);
 
-        const videoResult = await this.executeTask(videoTask);
-        
-        // Integrate video into educational content
-        educationalContent = this.integrateVideoContent(educationalContent, videoResult.data);
-      }
+      const run = await this.runPipeline(STORYBOOK_PIPELINE, request, runId, options.usage);
+      const contentTask = run.tasks.get('accessibility') || run.tasks.get('content')!;
+      const qaTask = run.tasks.get('qa')!;
+      const videoTask = run.tasks.get('video');
+      const translationTask = run.tasks.get('translation');
 
-      // Phase 4: Accessibility Enhancement
-      if (request.options.accessibility) {
-        const accessibilityTask = await this.createTask({
-          type: 'enhance_accessibility',
-          data: {
-            educationalContent,
-            userAccessibilityNeeds: request.user.preferences.accessibilityNeeds,
-          },
-          requiredAgents: ['accessibility_enhancer'],
-          priority: 'high',
-        });
+      let educationalContent: EducationalContent = contentTask.result;
 
-        const accessibilityResult = await this.executeTask(accessibilityTask);
-        educationalContent = accessibilityResult.data;
+      // Apply QA improvements
+      const quality: QualityReport = qaTask.result;
+      if (quality.improvements.length > 0) {
+        educationalContent = this.applyQAImprovements(educationalContent, quality.improvements);
       }
 
-      // Phase 5: Quality Assurance
-      const qaTask = await this.createTask({
-        type: 'quality_check',
-        data: { educationalContent },
-        requiredAgents: ['quality_assurance'],
-        priority: 'medium',
-      });
-
-      const qaResult = await this.executeTask(qaTask);
-      
-      // Apply QA improvements
-      if (qaResult.success && qaResult.data.improvements) {
-        educationalContent = this.applyQAImprovements(educationalContent, qaResult.data.improvements);
+      // Translation already worked from the QA'd content; a failed translation leaves the run partial
+      let translations: Record<string, EducationalContent> =
+        translationTask?.status === 'completed' ? translationTask.result : {};
+
+      // Integrate video into educational content
+      const video: VideoAsset | undefined = videoTask?.status === 'completed' ? videoTask.result : undefined;
+      if (video) {
+        educationalContent = this.integrateVideoContent(educationalContent, video);
+        translations = Object.fromEntries(
+          Object.entries(translations).map(([locale, content]) => [locale, this.integrateVideoContent(content, video)])
+        );
       }
 
-      this.emit('orchestration:completed', { taskId: mainTaskId, result: educationalContent });
-      console.log(`Storybook creation completed: ${mainTaskId}`);
+      const result: StorybookOrchestrationResult = {
+        runId,
+        content: educationalContent,
+        translations,
+        video,
+        qualityScore: quality.score,
+        executionTime: Date.now() - startTime,
+        usage: run.usage,
+        tasks: run.results,
+        trace: run.trace,
+      };
+
+      this.emit('orchestration:completed', { taskId: runId, result: educationalContent, usage: result.usage });
+      console.log(`Storybook creation completed: ${runId} (${run.trace.status}, $${result.usage.totalCost.toFixed(2)})`);
 
-      return educationalContent;
+      return result;
     } catch (error) {
-      this.emit('orchestration:failed', { taskId: mainTaskId, error });
-      console.error(`Storybook creation failed: ${mainTaskId}`, error);
+      this.emit('orchestration:failed', { taskId: runId, error });
+      console.error(`Storybook creation failed: ${runId}`, error);
       throw error;
     }
   }
 
+  /**
+   * Queue every node of a pipeline as a task, wired up by its dependencies, and wait
+   * for the graph to settle. When a 'fail' node fails, whatever has not started yet is
+   * cancelled and a PipelineError carrying the trace is thrown.
+   * Usage is charged to `usage` (by default, a job of its own under the default tenant).
+   * The orchestrator forgets the run's tasks once it settles; the returned run keeps them.
+   */
+  async runPipeline(
+    definition: PipelineDefinition,
+    request: WorkflowToStorybookRequest,
+    runId: string,
+    usage: UsageScope = { tenantId: DEFAULT_TENANT_ID, jobId: runId }
+  ): Promise<PipelineRun> {
+    this.runScopes.set(runId, { ...usage, runId });
+    try {
+      return await this.executePipeline(definition, request, runId);
+    } finally {
+      this.runScopes.delete(runId);
+      this.releaseRun(runId);
+    }
+  }
+
+  private async executePipeline(
+    definition: PipelineDefinition,
+    request: WorkflowToStorybookRequest,
+    runId: string
+  ): Promise<PipelineRun> {
+    const startedAt = new Date();
+    const { nodes, skipped } = planPipeline(definition, request);
+    const tasks = new Map<string, OrchestrationTask>();
+
+    for (const node of nodes) {
+      tasks.set(node.id, await this.createTask({
+        runId,
+        type: node.type,
+        data: node.data(request),
+        requiredAgents: node.requiredAgents,
+        optionalAgents: node.optionalAgents,
+        priority: node.priority,
+        timeout: node.timeoutMs,
+        estimate: node.estimate,
+        dependencies: node.dependsOn.map(depId => tasks.get(depId)!.id),
+      }));
+    }
+
+    let failure: { node: PipelineNode; error?: string; code?: string } | undefined;
+    const results = await Promise.all(nodes.map(async node => {
+      const result = await this.waitForTask(tasks.get(node.id)!.id);
+      if (!result.success && node.onFailure === 'fail' && !failure) {
+        failure = { node, error: result.error, code: result.errorCode };
+        // Downstream first, so cancelling a task never releases one of its dependents to run
+        Array.from(tasks.values()).reverse().forEach(task => this.cancelTask(task.id));
+      }
+      return result;
+    }));
+
+    const trace = this.traceRun(definition, runId, startedAt, nodes, skipped, tasks, Boolean(failure));
+    if (failure) {
+      throw new PipelineError(`${failure.node.id} (${failure.node.type}) failed: ${failure.error}`, trace, failure.code);
+    }
+
+    return { tasks, results, trace, usage: this.getUsage(runId) };
+  }
+
+  private traceRun(
+    definition: PipelineDefinition,
+    runId: string,
+    startedAt: Date,
+    nodes: PipelineNode[],
+    skipped: PipelineNode[],
+    tasks: Map<string, OrchestrationTask>,
+    failed: boolean
+  ): ExecutionTrace {
+    const finishedAt = new Date();
+    const traced = nodes.map((node): TraceNode => {
+      const task = tasks.get(node.id)!;
+      return {
+        node: node.id,
+        type: node.type,
+        taskId: task.id,
+        status: task.status,
+        dependsOn: node.dependsOn,
+        onFailure: node.onFailure,
+        timeoutMs: node.timeoutMs,
+        startedAt: task.startTime?.toISOString(),
+        finishedAt: task.endTime?.toISOString(),
+        durationMs: task.startTime && task.endTime ? task.endTime.getTime() - task.startTime.getTime() : undefined,
+        cost: task.cost,
+        error: task.error,
+      };
+    });
+    const skippedNodes = skipped.map((node): TraceNode => ({
+      node: node.id,
+      type: node.type,
+      status: 'skipped',
+      dependsOn: node.dependsOn,
+      onFailure: node.onFailure,
+      timeoutMs: node.timeoutMs,
+    }));
+    const degraded = traced.some(node => node.status !== 'completed');
+
+    return {
+      pipeline: definition.name,
+      runId,
+      status: failed ? 'failed' : degraded ? 'partial' : 'completed',
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      totalCost: roundCost(traced.reduce((total, node) => total + (node.cost || 0), 0)),
+      // Keep the definition's order so skipped nodes show up where they would have run
+      nodes: definition.nodes
+        .map(node => traced.find(entry => entry.node === node.id) || skippedNodes.find(entry => entry.node === node.id))
+        .filter((node): node is TraceNode => node !== undefined),
+    };
+  }
+
   /**
    * Create and queue a new orchestration task
    */
   async createTask(taskConfig: Partial<OrchestrationTask>): Promise<OrchestrationTask> {
+    const unknownDependency = (taskConfig.dependencies || []).find(depId => !this.tasks.has(depId));
+    if (unknownDependency) {
+      throw new Error(`Unknown task dependency: ${unknownDependency}`);
+    }
+
     const task: OrchestrationTask = {
       id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      runId: taskConfig.runId,
       type: taskConfig.type!,
       priority: taskConfig.priority || 'medium',
       data: taskConfig.data || {},
@@ -337,16 +516,17 @@ export class AgentOrchestrator extends EventEmitter {
       progress: 0,
       dependencies: taskConfig.dependencies || [],
       timeout: taskConfig.timeout || 300000, // 5 minutes default
+      estimate: taskConfig.estimate,
     };
 
     this.tasks.set(task.id, task);
-    this.taskQueue.push(task);
-    
-    this.emit('task:created', { task });
-    
-    if (!this.isProcessing) {
-      this.processTaskQueue();
+    if (task.runId) {
+      this.runTasks.set(task.runId, (this.runTasks.get(task.runId) || new Set()).add(task.id));
     }
+    this.enqueue(task);
+
+    this.emit('task:created', { task });
+    this.processTaskQueue();
 
     return task;
   }
@@ -360,34 +540,102 @@ export class AgentOrchestrator extends EventEmitter {
   }
 
   /**
-   * Execute a single task
+   * Queue a task and wait for it to finish. A task outside any run is forgotten once it settles.
+   */
+  async runTask(taskConfig: Partial<OrchestrationTask>): Promise<OrchestrationResult> {
+    const task = await this.createTask(taskConfig);
+    const result = await this.waitForTask(task.id);
+    if (!task.runId) {
+      this.releaseTask(task.id);
+    }
+    return result;
+  }
+
+  /**
+   * Resolve once a task has completed, failed or been cancelled
    */
-  async executeTask(task: OrchestrationTask): Promise<OrchestrationResult> {
+  waitForTask(taskId: string): Promise<OrchestrationResult> {
+    const settled = this.results.get(taskId);
+    if (settled) {
+      return Promise.resolve(settled);
+    }
+    if (!this.tasks.has(taskId)) {
+      return Promise.reject(new Error(`Task not found: ${taskId}`));
+    }
+
+    return new Promise(resolve => {
+      this.waiters.set(taskId, [...(this.waiters.get(taskId) || []), resolve]);
+    });
+  }
+
+  async waitForTasks(tasks: OrchestrationTask[]): Promise<OrchestrationResult[]> {
+    return Promise.all(tasks.map(task => this.waitForTask(task.id)));
+  }
+
+  /**
+   * Cancel a task that has not started yet
+   */
+  cancelTask(taskId: string): boolean {
+    const task = this.tasks.get(taskId);
+    if (!task || task.status !== 'pending') {
+      return false;
+    }
+
+    this.taskQueue = this.taskQueue.filter(queued => queued.id !== taskId);
+    task.status = 'cancelled';
+    task.endTime = new Date();
+    this.settleTask(task, {
+      taskId,
+      success: false,
+      error: 'Task cancelled',
+      agentResults: [],
+      executionTime: 0,
+      resourceUsage: EMPTY_RESOURCE_USAGE,
+    });
+    this.emit('task:cancelled', { task });
+    this.processTaskQueue();
+    return true;
+  }
+
+  /**
+   * Execute a single task. Only the queue calls this, once the task's dependencies have settled.
+   */
+  private async executeTask(task: OrchestrationTask): Promise<OrchestrationResult> {
     const startTime = Date.now();
-    
+    const usageMeter = getUsageMeter();
+    const scope = this.usageScopeFor(task);
+    const controller = new AbortController();
+    let result: OrchestrationResult;
+
     try {
+      // Refuse before any tokens or GPU time are spent
+      await usageMeter.assertWithinBudget(scope, task.estimate);
+
       // Update task status
       task.status = 'running';
       task.startTime = new Date();
       this.emit('task:started', { task });
 
-      // Route task to appropriate agent
-      const result = await this.routeTaskToAgent(task);
-      
+      // Route task to appropriate agent; provider calls made along the way are charged to this task
+      const data = await usageMeter.runInScope(
+        scope,
+        () => this.withTimeout(task, controller, this.routeTaskToAgent(task, controller.signal)),
+        controller.signal
+      );
+
       // Update task completion
+      const executionTime = Date.now() - startTime;
       task.status = 'completed';
       task.endTime = new Date();
       task.progress = 100;
-      task.result = result;
-      
-      const executionTime = Date.now() - startTime;
-      
-      this.emit('task:completed', { task, result, executionTime });
+      task.result = data;
+      task.cost = usageMeter.taskTotals(task.id).cost;
+      addTaskUsage(this.settledUsage, task);
 
-      return {
+      result = {
         taskId: task.id,
         success: true,
-        data: result,
+        data,
         agentResults: [], // Would be populated in production
         executionTime,
         resourceUsage: {
@@ -395,64 +643,116 @@ export class AgentOrchestrator extends EventEmitter {
           memoryPeak: 0,
           networkRequests: 0,
           apiCalls: 1,
-          cost: this.calculateTaskCost(task, executionTime),
+          cost: task.cost,
         },
       };
     } catch (error) {
-      task.status = 'failed';
+      const message = error instanceof Error ? error.message : String(error);
+      // A task refused for budget never started, so it counts as cancelled rather than failed
+      task.status = error instanceof BudgetExceededError ? 'cancelled' : 'failed';
       task.endTime = new Date();
-      task.error = error.message;
-      
-      this.emit('task:failed', { task, error });
+      task.error = message;
+      task.cost = usageMeter.taskTotals(task.id).cost;
+      addTaskUsage(this.settledUsage, task);
 
-      return {
+      result = {
         taskId: task.id,
         success: false,
-        error: error.message,
+        error: message,
+        errorCode: error instanceof BudgetExceededError ? error.code : undefined,
         agentResults: [],
         executionTime: Date.now() - startTime,
-        resourceUsage: {
-          cpuTime: 0,
-          memoryPeak: 0,
-          networkRequests: 0,
-          apiCalls: 0,
-          cost: 0,
-        },
+        resourceUsage: EMPTY_RESOURCE_USAGE,
       };
     }
+
+    // Settle first so listeners already see this task counted in the run's progress
+    this.settleTask(task, result);
+    if (result.success) {
+      this.emit('task:completed', { task, result: result.data, executionTime: result.executionTime });
+    } else if (task.status === 'cancelled') {
+      this.emit('task:cancelled', { task });
+    } else {
+      this.emit('task:failed', { task, error: new Error(result.error) });
+    }
+    return result;
+  }
+
+  private usageScopeFor(task: OrchestrationTask): UsageScope {
+    const runScope = (task.runId && this.runScopes.get(task.runId)) || { tenantId: DEFAULT_TENANT_ID };
+    return {
+      ...runScope,
+      taskId: task.id,
+      taskType: task.type,
+      agent: task.requiredAgents[0],
+    };
   }
 
   /**
-   * Execute multiple tasks in batch
+   * Settle the task when its time is up, aborting the work so it stops spending tokens and GPU time
    */
-  async executeTasksBatch(tasks: OrchestrationTask[]): Promise<OrchestrationResult[]> {
-    const results = await Promise.all(tasks.map(task => this.executeTask(task)));
-    return results;
+  private async withTimeout<T>(task: OrchestrationTask, controller: AbortController, work: Promise<T>): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(`Task ${task.type} timed out after ${task.timeout}ms`);
+        controller.abort(error);
+        reject(error);
+      }, task.timeout);
+    });
+    // Abandoned work may still fail on its way out; nobody is waiting for it any more
+    work.catch(() => undefined);
+
+    try {
+      return await Promise.race([work, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private settleTask(task: OrchestrationTask, result: OrchestrationResult): void {
+    this.results.set(task.id, result);
+    (this.waiters.get(task.id) || []).forEach(resolve => resolve(result));
+    this.waiters.delete(task.id);
+  }
+
+  private releaseRun(runId: string): void {
+    (this.runTasks.get(runId) || new Set<string>()).forEach(taskId => this.releaseTask(taskId));
+    this.runTasks.delete(runId);
+  }
+
+  private releaseTask(taskId: string): void {
+    this.tasks.delete(taskId);
+    this.results.delete(taskId);
+    this.waiters.delete(taskId);
   }
 
   /**
    * Route task to appropriate agent based on task type
    */
-  private async routeTaskToAgent(task: OrchestrationTask): Promise<any> {
+  private async routeTaskToAgent(task: OrchestrationTask, signal: AbortSignal): Promise<any> {
     switch (task.type) {
       case 'analyze_workflow':
         return await this.executeWorkflowAnalysis(task);
-      
+
       case 'generate_content':
         return await this.executeContentGeneration(task);
-      
+
       case 'create_video':
-        return await this.executeVideoGeneration(task);
-      
+        return await this.executeVideoGeneration(task, signal);
+
       case 'enhance_accessibility':
         return await this.executeAccessibilityEnhancement(task);
-      
+
       case 'quality_check':
         return await this.executeQualityAssurance(task);
-      
+
       case 'route_request':
         return await this.executeMCPRouting(task);
-      
+
+      case 'translate_content':
+        return await this.executeTranslation(task, signal);
+
       default:
         throw new Error(`Unknown task type: ${task.type}`);
     }
@@ -464,11 +764,11 @@ export class AgentOrchestrator extends EventEmitter {
   private async executeWorkflowAnalysis(task: OrchestrationTask): Promise<EducationalContent> {
     const agent = this.getAgent('n8n-workflow-analyzer');
     this.updateAgentStatus(agent.id, 'busy');
-    
+
     try {
-      const { workflow, options } = task.data;
+      const { workflow } = task.data;
       const result = await n8nWorkflowAnalyzer.analyzeWorkflow(workflow);
-      
+
       this.updateAgentStatus(agent.id, 'idle');
       return result;
     } catch (error) {
@@ -480,13 +780,16 @@ export class AgentOrchestrator extends EventEmitter {
   private async executeContentGeneration(task: OrchestrationTask): Promise<EducationalContent> {
     const agent = this.getAgent('openai-content-generator');
     this.updateAgentStatus(agent.id, 'busy');
-    
+
     try {
-      const { workflowAnalysis, routingContext, options, userPreferences } = task.data;
-      
+      const { userPreferences } = task.data;
+      const workflowAnalysis = this.requireDependencyResult<EducationalContent>(task, 'analyze_workflow');
+      // Routing only refines the content, so a failed routing task is not fatal
+      const routingContext = this.getDependencyResult(task, 'route_request');
+
       // Use existing workflow analysis as base and enhance with routing context
       let enhancedContent = workflowAnalysis;
-      
+
       if (routingContext) {
         // Apply routing intelligence to content organization
         enhancedContent = this.applyRoutingIntelligence(enhancedContent, routingContext);
@@ -505,14 +808,23 @@ export class AgentOrchestrator extends EventEmitter {
     }
   }
 
-  private async executeVideoGeneration(task: OrchestrationTask): Promise<VideoAsset> {
+  private async executeVideoGeneration(task: OrchestrationTask, signal: AbortSignal): Promise<VideoAsset> {
     const agent = this.getAgent('wan22-video-generator');
     this.updateAgentStatus(agent.id, 'busy');
-    
+
     try {
-      const { videoRequest } = task.data;
-      const result = await videoGenerationAgent.generateVideo(videoRequest);
-      
+      const educationalContent = this.requireDependencyResult<EducationalContent>(task, 'generate_content');
+      const videoRequest: VideoGenerationRequest = {
+        title: educationalContent.title,
+        description: educationalContent.description,
+        steps: educationalContent.steps,
+        style: 'tutorial',
+        duration: Math.min(educationalContent.estimatedDuration * 4, 300), // Max 5 minutes
+        resolution: '1080p',
+        accessibility: Boolean(task.data.accessibility),
+      };
+      const result = await videoGenerationAgent.generateVideo(videoRequest, { signal });
+
       this.updateAgentStatus(agent.id, 'idle');
       return result;
     } catch (error) {
@@ -524,13 +836,14 @@ export class AgentOrchestrator extends EventEmitter {
   private async executeAccessibilityEnhancement(task: OrchestrationTask): Promise<EducationalContent> {
     const agent = this.getAgent('accessibility-enhancer');
     this.updateAgentStatus(agent.id, 'busy');
-    
+
     try {
-      const { educationalContent, userAccessibilityNeeds } = task.data;
-      
+      const { userAccessibilityNeeds } = task.data;
+      const educationalContent = this.requireDependencyResult<EducationalContent>(task, 'generate_content');
+
       // Apply accessibility enhancements
-      const enhancedContent = this.enhanceAccessibility(educationalContent, userAccessibilityNeeds);
-      
+      const enhancedContent = this.enhanceAccessibility(educationalContent, userAccessibilityNeeds || []);
+
       this.updateAgentStatus(agent.id, 'idle');
       return enhancedContent;
     } catch (error) {
@@ -539,17 +852,19 @@ export class AgentOrchestrator extends EventEmitter {
     }
   }
 
-  private async executeQualityAssurance(task: OrchestrationTask): Promise<{score: number; improvements: any[]}> {
+  private async executeQualityAssurance(task: OrchestrationTask): Promise<QualityReport> {
     const agent = this.getAgent('quality-assurance');
     this.updateAgentStatus(agent.id, 'busy');
-    
+
     try {
-      const { educationalContent } = task.data;
-      
+      const educationalContent =
+        this.getDependencyResult<EducationalContent>(task, 'enhance_accessibility') ||
+        this.requireDependencyResult<EducationalContent>(task, 'generate_content');
+
       // Perform quality checks
       const qualityScore = this.calculateQualityScore(educationalContent);
       const improvements = this.identifyImprovements(educationalContent);
-      
+
       this.updateAgentStatus(agent.id, 'idle');
       return { score: qualityScore, improvements };
     } catch (error) {
@@ -561,11 +876,11 @@ export class AgentOrchestrator extends EventEmitter {
   private async executeMCPRouting(task: OrchestrationTask): Promise<any> {
     const agent = this.getAgent('tambo-mcp-router');
     this.updateAgentStatus(agent.id, 'busy');
-    
+
     try {
-      const { payload, tier, context } = task.data;
+      const { payload, tier } = task.data;
       const result = await abacusClient.routeRequest(tier, payload, 'production');
-      
+
       this.updateAgentStatus(agent.id, 'idle');
       return result;
     } catch (error) {
@@ -574,36 +889,111 @@ export class AgentOrchestrator extends EventEmitter {
     }
   }
 
+  private async executeTranslation(task: OrchestrationTask, signal: AbortSignal): Promise<Record<string, EducationalContent>> {
+    const agent = this.getAgent('content-translator');
+    this.updateAgentStatus(agent.id, 'busy');
+
+    try {
+      const { locales, terms } = task.data as { locales: string[]; terms: string[] };
+      const educationalContent =
+        this.getDependencyResult<EducationalContent>(task, 'enhance_accessibility') ||
+        this.requireDependencyResult<EducationalContent>(task, 'generate_content');
+      const quality = this.requireDependencyResult<QualityReport>(task, 'quality_check');
+
+      // Translate what the storybook will actually show, so every locale carries the QA fixes
+      const finalContent = this.applyQAImprovements(educationalContent, quality.improvements);
+      const translations: Record<string, EducationalContent> = {};
+      for (const locale of locales) {
+        signal.throwIfAborted();
+        translations[locale] = await translateContent(finalContent, locale, { terms });
+      }
+
+      this.updateAgentStatus(agent.id, 'idle');
+      return translations;
+    } catch (error) {
+      this.updateAgentStatus(agent.id, 'error');
+      throw error;
+    }
+  }
+
   /**
-   * Process task queue
+   * Start every queued task whose dependencies have settled, up to the concurrency limit
    */
-  private async processTaskQueue(): Promise<void> {
-    if (this.isProcessing || this.taskQueue.length === 0) {
+  private processTaskQueue(): void {
+    if (this.isScheduling) {
       return;
     }
 
-    this.isProcessing = true;
+    this.isScheduling = true;
 
     try {
-      while (this.taskQueue.length > 0) {
-        const task = this.taskQueue.shift()!;
-        
-        // Check dependencies
+      for (const task of [...this.taskQueue]) {
+        if (this.runningTasks.size >= this.maxConcurrentTasks) {
+          break;
+        }
         if (!this.areDependenciesMet(task)) {
-          this.taskQueue.push(task); // Re-queue if dependencies not met
           continue;
         }
 
-        // Execute task
-        await this.executeTask(task);
+        this.taskQueue = this.taskQueue.filter(queued => queued.id !== task.id);
+        this.runningTasks.add(task.id);
+        task.status = 'assigned';
+        this.emit('task:assigned', { task });
+        this.executeTask(task).finally(() => {
+          this.runningTasks.delete(task.id);
+          this.processTaskQueue();
+        });
       }
-    } catch (error) {
-      console.error('Task queue processing error:', error);
     } finally {
-      this.isProcessing = false;
+      this.isScheduling = false;
     }
   }
 
+  /**
+   * Keep the queue ordered by priority, first-in-first-out within a priority
+   */
+  private enqueue(task: OrchestrationTask): void {
+    const rank = PRIORITY_RANK[task.priority];
+    const index = this.taskQueue.findIndex(queued => PRIORITY_RANK[queued.priority] > rank);
+    if (index === -1) {
+      this.taskQueue.push(task);
+    } else {
+      this.taskQueue.splice(index, 0, task);
+    }
+  }
+
+  /**
+   * How far a run has got: settled tasks out of every task queued for it so far
+   */
+  getRunProgress(runId: string): { total: number; settled: number; percent: number } {
+    const runTasks = Array.from(this.runTasks.get(runId) || []);
+    const settled = runTasks.filter(taskId => this.results.has(taskId)).length;
+
+    return {
+      total: runTasks.length,
+      settled,
+      percent: runTasks.length === 0 ? 0 : Math.round((settled / runTasks.length) * 100),
+    };
+  }
+
+  /**
+   * Cost accounting across the settled tasks of a run still in progress, or of every task since startup
+   */
+  getUsage(runId?: string): OrchestrationUsage {
+    if (!runId) {
+      return structuredClone(this.settledUsage);
+    }
+
+    const usage: OrchestrationUsage = { totalCost: 0, taskCount: 0, byTaskType: {} };
+    (this.runTasks.get(runId) || new Set<string>()).forEach(taskId => {
+      const task = this.tasks.get(taskId);
+      if (task) {
+        addTaskUsage(usage, task);
+      }
+    });
+    return usage;
+  }
+
   /**
    * Helper methods
    */
@@ -624,28 +1014,32 @@ export class AgentOrchestrator extends EventEmitter {
     }
   }
 
+  /**
+   * A dependency counts once it has settled either way; the handler decides
+   * whether a failed dependency is fatal (requireDependencyResult) or not.
+   */
   private areDependenciesMet(task: OrchestrationTask): boolean {
-    return task.dependencies.every(depId => {
-      const depTask = this.tasks.get(depId);
-      return depTask && depTask.status === 'completed';
-    });
+    return task.dependencies.every(depId => this.results.has(depId));
   }
 
-  private calculateTaskCost(task: OrchestrationTask, executionTime: number): number {
-    // Simple cost calculation based on task type and execution time
-    const baseCosts = {
-      analyze_workflow: 0.10,
-      generate_content: 0.50,
-      create_video: 2.00,
-      enhance_accessibility: 0.20,
-      quality_check: 0.15,
-      route_request: 0.05,
-    };
+  private getDependencyResult<T = unknown>(task: OrchestrationTask, type: TaskType): T | undefined {
+    const dependency = task.dependencies
+      .map(depId => this.tasks.get(depId))
+      .find(depTask => depTask?.type === type && depTask.status === 'completed');
+    return dependency?.result;
+  }
 
-    const baseCost = baseCosts[task.type] || 0.10;
-    const timeFactor = executionTime / 60000; // Convert to minutes
-    
-    return baseCost * Math.max(1, timeFactor);
+  private requireDependencyResult<T = unknown>(task: OrchestrationTask, type: TaskType): T {
+    const result = this.getDependencyResult<T>(task, type);
+    if (result === undefined) {
+      const dependency = task.dependencies
+        .map(depId => this.tasks.get(depId))
+        .find(depTask => depTask?.type === type);
+      throw new Error(dependency
+        ? `Dependency ${type} did not complete: ${dependency.error || dependency.status}`
+        : `Task ${task.type} has no ${type} dependency`);
+    }
+    return result;
   }
 
   private calculateQualityScore(content: EducationalContent): number {
@@ -663,8 +1057,8 @@ export class AgentOrchestrator extends EventEmitter {
     return Math.min(score, maxScore);
   }
 
-  private identifyImprovements(content: EducationalContent): any[] {
-    const improvements = [];
+  private identifyImprovements(content: EducationalContent): QualityImprovement[] {
+    const improvements: QualityImprovement[] = [];
 
     if (!content.title || content.title.length < 5) {
       improvements.push({ type: 'title', message: 'Title should be more descriptive' });
@@ -681,7 +1075,7 @@ export class AgentOrchestrator extends EventEmitter {
     return improvements;
   }
 
-  private applyQAImprovements(content: EducationalContent, improvements: any[]): EducationalContent {
+  private applyQAImprovements(content: EducationalContent, improvements: QualityImprovement[]): EducationalContent {
     // Apply automated improvements based on QA feedback
     let improvedContent = { ...content };
 
@@ -714,6 +1108,10 @@ export class AgentOrchestrator extends EventEmitter {
             duration: videoAsset.duration,
             subtitles: videoAsset.metadata.subtitles,
             timestamps: videoAsset.metadata.timestamps,
+            chapters: videoAsset.metadata.chapters,
+            chaptersUrl: videoAsset.metadata.chaptersUrl,
+            hotspots: videoAsset.metadata.hotspots,
+            audioDescription: videoAsset.metadata.audioDescription,
           },
           accessibility: videoAsset.accessibility,
         },
@@ -797,6 +1195,8 @@ export class AgentOrchestrator extends EventEmitter {
     this.healthCheckInterval = setInterval(() => {
       this.performHealthCheck();
     }, 60000); // Check every minute
+    // Don't keep a server process alive just for health checks
+    this.healthCheckInterval.unref?.();
   }
 
   private performHealthCheck(): void {
@@ -832,11 +1232,15 @@ export class AgentOrchestrator extends EventEmitter {
       running: Array.from(this.tasks.values()).filter(t => t.status === 'running').length,
       completed: Array.from(this.tasks.values()).filter(t => t.status === 'completed').length,
       failed: Array.from(this.tasks.values()).filter(t => t.status === 'failed').length,
+      cancelled: Array.from(this.tasks.values()).filter(t => t.status === 'cancelled').length,
     };
 
     return {
-      isProcessing: this.isProcessing,
+      isProcessing: this.runningTasks.size > 0,
       queueLength: this.taskQueue.length,
+      runningTasks: this.runningTasks.size,
+      maxConcurrentTasks: this.maxConcurrentTasks,
+      usage: this.getUsage(),
       agents: agentStatuses,
       tasks: taskStats,
       uptime: process.uptime(),
@@ -850,8 +1254,11 @@ export class AgentOrchestrator extends EventEmitter {
     if (this.healthCheckInterval) {
       clearInterval(this.healthCheckInterval);
     }
-    
-    this.isProcessing = false;
+
+    // Settle anything still waiting in the queue so callers are not left hanging
+    const queued = this.taskQueue;
+    this.taskQueue = [];
+    queued.forEach(task => this.cancelTask(task.id));
     this.emit('orchestrator:shutdown');
   }
 }
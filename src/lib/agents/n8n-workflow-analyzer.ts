@@ -4,8 +4,17 @@
  */
 
 // import { Workflow } from 'n8n-workflow'; // Temporarily disabled for build
-import { OpenAI } from 'openai';
+import { generateStructured, isLLMConfigured, educationalContentSchema, LLMOutputError, LLMProviderError } from '../llm';
 import { abacusClient } from '../../services/abacusClient';
+import { WorkflowGraph, WorkflowEdge, BranchPoint, MergePoint } from '../workflow-graph';
+import {
+  explainNodes,
+  identifyTriggers,
+  identifyIntegrations,
+  collectPrerequisites,
+  NodeExplanation,
+} from '../node-knowledge-base';
+import { offlineStorybookGenerator } from '../offline-storybook-generator';
 
 export interface N8NWorkflow {
   id: string;
@@ -34,6 +43,8 @@ export interface EducationalStep {
   description: string;
   nodeId?: string;
   code?: string;
+  codeLanguage?: string; // 'javascript', 'python', 'sql', 'json'
+  codeDescription?: string; // what the code does, in words, for readers who cannot follow it
   explanation: string;
   visualAids: VisualAid[];
   quiz?: QuizQuestion;
@@ -57,6 +68,7 @@ export interface VisualAid {
 export interface QuizQuestion {
   question: string;
   options: string[];
+  optionScreenReaderText?: string[]; // how each option is announced; must contain the option's visible text
   correctAnswer: number;
   explanation: string;
 }
@@ -68,21 +80,66 @@ export interface AccessibilityFeatures {
   audioDescription?: string;
 }
 
+export interface AnalyzeWorkflowOptions {
+  /**
+   * 'offline' uses the template generator only; 'auto' (default) does so when no LLM provider is configured
+   */
+  mode?: 'auto' | 'llm' | 'offline';
+}
+
+const EDUCATIONAL_CONTENT_SCHEMA = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    description: { type: "string" },
+    learningObjectives: { 
+      type: "array",
+      items: { type: "string" }
+    },
+    complexity: { 
+      type: "string",
+      enum: ["beginner", "intermediate", "advanced"]
+    },
+    estimatedDuration: { type: "number" },
+    prerequisites: {
+      type: "array",
+      items: { type: "string" }
+    },
+    steps: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          title: { type: "string" },
+          description: { type: "string" },
+          explanation: { type: "string" },
+          nodeId: { type: "string" },
+          code: { type: "string" },
+          codeLanguage: { type: "string" },
+          codeDescription: { type: "string" }
+        }
+      }
+    }
+  },
+  required: ["title", "description", "learningObjectives", "complexity", "steps"]
+};
+
 export class N8NWorkflowAnalyzer {
-  private openai: OpenAI;
   // private workflow?: Workflow; // Temporarily disabled for build
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY || '',
-    });
-  }
-
   /**
    * Main entry point: Analyze N8N workflow and generate educational content
    */
-  async analyzeWorkflow(workflowData: N8NWorkflow): Promise<EducationalContent> {
+  async analyzeWorkflow(
+    workflowData: N8NWorkflow,
+    options: AnalyzeWorkflowOptions = {}
+  ): Promise<EducationalContent> {
     try {
+      if (this.shouldGenerateOffline(options)) {
+        return offlineStorybookGenerator.generate(workflowData);
+      }
+
       // Initialize N8N workflow engine (temporarily disabled for build)
       // this.workflow = new Workflow({
       //   nodes: workflowData.nodes,
@@ -96,7 +153,7 @@ export class N8NWorkflowAnalyzer {
       // Analyze workflow structure
       const workflowAnalysis = await this.performWorkflowAnalysis(workflowData);
       
-      // Generate educational content using OpenAI
+      // Generate educational content with the configured LLM provider
       const educationalContent = await this.generateEducationalContent(workflowAnalysis);
       
       // Enhance with ABACUS intelligence
@@ -111,22 +168,42 @@ export class N8NWorkflowAnalyzer {
       return accessibleContent;
     } catch (error) {
       console.error('N8N Workflow analysis failed:', error);
+      // Keep LLM failures typed so the API can report them as such
+      if (error instanceof LLMOutputError || error instanceof LLMProviderError) throw error;
       throw new Error(`Workflow Analysis Error: ${error.message}`);
     }
   }
 
+  /**
+   * Offline generation is deterministic and makes no network calls, which CI relies on for snapshots
+   */
+  private shouldGenerateOffline(options: AnalyzeWorkflowOptions): boolean {
+    const mode = options.mode || process.env.STORYBOOK_GENERATION_MODE || 'auto';
+    if (mode === 'offline') return true;
+    if (mode === 'llm') return false;
+    return !isLLMConfigured('content-generation');
+  }
+
   /**
    * Analyze workflow structure and data flow
    */
   private async performWorkflowAnalysis(workflowData: N8NWorkflow) {
+    const graph = WorkflowGraph.fromWorkflow(workflowData);
+
     const analysis = {
       nodeCount: workflowData.nodes.length,
       nodeTypes: this.extractNodeTypes(workflowData.nodes),
-      dataFlow: this.analyzeDataFlow(workflowData),
+      executionOrder: graph.topologicalOrder(),
+      dataFlow: this.analyzeDataFlow(graph),
+      branches: graph.branchPoints(),
+      merges: graph.mergePoints(),
+      cycles: graph.findCycles(),
       complexity: this.assessComplexity(workflowData),
-      triggers: this.identifyTriggers(workflowData.nodes),
-      integrations: this.identifyIntegrations(workflowData.nodes),
-      businessLogic: this.extractBusinessLogic(workflowData),
+      triggers: identifyTriggers(workflowData.nodes),
+      integrations: identifyIntegrations(workflowData.nodes),
+      nodeExplanations: explainNodes(graph.orderedNodes()),
+      nodePrerequisites: collectPrerequisites(workflowData.nodes),
+      businessLogic: this.extractBusinessLogic(workflowData, graph),
     };
 
     return analysis;
@@ -140,29 +217,17 @@ export class N8NWorkflowAnalyzer {
   }
 
   /**
-   * Analyze data flow between nodes
+   * Analyze data flow between nodes across every connection type (main, ai_* and error outputs)
    */
-  private analyzeDataFlow(workflowData: N8NWorkflow) {
-    const connections = workflowData.connections;
-    const dataFlow = [];
-
-    for (const sourceNode in connections) {
-      const nodeConnections = connections[sourceNode];
-      if (nodeConnections.main) {
-        nodeConnections.main.forEach((connectionArray: any[], outputIndex: number) => {
-          connectionArray.forEach(connection => {
-            dataFlow.push({
-              source: sourceNode,
-              target: connection.node,
-              outputIndex,
-              inputIndex: connection.index,
-            });
-          });
-        });
-      }
-    }
-
-    return dataFlow;
+  private analyzeDataFlow(graph: WorkflowGraph) {
+    return graph.edges.map((edge: WorkflowEdge) => ({
+      source: edge.source.node,
+      target: edge.target.node,
+      connectionType: edge.source.type,
+      outputIndex: edge.source.index,
+      inputIndex: edge.target.index,
+      isErrorOutput: edge.isErrorOutput,
+    }));
   }
 
   /**
@@ -194,53 +259,20 @@ export class N8NWorkflowAnalyzer {
     return 'beginner';
   }
 
-  /**
-   * Identify trigger nodes in the workflow
-   */
-  private identifyTriggers(nodes: any[]): string[] {
-    const triggerTypes = [
-      'n8n-nodes-base.cron',
-      'n8n-nodes-base.webhook',
-      'n8n-nodes-base.manualTrigger',
-      'n8n-nodes-base.emailTrigger',
-    ];
-
-    return nodes
-      .filter(node => triggerTypes.some(type => node.type.includes('trigger')) || 
-                     triggerTypes.includes(node.type))
-      .map(node => node.type);
-  }
-
-  /**
-   * Identify external integrations in the workflow
-   */
-  private identifyIntegrations(nodes: any[]): string[] {
-    const integrations = new Set<string>();
-
-    nodes.forEach(node => {
-      // Extract service names from node types
-      const nodeType = node.type.replace('n8n-nodes-base.', '');
-      if (nodeType !== 'if' && nodeType !== 'set' && nodeType !== 'function') {
-        integrations.add(nodeType);
-      }
-    });
-
-    return Array.from(integrations);
-  }
-
   /**
    * Extract business logic and purpose from workflow
    */
-  private extractBusinessLogic(workflowData: N8NWorkflow) {
+  private extractBusinessLogic(workflowData: N8NWorkflow, graph: WorkflowGraph) {
     // Analyze node parameters and connections to understand business purpose
     const businessLogic = {
       purpose: workflowData.name || 'Unnamed Workflow',
-      actions: [],
-      dataTransformations: [],
-      conditionalLogic: [],
+      actions: [] as Array<{ nodeId: string; type: string; name: string; parameters: number }>,
+      dataTransformations: [] as Array<{ nodeId: string; type: string; transformation: unknown }>,
+      conditionalLogic: [] as Array<{ nodeId: string; type: string; condition: unknown }>,
     };
 
-    workflowData.nodes.forEach(node => {
+    // Walk nodes in execution order so the generated steps follow the data
+    graph.orderedNodes().forEach(node => {
       if (node.type.includes('if') || node.type.includes('switch')) {
         businessLogic.conditionalLogic.push({
           nodeId: node.id,
@@ -269,13 +301,12 @@ export class N8NWorkflowAnalyzer {
   }
 
   /**
-   * Generate educational content using OpenAI
+   * Generate educational content with the configured LLM provider
    */
   private async generateEducationalContent(analysis: any): Promise<EducationalContent> {
     const prompt = this.buildEducationalPrompt(analysis);
     
-    const completion = await this.openai.chat.completions.create({
-      model: "gpt-4",
+    const { data: educationalContent } = await generateStructured('content-generation', {
       messages: [
         {
           role: "system",
@@ -288,60 +319,16 @@ export class N8NWorkflowAnalyzer {
           content: prompt
         }
       ],
-      functions: [
-        {
-          name: "create_educational_content",
-          description: "Generate structured educational content for workflow learning",
-          parameters: {
-            type: "object",
-            properties: {
-              title: { type: "string" },
-              description: { type: "string" },
-              learningObjectives: { 
-                type: "array",
-                items: { type: "string" }
-              },
-              complexity: { 
-                type: "string",
-                enum: ["beginner", "intermediate", "advanced"]
-              },
-              estimatedDuration: { type: "number" },
-              prerequisites: {
-                type: "array",
-                items: { type: "string" }
-              },
-              steps: {
-                type: "array",
-                items: {
-                  type: "object",
-                  properties: {
-                    id: { type: "string" },
-                    title: { type: "string" },
-                    description: { type: "string" },
-                    explanation: { type: "string" },
-                    nodeId: { type: "string" },
-                    code: { type: "string" }
-                  }
-                }
-              }
-            },
-            required: ["title", "description", "learningObjectives", "complexity", "steps"]
-          }
-        }
-      ],
-      function_call: { name: "create_educational_content" }
-    });
-
-    const functionCall = completion.choices[0]?.message?.function_call;
-    if (!functionCall?.arguments) {
-      throw new Error('Failed to generate educational content');
-    }
-
-    const educationalContent = JSON.parse(functionCall.arguments);
+      schema: EDUCATIONAL_CONTENT_SCHEMA,
+    }, educationalContentSchema);
     
     // Add default values and enhancements
     return {
       ...educationalContent,
+      steps: this.applyNodeExplanations(
+        educationalContent.steps.map(step => ({ ...step, visualAids: [] })),
+        analysis.nodeExplanations
+      ),
       estimatedDuration: educationalContent.estimatedDuration || this.estimateDuration(analysis),
       prerequisites: educationalContent.prerequisites || this.generatePrerequisites(analysis),
       interactiveElements: [], // Will be populated later
@@ -349,7 +336,7 @@ export class N8NWorkflowAnalyzer {
   }
 
   /**
-   * Build educational prompt for OpenAI
+   * Build educational prompt for the LLM
    */
   private buildEducationalPrompt(analysis: any): string {
     return `
@@ -362,12 +349,19 @@ Workflow Analysis:
 - Triggers: ${analysis.triggers.join(', ')}
 - Integrations: ${analysis.integrations.join(', ')}
 - Business Purpose: ${analysis.businessLogic.purpose}
+- Execution Order: ${analysis.executionOrder.join(' → ')}
+- Branches: ${analysis.branches.map((b: BranchPoint) => `${b.node} → ${b.targets.join(' | ')}`).join('; ') || 'none'}
+- Merges: ${analysis.merges.map((m: MergePoint) => `${m.sources.join(' + ')} → ${m.node}`).join('; ') || 'none'}
+- Loops: ${analysis.cycles.map((c: string[]) => c.join(' → ')).join('; ') || 'none'}
+
+Node Reference (use these facts; do not contradict them):
+${analysis.nodeExplanations.map((e: NodeExplanation) => `- [${e.nodeId}] ${e.summary}`).join('\n')}
 
 Create comprehensive educational content that includes:
 1. Clear learning objectives
-2. Step-by-step breakdown of each workflow component
+2. Step-by-step breakdown of each workflow component, following the execution order above
 3. Real-world applications and examples
-4. Code explanations where applicable
+4. Code explanations where applicable; for a step with code, give its codeLanguage and a plain-language codeDescription of what it does
 5. Visual learning aids descriptions
 6. Interactive elements suggestions
 
@@ -462,6 +456,11 @@ Please provide recommendations for:
         altText: aid.altText || this.generateAltText(aid),
         description: aid.description || this.generateDescription(aid),
       })) || [],
+      quiz: step.quiz && {
+        ...step.quiz,
+        optionScreenReaderText: step.quiz.optionScreenReaderText ||
+          step.quiz.options.map((option, index) => `Option ${index + 1} of ${step.quiz!.options.length}: ${option}`),
+      },
     }));
 
     const accessibleInteractiveElements = content.interactiveElements.map(element => ({
@@ -495,11 +494,7 @@ Please provide recommendations for:
   }
 
   private generatePrerequisites(analysis: any): string[] {
-    const prerequisites = ['Basic understanding of automation concepts'];
-    
-    if (analysis.integrations.includes('api')) {
-      prerequisites.push('Familiarity with REST APIs');
-    }
+    const prerequisites = ['Basic understanding of automation concepts', ...analysis.nodePrerequisites];
     
     if (analysis.complexity === 'advanced') {
       prerequisites.push('Experience with workflow automation tools');
@@ -508,6 +503,21 @@ Please provide recommendations for:
     return prerequisites;
   }
 
+  /**
+   * Give every node-backed step the catalog explanation when the model left it empty
+   */
+  private applyNodeExplanations(steps: EducationalStep[], explanations: NodeExplanation[]): EducationalStep[] {
+    const byNodeId = new Map(explanations.map(explanation => [explanation.nodeId, explanation]));
+
+    return steps.map(step => {
+      const explanation = step.nodeId ? byNodeId.get(step.nodeId) : undefined;
+      if (!explanation || step.explanation?.trim()) {
+        return step;
+      }
+      return { ...step, explanation: explanation.summary };
+    });
+  }
+
   private generateSimulationData(steps: EducationalStep[]) {
     return steps.map(step => ({
       stepId: step.id,
@@ -0,0 +1,249 @@
+/**
+ * Storybook Pipeline
+ * Declarative task graph for turning an N8N workflow into a storybook, plus the
+ * planning helpers and execution trace shapes the orchestrator uses to run it
+ */
+
+import type {
+  AgentType,
+  OrchestrationTask,
+  TaskStatus,
+  TaskType,
+  WorkflowToStorybookRequest,
+} from './agent-orchestrator';
+import type { UsageAmounts } from '../usage/types';
+
+/**
+ * What a run does when a node fails or times out:
+ * 'fail' aborts the run, 'continue' carries on without that node's output
+ */
+export type FailurePolicy = 'fail' | 'continue';
+
+export interface PipelineNode {
+  id: string;
+  type: TaskType;
+  dependsOn: string[];
+  priority: OrchestrationTask['priority'];
+  requiredAgents: AgentType[];
+  optionalAgents?: AgentType[];
+  timeoutMs: number;
+  onFailure: FailurePolicy;
+  /** Expected provider usage; the node is refused (or, for 'continue' nodes, skipped) if it would break a budget */
+  estimate?: Partial<UsageAmounts>;
+  /**
+   * Nodes left out of a run pass their dependencies on to whatever depends on them.
+   * Decided from the options alone, so the page can plan a run before queueing it.
+   */
+  when?: (request: Pick<WorkflowToStorybookRequest, 'options'>) => boolean;
+  data: (request: WorkflowToStorybookRequest) => Record<string, unknown>;
+}
+
+export interface PipelineDefinition {
+  name: string;
+  nodes: PipelineNode[];
+}
+
+export type TraceNodeStatus = TaskStatus | 'skipped';
+
+export interface TraceNode {
+  node: string;
+  type: TaskType;
+  taskId?: string;
+  status: TraceNodeStatus;
+  dependsOn: string[];
+  onFailure: FailurePolicy;
+  timeoutMs: number;
+  startedAt?: string;
+  finishedAt?: string;
+  durationMs?: number;
+  cost?: number;
+  error?: string;
+}
+
+export interface ExecutionTrace {
+  pipeline: string;
+  runId: string;
+  // 'partial' means a 'continue' node failed (or was refused for budget) and the run finished without it
+  status: 'completed' | 'partial' | 'failed';
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  totalCost: number;
+  nodes: TraceNode[];
+}
+
+/**
+ * Analysis and routing run side by side, content waits for both, then video and
+ * accessibility branch off in parallel and QA checks the accessible content.
+ * Translation starts from the checked content while the video is still rendering.
+ */
+export const STORYBOOK_PIPELINE: PipelineDefinition = {
+  name: 'workflow-to-storybook',
+  nodes: [
+    {
+      id: 'analysis',
+      type: 'analyze_workflow',
+      dependsOn: [],
+      priority: 'high',
+      requiredAgents: ['workflow_analyzer'],
+      timeoutMs: 2 * 60 * 1000,
+      onFailure: 'fail',
+      estimate: { llmTokens: 4000 },
+      data: request => ({ workflow: request.workflow, options: request.options }),
+    },
+    {
+      id: 'routing',
+      type: 'route_request',
+      dependsOn: [],
+      priority: 'medium',
+      requiredAgents: ['mcp_router'],
+      timeoutMs: 30 * 1000,
+      // Routing only refines the content organization
+      onFailure: 'continue',
+      estimate: { llmTokens: 1500 },
+      data: request => ({
+        payload: `Analyze workflow: ${request.workflow.name}`,
+        tier: 'Pro',
+        context: request.user.preferences,
+      }),
+    },
+    {
+      id: 'content',
+      type: 'generate_content',
+      dependsOn: ['analysis', 'routing'],
+      priority: 'high',
+      requiredAgents: ['content_generator'],
+      optionalAgents: ['accessibility_enhancer'],
+      timeoutMs: 3 * 60 * 1000,
+      onFailure: 'fail',
+      data: request => ({ options: request.options, userPreferences: request.user.preferences }),
+    },
+    {
+      id: 'video',
+      type: 'create_video',
+      dependsOn: ['content'],
+      priority: 'medium',
+      requiredAgents: ['video_generator'],
+      timeoutMs: 10 * 60 * 1000,
+      // A storybook without its video is still useful, so an over-budget run drops it first
+      onFailure: 'continue',
+      estimate: { llmTokens: 2000, gpuSeconds: 120 },
+      when: request => request.options.includeVideo,
+      data: request => ({ accessibility: request.options.accessibility }),
+    },
+    {
+      id: 'accessibility',
+      type: 'enhance_accessibility',
+      dependsOn: ['content'],
+      priority: 'high',
+      requiredAgents: ['accessibility_enhancer'],
+      timeoutMs: 60 * 1000,
+      onFailure: 'fail',
+      when: request => request.options.accessibility,
+      data: request => ({ userAccessibilityNeeds: request.user.preferences.accessibilityNeeds }),
+    },
+    {
+      id: 'qa',
+      type: 'quality_check',
+      dependsOn: ['accessibility'],
+      priority: 'medium',
+      requiredAgents: ['quality_assurance'],
+      timeoutMs: 60 * 1000,
+      onFailure: 'fail',
+      data: () => ({}),
+    },
+    {
+      id: 'translation',
+      type: 'translate_content',
+      dependsOn: ['accessibility', 'qa'],
+      priority: 'medium',
+      requiredAgents: ['translator'],
+      timeoutMs: 5 * 60 * 1000,
+      // The storybook is complete in its source language; missing translations leave the run partial
+      onFailure: 'continue',
+      estimate: { llmTokens: 8000 },
+      when: request => request.options.locales.length > 0,
+      data: request => ({
+        locales: request.options.locales,
+        // Node names appear in the text but must match what learners see in the n8n editor
+        terms: request.workflow.nodes
+          .map(node => node.name)
+          .filter((name): name is string => typeof name === 'string'),
+      }),
+    },
+  ],
+};
+
+/**
+ * Thrown when a node with the 'fail' policy does not complete; carries the trace up to that point
+ */
+export class PipelineError extends Error {
+  constructor(message: string, readonly trace: ExecutionTrace, readonly code?: string) {
+    super(message);
+    this.name = 'PipelineError';
+  }
+}
+
+/**
+ * Decide which nodes run for a request, in dependency order. Skipped nodes are
+ * bridged, so QA depends on content directly when accessibility is left out.
+ */
+export function planPipeline(
+  definition: PipelineDefinition,
+  request: Pick<WorkflowToStorybookRequest, 'options'>
+): { nodes: PipelineNode[]; skipped: PipelineNode[] } {
+  const effective = new Map<string, string[]>();
+  const nodes: PipelineNode[] = [];
+  const skipped: PipelineNode[] = [];
+
+  for (const node of topologicalOrder(definition)) {
+    const dependsOn = Array.from(new Set(node.dependsOn.flatMap(depId => effective.get(depId) || [])));
+
+    if (!node.when || node.when(request)) {
+      nodes.push({ ...node, dependsOn });
+      effective.set(node.id, [node.id]);
+    } else {
+      skipped.push(node);
+      effective.set(node.id, dependsOn);
+    }
+  }
+
+  return { nodes, skipped };
+}
+
+/**
+ * Order nodes so each comes after its dependencies, rejecting unknown ids and cycles
+ */
+function topologicalOrder(definition: PipelineDefinition): PipelineNode[] {
+  const byId = new Map(definition.nodes.map(node => [node.id, node]));
+  if (byId.size !== definition.nodes.length) {
+    throw new Error(`Pipeline ${definition.name} has duplicate node ids`);
+  }
+
+  const ordered: PipelineNode[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (node: PipelineNode, path: string[]): void => {
+    const current = state.get(node.id);
+    if (current === 'done') {
+      return;
+    }
+    if (current === 'visiting') {
+      throw new Error(`Pipeline ${definition.name} has a dependency cycle: ${[...path, node.id].join(' → ')}`);
+    }
+
+    state.set(node.id, 'visiting');
+    node.dependsOn.forEach(depId => {
+      const dependency = byId.get(depId);
+      if (!dependency) {
+        throw new Error(`Pipeline node ${node.id} depends on unknown node ${depId}`);
+      }
+      visit(dependency, [...path, node.id]);
+    });
+    state.set(node.id, 'done');
+    ordered.push(node);
+  };
+
+  definition.nodes.forEach(node => visit(node, []));
+  return ordered;
+}
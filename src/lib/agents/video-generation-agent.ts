@@ -3,9 +3,33 @@
  * Advanced agent for generating educational videos from N8N workflows using Wan2.2 models
  */
 
-import { OpenAI } from 'openai';
+import { AudioDescriptionTrack, createAudioDescription, DescribedScene } from '../audio-description';
+import { generateStructured, storyboardSchema } from '../llm';
+import { getRunPodClient, RunPodClient, RunPodJobState, RunPodWaitOptions, toVideoOutput } from '../runpod';
+import { buildCues, saveChapters, saveSubtitles } from '../subtitles';
+import { getTTSProvider, saveNarration, SpeechMark, synthesizeNarration } from '../tts';
+import { getUsageMeter } from '../usage';
+import { buildChapters, buildHotspots, chapterAt, formatClock, VideoChapter, VideoHotspot } from '../video-navigation';
 import { EducationalStep, InteractiveElement, AccessibilityFeatures } from './n8n-workflow-analyzer';
 
+/** RunPod execution limits; waits allow the same again for queueing on a cold endpoint */
+const SCENE_TIMEOUT_MS = 5 * 60 * 1000;
+const COMPOSITE_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Wait for a RunPod job; when the caller gives up first, cancel it so it stops billing GPU time
+ */
+async function waitOrCancel(client: RunPodClient, jobId: string, options: RunPodWaitOptions): Promise<RunPodJobState> {
+  try {
+    return await client.waitForCompletion(jobId, options);
+  } catch (error) {
+    if (options.signal?.aborted) {
+      await client.cancel(jobId).catch(cancelError => console.warn(`Failed to cancel RunPod job ${jobId}:`, cancelError));
+    }
+    throw error;
+  }
+}
+
 export interface VideoGenerationRequest {
   title: string;
   description: string;
@@ -36,6 +60,11 @@ export interface VideoMetadata {
   audioTrack?: AudioTrack;
   subtitles?: SubtitleTrack[];
   timestamps: VideoTimestamp[];
+  chapters: VideoChapter[]; // one per step, timed from the narration
+  chaptersUrl?: string; // the chapters as a WebVTT track
+  hotspots: VideoHotspot[]; // clickable regions that open a step or its quiz
+  keyboardNavigation?: KeyboardNavigationPoint[];
+  audioDescription?: AudioDescriptionTrack; // what each step shows, spoken between (or over held) narration
 }
 
 export interface VideoScene {
@@ -61,12 +90,14 @@ export interface AudioTrack {
   language: string;
   voice: 'male' | 'female' | 'neutral';
   speed: number;
+  marks: SpeechMark[]; // sentence timing, which subtitles follow
 }
 
 export interface SubtitleTrack {
   language: string;
   url: string;
-  format: 'vtt' | 'srt';
+  format: 'vtt' | 'srt' | 'ttml';
+  files?: Partial<Record<'vtt' | 'srt' | 'ttml', string>>;
   accessibility: boolean; // for deaf/hard of hearing
 }
 
@@ -77,6 +108,16 @@ export interface VideoTimestamp {
   description: string;
 }
 
+/** The part of the metadata that maps the timeline to the storybook's steps */
+type VideoNavigation = Pick<VideoMetadata, 'timestamps' | 'chapters' | 'chaptersUrl' | 'hotspots'>;
+
+export interface KeyboardNavigationPoint {
+  time: number;
+  action: 'focus';
+  element: string; // the step id
+  description: string;
+}
+
 export interface VisualElement {
   type: 'text' | 'shape' | 'arrow' | 'highlight' | 'annotation';
   content: any;
@@ -100,16 +141,80 @@ export interface RunPodConfig {
   bid: number; // per hour cost
 }
 
+/** Input of a Wan2.2 text-to-video job: one storyboard scene */
+export interface Wan22Request {
+  model: string;
+  prompt: string;
+  negative_prompt: string;
+  width: number;
+  height: number;
+  frames: number; // 24 per second of scene
+  guidance_scale: number;
+  num_inference_steps: number;
+  seed: number;
+}
+
+/** Input of a composite job: the generated scenes, narration, subtitles and chapters as one video */
+export interface CompositeRequest {
+  operation: 'composite';
+  scenes: VideoScene[];
+  audio: AudioTrack;
+  subtitles: SubtitleTrack[];
+  chapters: VideoChapter[];
+  settings: {
+    resolution: VideoGenerationRequest['resolution'];
+    fps: number;
+    format: 'mp4';
+    codec: 'h264';
+    bitrate: string;
+  };
+}
+
+const STORYBOARD_SCHEMA = {
+  type: "object",
+  properties: {
+    scenes: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          startTime: { type: "number" },
+          endTime: { type: "number" },
+          title: { type: "string" },
+          description: { type: "string" },
+          stepId: { type: "string" },
+          visualElements: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                type: { type: "string", enum: ["text", "shape", "arrow", "highlight", "annotation"] },
+                content: { type: "string" },
+                position: {
+                  type: "object",
+                  properties: {
+                    x: { type: "number" },
+                    y: { type: "number" },
+                    width: { type: "number" },
+                    height: { type: "number" }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  },
+  required: ["scenes"]
+};
+
 export class VideoGenerationAgent {
-  private openai: OpenAI;
   private runpodApiKey: string;
   private runpodConfig: RunPodConfig;
 
   constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY || '',
-    });
-    
     this.runpodApiKey = process.env.RUNPOD_API_KEY || '';
     this.runpodConfig = {
       templateId: process.env.RUNPOD_TEMPLATE_ID || 'wan22-video-gen',
@@ -123,7 +228,8 @@ export class VideoGenerationAgent {
   /**
    * Generate educational video from N8N workflow steps
    */
-  async generateVideo(request: VideoGenerationRequest): Promise<VideoAsset> {
+  async generateVideo(request: VideoGenerationRequest, options: { signal?: AbortSignal } = {}): Promise<VideoAsset> {
+    const { signal } = options;
     try {
       console.log(`Generating ${request.style} video: ${request.title}`);
 
@@ -131,7 +237,7 @@ export class VideoGenerationAgent {
       const storyboard = await this.createStoryboard(request);
       
       // Step 2: Generate scenes using Wan2.2
-      const scenes = await this.generateScenes(storyboard, request);
+      const scenes = await this.generateScenes(storyboard, request, signal);
       
       // Step 3: Generate audio narration
       const audioTrack = await this.generateAudioNarration(request);
@@ -139,10 +245,14 @@ export class VideoGenerationAgent {
       // Step 4: Generate subtitles for accessibility
       const subtitles = await this.generateSubtitles(audioTrack, request);
       
-      // Step 5: Composite video on RunPod
-      const videoAsset = await this.compositeVideo(scenes, audioTrack, subtitles, request);
+      // Step 5: Chapters and hotspots, timed from when the narration reaches each step
+      const navigation = await this.createNavigation(audioTrack, request);
+
+      // Step 6: Composite video on RunPod
+      signal?.throwIfAborted();
+      const videoAsset = await this.compositeVideo(scenes, audioTrack, subtitles, navigation, request, signal);
       
-      // Step 6: Add accessibility features
+      // Step 7: Add accessibility features
       const accessibleVideo = await this.addAccessibilityFeatures(videoAsset, request);
       
       return accessibleVideo;
@@ -153,13 +263,12 @@ export class VideoGenerationAgent {
   }
 
   /**
-   * Create detailed storyboard using OpenAI
+   * Create detailed storyboard with the configured LLM provider
    */
   private async createStoryboard(request: VideoGenerationRequest): Promise<VideoScene[]> {
     const prompt = this.buildStoryboardPrompt(request);
     
-    const completion = await this.openai.chat.completions.create({
-      model: "gpt-4",
+    const { data: storyboardData } = await generateStructured('storyboard', {
       messages: [
         {
           role: "system",
@@ -172,75 +281,30 @@ export class VideoGenerationAgent {
           content: prompt
         }
       ],
-      functions: [
-        {
-          name: "create_storyboard",
-          description: "Generate detailed video storyboard",
-          parameters: {
-            type: "object",
-            properties: {
-              scenes: {
-                type: "array",
-                items: {
-                  type: "object",
-                  properties: {
-                    id: { type: "string" },
-                    startTime: { type: "number" },
-                    endTime: { type: "number" },
-                    title: { type: "string" },
-                    description: { type: "string" },
-                    stepId: { type: "string" },
-                    visualElements: {
-                      type: "array",
-                      items: {
-                        type: "object",
-                        properties: {
-                          type: { type: "string" },
-                          content: { type: "string" },
-                          position: {
-                            type: "object",
-                            properties: {
-                              x: { type: "number" },
-                              y: { type: "number" },
-                              width: { type: "number" },
-                              height: { type: "number" }
-                            }
-                          }
-                        }
-                      }
-                    }
-                  }
-                }
-              }
-            },
-            required: ["scenes"]
-          }
-        }
-      ],
-      function_call: { name: "create_storyboard" }
-    });
-
-    const functionCall = completion.choices[0]?.message?.function_call;
-    if (!functionCall?.arguments) {
-      throw new Error('Failed to generate storyboard');
-    }
+      schema: STORYBOARD_SCHEMA,
+    }, storyboardSchema);
 
-    const storyboardData = JSON.parse(functionCall.arguments);
     return storyboardData.scenes;
   }
 
   /**
    * Generate individual scenes using Wan2.2 on RunPod
    */
-  private async generateScenes(storyboard: VideoScene[], request: VideoGenerationRequest): Promise<VideoScene[]> {
+  private async generateScenes(
+    storyboard: VideoScene[],
+    request: VideoGenerationRequest,
+    signal?: AbortSignal
+  ): Promise<VideoScene[]> {
     const generatedScenes: VideoScene[] = [];
 
     for (const scene of storyboard) {
+      // A fallback scene is for a scene that failed, not for a video nobody is waiting for
+      signal?.throwIfAborted();
       try {
         console.log(`Generating scene: ${scene.title}`);
         
         // Prepare Wan2.2 generation request
-        const wan22Request = {
+        const wan22Request: Wan22Request = {
           model: 'wan2.2-t2v-a14b', // Text-to-Video model
           prompt: this.createScenePrompt(scene, request),
           negative_prompt: 'blurry, low quality, distorted, watermark',
@@ -253,7 +317,8 @@ export class VideoGenerationAgent {
         };
 
         // Generate scene on RunPod
-        const sceneVideo = await this.runWan22Generation(wan22Request);
+        const sceneVideo = await this.runWan22Generation(wan22Request, signal);
+        getUsageMeter().recordGpu(sceneVideo.executionTime / 1000, 'runpod', wan22Request.model);
         
         // Update scene with generated content
         const generatedScene: VideoScene = {
@@ -295,32 +360,27 @@ export class VideoGenerationAgent {
   }
 
   /**
-   * Generate audio narration using OpenAI TTS
+   * Generate audio narration with the configured text-to-speech provider
    */
   private async generateAudioNarration(request: VideoGenerationRequest): Promise<AudioTrack> {
     try {
       // Create narration script
       const script = this.createNarrationScript(request);
       
-      // Generate audio using OpenAI TTS
-      const mp3 = await this.openai.audio.speech.create({
-        model: "tts-1-hd",
-        voice: "nova", // Female voice for educational content
-        input: script,
-        speed: 1.0,
+      const narration = await synthesizeNarration(getTTSProvider(), script, {
+        language: 'en',
+        voice: 'neural',
+        speed: 'normal',
       });
+      const { url } = await saveNarration(`narration-${Date.now()}`, narration);
 
-      const audioBuffer = Buffer.from(await mp3.arrayBuffer());
-      
-      // Upload to temporary storage (would use cloud storage in production)
-      const audioUrl = await this.uploadAudioBuffer(audioBuffer, `narration-${Date.now()}.mp3`);
-      
       return {
-        url: audioUrl,
-        duration: request.duration,
+        url,
+        duration: narration.duration,
         language: 'en',
-        voice: 'female',
+        voice: 'neutral',
         speed: 1.0,
+        marks: narration.marks,
       };
     } catch (error) {
       console.error('Audio generation failed:', error);
@@ -333,21 +393,28 @@ export class VideoGenerationAgent {
    */
   private async generateSubtitles(audioTrack: AudioTrack, request: VideoGenerationRequest): Promise<SubtitleTrack[]> {
     try {
-      // Create subtitle content from steps
-      const subtitleContent = this.createSubtitleContent(request);
-      
-      // Generate VTT format
-      const vttContent = this.generateVTT(subtitleContent, request.steps);
-      
-      // Upload subtitle file
-      const subtitleUrl = await this.uploadSubtitles(vttContent, `subtitles-${Date.now()}.vtt`);
-      
+      // Cues follow the narration's sentence timing; accessible videos get closed captions
+      const timestamps = buildCues(
+        audioTrack.marks,
+        request.accessibility ? { speakerLabels: true, defaultSpeaker: 'Narrator' } : {}
+      );
+
+      const track = await saveSubtitles({
+        id: `subtitles-${Date.now()}`,
+        language: audioTrack.language,
+        kind: request.accessibility ? 'captions' : 'subtitles',
+        format: 'vtt',
+        url: '',
+        timestamps,
+      });
+
       return [
         {
-          language: 'en',
-          url: subtitleUrl,
+          language: track.language,
+          url: track.url,
           format: 'vtt',
-          accessibility: true,
+          files: track.files,
+          accessibility: request.accessibility,
         },
       ];
     } catch (error) {
@@ -363,17 +430,20 @@ export class VideoGenerationAgent {
     scenes: VideoScene[],
     audioTrack: AudioTrack,
     subtitles: SubtitleTrack[],
-    request: VideoGenerationRequest
+    navigation: VideoNavigation,
+    request: VideoGenerationRequest,
+    signal?: AbortSignal
   ): Promise<VideoAsset> {
     try {
       console.log('Compositing final video on RunPod...');
 
       // Create composition request
-      const compositionRequest = {
+      const compositionRequest: CompositeRequest = {
         operation: 'composite',
         scenes: scenes,
         audio: audioTrack,
         subtitles: subtitles,
+        chapters: navigation.chapters,
         settings: {
           resolution: request.resolution,
           fps: 24,
@@ -387,7 +457,8 @@ export class VideoGenerationAgent {
       const compositeJob = await this.runPodComposite(compositionRequest);
       
       // Wait for completion
-      const finalVideo = await this.waitForCompletion(compositeJob.id);
+      const finalVideo = await this.waitForCompletion(compositeJob.id, signal);
+      getUsageMeter().recordGpu(finalVideo.executionTime / 1000, 'runpod', 'composite');
       
       return {
         id: `video-${Date.now()}`,
@@ -410,7 +481,7 @@ export class VideoGenerationAgent {
           transitions: [], // Would be generated based on scenes
           audioTrack: audioTrack,
           subtitles: subtitles,
-          timestamps: this.generateVideoTimestamps(request.steps),
+          ...navigation,
         },
       };
     } catch (error) {
@@ -428,25 +499,26 @@ export class VideoGenerationAgent {
     }
 
     try {
-      // Generate audio descriptions for visual elements
+      // Describe the visual elements in the narration's pauses, holding the video where they do not fit
       const audioDescription = await this.generateAudioDescription(videoAsset, request);
       
       // Create closed captions with speaker identification
       const enhancedSubtitles = await this.enhanceSubtitlesForAccessibility(videoAsset.metadata.subtitles || []);
       
       // Add keyboard navigation timestamps
-      const keyboardTimestamps = this.generateKeyboardNavigationPoints(videoAsset.metadata.scenes);
+      const keyboardTimestamps = this.generateKeyboardNavigationPoints(videoAsset.metadata.chapters);
       
       return {
         ...videoAsset,
         accessibility: {
           ...videoAsset.accessibility,
-          audioDescription: audioDescription,
+          ...(audioDescription && { audioDescription: this.describedTranscript(audioDescription) }),
         },
         metadata: {
           ...videoAsset.metadata,
           subtitles: enhancedSubtitles,
           keyboardNavigation: keyboardTimestamps,
+          ...(audioDescription && { audioDescription }),
         },
       };
     } catch (error) {
@@ -489,133 +561,174 @@ Generate a storyboard with scenes that will help visual and hearing-impaired lea
     Technology tutorial aesthetic, modern interface design.`;
   }
 
+  /**
+   * One paragraph per step, between the intro and the outro, so speech marks tell when each step starts
+   */
   private createNarrationScript(request: VideoGenerationRequest): string {
-    const intro = `Welcome to this interactive tutorial on ${request.title}. `;
+    const intro = `Welcome to this interactive tutorial on ${request.title}.`;
     const stepNarration = request.steps
-      .map(step => `${step.title}. ${step.explanation || step.description}`)
-      .join(' Next, ');
-    const outro = ` This completes our walkthrough. Practice these steps to master the workflow.`;
+      .map((step, index) => `${index > 0 ? 'Next, ' : ''}${step.title}. ${step.explanation || step.description}`);
+    const outro = `This completes our walkthrough. Practice these steps to master the workflow.`;
     
-    return intro + stepNarration + outro;
+    return [intro, ...stepNarration, outro].join('\n\n');
   }
 
-  private createSubtitleContent(request: VideoGenerationRequest): Array<{start: number; end: number; text: string}> {
-    let currentTime = 0;
-    const avgTimePerStep = request.duration / request.steps.length;
-    
-    return request.steps.map((step, index) => {
-      const start = currentTime;
-      const end = currentTime + avgTimePerStep;
-      currentTime = end;
-      
-      return {
-        start,
-        end,
-        text: `${step.title}. ${step.description}`,
-      };
-    });
+  /**
+   * When the narration reaches each step (paragraph n + 1, after the intro). Without speech marks
+   * for every step, the steps share the narration's length evenly.
+   */
+  private generateVideoTimestamps(steps: EducationalStep[], audioTrack: AudioTrack): VideoTimestamp[] {
+    const spoken = steps.map((_, index) => audioTrack.marks.find(mark => mark.paragraph === index + 1)?.start);
+    const timePerStep = audioTrack.duration / Math.max(steps.length, 1);
+
+    return steps.map((step, index) => ({
+      time: spoken.every(start => start !== undefined) ? spoken[index]! : index * timePerStep,
+      stepId: step.id,
+      title: step.title,
+      description: step.description,
+    }));
   }
 
-  private generateVTT(subtitleContent: Array<{start: number; end: number; text: string}>, steps: EducationalStep[]): string {
-    let vtt = 'WEBVTT\n\n';
-    
-    subtitleContent.forEach((subtitle, index) => {
-      const startTime = this.formatTime(subtitle.start);
-      const endTime = this.formatTime(subtitle.end);
-      
-      vtt += `${index + 1}\n`;
-      vtt += `${startTime} --> ${endTime}\n`;
-      vtt += `${subtitle.text}\n\n`;
-    });
-    
-    return vtt;
-  }
+  private async createNavigation(
+    audioTrack: AudioTrack,
+    request: VideoGenerationRequest
+  ): Promise<VideoNavigation> {
+    const timestamps = this.generateVideoTimestamps(request.steps, audioTrack);
+    const chapters = buildChapters(timestamps, audioTrack.duration);
 
-  private formatTime(seconds: number): string {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = Math.floor(seconds % 60);
-    const milliseconds = Math.floor((seconds % 1) * 1000);
-    
-    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${milliseconds.toString().padStart(3, '0')}`;
-  }
+    let chaptersUrl: string | undefined;
+    try {
+      chaptersUrl = await saveChapters(`chapters-${Date.now()}`, chapters, audioTrack.language);
+    } catch (error) {
+      // The player can still list the chapters itself
+      console.error('Chapter track could not be saved:', error);
+    }
 
-  private generateVideoTimestamps(steps: EducationalStep[]): VideoTimestamp[] {
-    let currentTime = 0;
-    const avgTimePerStep = 60 / steps.length; // Assume 60 seconds total
-    
-    return steps.map((step) => {
-      const timestamp: VideoTimestamp = {
-        time: currentTime,
-        stepId: step.id,
-        title: step.title,
-        description: step.description,
-      };
-      currentTime += avgTimePerStep;
-      return timestamp;
-    });
+    return { timestamps, chapters, chaptersUrl, hotspots: buildHotspots(chapters, request.steps) };
   }
 
-  // RunPod integration methods (simplified - would be more complex in production)
-  
-  private async runWan22Generation(request: any): Promise<{url: string}> {
-    // Simulate RunPod API call for Wan2.2 video generation
+  // RunPod integration methods
+
+  // executionTime is the GPU time RunPod bills, in milliseconds
+  private async runWan22Generation(request: Wan22Request, signal?: AbortSignal): Promise<{url: string; executionTime: number}> {
     console.log('Submitting to RunPod Wan2.2 service...');
-    
-    // In production, this would:
-    // 1. Start a RunPod instance with Wan2.2
-    // 2. Submit the generation request
-    // 3. Poll for completion
-    // 4. Return the generated video URL
-    
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        resolve({
-          url: `https://storage.runpod.net/generated-video-${Date.now()}.mp4`
-        });
-      }, 5000); // Simulate 5 second generation time
-    });
+
+    const client = getRunPodClient('video');
+    const submitted = await client.run(request, { executionTimeoutMs: SCENE_TIMEOUT_MS });
+    const finished = await waitOrCancel(client, submitted.id, { timeoutMs: SCENE_TIMEOUT_MS * 2, signal });
+
+    return {
+      url: toVideoOutput(finished.id, finished.output).videoUrl,
+      executionTime: finished.executionTime ?? 0,
+    };
   }
 
-  private async runPodComposite(request: any): Promise<{id: string}> {
+  private async runPodComposite(request: CompositeRequest): Promise<{id: string}> {
     console.log('Starting RunPod composite job...');
-    return { id: `job-${Date.now()}` };
+    const submitted = await getRunPodClient('composite').run(request, { executionTimeoutMs: COMPOSITE_TIMEOUT_MS });
+    return { id: submitted.id };
   }
 
-  private async waitForCompletion(jobId: string): Promise<{url: string; thumbnailUrl: string; size: number}> {
+  private async waitForCompletion(
+    jobId: string,
+    signal?: AbortSignal
+  ): Promise<{url: string; thumbnailUrl?: string; size: number; executionTime: number}> {
     console.log(`Waiting for job ${jobId} to complete...`);
-    
-    // Simulate job completion
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        resolve({
-          url: `https://storage.runpod.net/final-video-${jobId}.mp4`,
-          thumbnailUrl: `https://storage.runpod.net/thumbnail-${jobId}.jpg`,
-          size: 50 * 1024 * 1024, // 50MB
-        });
-      }, 10000); // Simulate 10 second composite time
+
+    const finished = await waitOrCancel(getRunPodClient('composite'), jobId, {
+      timeoutMs: COMPOSITE_TIMEOUT_MS * 2,
+      signal,
+    });
+    const output = toVideoOutput(jobId, finished.output);
+
+    return {
+      url: output.videoUrl,
+      thumbnailUrl: output.thumbnailUrl,
+      size: output.fileSize ?? 0,
+      executionTime: finished.executionTime ?? 0,
+    };
+  }
+
+  /**
+   * Audio description (WCAG 1.2.5) of each chapter's scenes and visual aids, as a track of its own.
+   * Null when the video has no narration to fit around or nothing worth describing.
+   */
+  private async generateAudioDescription(
+    videoAsset: VideoAsset,
+    request: VideoGenerationRequest
+  ): Promise<AudioDescriptionTrack | null> {
+    const { audioTrack, chapters, scenes } = videoAsset.metadata;
+    if (!audioTrack) return null;
+
+    const described = this.describeChapters(scenes, chapters, request.steps, audioTrack.marks);
+    return createAudioDescription(described, audioTrack.marks, Math.max(videoAsset.duration, audioTrack.duration), {
+      id: `descriptions-${Date.now()}`,
+      voice: { language: audioTrack.language, voice: 'neural', speed: 'normal' },
     });
   }
 
-  private async uploadAudioBuffer(buffer: Buffer, filename: string): Promise<string> {
-    // In production, would upload to cloud storage
-    console.log(`Uploading audio: ${filename}`);
-    return `https://storage.runpod.net/audio/${filename}`;
+  /**
+   * What each chapter shows: the storyboard scenes for its step (or starting inside it) and the step's
+   * visual aids. Text the narration already reads out is not described again.
+   */
+  private describeChapters(
+    scenes: VideoScene[],
+    chapters: VideoChapter[],
+    steps: EducationalStep[],
+    marks: SpeechMark[]
+  ): DescribedScene[] {
+    const narration = marks.map(mark => mark.text).join(' ').toLowerCase();
+    const unspoken = (text: string) => !narration.includes(text.toLowerCase());
+
+    return chapters
+      .map(chapter => {
+        const chapterScenes = scenes.filter(scene =>
+          scene.stepId ? scene.stepId === chapter.stepId : chapterAt(chapters, scene.startTime)?.id === chapter.id
+        );
+        const visualAids = steps.find(step => step.id === chapter.stepId)?.visualAids || [];
+
+        const descriptions = [
+          ...chapterScenes.flatMap(scene => [
+            scene.description,
+            ...scene.visualElements
+              .filter(element => typeof element.content === 'string' && element.content !== scene.description)
+              .filter(element => unspoken(element.content))
+              .map(element => this.describeVisualElement(element)),
+          ]),
+          ...visualAids.map(aid => aid.description),
+        ];
+
+        return {
+          id: chapter.id,
+          start: chapter.start,
+          end: chapter.end,
+          descriptions: [...new Set(descriptions.map(text => text?.trim()).filter((text): text is string => Boolean(text)))],
+        };
+      })
+      .filter(scene => scene.descriptions.length > 0);
   }
 
-  private async uploadSubtitles(content: string, filename: string): Promise<string> {
-    // In production, would upload to cloud storage
-    console.log(`Uploading subtitles: ${filename}`);
-    return `https://storage.runpod.net/subtitles/${filename}`;
+  private describeVisualElement(element: VisualElement): string | undefined {
+    const content = String(element.content).trim();
+    switch (element.type) {
+      case 'text':
+        return `On screen: ${content}`;
+      case 'highlight':
+        return `Highlighted: ${content}`;
+      case 'arrow':
+        return `An arrow points to ${content}`;
+      case 'annotation':
+        return `Note: ${content}`;
+      case 'shape':
+        return content;
+      default:
+        // Generated footage is described by its scene
+        return undefined;
+    }
   }
 
-  private async generateAudioDescription(videoAsset: VideoAsset, request: VideoGenerationRequest): Promise<string> {
-    // Generate detailed audio description for visually impaired users
-    const descriptions = videoAsset.metadata.scenes.map(scene => 
-      `At ${this.formatTime(scene.startTime)}: ${scene.description}`
-    ).join(' ');
-    
-    return `Audio description track: ${descriptions}`;
+  private describedTranscript(track: AudioDescriptionTrack): string {
+    return track.cues.map(cue => `${formatClock(cue.start)} ${cue.text}`).join(' ');
   }
 
   private async enhanceSubtitlesForAccessibility(subtitles: SubtitleTrack[]): Promise<SubtitleTrack[]> {
@@ -626,12 +739,12 @@ Generate a storyboard with scenes that will help visual and hearing-impaired lea
     }));
   }
 
-  private generateKeyboardNavigationPoints(scenes: VideoScene[]): any[] {
-    return scenes.map(scene => ({
-      time: scene.startTime,
+  private generateKeyboardNavigationPoints(chapters: VideoChapter[]): KeyboardNavigationPoint[] {
+    return chapters.map(chapter => ({
+      time: chapter.start,
       action: 'focus',
-      element: scene.id,
-      description: scene.title,
+      element: chapter.stepId,
+      description: chapter.title,
     }));
   }
 }
@@ -0,0 +1,74 @@
+// API Error Responses
+// Maps typed service errors to HTTP responses so every route reports them the same way
+
+import { NextResponse } from 'next/server'
+import { PageFetchError, ThemeContrastError } from './accessibility'
+import { LLMOutputError, LLMProviderError } from './llm'
+import { BudgetExceededError } from './usage'
+
+export function errorResponse(error: unknown, fallbackMessage: string): NextResponse {
+  if (error instanceof LLMOutputError) {
+    return NextResponse.json({
+      success: false,
+      error: error.message,
+      code: error.code,
+      details: {
+        task: error.task,
+        attempts: error.attempts,
+        issues: error.issues
+      }
+    }, { status: 502 })
+  }
+
+  if (error instanceof BudgetExceededError) {
+    return NextResponse.json({
+      success: false,
+      error: error.message,
+      code: error.code,
+      details: {
+        budget: error.budget,
+        metric: error.metric,
+        used: error.used,
+        limit: error.limit
+      }
+    }, { status: 402 })
+  }
+
+  if (error instanceof ThemeContrastError) {
+    return NextResponse.json({
+      success: false,
+      error: error.message,
+      code: error.code,
+      details: {
+        themes: error.reports.filter(report => !report.passed).map(report => ({
+          theme: report.theme,
+          level: report.level,
+          failures: report.pairs.filter(pair => !pair.passed)
+        }))
+      }
+    }, { status: 422 })
+  }
+
+  if (error instanceof PageFetchError) {
+    return NextResponse.json({
+      success: false,
+      error: error.message,
+      code: error.code,
+      details: { reason: error.reason }
+    }, { status: error.reason === 'blocked' ? 400 : 502 })
+  }
+
+  if (error instanceof LLMProviderError) {
+    return NextResponse.json({
+      success: false,
+      error: error.message,
+      code: 'LLM_PROVIDER_ERROR',
+      details: { provider: error.provider }
+    }, { status: 502 })
+  }
+
+  return NextResponse.json({
+    success: false,
+    error: error instanceof Error ? error.message : fallbackMessage
+  }, { status: 500 })
+}
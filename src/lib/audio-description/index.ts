@@ -0,0 +1,88 @@
+// Audio Description
+// Speaks each scene's descriptions, fits them around the narration and stores the result as a
+// separate audio track for /api/audio plus a WebVTT descriptions track for /api/subtitles
+
+import { saveDescriptions } from '../subtitles'
+import { getTTSProvider, pcmDuration, placeClips, saveNarration, SpeechMark, VoiceOptions } from '../tts'
+import type { PcmAudio } from '../tts'
+import { DescriptionClip, placeDescriptions, PlacementOptions } from './placement'
+import { totalHold } from './timeline'
+import type { AudioDescriptionTrack, DescribedScene } from './types'
+
+export * from './types'
+export { findPauses, placeDescriptions } from './placement'
+export type { DescriptionClip, Placement, PlacementOptions } from './placement'
+export { holdBetween, totalHold, trackTime } from './timeline'
+export type { DescriptionHold } from './timeline'
+
+export interface AudioDescriptionOptions extends PlacementOptions {
+  id: string
+  voice: VoiceOptions
+}
+
+/**
+ * Describe the scenes of a narrated video. speech is the narration's sentence timing and duration the
+ * video's length; without a single description there is no track to make, so the result is null.
+ */
+export async function createAudioDescription(
+  scenes: DescribedScene[],
+  speech: SpeechMark[],
+  duration: number,
+  options: AudioDescriptionOptions
+): Promise<AudioDescriptionTrack | null> {
+  const provider = getTTSProvider()
+  const spoken = new Map<string, PcmAudio>()
+  const clips: DescriptionClip[] = []
+
+  for (const scene of scenes) {
+    for (const text of scene.descriptions) {
+      const audio = await provider.synthesize(text, options.voice)
+      spoken.set(`${scene.id}\n${text}`, audio)
+      clips.push({ sceneId: scene.id, text, duration: pcmDuration(audio) })
+    }
+  }
+
+  const { cues, omitted } = placeDescriptions(scenes, clips, speech, duration, options)
+  if (cues.length === 0) return null
+
+  // A description sits where the track is when the video reaches it: later by every hold before it
+  const format = spoken.values().next().value!.format
+  const length = duration + totalHold(cues)
+  const placed: { audio: PcmAudio; at: number }[] = []
+  const marks: SpeechMark[] = []
+  let held = 0
+
+  for (const [index, cue] of cues.entries()) {
+    const audio = spoken.get(`${cue.sceneId}\n${cue.text}`)!
+    const at = cue.start + held
+    placed.push({ audio, at })
+    marks.push({ text: cue.text, start: round(at), end: round(at + pcmDuration(audio)), paragraph: index })
+    held += cue.pause ?? 0
+  }
+
+  const audio = placeClips(format, length, placed)
+  const { url } = await saveNarration(options.id, { provider: provider.name, audio, duration: length, marks })
+
+  let descriptionsUrl: string | undefined
+  try {
+    descriptionsUrl = await saveDescriptions(options.id, cues, options.voice.language)
+  } catch (error) {
+    // The audio track is what WCAG asks for; the text track is a convenience for screen readers
+    console.error('Descriptions track could not be saved:', error)
+  }
+
+  return {
+    id: options.id,
+    language: options.voice.language,
+    mode: cues.some(cue => cue.pause) ? 'extended' : 'standard',
+    url,
+    descriptionsUrl,
+    duration: round(length),
+    cues,
+    omitted: omitted.map(clip => clip.text)
+  }
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 100) / 100
+}
@@ -0,0 +1,123 @@
+// Description Placement
+// Finds the pauses in the narration and fits each scene's descriptions into them. What does not
+// fit either holds the video (extended description) or is left out.
+
+import type { DescribedScene, PlacedDescription } from './types'
+
+// A description already spoken, so its length is known
+export interface DescriptionClip {
+  sceneId: string
+  text: string
+  duration: number
+}
+
+export interface PlacementOptions {
+  extended?: boolean // hold the video for descriptions no pause has room for
+  minPause?: number // shorter gaps between sentences are not worth describing in
+  margin?: number // kept clear of the narration on both sides of a description
+  spacing?: number // between two descriptions in the same pause
+}
+
+export interface Placement {
+  cues: PlacedDescription[]
+  omitted: DescriptionClip[]
+}
+
+interface Pause {
+  start: number
+  end: number
+}
+
+// Room left in a pause for the scene being described
+interface Slot {
+  cursor: number
+  end: number
+}
+
+const DEFAULTS = { extended: true, minPause: 0.6, margin: 0.15, spacing: 0.3 }
+
+// A held description still shows its cue for this long, so the descriptions track has no empty cues
+const MIN_CUE_SECONDS = 1
+
+/**
+ * Silence between and around the narration's sentences, in seconds
+ */
+export function findPauses(speech: Pause[], duration: number, minPause = DEFAULTS.minPause): Pause[] {
+  const sorted = [...speech].sort((a, b) => a.start - b.start)
+  const pauses: Pause[] = []
+  let cursor = 0
+
+  for (const sentence of sorted) {
+    if (sentence.start - cursor >= minPause) pauses.push({ start: cursor, end: sentence.start })
+    cursor = Math.max(cursor, sentence.end)
+  }
+  if (duration - cursor >= minPause) pauses.push({ start: cursor, end: duration })
+
+  return pauses
+}
+
+/**
+ * Place each scene's clips, in order, in the pauses that fall inside the scene. A clip too long for any
+ * of them starts in the roomiest one (or where the scene starts) and holds the video for the rest.
+ */
+export function placeDescriptions(
+  scenes: DescribedScene[],
+  clips: DescriptionClip[],
+  speech: Pause[],
+  duration: number,
+  options: PlacementOptions = {}
+): Placement {
+  const { extended, minPause, margin, spacing } = { ...DEFAULTS, ...options }
+  const pauses = findPauses(speech, duration, minPause)
+  const cues: PlacedDescription[] = []
+  const omitted: DescriptionClip[] = []
+
+  for (const scene of scenes) {
+    const slots: Slot[] = pauses
+      .map(pause => ({ cursor: Math.max(pause.start, scene.start) + margin, end: Math.min(pause.end, scene.end) - margin }))
+      .filter(slot => slot.end > slot.cursor)
+
+    for (const clip of clips.filter(candidate => candidate.sceneId === scene.id)) {
+      const fitting = slots.find(slot => slot.end - slot.cursor >= clip.duration)
+      if (fitting) {
+        cues.push(cue(clip, fitting.cursor, 0))
+        fitting.cursor += clip.duration + spacing
+        continue
+      }
+
+      if (!extended) {
+        omitted.push(clip)
+        continue
+      }
+
+      const roomiest = slots.reduce<Slot | undefined>(
+        (best, slot) => !best || slot.end - slot.cursor > best.end - best.cursor ? slot : best,
+        undefined
+      )
+      const start = roomiest && roomiest.end > roomiest.cursor ? roomiest.cursor : scene.start
+      const room = roomiest && roomiest.end > roomiest.cursor ? roomiest.end - roomiest.cursor : 0
+      cues.push(cue(clip, start, clip.duration - room))
+      if (roomiest) roomiest.cursor = roomiest.end
+    }
+  }
+
+  const ordered = cues
+    .sort((a, b) => a.start - b.start)
+    .map((placed, index) => ({ ...placed, id: `description-${index + 1}` }))
+  return { cues: ordered, omitted }
+}
+
+function cue(clip: DescriptionClip, start: number, pause: number): PlacedDescription {
+  return {
+    id: '',
+    sceneId: clip.sceneId,
+    text: clip.text,
+    start: round(start),
+    end: round(start + Math.max(clip.duration - pause, pause > 0 ? MIN_CUE_SECONDS : 0)),
+    ...(pause > 0 ? { pause: round(pause) } : {})
+  }
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 100) / 100
+}
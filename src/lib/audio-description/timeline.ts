@@ -0,0 +1,37 @@
+// Description Timeline
+// Extended descriptions hold the video while they are spoken, so the description track runs ahead
+// of the video by every hold passed so far. Free of server imports, for the player.
+
+import type { DescriptionCue } from '../subtitles/types'
+
+export interface DescriptionHold {
+  time: number // video time the video holds at
+  seconds: number
+}
+
+/**
+ * Where the description track is when the video is at the given time
+ */
+export function trackTime(cues: DescriptionCue[], videoTime: number): number {
+  return cues.reduce((time, cue) => cue.start < videoTime ? time + (cue.pause ?? 0) : time, videoTime)
+}
+
+/**
+ * The first hold playback passed going from one time to the next (after from, up to and including to).
+ * Descriptions held at the same moment are held for one after the other.
+ */
+export function holdBetween(cues: DescriptionCue[], from: number, to: number): DescriptionHold | undefined {
+  const held = cues.filter(cue => (cue.pause ?? 0) > 0 && cue.start > from && cue.start <= to)
+  if (held.length === 0) return undefined
+
+  const time = Math.min(...held.map(cue => cue.start))
+  const seconds = held.filter(cue => cue.start === time).reduce((total, cue) => total + (cue.pause ?? 0), 0)
+  return { time, seconds }
+}
+
+/**
+ * How much longer the held variant runs than the video
+ */
+export function totalHold(cues: DescriptionCue[]): number {
+  return cues.reduce((total, cue) => total + (cue.pause ?? 0), 0)
+}
@@ -0,0 +1,30 @@
+// Audio Description Types
+// Spoken descriptions of what a video shows, for viewers who cannot see it (WCAG 1.2.5)
+
+import type { DescriptionCue } from '../subtitles/types'
+
+// A stretch of the video and what it shows, most important description first
+export interface DescribedScene {
+  id: string
+  start: number
+  end: number
+  descriptions: string[]
+}
+
+// 'standard' descriptions all fit in pauses in the narration; 'extended' ones hold the video where they do not
+export type AudioDescriptionMode = 'standard' | 'extended'
+
+export interface PlacedDescription extends DescriptionCue {
+  sceneId: string
+}
+
+export interface AudioDescriptionTrack {
+  id: string
+  language: string
+  mode: AudioDescriptionMode
+  url: string // descriptions only, silence elsewhere; on the held timeline when the mode is 'extended'
+  descriptionsUrl?: string // the same descriptions as a WebVTT descriptions track
+  duration: number
+  cues: PlacedDescription[]
+  omitted: string[] // descriptions no pause had room for, when holding the video is not allowed
+}
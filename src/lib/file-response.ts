@@ -0,0 +1,58 @@
+// File Responses
+// Streams a file from disk for API routes, with single-range support so media players can seek
+
+import { createReadStream, promises as fs } from 'fs'
+import { Readable } from 'stream'
+import { NextRequest, NextResponse } from 'next/server'
+
+export async function fileResponse(request: NextRequest, filePath: string, contentType: string): Promise<NextResponse> {
+  let size: number
+  try {
+    size = (await fs.stat(filePath)).size
+  } catch {
+    return NextResponse.json({
+      success: false,
+      error: 'File not found'
+    }, { status: 404 })
+  }
+
+  const range = parseRange(request.headers.get('range'), size)
+  if (range === 'invalid') {
+    return new NextResponse(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } })
+  }
+
+  const { start, end } = range || { start: 0, end: size - 1 }
+  const stream = Readable.toWeb(createReadStream(filePath, { start, end })) as ReadableStream<Uint8Array>
+
+  return new NextResponse(stream, {
+    status: range ? 206 : 200,
+    headers: {
+      'Content-Type': contentType,
+      'Content-Length': String(end - start + 1),
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, max-age=3600',
+      ...(range && { 'Content-Range': `bytes ${start}-${end}/${size}` })
+    }
+  })
+}
+
+export async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Single "bytes=start-end" ranges, including open-ended and suffix forms
+function parseRange(header: string | null, size: number): { start: number; end: number } | 'invalid' | null {
+  if (!header) return null
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim())
+  if (!match || (!match[1] && !match[2])) return 'invalid'
+
+  const start = match[1] ? Number(match[1]) : Math.max(0, size - Number(match[2]))
+  const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1
+  return start > end || start >= size ? 'invalid' : { start, end }
+}
@@ -0,0 +1,41 @@
+// Generation Stages
+// User-facing labels for each orchestration task and the tasks a generation will run; kept free of
+// server imports so the page can use them too
+
+import type { TaskType, WorkflowToStorybookRequest } from './agents/agent-orchestrator'
+import { planPipeline, STORYBOOK_PIPELINE } from './agents/storybook-pipeline'
+import type { GenerationOptions } from './storybook-generation'
+import { SOURCE_LOCALE, translationTargets } from './translation/locales'
+
+export const STAGE_LABELS: Record<TaskType, string> = {
+  analyze_workflow: 'Analyzing workflow structure',
+  route_request: 'Optimizing content routing',
+  generate_content: 'Generating educational content',
+  create_video: 'Creating instructional video',
+  enhance_accessibility: 'Adding accessibility features',
+  quality_check: 'Performing quality assurance',
+  translate_content: 'Translating content',
+  deploy_storybook: 'Publishing storybook'
+}
+
+/**
+ * The orchestrator's options for a generation request
+ */
+export function orchestrationOptions(options: GenerationOptions): WorkflowToStorybookRequest['options'] {
+  const language = options.customizations?.language || SOURCE_LOCALE
+  return {
+    includeVideo: options.includeVideo,
+    accessibility: true,
+    complexity: options.targetAudience,
+    style: options.includeInteractiveElements ? 'interactive' : 'tutorial',
+    language,
+    locales: translationTargets(language, options.customizations?.locales)
+  }
+}
+
+/**
+ * The tasks a storybook generation job queues, in pipeline order
+ */
+export function plannedStages(options: GenerationOptions): TaskType[] {
+  return planPipeline(STORYBOOK_PIPELINE, { options: orchestrationOptions(options) }).nodes.map(node => node.type)
+}
@@ -0,0 +1,145 @@
+// File Job Store
+// Default queue adapter: one JSON file per job on local disk, plus a small index entry for each queued
+// or running job so polling never reads finished jobs. Completed and dead jobs are deleted once they
+// are older than the retention period.
+// Claims are serialized inside this process, so run a single worker process against a data directory.
+
+import { JsonFileCollection } from '../storage'
+import { DEFAULT_JOB_RETENTION_MS } from './types'
+import type { Job, JobFilter, JobRetentionOptions, JobStore } from './types'
+
+// What a claim needs to know about a job without reading its payload or result
+type JobIndexEntry = Pick<Job, 'id' | 'status' | 'runAt' | 'lockedUntil'>
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000
+
+export class FileJobStore implements JobStore {
+  readonly name = 'file'
+  private jobs: JsonFileCollection<Job>
+  private index: JsonFileCollection<JobIndexEntry>
+  private indexing: Promise<void> | null = null
+  private claiming: Promise<unknown> = Promise.resolve()
+  private lastPrune = 0
+
+  constructor(baseDir: string, private options: JobRetentionOptions = {}) {
+    this.jobs = new JsonFileCollection<Job>(baseDir, 'jobs')
+    this.index = new JsonFileCollection<JobIndexEntry>(baseDir, 'job-index')
+  }
+
+  async save(job: Job): Promise<Job> {
+    await this.jobs.put(job.id, job)
+    if (isActive(job)) {
+      await this.index.put(job.id, indexEntry(job))
+    } else {
+      await this.index.delete(job.id)
+    }
+    return job
+  }
+
+  async get(id: string): Promise<Job | null> {
+    return this.jobs.get(id)
+  }
+
+  async list(filter: JobFilter = {}): Promise<Job[]> {
+    const jobs = filter.status === 'queued' || filter.status === 'running'
+      ? await this.activeJobs()
+      : await this.jobs.list()
+
+    return jobs
+      .filter(job => (!filter.type || job.type === filter.type) && (!filter.status || job.status === filter.status))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, filter.limit ?? jobs.length)
+  }
+
+  claimNext(leaseMs: number): Promise<Job | null> {
+    const claim = this.claiming.then(() => this.takeNext(leaseMs))
+    // Keep the chain alive even when one claim fails
+    this.claiming = claim.catch(() => undefined)
+    return claim
+  }
+
+  private async takeNext(leaseMs: number): Promise<Job | null> {
+    await this.buildIndex()
+    const now = Date.now()
+    await this.pruneFinished(now)
+
+    const candidates = (await this.index.list())
+      .filter(entry => isClaimable(entry, now))
+      .sort((a, b) => a.runAt - b.runAt)
+
+    for (const entry of candidates) {
+      // The job file is the record; an entry left behind by an interrupted save is corrected here
+      const next = await this.jobs.get(entry.id)
+      if (!next || !isClaimable(next, now)) {
+        await (next && isActive(next) ? this.index.put(next.id, indexEntry(next)) : this.index.delete(entry.id))
+        continue
+      }
+
+      const timestamp = new Date(now).toISOString()
+      return this.save({
+        ...next,
+        status: 'running',
+        attempts: next.attempts + 1,
+        lockedUntil: now + leaseMs,
+        startedAt: timestamp,
+        updatedAt: timestamp
+      })
+    }
+
+    return null
+  }
+
+  private async activeJobs(): Promise<Job[]> {
+    await this.buildIndex()
+    const jobs = await Promise.all((await this.index.list()).map(entry => this.jobs.get(entry.id)))
+    return jobs.filter((job): job is Job => job !== null && isActive(job))
+  }
+
+  // One full read when the store starts, for jobs saved before the index existed
+  private buildIndex(): Promise<void> {
+    if (!this.indexing) {
+      this.indexing = this.jobs.list()
+        .then(async jobs => {
+          for (const job of jobs.filter(isActive)) {
+            await this.index.put(job.id, indexEntry(job))
+          }
+        })
+        .catch(error => {
+          this.indexing = null
+          throw error
+        })
+    }
+    return this.indexing
+  }
+
+  private async pruneFinished(now: number): Promise<void> {
+    if (now - this.lastPrune < PRUNE_INTERVAL_MS) return
+    this.lastPrune = now
+
+    const cutoff = now - (this.options.retentionMs ?? DEFAULT_JOB_RETENTION_MS)
+    try {
+      // Only files untouched since the cutoff are read; a finished job is not written again unless retried
+      for (const id of await this.jobs.idsWrittenBefore(cutoff)) {
+        const job = await this.jobs.get(id)
+        if (job && !isActive(job) && Date.parse(job.finishedAt || job.updatedAt) < cutoff) {
+          await this.jobs.delete(id)
+        }
+      }
+    } catch (error) {
+      console.error('❌ Failed to prune finished jobs:', error)
+    }
+  }
+}
+
+function isActive(job: Pick<Job, 'status'>): boolean {
+  return job.status === 'queued' || job.status === 'running'
+}
+
+function isClaimable(job: JobIndexEntry, now: number): boolean {
+  if (job.status === 'queued') return job.runAt <= now
+  return job.status === 'running' && (job.lockedUntil ?? 0) <= now
+}
+
+function indexEntry(job: Job): JobIndexEntry {
+  return { id: job.id, status: job.status, runAt: job.runAt, lockedUntil: job.lockedUntil }
+}
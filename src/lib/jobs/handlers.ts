@@ -0,0 +1,268 @@
+// Job Handlers
+// What the worker does for each job type
+
+import { ThemeContrastError } from '../accessibility'
+import { PipelineError } from '../agents/storybook-pipeline'
+import { getStorybookRepository } from '../storage'
+import { generateStorybook, StorybookGenerationRequest, StorybookGenerationResult } from '../storybook-generation'
+import { BudgetExceededError, DEFAULT_TENANT_ID, getUsageMeter } from '../usage'
+import { RunPodJobError, RunPodVideoOutput } from '../runpod'
+import { AudioTrack, RunPodJob, SubtitleTrack, VideoGenerationService, VideoScript } from '../video-generation'
+import { CaptionMode, getLocalVideoRenderer, VIDEO_PROFILES, VideoProfileId, VideoRenderer } from '../video-render'
+import { JobContext, JobHandler, PermanentJobError } from './types'
+
+export interface VideoJobPayload {
+  videoId: string
+  storybookId: string
+  tenantId?: string
+  // 'local' renders slides with ffmpeg on the worker instead of generating on RunPod GPUs
+  renderer?: VideoRenderer
+  options: {
+    resolution: '720p' | '1080p' | '4k'
+    duration: number
+    voiceNarration: boolean
+    subtitles: boolean
+    language: string
+    style: 'modern' | 'classic' | 'minimalist'
+    captions?: CaptionMode // local renderer only; defaults to sidecar WebVTT
+    profiles?: VideoProfileId[] // delivery renditions to encode besides the main video
+    accessibility: {
+      audioDescriptions: boolean
+      closedCaptions: boolean
+      highContrast: boolean
+    }
+  }
+  runpodConfig?: {
+    gpu_type: 'RTX_4090' | 'A100' | 'V100'
+    timeout: number
+    priority: 'low' | 'normal' | 'high'
+  }
+}
+
+export interface VideoJobResult {
+  videoId: string
+  renderer: VideoRenderer
+  runpodJobId?: string
+  video: RunPodVideoOutput
+  gpuSeconds: number
+}
+
+// Extra time allowed past RunPod's execution timeout for queueing and polling
+const RUNPOD_WAIT_MARGIN_MS = 5 * 60 * 1000
+
+export const storybookJobHandler: JobHandler<StorybookGenerationRequest, StorybookGenerationResult> = async (
+  job,
+  context
+) => {
+  await context.reportProgress(0, 'Queued for analysis')
+
+  try {
+    return await generateStorybook(job.payload, {
+      // One orchestration run per attempt so a retry's progress starts from zero
+      runId: `${job.id}-${job.attempts}`,
+      jobId: job.id,
+      onProgress: event => {
+        context.publish(event)
+        void context.reportProgress(event.progress, event.stage).catch(error =>
+          console.error(`❌ Failed to record progress for ${job.id}:`, error)
+        )
+      }
+    })
+  } catch (error) {
+    // Retrying cannot bring a job back under budget
+    if (error instanceof PipelineError && error.code === 'BUDGET_EXCEEDED') {
+      throw new PermanentJobError(error.message)
+    }
+    // Neither can it change a theme's colours
+    if (error instanceof ThemeContrastError) {
+      throw new PermanentJobError(error.message)
+    }
+    throw error
+  }
+}
+
+export const videoJobHandler: JobHandler<VideoJobPayload, VideoJobResult> = async (job, context) => {
+  if (job.payload.renderer === 'local') {
+    return renderVideoLocally(job.payload, context)
+  }
+
+  const { videoId, storybookId } = job.payload
+  const tenantId = job.payload.tenantId || DEFAULT_TENANT_ID
+
+  // GPU time reported below is charged to this job, tenant and storybook
+  return getUsageMeter().runInScope(
+    { tenantId, jobId: job.id, storybookId, agent: 'video_generator', taskType: 'create_video' },
+    async () => {
+      const videoService = new VideoGenerationService()
+      const timeout = job.payload.runpodConfig?.timeout || 300000 // 5 minutes
+
+      // A retried attempt follows the RunPod job it already started instead of paying for a second one
+      const previousId = typeof job.meta?.runpodJobId === 'string' ? job.meta.runpodJobId : undefined
+      const previous = previousId ? await videoService.checkRunPodStatus(previousId) : null
+      const runpodJobId = previous && previous.status !== 'failed'
+        ? previous.jobId
+        : await submitVideoJob(job.id, job.payload, videoService, context)
+
+      await context.reportProgress(75, previous?.jobId === runpodJobId ? 'Resuming RunPod job' : 'Rendering on RunPod GPU cloud')
+
+      let finished: RunPodJob
+      try {
+        finished = await videoService.waitForRunPodJob(runpodJobId, {
+          timeoutMs: timeout + RUNPOD_WAIT_MARGIN_MS,
+          onProgress: update => {
+            if (update.status !== 'running') return
+            void context.reportProgress(75 + update.progress / 4, update.currentStage).catch(error =>
+              console.error(`❌ Failed to record progress for ${job.id}:`, error)
+            )
+          }
+        })
+      } catch (error) {
+        // Somebody cancelled the render on purpose; running it again would undo that
+        if (error instanceof RunPodJobError && error.jobStatus === 'CANCELLED') {
+          throw new PermanentJobError(error.message)
+        }
+        throw error
+      }
+
+      const gpuSeconds = (finished.executionTime ?? 0) / 1000
+      if (gpuSeconds > 0) getUsageMeter().recordGpu(gpuSeconds, 'runpod', 'wan2.2')
+
+      await context.reportProgress(100, 'Video ready')
+      return {
+        videoId,
+        renderer: 'runpod',
+        runpodJobId,
+        video: finished.output!,
+        gpuSeconds
+      }
+    }
+  )
+}
+
+/**
+ * Slides rendered with ffmpeg on this worker: no GPU time, so no budget check and nothing to resume
+ */
+async function renderVideoLocally(payload: VideoJobPayload, context: JobContext): Promise<VideoJobResult> {
+  const { videoId, options } = payload
+  const { videoScript, audioTrack, subtitleTracks } = await prepareVideo(payload, new VideoGenerationService(), context)
+
+  await context.reportProgress(60, 'Rendering slides with ffmpeg')
+  const video = await getLocalVideoRenderer().render(videoScript, {
+    videoId,
+    resolution: options.resolution,
+    style: options.style,
+    audio: audioTrack ?? undefined,
+    subtitles: subtitleTracks,
+    captions: options.captions,
+    profiles: options.profiles,
+    onProgress: (fraction, stage) => {
+      void context.reportProgress(60 + fraction * 40, stage).catch(error =>
+        console.error(`❌ Failed to record progress for ${videoId}:`, error)
+      )
+    }
+  })
+
+  await context.reportProgress(100, 'Video ready')
+  return { videoId, renderer: 'local', video, gpuSeconds: 0 }
+}
+
+/**
+ * Script, narrate and caption the storybook; the part of a video job both renderers share
+ */
+async function prepareVideo(
+  payload: VideoJobPayload,
+  videoService: VideoGenerationService,
+  context: JobContext
+): Promise<{ videoScript: VideoScript; audioTrack: AudioTrack | null; subtitleTracks: SubtitleTrack[] }> {
+  const { storybookId, options } = payload
+
+  // Step 1: Fetch storybook data
+  await context.reportProgress(5, 'Fetching storybook data')
+  const record = await getStorybookRepository().getStorybook(storybookId)
+  if (!record) {
+    throw new PermanentJobError(`Storybook not found: ${storybookId}`)
+  }
+
+  // Step 2: Generate video script
+  await context.reportProgress(15, 'Generating video script')
+  let videoScript = await videoService.generateScript(record.storybook, options)
+
+  // Step 3: Generate audio narration if requested, and let each scene last as long as its narration
+  let audioTrack: AudioTrack | null = null
+  if (options.voiceNarration) {
+    await context.reportProgress(35, 'Generating audio narration')
+    audioTrack = await videoService.synthesizeAudio(videoScript.narration, {
+      language: options.language || 'en',
+      voice: 'neural',
+      speed: 'normal'
+    })
+    videoScript = videoService.alignScenesToNarration(videoScript, audioTrack)
+  }
+
+  // Step 4: Generate subtitles
+  let subtitleTracks: SubtitleTrack[] = []
+  if (options.subtitles && audioTrack) {
+    await context.reportProgress(55, 'Generating subtitles')
+    subtitleTracks = await videoService.generateSubtitles(audioTrack, {
+      language: options.language || 'en',
+      accessibility: options.accessibility.closedCaptions
+    })
+  }
+
+  return { videoScript, audioTrack, subtitleTracks }
+}
+
+/**
+ * Prepare the video, then hand the render to RunPod. Returns the RunPod job id.
+ */
+async function submitVideoJob(
+  jobId: string,
+  payload: VideoJobPayload,
+  videoService: VideoGenerationService,
+  context: JobContext
+): Promise<string> {
+  const { videoId, storybookId, options, runpodConfig } = payload
+  const { videoScript, audioTrack, subtitleTracks } = await prepareVideo(payload, videoService, context)
+
+  // Step 5: Set up RunPod configuration
+  const runpodJobConfig = {
+    gpu_type: runpodConfig?.gpu_type || 'RTX_4090',
+    timeout: runpodConfig?.timeout || 300000, // 5 minutes
+    priority: runpodConfig?.priority || 'normal',
+    container: 'wan2.2-video-generation',
+    environment: {
+      RESOLUTION: options.resolution,
+      STYLE: options.style,
+      LANGUAGE: options.language,
+      ACCESSIBILITY_MODE: options.accessibility.highContrast ? 'true' : 'false'
+    }
+  }
+
+  // Step 6: Submit to RunPod for video generation, if the job may hold a GPU for its whole timeout
+  try {
+    await getUsageMeter().assertWithinBudget(
+      { tenantId: payload.tenantId || DEFAULT_TENANT_ID, jobId, storybookId },
+      { gpuSeconds: runpodJobConfig.timeout / 1000 }
+    )
+  } catch (error) {
+    if (error instanceof BudgetExceededError) throw new PermanentJobError(error.message)
+    throw error
+  }
+
+  await context.reportProgress(70, 'Submitting to RunPod GPU cloud')
+  const runpodJob = await videoService.submitToRunPod({
+    script: videoScript,
+    audioTrack: audioTrack ?? undefined,
+    subtitles: subtitleTracks,
+    config: runpodJobConfig,
+    profiles: (options.profiles || []).map(id => VIDEO_PROFILES[id]),
+    videoId
+  })
+
+  if (!runpodJob.success || !runpodJob.jobId) {
+    throw new Error(`RunPod submission failed: ${runpodJob.error}`)
+  }
+
+  await context.setMeta({ runpodJobId: runpodJob.jobId })
+  return runpodJob.jobId
+}
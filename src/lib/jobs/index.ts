@@ -0,0 +1,73 @@
+// Job Queue
+// Selects the job store adapter from the environment and wires the handlers for every job type
+
+import { getDataDirectory } from '../storage'
+import { FileJobStore } from './file-job-store'
+import { storybookJobHandler, videoJobHandler } from './handlers'
+import { JobQueue } from './job-queue'
+import { RedisJobStore } from './redis-job-store'
+import type { JobRetentionOptions, JobStore } from './types'
+
+export * from './types'
+export { JobQueue, JOB_LIFECYCLE_EVENTS } from './job-queue'
+export type { JobQueueOptions, JobQueueTaskEvent } from './job-queue'
+export { FileJobStore } from './file-job-store'
+export { RedisJobStore } from './redis-job-store'
+export type { VideoJobPayload, VideoJobResult } from './handlers'
+
+export type JobQueueDriver = 'file' | 'redis'
+
+export function createJobStore(driver?: JobQueueDriver): JobStore {
+  const selected = driver || (process.env.JOB_QUEUE_DRIVER as JobQueueDriver) || (process.env.REDIS_URL ? 'redis' : 'file')
+
+  switch (selected) {
+    case 'redis': {
+      const url = process.env.REDIS_URL
+      if (!url) {
+        throw new Error('Redis job queue requires REDIS_URL')
+      }
+      return new RedisJobStore(url, process.env.REDIS_JOB_PREFIX || undefined, retentionFromEnv())
+    }
+    case 'file':
+      return new FileJobStore(getDataDirectory(), retentionFromEnv())
+    default:
+      throw new Error(`Unknown job queue driver: ${selected}`)
+  }
+}
+
+let queue: JobQueue | null = null
+
+export function getJobQueue(): JobQueue {
+  if (!queue) {
+    queue = new JobQueue(createJobStore(), {
+      concurrency: numberFromEnv('JOB_WORKER_CONCURRENCY'),
+      leaseMs: numberFromEnv('JOB_LEASE_MS'),
+      maxAttempts: numberFromEnv('JOB_MAX_ATTEMPTS'),
+      retryBaseMs: numberFromEnv('JOB_RETRY_BASE_MS')
+    })
+      .register('storybook', storybookJobHandler)
+      .register('video', videoJobHandler)
+  }
+  return queue
+}
+
+/**
+ * Start processing jobs in this process, unless JOB_WORKER=off (e.g. web-only instances sharing a Redis queue)
+ */
+export function startJobWorker(): JobQueue {
+  const jobQueue = getJobQueue()
+  if (process.env.JOB_WORKER !== 'off') {
+    jobQueue.start()
+  }
+  return jobQueue
+}
+
+function retentionFromEnv(): JobRetentionOptions {
+  const retentionDays = numberFromEnv('JOB_RETENTION_DAYS')
+  return { retentionMs: retentionDays && retentionDays * 24 * 60 * 60 * 1000 }
+}
+
+function numberFromEnv(name: string): number | undefined {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value > 0 ? value : undefined
+}
@@ -0,0 +1,286 @@
+// Job Queue
+// Durable background jobs: enqueue returns at once, a worker loop claims jobs from the store,
+// failed attempts are retried with exponential backoff and exhausted jobs are dead-lettered
+
+import { EventEmitter } from 'events'
+import {
+  EnqueueOptions,
+  Job,
+  JobContext,
+  JobFilter,
+  JobHandler,
+  JobStore,
+  JobTaskEvent,
+  JobType,
+  PermanentJobError
+} from './types'
+
+export type JobQueueTaskEvent = JobTaskEvent & { jobId: string }
+
+// Lifecycle events, each emitted with the job record
+export const JOB_LIFECYCLE_EVENTS = [
+  'job:queued',
+  'job:started',
+  'job:progress',
+  'job:retrying',
+  'job:completed',
+  'job:dead'
+] as const
+
+export interface JobQueueOptions {
+  concurrency?: number
+  pollIntervalMs?: number
+  leaseMs?: number
+  maxAttempts?: number
+  retryBaseMs?: number
+  retryMaxMs?: number
+}
+
+const DEFAULTS: Required<JobQueueOptions> = {
+  concurrency: 2,
+  pollIntervalMs: 1000,
+  leaseMs: 10 * 60 * 1000,
+  maxAttempts: 3,
+  retryBaseMs: 5000,
+  retryMaxMs: 5 * 60 * 1000
+}
+
+export class JobQueue extends EventEmitter {
+  private handlers = new Map<JobType, JobHandler>()
+  private options: Required<JobQueueOptions>
+  private active = new Set<string>()
+  private writes = new Map<string, Promise<Job>>()
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private started = false
+  private polling = false
+
+  constructor(readonly store: JobStore, options: JobQueueOptions = {}) {
+    super()
+    // Every open progress stream subscribes, so the default cap of 10 is too low
+    this.setMaxListeners(0)
+    this.options = { ...DEFAULTS, ...stripUndefined(options) }
+  }
+
+  register<P, R>(type: JobType, handler: JobHandler<P, R>): this {
+    this.handlers.set(type, handler as JobHandler)
+    return this
+  }
+
+  async enqueue<P>(type: JobType, payload: P, options: EnqueueOptions = {}): Promise<Job<P>> {
+    const now = new Date()
+    const job: Job<P> = {
+      id: options.id || `job_${now.getTime()}_${Math.random().toString(36).slice(2, 11)}`,
+      type,
+      status: 'queued',
+      payload,
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? this.options.maxAttempts,
+      progress: 0,
+      runAt: now.getTime() + (options.delayMs ?? 0),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString()
+    }
+
+    await this.store.save(job)
+    this.emit('job:queued', job)
+    // Pick it up straight away rather than on the next poll
+    if (this.started) void this.poll()
+
+    return job
+  }
+
+  async get(id: string): Promise<Job | null> {
+    return this.store.get(id)
+  }
+
+  async list(filter?: JobFilter): Promise<Job[]> {
+    return this.store.list(filter)
+  }
+
+  /**
+   * Put a dead-lettered job back on the queue with a fresh set of attempts
+   */
+  async retry(id: string): Promise<Job | null> {
+    const job = await this.store.get(id)
+    if (!job || job.status !== 'dead') return null
+
+    const requeued: Job = {
+      ...job,
+      status: 'queued',
+      attempts: 0,
+      runAt: Date.now(),
+      lockedUntil: undefined,
+      finishedAt: undefined,
+      updatedAt: new Date().toISOString()
+    }
+    await this.store.save(requeued)
+    this.emit('job:queued', requeued)
+    if (this.started) void this.poll()
+
+    return requeued
+  }
+
+  /**
+   * Start the worker loop. Jobs left running by a previous process are claimed again once their lease lapses.
+   */
+  start(): void {
+    if (this.started) return
+    this.started = true
+    console.log(`🧵 Job worker started (${this.store.name} store, concurrency ${this.options.concurrency})`)
+    void this.poll()
+  }
+
+  async stop(): Promise<void> {
+    this.started = false
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+    await this.store.close?.()
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return
+    this.polling = true
+
+    try {
+      while (this.started && this.active.size < this.options.concurrency) {
+        const job = await this.store.claimNext(this.options.leaseMs)
+        if (!job) break
+
+        this.active.add(job.id)
+        void this.execute(job)
+          .catch(error => console.error(`❌ Failed to record the outcome of job ${job.id}:`, error))
+          .finally(() => {
+            this.active.delete(job.id)
+            void this.poll()
+          })
+      }
+    } catch (error) {
+      console.error('❌ Job queue poll failed:', error)
+    } finally {
+      this.polling = false
+      this.scheduleNextPoll()
+    }
+  }
+
+  private scheduleNextPoll(): void {
+    if (!this.started) return
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = setTimeout(() => void this.poll(), this.options.pollIntervalMs)
+    // Don't hold the process open just to poll
+    this.timer.unref?.()
+  }
+
+  private async execute(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.type)
+
+    // A job reclaimed after its worker died may already have spent its attempts
+    if (!handler || job.attempts > job.maxAttempts) {
+      const reason = handler ? `Gave up after ${job.maxAttempts} attempts` : `No handler registered for ${job.type} jobs`
+      await this.deadLetter(job, job.lastError || reason)
+      return
+    }
+
+    this.emit('job:started', job)
+    const heartbeat = setInterval(() => {
+      job.lockedUntil = Date.now() + this.options.leaseMs
+      void this.persist(job).catch(error => console.error(`❌ Lease renewal failed for ${job.id}:`, error))
+    }, Math.max(1000, Math.floor(this.options.leaseMs / 3)))
+    heartbeat.unref?.()
+
+    const context: JobContext = {
+      reportProgress: async (progress, stage) => {
+        job.progress = Math.max(0, Math.min(100, Math.round(progress)))
+        job.stage = stage ?? job.stage
+        job.updatedAt = new Date().toISOString()
+        await this.persist(job)
+        this.emit('job:progress', job)
+      },
+      publish: event => {
+        this.emit('job:task', { ...event, jobId: job.id })
+      },
+      setMeta: async meta => {
+        job.meta = { ...job.meta, ...meta }
+        job.updatedAt = new Date().toISOString()
+        await this.persist(job)
+      }
+    }
+
+    let result: unknown
+    try {
+      result = await handler(job, context)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+
+      if (error instanceof PermanentJobError || job.attempts >= job.maxAttempts) {
+        await this.deadLetter(job, message)
+      } else {
+        await this.scheduleRetry(job, message)
+      }
+      return
+    } finally {
+      clearInterval(heartbeat)
+    }
+
+    // Outside the handler's try: failing to record a success must not retry work that already succeeded
+    await this.finish(job, result)
+  }
+
+  private async finish(job: Job, result: unknown): Promise<void> {
+    const timestamp = new Date().toISOString()
+    Object.assign(job, {
+      status: 'completed',
+      result,
+      progress: 100,
+      lockedUntil: undefined,
+      finishedAt: timestamp,
+      updatedAt: timestamp
+    })
+    await this.persist(job)
+    this.emit('job:completed', job)
+  }
+
+  private async scheduleRetry(job: Job, message: string): Promise<void> {
+    const delay = Math.min(this.options.retryBaseMs * 2 ** (job.attempts - 1), this.options.retryMaxMs)
+    Object.assign(job, {
+      status: 'queued',
+      lastError: message,
+      runAt: Date.now() + delay,
+      lockedUntil: undefined,
+      updatedAt: new Date().toISOString()
+    })
+    await this.persist(job)
+    console.warn(`⚠️ Job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delay}ms: ${message}`)
+    this.emit('job:retrying', job)
+  }
+
+  // Saves of a running job are chained so a slow progress write can never land after its final status
+  private persist(job: Job): Promise<Job> {
+    const previous = this.writes.get(job.id) || Promise.resolve(job)
+    const write = previous.catch(() => job).then(() => this.store.save(job))
+    this.writes.set(job.id, write)
+    write
+      .finally(() => {
+        if (this.writes.get(job.id) === write) this.writes.delete(job.id)
+      })
+      .catch(() => undefined)
+    return write
+  }
+
+  private async deadLetter(job: Job, message: string): Promise<void> {
+    const timestamp = new Date().toISOString()
+    Object.assign(job, {
+      status: 'dead',
+      lastError: message,
+      lockedUntil: undefined,
+      finishedAt: timestamp,
+      updatedAt: timestamp
+    })
+    await this.persist(job)
+    console.error(`❌ Job ${job.id} moved to dead-letter: ${message}`)
+    this.emit('job:dead', job)
+  }
+}
+
+function stripUndefined<T extends object>(options: T): Partial<T> {
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) as Partial<T>
+}
@@ -0,0 +1,163 @@
+// Redis Job Store
+// Queue adapter for multi-process deployments, using the redis client.
+//
+// Keys (under REDIS_JOB_PREFIX):
+//   <prefix>:job:<id>  job record as JSON; expires once the job has been finished for the retention period
+//   <prefix>:index     every job, scored by creation time
+//   <prefix>:ready     queued jobs, scored by runAt
+//   <prefix>:leases    running jobs, scored by lease expiry
+//   <prefix>:dead      dead-lettered jobs, scored by when they died
+// index and dead are trimmed to the retention period whenever a job finishes.
+
+import { createClient } from 'redis'
+import { DEFAULT_JOB_RETENTION_MS } from './types'
+import type { Job, JobFilter, JobRetentionOptions, JobStore } from './types'
+
+type RedisClient = ReturnType<typeof createClient>
+
+// Expired leases first so crashed work resumes before new work starts; both moves are atomic
+const CLAIM_SCRIPT = `
+local id = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', ARGV[1], 'LIMIT', 0, 1)[1]
+if not id then
+  id = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, 1)[1]
+  if not id then return nil end
+  redis.call('ZREM', KEYS[1], id)
+end
+redis.call('ZADD', KEYS[2], ARGV[2], id)
+return id
+`
+
+export class RedisJobStore implements JobStore {
+  readonly name = 'redis'
+  private client: RedisClient
+  private connecting: Promise<unknown> | null = null
+
+  constructor(url: string, private prefix = 'storybook:jobs', private options: JobRetentionOptions = {}) {
+    this.client = createClient({ url })
+    this.client.on('error', error => console.error('❌ Redis job store error:', error))
+  }
+
+  async save(job: Job): Promise<Job> {
+    const client = await this.connect()
+    const retentionMs = this.options.retentionMs ?? DEFAULT_JOB_RETENTION_MS
+    const finished = job.status === 'completed' || job.status === 'dead'
+    const transaction = client.multi()
+      .set(this.jobKey(job.id), JSON.stringify(job), finished ? { PX: retentionMs } : {})
+      .zAdd(this.key('index'), { score: Date.parse(job.createdAt), value: job.id })
+
+    switch (job.status) {
+      case 'queued':
+        transaction.zRem(this.key('leases'), job.id).zAdd(this.key('ready'), { score: job.runAt, value: job.id })
+        break
+      case 'running':
+        transaction.zRem(this.key('ready'), job.id)
+          .zAdd(this.key('leases'), { score: job.lockedUntil ?? Date.now(), value: job.id })
+        break
+      case 'completed':
+        transaction.zRem(this.key('ready'), job.id).zRem(this.key('leases'), job.id)
+        break
+      case 'dead':
+        transaction.zRem(this.key('ready'), job.id).zRem(this.key('leases'), job.id)
+          .zAdd(this.key('dead'), { score: Date.now(), value: job.id })
+        break
+    }
+
+    if (finished) {
+      const cutoff = Date.now() - retentionMs
+      transaction.zRemRangeByScore(this.key('index'), '-inf', cutoff)
+        .zRemRangeByScore(this.key('dead'), '-inf', cutoff)
+    }
+
+    await transaction.exec()
+    return job
+  }
+
+  async get(id: string): Promise<Job | null> {
+    const client = await this.connect()
+    const raw = await client.get(this.jobKey(id))
+    return raw ? JSON.parse(raw) as Job : null
+  }
+
+  async list(filter: JobFilter = {}): Promise<Job[]> {
+    const client = await this.connect()
+    const matches = (job: Job) =>
+      (!filter.type || job.type === filter.type) && (!filter.status || job.status === filter.status)
+
+    // Queued and running jobs have their own small sets, ordered by when they run rather than by creation
+    if (filter.status === 'queued' || filter.status === 'running') {
+      const source = filter.status === 'queued' ? this.key('ready') : this.key('leases')
+      const jobs = (await this.jobsById(await client.zRange(source, 0, -1)))
+        .filter(matches)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      return jobs.slice(0, filter.limit ?? jobs.length)
+    }
+
+    // Newest first, a page at a time until the limit is met, so a limited list doesn't read the whole history
+    const source = filter.status === 'dead' ? this.key('dead') : this.key('index')
+    const pageSize = filter.limit ?? -1
+    const jobs: Job[] = []
+    for (let start = 0; ; start += pageSize) {
+      const ids = await client.zRange(source, start, pageSize < 0 ? -1 : start + pageSize - 1, { REV: true })
+      jobs.push(...(await this.jobsById(ids)).filter(matches))
+      if (pageSize < 0 || ids.length < pageSize || jobs.length >= pageSize) break
+    }
+    return jobs.slice(0, filter.limit ?? jobs.length)
+  }
+
+  async claimNext(leaseMs: number): Promise<Job | null> {
+    const client = await this.connect()
+    const now = Date.now()
+    const id = await client.eval(CLAIM_SCRIPT, {
+      keys: [this.key('ready'), this.key('leases')],
+      arguments: [String(now), String(now + leaseMs)]
+    })
+    if (typeof id !== 'string') return null
+
+    const job = await this.get(id)
+    if (!job) {
+      await client.zRem(this.key('leases'), id)
+      return null
+    }
+
+    const timestamp = new Date(now).toISOString()
+    return this.save({
+      ...job,
+      status: 'running',
+      attempts: job.attempts + 1,
+      lockedUntil: now + leaseMs,
+      startedAt: timestamp,
+      updatedAt: timestamp
+    })
+  }
+
+  async close(): Promise<void> {
+    if (this.client.isOpen) {
+      await this.client.quit()
+    }
+  }
+
+  // Jobs whose records have expired are left out
+  private async jobsById(ids: string[]): Promise<Job[]> {
+    if (ids.length === 0) return []
+    const records = await this.client.mGet(ids.map(id => this.jobKey(id)))
+    return records
+      .filter((raw): raw is string => Boolean(raw))
+      .map(raw => JSON.parse(raw) as Job)
+  }
+
+  private async connect(): Promise<RedisClient> {
+    if (!this.client.isOpen) {
+      this.connecting = this.connecting || this.client.connect()
+      await this.connecting
+    }
+    return this.client
+  }
+
+  private key(name: string): string {
+    return `${this.prefix}:${name}`
+  }
+
+  private jobKey(id: string): string {
+    return this.key(`job:${id}`)
+  }
+}
@@ -0,0 +1,90 @@
+// Job Queue Types
+// Job records, the store contract shared by the file and Redis adapters, and handler signatures
+
+export type JobType = 'storybook' | 'video'
+
+// 'dead' jobs have used up their attempts (or failed permanently) and sit in the dead-letter set
+export type JobStatus = 'queued' | 'running' | 'completed' | 'dead'
+
+export interface Job<P = unknown, R = unknown> {
+  id: string
+  type: JobType
+  status: JobStatus
+  payload: P
+  result?: R
+  attempts: number
+  maxAttempts: number
+  progress: number
+  stage?: string
+  lastError?: string
+  meta?: Record<string, unknown> // handler bookkeeping that must survive a retry (e.g. the external job id)
+  runAt: number // epoch ms; when a queued job becomes eligible to run
+  lockedUntil?: number // epoch ms; a running job whose lease lapsed is picked up again
+  createdAt: string
+  updatedAt: string
+  startedAt?: string
+  finishedAt?: string
+}
+
+export interface JobFilter {
+  type?: JobType
+  status?: JobStatus
+  limit?: number
+}
+
+export interface JobRetentionOptions {
+  retentionMs?: number // how long completed and dead jobs are kept after they finish
+}
+
+export const DEFAULT_JOB_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+export interface JobStore {
+  readonly name: string
+  save(job: Job): Promise<Job>
+  get(id: string): Promise<Job | null>
+  list(filter?: JobFilter): Promise<Job[]>
+  /**
+   * Atomically take the next runnable job (due, or running with an expired lease),
+   * mark it running under a lease and count the attempt
+   */
+  claimNext(leaseMs: number): Promise<Job | null>
+  close?(): Promise<void>
+}
+
+/**
+ * Finer-grained step inside a running job (an orchestrator task, for storybook jobs)
+ */
+export interface JobTaskEvent {
+  taskId: string
+  taskType: string
+  status: string
+  stage: string
+  agents: string[]
+  progress: number
+  error?: string
+}
+
+export interface JobContext {
+  reportProgress(progress: number, stage?: string): Promise<void>
+  publish(event: JobTaskEvent): void
+  // Merged into job.meta and saved straight away, so a retried attempt can pick up where this one left off
+  setMeta(meta: Record<string, unknown>): Promise<void>
+}
+
+export type JobHandler<P = unknown, R = unknown> = (job: Job<P, R>, context: JobContext) => Promise<R>
+
+export interface EnqueueOptions {
+  id?: string
+  maxAttempts?: number
+  delayMs?: number
+}
+
+/**
+ * Thrown by a handler when retrying cannot help (bad input, missing records); the job goes straight to dead-letter
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PermanentJobError'
+  }
+}
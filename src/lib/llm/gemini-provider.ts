@@ -0,0 +1,175 @@
+// Gemini Provider
+// Google Gemini through the Generative Language REST API, so no extra SDK is needed
+
+import {
+  ChatChunk,
+  ChatMessage,
+  ChatRequest,
+  ChatResult,
+  EmbeddingResult,
+  EMPTY_USAGE,
+  JsonChatResult,
+  LLMProvider,
+  LLMProviderError,
+  TokenUsage
+} from './types'
+import { toJsonResult, withJsonInstruction } from './json-mode'
+
+export interface GeminiProviderOptions {
+  apiKey: string
+  baseURL?: string
+  chatModel: string
+  embeddingModel: string
+}
+
+interface GeminiResponse {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number }
+  modelVersion?: string
+}
+
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta'
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini'
+  readonly kind = 'gemini' as const
+  private options: GeminiProviderOptions
+
+  constructor(options: GeminiProviderOptions) {
+    this.options = options
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    return this.generate(request, request.messages, false)
+  }
+
+  async chatJSON(request: ChatRequest): Promise<JsonChatResult> {
+    return toJsonResult(await this.generate(request, withJsonInstruction(request), true))
+  }
+
+  async *stream(request: ChatRequest): AsyncIterable<ChatChunk> {
+    const model = request.model || this.options.chatModel
+    const response = await this.post(
+      `models/${model}:streamGenerateContent?alt=sse`,
+      this.buildBody(request, request.messages, false),
+      request.signal
+    )
+    if (!response.body) {
+      throw new LLMProviderError('gemini stream returned no body', this.name)
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let usage: TokenUsage = EMPTY_USAGE
+
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue
+        const part = JSON.parse(line.slice(5).trim()) as GeminiResponse
+        if (part.usageMetadata) usage = toUsage(part.usageMetadata)
+        const delta = extractText(part)
+        if (delta) yield { delta, done: false }
+      }
+    }
+
+    yield { delta: '', done: true, usage }
+  }
+
+  async embed(input: string[], options: { model?: string } = {}): Promise<EmbeddingResult> {
+    const model = options.model || this.options.embeddingModel
+    const response = await this.post(`models/${model}:batchEmbedContents`, {
+      requests: input.map(text => ({ model: `models/${model}`, content: { parts: [{ text }] } }))
+    })
+    const body = await response.json() as { embeddings?: Array<{ values: number[] }> }
+
+    return {
+      provider: this.name,
+      model,
+      embeddings: (body.embeddings || []).map(embedding => embedding.values),
+      // The embedding endpoint does not report token counts
+      usage: EMPTY_USAGE
+    }
+  }
+
+  private async generate(request: ChatRequest, messages: ChatMessage[], json: boolean): Promise<ChatResult> {
+    const model = request.model || this.options.chatModel
+    const response = await this.post(
+      `models/${model}:generateContent`,
+      this.buildBody(request, messages, json),
+      request.signal
+    )
+    const body = await response.json() as GeminiResponse
+
+    return {
+      provider: this.name,
+      model: body.modelVersion || model,
+      content: extractText(body),
+      usage: body.usageMetadata ? toUsage(body.usageMetadata) : EMPTY_USAGE
+    }
+  }
+
+  private buildBody(request: ChatRequest, messages: ChatMessage[], json: boolean) {
+    const system = messages.filter(message => message.role === 'system').map(message => message.content)
+
+    return {
+      ...(system.length > 0 && { systemInstruction: { parts: [{ text: system.join('\n\n') }] } }),
+      contents: messages
+        .filter(message => message.role !== 'system')
+        .map(message => ({
+          role: message.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: message.content }]
+        })),
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+        ...(json && { responseMimeType: 'application/json' })
+      }
+    }
+  }
+
+  private async post(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    let response: Response
+    try {
+      response = await fetch(`${this.options.baseURL || DEFAULT_BASE_URL}/${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': this.options.apiKey
+        },
+        body: JSON.stringify(body),
+        signal
+      })
+    } catch (error) {
+      throw new LLMProviderError(`gemini request failed: ${error}`, this.name, error)
+    }
+
+    if (!response.ok) {
+      throw new LLMProviderError(
+        `gemini request failed: ${response.status} ${await response.text()}`,
+        this.name
+      )
+    }
+    return response
+  }
+}
+
+function extractText(response: GeminiResponse): string {
+  return (response.candidates?.[0]?.content?.parts || []).map(part => part.text || '').join('')
+}
+
+function toUsage(metadata: NonNullable<GeminiResponse['usageMetadata']>): TokenUsage {
+  const promptTokens = metadata.promptTokenCount ?? 0
+  const completionTokens = metadata.candidatesTokenCount ?? 0
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: metadata.totalTokenCount ?? promptTokens + completionTokens
+  }
+}
@@ -0,0 +1,128 @@
+// LLM Providers
+// Picks the provider (and model) for each task type from the environment
+
+import path from 'path'
+import { OpenAIProvider } from './openai-provider'
+import { GeminiProvider } from './gemini-provider'
+import { ReplayProvider, ReplayMode } from './replay-provider'
+import { MeteredProvider } from './metered-provider'
+import { getUsageMeter } from '../usage'
+import type { LLMProvider, LLMProviderKind, LLMTaskType } from './types'
+
+export * from './types'
+export { OpenAIProvider } from './openai-provider'
+export { GeminiProvider } from './gemini-provider'
+export { ReplayProvider } from './replay-provider'
+export { MeteredProvider } from './metered-provider'
+export { parseJsonContent, InvalidJsonError } from './json-mode'
+export { generateStructured, parseStructured, LLMOutputError } from './structured'
+export type { StructuredResult } from './structured'
+export * from './schemas'
+
+const PROVIDER_KINDS: LLMProviderKind[] = ['openai', 'gemini', 'local', 'replay']
+
+// The TAMBO intelligence prompts were written against Gemini, so they keep it unless overridden
+const TASK_DEFAULTS: Partial<Record<LLMTaskType, LLMProviderKind>> = {
+  'routing': 'gemini',
+  'component-analysis': 'gemini',
+  'diagnostics': 'gemini',
+  'chat': 'gemini'
+}
+
+export interface LLMTaskConfig {
+  kind: LLMProviderKind
+  model?: string
+}
+
+/**
+ * Provider and model for a task: LLM_PROVIDER_<TASK> / LLM_MODEL_<TASK>, then LLM_PROVIDER, then the task default
+ */
+export function resolveLLMTaskConfig(task: LLMTaskType): LLMTaskConfig {
+  const suffix = task.toUpperCase().replace(/-/g, '_')
+  const kind = process.env[`LLM_PROVIDER_${suffix}`] || process.env.LLM_PROVIDER || TASK_DEFAULTS[task] || 'openai'
+
+  if (!PROVIDER_KINDS.includes(kind as LLMProviderKind)) {
+    throw new Error(`Unknown LLM provider "${kind}" for ${task}`)
+  }
+  return { kind: kind as LLMProviderKind, model: process.env[`LLM_MODEL_${suffix}`] || undefined }
+}
+
+/**
+ * Whether the provider for a task has what it needs to run (an API key for hosted providers)
+ */
+export function isLLMConfigured(task: LLMTaskType): boolean {
+  switch (resolveLLMTaskConfig(task).kind) {
+    case 'openai':
+      return Boolean(process.env.OPENAI_API_KEY)
+    case 'gemini':
+      return Boolean(geminiApiKey())
+    default:
+      return true
+  }
+}
+
+export function createLLMProvider(kind: LLMProviderKind, model?: string): LLMProvider {
+  switch (kind) {
+    case 'openai':
+      return new OpenAIProvider({
+        apiKey: process.env.OPENAI_API_KEY || '',
+        chatModel: model || process.env.OPENAI_MODEL || 'gpt-4',
+        embeddingModel: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small'
+      })
+    case 'gemini':
+      return new GeminiProvider({
+        apiKey: geminiApiKey() || '',
+        chatModel: model || process.env.GEMINI_MODEL || 'gemini-1.5-flash',
+        embeddingModel: process.env.GEMINI_EMBEDDING_MODEL || 'text-embedding-004'
+      })
+    case 'local':
+      return new OpenAIProvider({
+        name: 'local',
+        kind: 'local',
+        // Ollama and llama.cpp ignore the key, but the SDK refuses to start without one
+        apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+        baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+        chatModel: model || process.env.LOCAL_LLM_MODEL || 'llama3.1',
+        embeddingModel: process.env.LOCAL_LLM_EMBEDDING_MODEL || 'nomic-embed-text'
+      })
+    case 'replay': {
+      const mode = (process.env.LLM_REPLAY_MODE as ReplayMode) || 'replay'
+      const upstreamKind = (process.env.LLM_RECORD_PROVIDER as LLMProviderKind) || 'openai'
+      if (upstreamKind === 'replay') {
+        throw new Error('LLM_RECORD_PROVIDER cannot be "replay"')
+      }
+      return new ReplayProvider({
+        fixturesDir: process.env.LLM_FIXTURES_DIR || path.join(process.cwd(), 'fixtures'),
+        mode,
+        upstream: mode === 'record' ? createLLMProvider(upstreamKind, model) : undefined
+      })
+    }
+    default:
+      throw new Error(`Unknown LLM provider: ${kind}`)
+  }
+}
+
+const providers = new Map<string, LLMProvider>()
+
+export function getLLMProvider(task: LLMTaskType): LLMProvider {
+  const { kind, model } = resolveLLMTaskConfig(task)
+  const key = `${kind}:${model || ''}`
+
+  let provider = providers.get(key)
+  if (!provider) {
+    // Token usage is charged to whichever job and task is running when the reply comes back
+    provider = new MeteredProvider(
+      createLLMProvider(kind, model),
+      (usage, name, usedModel) => {
+        getUsageMeter().recordLLM(usage, name, usedModel)
+      },
+      () => getUsageMeter().currentSignal()
+    )
+    providers.set(key, provider)
+  }
+  return provider
+}
+
+function geminiApiKey(): string | undefined {
+  return process.env.GEMINI_API_KEY || process.env.GOOGLE_GEMINI_API_KEY
+}
@@ -0,0 +1,67 @@
+// JSON Mode Helpers
+// Shared by every provider so JSON requests are phrased and parsed the same way
+
+import { ChatMessage, ChatRequest, ChatResult, JsonChatResult, LLMProviderError, TokenUsage } from './types'
+
+const JSON_INSTRUCTION = 'Respond with a single JSON object and nothing else.'
+
+/**
+ * The model answered, but not with parseable JSON. Carries the raw reply so it can be sent back for repair.
+ */
+export class InvalidJsonError extends LLMProviderError {
+  constructor(
+    message: string,
+    provider: string,
+    readonly content: string,
+    readonly usage?: TokenUsage
+  ) {
+    super(message, provider)
+    this.name = 'InvalidJsonError'
+  }
+}
+
+export function withJsonInstruction(request: ChatRequest): ChatMessage[] {
+  const instruction = request.schema
+    ? `${JSON_INSTRUCTION} It must match this JSON Schema:\n${JSON.stringify(request.schema)}`
+    : JSON_INSTRUCTION
+
+  const [first, ...rest] = request.messages
+  if (first?.role === 'system') {
+    return [{ role: 'system', content: `${first.content}\n\n${instruction}` }, ...rest]
+  }
+  return [{ role: 'system', content: instruction }, ...request.messages]
+}
+
+/**
+ * Parse a model reply as JSON, tolerating markdown fences and prose around the object
+ */
+export function parseJsonContent(content: string, provider: string): unknown {
+  const trimmed = content.trim()
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/)
+  const candidate = fenced ? fenced[1] : trimmed
+
+  try {
+    return JSON.parse(candidate)
+  } catch {
+    const objectMatch = candidate.match(/\{[\s\S]*\}/)
+    if (objectMatch) {
+      try {
+        return JSON.parse(objectMatch[0])
+      } catch (error) {
+        throw new InvalidJsonError(`Model returned invalid JSON: ${error}`, provider, content)
+      }
+    }
+    throw new InvalidJsonError('Model reply did not contain a JSON object', provider, content)
+  }
+}
+
+export function toJsonResult(result: ChatResult): JsonChatResult {
+  try {
+    return { ...result, data: parseJsonContent(result.content, result.provider) }
+  } catch (error) {
+    if (error instanceof InvalidJsonError) {
+      throw new InvalidJsonError(error.message, result.provider, result.content, result.usage)
+    }
+    throw error
+  }
+}
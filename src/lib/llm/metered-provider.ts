@@ -0,0 +1,69 @@
+// Metered LLM Provider
+// Wraps a provider so the tokens behind every reply, including rejected JSON, are reported, and
+// requests without a signal of their own stop when the work they belong to is abandoned
+
+import { InvalidJsonError } from './json-mode'
+import {
+  ChatChunk,
+  ChatRequest,
+  ChatResult,
+  EmbeddingResult,
+  JsonChatResult,
+  LLMProvider,
+  LLMProviderKind,
+  TokenUsage
+} from './types'
+
+export type UsageListener = (usage: TokenUsage, provider: string, model?: string) => void
+
+export class MeteredProvider implements LLMProvider {
+  readonly name: string
+  readonly kind: LLMProviderKind
+
+  constructor(
+    private inner: LLMProvider,
+    private onUsage: UsageListener,
+    private currentSignal: () => AbortSignal | undefined = () => undefined
+  ) {
+    this.name = inner.name
+    this.kind = inner.kind
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    const result = await this.inner.chat(this.withSignal(request))
+    this.onUsage(result.usage, result.provider, result.model)
+    return result
+  }
+
+  async chatJSON(request: ChatRequest): Promise<JsonChatResult> {
+    try {
+      const result = await this.inner.chatJSON(this.withSignal(request))
+      this.onUsage(result.usage, result.provider, result.model)
+      return result
+    } catch (error) {
+      // The model still answered, so the tokens were spent
+      if (error instanceof InvalidJsonError && error.usage) {
+        this.onUsage(error.usage, error.provider, request.model)
+      }
+      throw error
+    }
+  }
+
+  async *stream(request: ChatRequest): AsyncIterable<ChatChunk> {
+    for await (const chunk of this.inner.stream(this.withSignal(request))) {
+      if (chunk.usage) this.onUsage(chunk.usage, this.name, request.model)
+      yield chunk
+    }
+  }
+
+  async embed(input: string[], options?: { model?: string }): Promise<EmbeddingResult> {
+    const result = await this.inner.embed(input, options)
+    this.onUsage(result.usage, result.provider, result.model)
+    return result
+  }
+
+  private withSignal(request: ChatRequest): ChatRequest {
+    const signal = request.signal || this.currentSignal()
+    return signal ? { ...request, signal } : request
+  }
+}
@@ -0,0 +1,131 @@
+// OpenAI Provider
+// Chat, JSON mode, streaming and embeddings through the OpenAI SDK.
+// Also serves local OpenAI-compatible servers (Ollama, llama.cpp) by pointing baseURL at them.
+
+import { OpenAI } from 'openai'
+import {
+  ChatChunk,
+  ChatRequest,
+  ChatResult,
+  EmbeddingResult,
+  EMPTY_USAGE,
+  JsonChatResult,
+  LLMProvider,
+  LLMProviderError,
+  LLMProviderKind,
+  TokenUsage
+} from './types'
+import { toJsonResult, withJsonInstruction } from './json-mode'
+
+export interface OpenAIProviderOptions {
+  name?: string
+  kind?: LLMProviderKind
+  apiKey: string
+  baseURL?: string
+  chatModel: string
+  embeddingModel: string
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string
+  readonly kind: LLMProviderKind
+  private client: OpenAI
+  private options: OpenAIProviderOptions
+
+  constructor(options: OpenAIProviderOptions) {
+    this.options = options
+    this.name = options.name || 'openai'
+    this.kind = options.kind || 'openai'
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL })
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    return this.complete(request, request.messages, false)
+  }
+
+  async chatJSON(request: ChatRequest): Promise<JsonChatResult> {
+    return toJsonResult(await this.complete(request, withJsonInstruction(request), true))
+  }
+
+  async *stream(request: ChatRequest): AsyncIterable<ChatChunk> {
+    try {
+      const stream = await this.client.chat.completions.create({
+        model: request.model || this.options.chatModel,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: true,
+        stream_options: { include_usage: true }
+      }, { signal: request.signal })
+
+      let usage: TokenUsage | undefined
+      for await (const part of stream) {
+        if (part.usage) usage = toUsage(part.usage)
+        const delta = part.choices[0]?.delta?.content
+        if (delta) yield { delta, done: false }
+      }
+      yield { delta: '', done: true, usage: usage || EMPTY_USAGE }
+    } catch (error) {
+      throw this.wrap('stream', error)
+    }
+  }
+
+  async embed(input: string[], options: { model?: string } = {}): Promise<EmbeddingResult> {
+    const model = options.model || this.options.embeddingModel
+
+    try {
+      const response = await this.client.embeddings.create({ model, input })
+      return {
+        provider: this.name,
+        model: response.model || model,
+        embeddings: response.data.sort((a, b) => a.index - b.index).map(item => item.embedding),
+        usage: {
+          promptTokens: response.usage?.prompt_tokens ?? 0,
+          completionTokens: 0,
+          totalTokens: response.usage?.total_tokens ?? 0
+        }
+      }
+    } catch (error) {
+      throw this.wrap('embedding', error)
+    }
+  }
+
+  private async complete(
+    request: ChatRequest,
+    messages: ChatRequest['messages'],
+    json: boolean
+  ): Promise<ChatResult> {
+    const model = request.model || this.options.chatModel
+
+    try {
+      const completion = await this.client.chat.completions.create({
+        model,
+        messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(json && { response_format: { type: 'json_object' as const } })
+      }, { signal: request.signal })
+
+      return {
+        provider: this.name,
+        model: completion.model || model,
+        content: completion.choices[0]?.message?.content || '',
+        usage: completion.usage ? toUsage(completion.usage) : EMPTY_USAGE
+      }
+    } catch (error) {
+      throw this.wrap('chat', error)
+    }
+  }
+
+  private wrap(operation: string, error: unknown): LLMProviderError {
+    return new LLMProviderError(`${this.name} ${operation} failed: ${error}`, this.name, error)
+  }
+}
+
+function toUsage(usage: { prompt_tokens: number; completion_tokens?: number; total_tokens: number }): TokenUsage {
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens ?? 0,
+    totalTokens: usage.total_tokens
+  }
+}
@@ -0,0 +1,164 @@
+// Replay Provider
+// Serves recorded LLM responses from fixture files so prompt paths can run without a model.
+// In record mode it forwards to a real provider and writes what comes back.
+
+import { createHash } from 'crypto'
+import { JsonFileCollection } from '../storage/json-file-collection'
+import {
+  ChatChunk,
+  ChatRequest,
+  ChatResult,
+  EmbeddingResult,
+  EMPTY_USAGE,
+  JsonChatResult,
+  LLMProvider,
+  LLMProviderError
+} from './types'
+import { InvalidJsonError, toJsonResult } from './json-mode'
+
+export type ReplayMode = 'replay' | 'record'
+
+type FixtureOperation = 'chat' | 'json' | 'stream' | 'embed'
+
+export interface LLMFixture {
+  key: string
+  operation: FixtureOperation
+  request: Record<string, unknown>
+  result: ChatResult | EmbeddingResult
+}
+
+export interface ReplayProviderOptions {
+  fixturesDir: string
+  mode: ReplayMode
+  upstream?: LLMProvider
+}
+
+export class ReplayProvider implements LLMProvider {
+  readonly name = 'replay'
+  readonly kind = 'replay' as const
+  private fixtures: JsonFileCollection<LLMFixture>
+  private mode: ReplayMode
+  private upstream?: LLMProvider
+
+  constructor(options: ReplayProviderOptions) {
+    if (options.mode === 'record' && !options.upstream) {
+      throw new Error('Recording LLM fixtures requires an upstream provider')
+    }
+    this.fixtures = new JsonFileCollection<LLMFixture>(options.fixturesDir, 'llm')
+    this.mode = options.mode
+    this.upstream = options.upstream
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResult> {
+    return this.resolve('chat', describeChat(request), () => this.upstream!.chat(request)) as Promise<ChatResult>
+  }
+
+  async chatJSON(request: ChatRequest): Promise<JsonChatResult> {
+    // Unparseable replies are recorded too, so a replay exercises the same repair path
+    const result = await this.resolve('json', describeChat(request), () =>
+      this.upstream!.chatJSON(request).catch(error => {
+        if (!(error instanceof InvalidJsonError)) throw error
+        return {
+          provider: error.provider,
+          model: request.model || 'default',
+          content: error.content,
+          usage: error.usage || EMPTY_USAGE
+        }
+      })
+    )
+    return toJsonResult(result as ChatResult)
+  }
+
+  async *stream(request: ChatRequest): AsyncIterable<ChatChunk> {
+    const description = describeChat(request)
+    const key = fixtureKey('stream', description)
+    const recorded = await this.fixtures.get(key)
+
+    if (recorded) {
+      const result = recorded.result as ChatResult
+      // Re-chunk on word boundaries so consumers still see incremental output
+      for (const delta of result.content.match(/\S+\s*|\s+/g) || []) {
+        yield { delta, done: false }
+      }
+      yield { delta: '', done: true, usage: result.usage }
+      return
+    }
+
+    this.assertRecording(key)
+    let content = ''
+    let usage: ChatChunk['usage']
+    for await (const chunk of this.upstream!.stream(request)) {
+      content += chunk.delta
+      if (chunk.usage) usage = chunk.usage
+      yield chunk
+    }
+    await this.fixtures.put(key, {
+      key,
+      operation: 'stream',
+      request: description,
+      result: {
+        provider: this.upstream!.name,
+        model: request.model || 'default',
+        content,
+        usage: usage || EMPTY_USAGE
+      }
+    })
+  }
+
+  async embed(input: string[], options: { model?: string } = {}): Promise<EmbeddingResult> {
+    return this.resolve(
+      'embed',
+      { input, model: options.model ?? null },
+      () => this.upstream!.embed(input, options)
+    ) as Promise<EmbeddingResult>
+  }
+
+  private async resolve(
+    operation: FixtureOperation,
+    description: Record<string, unknown>,
+    call: () => Promise<ChatResult | EmbeddingResult>
+  ): Promise<ChatResult | EmbeddingResult> {
+    const key = fixtureKey(operation, description)
+    const recorded = await this.fixtures.get(key)
+    if (recorded) {
+      return recorded.result
+    }
+
+    this.assertRecording(key)
+    const result = await call()
+    // JSON results carry the parsed object too; only the raw reply is worth storing
+    const stored = operation === 'embed' ? result : pickChatResult(result as ChatResult)
+    await this.fixtures.put(key, { key, operation, request: description, result: stored })
+    return stored
+  }
+
+  private assertRecording(key: string): void {
+    if (this.mode !== 'record') {
+      throw new LLMProviderError(
+        `No recorded LLM fixture ${key}; run with LLM_REPLAY_MODE=record to capture it`,
+        this.name
+      )
+    }
+  }
+}
+
+function pickChatResult(result: ChatResult): ChatResult {
+  return { provider: result.provider, model: result.model, content: result.content, usage: result.usage }
+}
+
+function describeChat(request: ChatRequest): Record<string, unknown> {
+  return {
+    messages: request.messages,
+    model: request.model ?? null,
+    temperature: request.temperature ?? null,
+    maxTokens: request.maxTokens ?? null,
+    schema: request.schema ?? null
+  }
+}
+
+function fixtureKey(operation: FixtureOperation, description: Record<string, unknown>): string {
+  const digest = createHash('sha256')
+    .update(JSON.stringify({ operation, ...description }))
+    .digest('hex')
+  return `${operation}-${digest.slice(0, 24)}`
+}
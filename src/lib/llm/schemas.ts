@@ -0,0 +1,113 @@
+// LLM Response Schemas
+// Runtime shapes for every structured reply we ask a model for
+
+import { z } from 'zod'
+
+const stringList = z.array(z.string()).default([])
+
+export const educationalStepSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string(),
+  explanation: z.string().default(''),
+  nodeId: z.string().optional(),
+  code: z.string().optional(),
+  codeLanguage: z.string().optional(),
+  codeDescription: z.string().optional()
+})
+
+export const educationalContentSchema = z.object({
+  title: z.string().min(1),
+  description: z.string(),
+  learningObjectives: z.array(z.string()).min(1),
+  complexity: z.enum(['beginner', 'intermediate', 'advanced']),
+  estimatedDuration: z.number().positive().optional(),
+  prerequisites: z.array(z.string()).optional(),
+  steps: z.array(educationalStepSchema).min(1)
+})
+
+export const storyboardSchema = z.object({
+  scenes: z.array(z.object({
+    id: z.string().min(1),
+    startTime: z.number().nonnegative(),
+    endTime: z.number().nonnegative(),
+    title: z.string(),
+    description: z.string(),
+    stepId: z.string().optional(),
+    visualElements: z.array(z.object({
+      type: z.enum(['text', 'shape', 'arrow', 'highlight', 'annotation']),
+      content: z.string(),
+      position: z.object({
+        x: z.number(),
+        y: z.number(),
+        width: z.number().positive(),
+        height: z.number().positive()
+      })
+    })).default([])
+  }).refine(scene => scene.endTime > scene.startTime, {
+    message: 'endTime must be after startTime'
+  })).min(1)
+})
+
+export const intelligentDecisionSchema = z.object({
+  agent: z.string().min(1),
+  route: z.string().startsWith('/'),
+  intent: z.string().min(1),
+  confidence: z.number().min(0).max(1),
+  reasoning: z.string(),
+  recommendations: stringList,
+  riskAssessment: z.object({
+    level: z.enum(['low', 'medium', 'high']),
+    concerns: stringList
+  }).default({ level: 'medium', concerns: [] }),
+  nextSteps: stringList
+})
+
+export const componentAnalysisSchema = z.object({
+  componentId: z.string().min(1),
+  updateFeasibility: z.enum(['safe', 'risky', 'dangerous']),
+  suggestedChanges: stringList,
+  securityConcerns: stringList,
+  implementationPlan: stringList,
+  estimatedComplexity: z.enum(['simple', 'moderate', 'complex'])
+})
+
+export const diagnosticsSchema = z.object({
+  agent: z.string().min(1),
+  status: z.enum(['healthy', 'degraded', 'critical', 'unknown']),
+  insights: z.string(),
+  recommendations: stringList,
+  riskLevel: z.enum(['low', 'medium', 'high', 'critical']),
+  metrics: z.object({
+    performance: z.string(),
+    reliability: z.string(),
+    security: z.string()
+  }).partial().optional()
+})
+
+export const routingResponseSchema = z.object({
+  agent: z.string().min(1),
+  tier: z.string().min(1),
+  intent: z.string().min(1),
+  route: z.string().min(1),
+  notes: z.string().default(''),
+  timestamp: z.string(),
+  confidence: z.number().min(0).max(1),
+  metadata: z.object({
+    keywords_matched: stringList,
+    processing_time_ms: z.number().default(0)
+  }).default({ keywords_matched: [], processing_time_ms: 0 })
+})
+
+// One translation per source string, in order; callers refine it with their own count and placeholder checks
+export const translationSchema = z.object({
+  translations: z.array(z.string())
+})
+
+export type EducationalContentResponse = z.infer<typeof educationalContentSchema>
+export type StoryboardResponse = z.infer<typeof storyboardSchema>
+export type IntelligentDecisionResponse = z.infer<typeof intelligentDecisionSchema>
+export type ComponentAnalysisResponse = z.infer<typeof componentAnalysisSchema>
+export type DiagnosticsResponse = z.infer<typeof diagnosticsSchema>
+export type RoutingResponse = z.infer<typeof routingResponseSchema>
+export type TranslationResponse = z.infer<typeof translationSchema>
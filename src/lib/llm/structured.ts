@@ -0,0 +1,112 @@
+// Structured LLM Output
+// Validates JSON replies against a schema and asks the model to repair them when they don't match
+
+import { ZodError, ZodType, ZodTypeDef } from 'zod'
+import { getLLMProvider } from './index'
+import { InvalidJsonError, parseJsonContent } from './json-mode'
+import { ChatMessage, ChatRequest, EMPTY_USAGE, LLMTaskType, TokenUsage } from './types'
+
+const DEFAULT_MAX_ATTEMPTS = 3
+
+/**
+ * Raised when a model never produced a valid reply, even after repair attempts
+ */
+export class LLMOutputError extends Error {
+  readonly code = 'LLM_OUTPUT_INVALID'
+
+  constructor(
+    readonly task: LLMTaskType,
+    readonly attempts: number,
+    readonly issues: string[],
+    readonly raw: string
+  ) {
+    super(`${task} output failed validation after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${issues.join('; ')}`)
+    this.name = 'LLMOutputError'
+  }
+}
+
+export interface StructuredResult<T> {
+  data: T
+  attempts: number
+  provider: string
+  model: string
+  usage: TokenUsage
+}
+
+// Output type can differ from input when the schema applies defaults
+type Schema<T> = ZodType<T, ZodTypeDef, unknown>
+
+export async function generateStructured<T>(
+  task: LLMTaskType,
+  request: ChatRequest,
+  schema: Schema<T>,
+  options: { maxAttempts?: number } = {}
+): Promise<StructuredResult<T>> {
+  const provider = getLLMProvider(task)
+  const maxAttempts = options.maxAttempts ?? (Number(process.env.LLM_REPAIR_ATTEMPTS) || DEFAULT_MAX_ATTEMPTS)
+  const usage: TokenUsage = { ...EMPTY_USAGE }
+  let messages: ChatMessage[] = request.messages
+  let issues: string[] = []
+  let raw = ''
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const result = await provider.chatJSON({ ...request, messages })
+      addUsage(usage, result.usage)
+      raw = result.content
+
+      const parsed = schema.safeParse(result.data)
+      if (parsed.success) {
+        return { data: parsed.data, attempts: attempt, provider: result.provider, model: result.model, usage }
+      }
+      issues = formatIssues(parsed.error)
+    } catch (error) {
+      // Transport and auth failures are not something the model can fix
+      if (!(error instanceof InvalidJsonError)) throw error
+      if (error.usage) addUsage(usage, error.usage)
+      raw = error.content
+      issues = [error.message]
+    }
+
+    console.warn(`⚠️ ${task} reply rejected (attempt ${attempt}/${maxAttempts}): ${issues.join('; ')}`)
+    messages = [
+      ...request.messages,
+      { role: 'assistant', content: raw },
+      {
+        role: 'user',
+        content: `Your previous reply was not valid:\n${issues.map(issue => `- ${issue}`).join('\n')}\n` +
+          'Reply again with the corrected JSON object only.'
+      }
+    ]
+  }
+
+  throw new LLMOutputError(task, maxAttempts, issues, raw)
+}
+
+/**
+ * Validate text that already came back from a model (or a simulation of one) without a repair round-trip
+ */
+export function parseStructured<T>(task: LLMTaskType, content: string, schema: Schema<T>): T {
+  let data: unknown
+  try {
+    data = parseJsonContent(content, task)
+  } catch (error) {
+    throw new LLMOutputError(task, 1, [error instanceof Error ? error.message : String(error)], content)
+  }
+
+  const parsed = schema.safeParse(data)
+  if (!parsed.success) {
+    throw new LLMOutputError(task, 1, formatIssues(parsed.error), content)
+  }
+  return parsed.data
+}
+
+function formatIssues(error: ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+}
+
+function addUsage(total: TokenUsage, usage: TokenUsage): void {
+  total.promptTokens += usage.promptTokens
+  total.completionTokens += usage.completionTokens
+  total.totalTokens += usage.totalTokens
+}
@@ -0,0 +1,83 @@
+// LLM Provider Types
+// One interface for chat, JSON-mode, streaming and embeddings, whatever model backs it
+
+export type LLMProviderKind = 'openai' | 'gemini' | 'local' | 'replay'
+
+// Every place in the app that prompts a model, so each can be pointed at a different provider
+export type LLMTaskType =
+  | 'content-generation'
+  | 'storyboard'
+  | 'routing'
+  | 'component-analysis'
+  | 'diagnostics'
+  | 'chat'
+  | 'embedding'
+  | 'translation'
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[]
+  model?: string
+  temperature?: number
+  maxTokens?: number
+  // JSON Schema describing the expected object; providers add it to the prompt in JSON mode
+  schema?: Record<string, unknown>
+  signal?: AbortSignal
+}
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export interface ChatResult {
+  provider: string
+  model: string
+  content: string
+  usage: TokenUsage
+}
+
+export interface JsonChatResult extends ChatResult {
+  data: unknown
+}
+
+export interface ChatChunk {
+  delta: string
+  done: boolean
+  usage?: TokenUsage
+}
+
+export interface EmbeddingResult {
+  provider: string
+  model: string
+  embeddings: number[][]
+  usage: TokenUsage
+}
+
+export interface LLMProvider {
+  readonly name: string
+  readonly kind: LLMProviderKind
+
+  chat(request: ChatRequest): Promise<ChatResult>
+  chatJSON(request: ChatRequest): Promise<JsonChatResult>
+  stream(request: ChatRequest): AsyncIterable<ChatChunk>
+  embed(input: string[], options?: { model?: string }): Promise<EmbeddingResult>
+}
+
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    readonly provider: string,
+    readonly cause?: unknown
+  ) {
+    super(message)
+    this.name = 'LLMProviderError'
+  }
+}
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
@@ -1,6 +1,9 @@
 // N8N Integration Service
 // Handles N8N workflow processing and analysis
 
+import { WorkflowGraph } from './workflow-graph'
+import { describeNodeType, explainNode } from './node-knowledge-base'
+
 export interface ParsedWorkflow {
   id: string
   name: string
@@ -118,34 +121,25 @@ export class N8NIntegrationService {
         }
       }
 
-      // Check for disconnected nodes
-      const connectedNodeIds = new Set<string>()
-      if (workflow.connections) {
-        Object.keys(workflow.connections).forEach(nodeId => {
-          connectedNodeIds.add(nodeId)
-          const nodeConnections = workflow.connections[nodeId]
-          Object.values(nodeConnections).forEach((outputs: any) => {
-            if (Array.isArray(outputs)) {
-              outputs.forEach((connection: any) => {
-                if (Array.isArray(connection)) {
-                  connection.forEach((conn: any) => {
-                    if (conn.node) {
-                      connectedNodeIds.add(conn.node)
-                    }
-                  })
-                }
-              })
-            }
-          })
-        })
+      // Check the connection graph (edges are keyed by node name, as n8n exports them)
+      const graph = this.buildGraph(workflow)
+      for (const issue of graph.issues) {
+        if (issue.type === 'dangling-edge' || issue.type === 'duplicate-name') {
+          errors.push(issue.message)
+        } else if (issue.type === 'disconnected-node') {
+          const disconnected = issue.nodes.filter(name =>
+            graph.getNode(name)?.type !== 'n8n-nodes-base.start'
+          )
+          if (disconnected.length > 0) {
+            warnings.push(`${disconnected.length} disconnected nodes found`)
+          }
+        } else {
+          warnings.push(issue.message)
+        }
       }
 
-      const disconnectedNodes = workflow.nodes.filter(node => 
-        !connectedNodeIds.has(node.id) && node.type !== 'n8n-nodes-base.start'
-      )
-
-      if (disconnectedNodes.length > 0) {
-        warnings.push(`${disconnectedNodes.length} disconnected nodes found`)
+      if (workflow.nodes.length > 0 && graph.entryNodes().length === 0) {
+        warnings.push('Workflow has no entry node; every node receives input from another node')
       }
 
       return {
@@ -240,7 +234,7 @@ export class N8NIntegrationService {
 
     try {
       // Analyze workflow to extract learning objectives
-      const nodeTypes = [...new Set(workflow.nodes.map(node => node.type))]
+      const nodeTypes = [...new Set(this.orderNodes(workflow).map(node => node.type))]
       
       // Basic workflow structure objective
       objectives.push({
@@ -379,23 +373,25 @@ export class N8NIntegrationService {
     }
   }
 
+  buildGraph(workflow: ParsedWorkflow): WorkflowGraph {
+    return WorkflowGraph.fromWorkflow(workflow)
+  }
+
+  /**
+   * Workflow nodes in execution order (topological over the connection graph) rather than array order
+   */
+  orderNodes(workflow: ParsedWorkflow): ParsedWorkflow['nodes'] {
+    const order = this.buildGraph(workflow).topologicalOrder()
+    const position = new Map(order.map((name, index) => [name, index]))
+
+    return [...workflow.nodes].sort((a, b) =>
+      (position.get(a.name ?? a.id) ?? order.length) - (position.get(b.name ?? b.id) ?? order.length)
+    )
+  }
+
   // Private helper methods
   private calculateConnectionComplexity(workflow: ParsedWorkflow): number {
-    if (!workflow.connections) return 0
-    
-    let complexity = 0
-    Object.values(workflow.connections).forEach((nodeConnections: any) => {
-      Object.values(nodeConnections).forEach((outputs: any) => {
-        if (Array.isArray(outputs)) {
-          outputs.forEach((connection: any) => {
-            if (Array.isArray(connection)) {
-              complexity += connection.length
-            }
-          })
-        }
-      })
-    })
-    return complexity
+    return this.buildGraph(workflow).edges.length
   }
 
   private countDataTransformations(workflow: ParsedWorkflow): number {
@@ -421,17 +417,7 @@ export class N8NIntegrationService {
   }
 
   private getNodeDifficulty(nodeType: string): 'beginner' | 'intermediate' | 'advanced' {
-    const beginnerNodes = ['webhook', 'http-request', 'set', 'start', 'schedule-trigger']
-    const advancedNodes = ['function', 'code', 'if', 'switch', 'merge']
-    
-    const typeName = nodeType.split('.').pop()?.toLowerCase() || ''
-    
-    if (beginnerNodes.some(node => typeName.includes(node))) {
-      return 'beginner'
-    } else if (advancedNodes.some(node => typeName.includes(node))) {
-      return 'advanced'
-    }
-    return 'intermediate'
+    return describeNodeType(nodeType).difficulty
   }
 
   private hasDataTransformations(workflow: ParsedWorkflow): boolean {
@@ -446,18 +432,16 @@ export class N8NIntegrationService {
       'Transformations': []
     }
 
-    workflow.nodes.forEach(node => {
-      const nodeType = node.type.toLowerCase()
-      
-      if (nodeType.includes('trigger') || nodeType.includes('webhook') || nodeType.includes('schedule')) {
-        groups['Triggers'].push(node)
-      } else if (nodeType.includes('if') || nodeType.includes('switch') || nodeType.includes('router')) {
-        groups['Logic'].push(node)
-      } else if (nodeType.includes('set') || nodeType.includes('function') || nodeType.includes('code')) {
-        groups['Transformations'].push(node)
-      } else {
-        groups['Actions'].push(node)
-      }
+    const groupByRole: Record<string, string> = {
+      'trigger': 'Triggers',
+      'logic': 'Logic',
+      'transform': 'Transformations',
+      'action': 'Actions',
+      'sub-node': 'Actions'
+    }
+
+    this.orderNodes(workflow).forEach(node => {
+      groups[groupByRole[describeNodeType(node.type).role]].push(node)
     })
 
     // Remove empty groups
@@ -471,24 +455,6 @@ export class N8NIntegrationService {
   }
 
   private generateNodeExplanation(node: any): string {
-    const nodeType = node.type.split('.').pop() || node.type
-    const nodeName = node.name || nodeType
-    
-    return `The ${nodeName} node (${nodeType}) is ${this.getNodeDescription(node.type)}. This node is configured with specific parameters to handle data processing in the workflow.`
-  }
-
-  private getNodeDescription(nodeType: string): string {
-    const descriptions: Record<string, string> = {
-      'webhook': 'used to receive HTTP requests and trigger the workflow',
-      'http-request': 'used to make HTTP requests to external APIs',
-      'set': 'used to set or modify data values',
-      'if': 'used for conditional logic and branching',
-      'function': 'used to execute custom JavaScript code',
-      'schedule-trigger': 'used to trigger the workflow on a schedule',
-      'start': 'the entry point that starts the workflow execution'
-    }
-
-    const typeName = nodeType.split('.').pop()?.toLowerCase() || ''
-    return descriptions[typeName] || 'used to process data in the workflow'
+    return explainNode(node).summary
   }
 }
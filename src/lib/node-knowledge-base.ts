@@ -0,0 +1,204 @@
+// Node Knowledge Base
+// Deterministic explanations, prerequisites and integration lists built from the bundled node catalog
+
+import {
+  nodeCatalog,
+  NODE_CATALOG_VERSION,
+  NodeTypeDefinition,
+  NodeParameterInfo
+} from '../data/n8n-node-catalog'
+
+export interface NodeLike {
+  id?: string
+  name?: string
+  type: string
+  parameters?: Record<string, unknown>
+  credentials?: Record<string, unknown>
+  disabled?: boolean
+}
+
+export interface ParameterExplanation extends NodeParameterInfo {
+  name: string
+  value: string
+}
+
+export interface NodeExplanation {
+  nodeId: string
+  nodeName: string
+  type: string
+  displayName: string
+  category: NodeTypeDefinition['category']
+  role: NodeTypeDefinition['role']
+  isTrigger: boolean
+  known: boolean
+  summary: string
+  parameters: ParameterExplanation[]
+  credentialTypes: string[]
+  prerequisites: string[]
+  difficulty: NodeTypeDefinition['difficulty']
+  catalogVersion: string
+}
+
+const byType = new Map<string, NodeTypeDefinition>()
+nodeCatalog.forEach(definition => {
+  byType.set(definition.type, definition)
+  definition.aliases?.forEach(alias => byType.set(alias, definition))
+})
+
+const MAX_VALUE_LENGTH = 60
+
+export { NODE_CATALOG_VERSION }
+
+/**
+ * Catalog entry for a node type, or undefined when the type is not bundled
+ */
+export function lookupNodeType(type: string): NodeTypeDefinition | undefined {
+  return byType.get(type)
+}
+
+/**
+ * Catalog entry for a node type, inferring a generic definition from the type name when it is not bundled
+ */
+export function describeNodeType(type: string): NodeTypeDefinition {
+  return lookupNodeType(type) ?? inferDefinition(type)
+}
+
+export function isTriggerType(type: string): boolean {
+  return describeNodeType(type).role === 'trigger'
+}
+
+export function explainNode(node: NodeLike): NodeExplanation {
+  const known = byType.has(node.type)
+  const definition = describeNodeType(node.type)
+  const nodeName = node.name || definition.displayName
+  const parameters = explainParameters(node.parameters || {}, definition)
+  const credentialTypes = node.credentials && Object.keys(node.credentials).length > 0
+    ? Object.keys(node.credentials).sort()
+    : definition.credentialType ? [definition.credentialType] : []
+
+  const sentences = [`"${nodeName}" is a ${definition.displayName} node that ${definition.description}.`]
+  parameters.forEach(parameter => {
+    sentences.push(`${parameter.label} is set to ${parameter.value} — ${parameter.meaning}.`)
+  })
+  if (credentialTypes.length > 0) {
+    sentences.push(`It authenticates with ${credentialTypes.join(', ')} credentials.`)
+  }
+  if (node.disabled) {
+    sentences.push('The node is disabled, so it is skipped when the workflow runs.')
+  }
+
+  return {
+    nodeId: node.id || nodeName,
+    nodeName,
+    type: node.type,
+    displayName: definition.displayName,
+    category: definition.category,
+    role: definition.role,
+    isTrigger: definition.role === 'trigger',
+    known,
+    summary: sentences.join(' '),
+    parameters,
+    credentialTypes,
+    prerequisites: definition.prerequisites,
+    difficulty: definition.difficulty,
+    catalogVersion: NODE_CATALOG_VERSION
+  }
+}
+
+export function explainNodes(nodes: NodeLike[]): NodeExplanation[] {
+  return nodes.filter(node => !isStickyNoteType(node.type)).map(explainNode)
+}
+
+/**
+ * Display names of the trigger nodes, in node order and without duplicates
+ */
+export function identifyTriggers(nodes: NodeLike[]): string[] {
+  return unique(
+    nodes
+      .map(node => describeNodeType(node.type))
+      .filter(definition => definition.role === 'trigger')
+      .map(definition => definition.displayName)
+  )
+}
+
+/**
+ * External services the workflow talks to. Core, flow and transform nodes are not integrations.
+ */
+export function identifyIntegrations(nodes: NodeLike[]): string[] {
+  return unique(
+    nodes
+      .map(node => describeNodeType(node.type).service)
+      .filter((service): service is string => Boolean(service))
+  )
+}
+
+export function collectPrerequisites(nodes: NodeLike[]): string[] {
+  return unique(nodes.flatMap(node => describeNodeType(node.type).prerequisites))
+}
+
+function explainParameters(
+  parameters: Record<string, unknown>,
+  definition: NodeTypeDefinition
+): ParameterExplanation[] {
+  return Object.entries(definition.parameters)
+    .filter(([name]) => parameters[name] !== undefined && parameters[name] !== '')
+    .map(([name, info]) => ({
+      name,
+      label: info.label,
+      meaning: info.meaning,
+      value: formatParameterValue(parameters[name])
+    }))
+}
+
+function formatParameterValue(value: unknown): string {
+  if (typeof value === 'string') {
+    if (value.startsWith('=')) return 'an expression evaluated for each item'
+    if (value.includes('\n')) return `${value.split('\n').length} lines of code or text`
+    return value.length > MAX_VALUE_LENGTH ? `"${value.slice(0, MAX_VALUE_LENGTH)}…"` : `"${value}"`
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  if (Array.isArray(value)) return `a list of ${value.length} entr${value.length === 1 ? 'y' : 'ies'}`
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value)
+    return keys.length === 0 ? 'its defaults' : `custom settings (${keys.sort().join(', ')})`
+  }
+  return 'its default'
+}
+
+function inferDefinition(type: string): NodeTypeDefinition {
+  const [packageName, rawName = packageName] = type.split('.')
+  const displayName = humanize(rawName)
+  const isTrigger = /trigger$/i.test(rawName)
+  const isAi = packageName.includes('langchain')
+  const service = displayName.replace(/\s*Trigger$/, '') || displayName
+
+  return {
+    type,
+    displayName,
+    category: isTrigger ? 'trigger' : isAi ? 'ai' : 'core',
+    role: isTrigger ? 'trigger' : 'action',
+    service: isAi ? undefined : service,
+    description: isTrigger
+      ? `starts the workflow when ${service} reports an event`
+      : `works with ${service}`,
+    difficulty: 'intermediate',
+    prerequisites: isAi ? [] : [`Access to ${service}`],
+    parameters: {}
+  }
+}
+
+function humanize(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[-_]+/g, ' ')
+    .replace(/\b\w/g, letter => letter.toUpperCase())
+    .trim()
+}
+
+function isStickyNoteType(type: string): boolean {
+  return type === 'n8n-nodes-base.stickyNote'
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)]
+}
@@ -0,0 +1,397 @@
+// Offline Storybook Generator
+// Template-driven EducationalContent built only from the workflow graph and the node catalog.
+// Output is a pure function of the input: no network, no clock, no randomness.
+
+import { WorkflowGraph, WorkflowNode, isStickyNote } from './workflow-graph'
+import {
+  describeNodeType,
+  explainNode,
+  identifyTriggers,
+  identifyIntegrations,
+  collectPrerequisites,
+  NodeExplanation
+} from './node-knowledge-base'
+import { nodeCatalog } from '../data/n8n-node-catalog'
+import type {
+  EducationalContent,
+  EducationalStep,
+  InteractiveElement,
+  QuizQuestion
+} from './agents/n8n-workflow-analyzer'
+
+export interface OfflineWorkflowInput {
+  id?: string
+  name?: string
+  nodes: unknown[]
+  connections?: unknown
+}
+
+// Parameters holding code, with the language it is written in
+const CODE_PARAMETERS: Record<string, string> = {
+  jsCode: 'javascript',
+  pythonCode: 'python',
+  functionCode: 'javascript',
+  query: 'sql'
+}
+const LANGUAGE_NAMES: Record<string, string> = { javascript: 'JavaScript', python: 'Python', sql: 'SQL' }
+const QUIZ_OPTION_COUNT = 4
+
+export class OfflineStorybookGenerator {
+
+  generate(workflow: OfflineWorkflowInput): EducationalContent {
+    const graph = WorkflowGraph.fromWorkflow(workflow)
+    const nodes = graph.orderedNodes().filter(node => !isStickyNote(node))
+    const explanations = nodes.map(node => explainNode(node))
+    const title = workflow.name?.trim() || 'Untitled Workflow'
+    const complexity = this.assessComplexity(graph, nodes)
+
+    const steps: EducationalStep[] = [
+      this.buildOverviewStep(title, graph, nodes),
+      ...nodes.map((node, index) => this.buildNodeStep(node, index, explanations, graph)),
+      this.buildSummaryStep(title, nodes)
+    ]
+
+    return {
+      title: `${title}: Step-by-Step Guide`,
+      description: this.describeWorkflow(graph, nodes),
+      learningObjectives: this.buildLearningObjectives(graph, nodes),
+      complexity,
+      estimatedDuration: this.estimateDuration(nodes.length, complexity),
+      prerequisites: ['Basic understanding of automation concepts', ...collectPrerequisites(nodes)],
+      steps,
+      interactiveElements: this.buildInteractiveElements(title, graph, nodes, steps)
+    }
+  }
+
+  private describeWorkflow(graph: WorkflowGraph, nodes: WorkflowNode[]): string {
+    const triggers = identifyTriggers(nodes)
+    const integrations = identifyIntegrations(nodes)
+    const sentences = [
+      triggers.length > 0
+        ? `This workflow starts with ${joinList(triggers)} and runs ${nodes.length} nodes in total.`
+        : `This workflow runs ${nodes.length} nodes and has no trigger, so it is started manually or by another workflow.`
+    ]
+
+    if (integrations.length > 0) {
+      sentences.push(`It connects to ${joinList(integrations)}.`)
+    }
+    const branches = graph.branchPoints()
+    if (branches.length > 0) {
+      sentences.push(`Data splits at ${joinList(branches.map(branch => `"${branch.node}"`))}.`)
+    }
+    const merges = graph.mergePoints()
+    if (merges.length > 0) {
+      sentences.push(`Branches come back together at ${joinList(merges.map(merge => `"${merge.node}"`))}.`)
+    }
+    if (graph.hasCycles()) {
+      sentences.push('Part of the workflow runs in a loop.')
+    }
+
+    return sentences.join(' ')
+  }
+
+  private buildLearningObjectives(graph: WorkflowGraph, nodes: WorkflowNode[]): string[] {
+    const objectives: string[] = []
+    const triggers = identifyTriggers(nodes)
+
+    if (triggers.length > 0) {
+      objectives.push(`Explain how the ${joinList(triggers)} trigger starts the workflow`)
+    }
+    objectives.push(`Trace how data moves through all ${nodes.length} nodes in execution order`)
+    identifyIntegrations(nodes).forEach(service => {
+      objectives.push(`Configure the ${service} integration`)
+    })
+    graph.branchPoints().forEach(branch => {
+      objectives.push(branch.hasErrorOutput
+        ? `Describe how "${branch.node}" sends failed items to a separate error path`
+        : `Describe how "${branch.node}" decides which branch each item follows`)
+    })
+    graph.findCycles().forEach(cycle => {
+      objectives.push(`Follow the loop between ${joinList(cycle.map(name => `"${name}"`))}`)
+    })
+
+    return objectives
+  }
+
+  private buildOverviewStep(title: string, graph: WorkflowGraph, nodes: WorkflowNode[]): EducationalStep {
+    const order = nodes.map(node => node.name)
+    const entryNames = graph.entryNodes().filter(node => !isStickyNote(node)).map(node => node.name)
+
+    return {
+      id: 'step-overview',
+      title: 'Workflow Overview',
+      description: `A map of the "${title}" workflow before looking at each node.`,
+      explanation: `The nodes run in this order: ${order.join(' → ') || 'none'}. ` +
+        (entryNames.length > 0
+          ? `Execution begins at ${joinList(entryNames.map(name => `"${name}"`))}.`
+          : 'No node is marked as the starting point.'),
+      visualAids: [
+        {
+          type: 'flowchart',
+          altText: `Flowchart of the ${title} workflow with ${nodes.length} nodes`,
+          description: `Boxes for each node in order: ${order.join(', ')}, connected by arrows in the direction data flows.`
+        }
+      ],
+      quiz: entryNames.length > 0
+        ? this.buildQuiz(
+          'Which node starts this workflow?',
+          `"${entryNames[0]}"`,
+          order.filter(name => !entryNames.includes(name)).map(name => `"${name}"`),
+          `"${entryNames[0]}" has no incoming connections, so it is where every run begins.`,
+          'overview'
+        )
+        : undefined
+    }
+  }
+
+  private buildNodeStep(
+    node: WorkflowNode,
+    index: number,
+    explanations: NodeExplanation[],
+    graph: WorkflowGraph
+  ): EducationalStep {
+    const explanation = explanations[index]
+    const definition = describeNodeType(node.type)
+    const otherDescriptions = [
+      ...explanations.map(other => describeNodeType(other.type).description),
+      ...nodeCatalog.map(entry => entry.description)
+    ].filter(description => description !== definition.description)
+
+    const code = this.extractCode(node)
+
+    return {
+      id: `step-${index + 1}-${slugify(node.name)}`,
+      title: `Step ${index + 1}: ${node.name}`,
+      description: `${definition.displayName} node that ${definition.description}.`,
+      nodeId: node.id,
+      ...(code && {
+        code: code.code,
+        codeLanguage: code.language,
+        codeDescription: code.language === 'json'
+          ? `The settings of the "${node.name}" node. ${explanation.summary}`
+          : `The ${LANGUAGE_NAMES[code.language] || code.language} code the "${node.name}" node runs. ${explanation.summary}`
+      }),
+      explanation: [explanation.summary, ...this.describeConnections(node, graph)].join(' '),
+      visualAids: [
+        {
+          type: 'diagram',
+          altText: `Diagram of the ${node.name} node and its connections`,
+          description: this.describeNeighbourhood(node, graph)
+        }
+      ],
+      quiz: this.buildQuiz(
+        `What does the "${node.name}" node do in this workflow?`,
+        capitalize(definition.description),
+        otherDescriptions.map(capitalize),
+        `"${node.name}" is a ${definition.displayName} node, which ${definition.description}.`,
+        node.name
+      )
+    }
+  }
+
+  private buildSummaryStep(title: string, nodes: WorkflowNode[]): EducationalStep {
+    const integrations = identifyIntegrations(nodes)
+
+    return {
+      id: 'step-summary',
+      title: 'Putting It All Together',
+      description: `Review how the pieces of "${title}" work as one automation.`,
+      explanation: `You walked through ${nodes.length} nodes from trigger to final action. ` +
+        (integrations.length > 0
+          ? `Before running it yourself, set up credentials for ${joinList(integrations)}.`
+          : 'It needs no external credentials, so you can import it and run it straight away.'),
+      visualAids: []
+    }
+  }
+
+  private describeConnections(node: WorkflowNode, graph: WorkflowGraph): string[] {
+    const sentences: string[] = []
+    const incoming = unique(graph.incoming(node.name, 'main').map(edge => `"${edge.source.node}"`))
+    const outgoing = graph.outgoing(node.name, 'main')
+    const regular = outgoing.filter(edge => !edge.isErrorOutput)
+    const errors = unique(outgoing.filter(edge => edge.isErrorOutput).map(edge => `"${edge.target.node}"`))
+
+    if (incoming.length > 0) {
+      sentences.push(`It receives items from ${joinList(incoming)}.`)
+    }
+
+    const outputIndexes = unique(regular.map(edge => String(edge.source.index)))
+    if (outputIndexes.length > 1) {
+      outputIndexes.forEach(outputIndex => {
+        const targets = unique(
+          regular.filter(edge => String(edge.source.index) === outputIndex).map(edge => `"${edge.target.node}"`)
+        )
+        sentences.push(`Output ${Number(outputIndex) + 1} goes to ${joinList(targets)}.`)
+      })
+    } else if (regular.length > 0) {
+      sentences.push(`It passes its output to ${joinList(unique(regular.map(edge => `"${edge.target.node}"`)))}.`)
+    }
+
+    if (errors.length > 0) {
+      sentences.push(`If it fails, the error output goes to ${joinList(errors)}.`)
+    }
+
+    const subNodes = graph.subNodesOf(node.name)
+    if (subNodes.length > 0) {
+      sentences.push(`It uses ${joinList(subNodes.map(sub => `"${sub.name}"`))} as attached sub-nodes.`)
+    }
+
+    return sentences
+  }
+
+  private describeNeighbourhood(node: WorkflowNode, graph: WorkflowGraph): string {
+    const before = unique(graph.incoming(node.name).map(edge => edge.source.node))
+    const after = unique(graph.outgoing(node.name).map(edge => edge.target.node))
+
+    return `${node.name} shown in the centre` +
+      (before.length > 0 ? `, with arrows arriving from ${joinList(before)}` : '') +
+      (after.length > 0 ? `, and arrows leaving to ${joinList(after)}` : '') +
+      '.'
+  }
+
+  private extractCode(node: WorkflowNode): { code: string; language: string } | undefined {
+    const parameters = node.parameters || {}
+    const codeParameter = Object.keys(CODE_PARAMETERS).find(name => typeof parameters[name] === 'string' && parameters[name])
+    if (codeParameter) {
+      return { code: parameters[codeParameter] as string, language: CODE_PARAMETERS[codeParameter] }
+    }
+    if (Object.keys(parameters).length === 0) {
+      return undefined
+    }
+    return { code: JSON.stringify(sortKeys(parameters), null, 2), language: 'json' }
+  }
+
+  /**
+   * Four options with the correct one placed by a hash of the seed, so the answer key is stable
+   */
+  private buildQuiz(
+    question: string,
+    correct: string,
+    distractorPool: string[],
+    explanation: string,
+    seed: string
+  ): QuizQuestion | undefined {
+    const distractors = unique(distractorPool.filter(option => option !== correct))
+    if (distractors.length === 0) {
+      return undefined
+    }
+
+    const start = hash(seed) % distractors.length
+    const chosen = [...distractors.slice(start), ...distractors.slice(0, start)]
+      .slice(0, QUIZ_OPTION_COUNT - 1)
+    const correctAnswer = hash(`${seed}:answer`) % (chosen.length + 1)
+    const options = [...chosen.slice(0, correctAnswer), correct, ...chosen.slice(correctAnswer)]
+
+    const optionScreenReaderText = options.map((option, index) => `Option ${index + 1} of ${options.length}: ${option}`)
+
+    return { question, options, optionScreenReaderText, correctAnswer, explanation }
+  }
+
+  private buildInteractiveElements(
+    title: string,
+    graph: WorkflowGraph,
+    nodes: WorkflowNode[],
+    steps: EducationalStep[]
+  ): InteractiveElement[] {
+    const slug = slugify(title)
+    const names = new Set(nodes.map(node => node.name))
+    const edges = graph.edges
+      .filter(edge => names.has(edge.source.node) && names.has(edge.target.node))
+      .map(edge => ({
+        source: edge.source.node,
+        target: edge.target.node,
+        type: edge.isErrorOutput ? 'error' : edge.source.type
+      }))
+
+    return [
+      {
+        type: 'simulation',
+        id: `sim-${slug}`,
+        title: `Interactive ${title} Simulator`,
+        content: {
+          workflow: steps.filter(step => step.nodeId),
+          simulationData: nodes.map(node => ({
+            nodeId: node.id,
+            sampleData: { input: `Items arriving at ${node.name}`, output: `Items produced by ${node.name}` },
+            variables: {}
+          }))
+        },
+        accessibility: {
+          screenReaderText: `Interactive simulation of ${title} workflow`,
+          keyboardNavigation: true,
+          highContrast: true
+        }
+      },
+      {
+        type: 'diagram',
+        id: `diagram-${slug}`,
+        title: `${title} Flow Diagram`,
+        content: {
+          nodes: nodes.map(node => ({ id: node.id, title: node.name })),
+          edges
+        },
+        accessibility: {
+          screenReaderText: `Flow diagram showing ${nodes.length} nodes and ${edges.length} connections of ${title}`,
+          keyboardNavigation: true,
+          highContrast: true,
+          audioDescription: `Audio description: This workflow contains ${nodes.length} nodes. ` +
+            nodes.map((node, index) => `Node ${index + 1}: ${node.name}`).join('. ')
+        }
+      }
+    ]
+  }
+
+  private assessComplexity(graph: WorkflowGraph, nodes: WorkflowNode[]): EducationalContent['complexity'] {
+    const difficulties = nodes.map(node => describeNodeType(node.type).difficulty)
+
+    if (nodes.length > 10 || graph.hasCycles() || difficulties.includes('advanced')) return 'advanced'
+    if (nodes.length > 5 || graph.branchPoints().length > 0 || difficulties.includes('intermediate')) return 'intermediate'
+    return 'beginner'
+  }
+
+  private estimateDuration(nodeCount: number, complexity: EducationalContent['complexity']): number {
+    const multiplier = complexity === 'advanced' ? 1.5 : complexity === 'intermediate' ? 1.2 : 1.0
+    return Math.ceil((10 + nodeCount * 3) * multiplier)
+  }
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    )
+  }
+  return value
+}
+
+// FNV-1a, enough to spread quiz answers without pulling in a dependency
+function hash(input: string): number {
+  let value = 0x811c9dc5
+  for (let i = 0; i < input.length; i++) {
+    value ^= input.charCodeAt(i)
+    value = Math.imul(value, 0x01000193)
+  }
+  return value >>> 0
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'node'
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items.join('')
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`
+}
+
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)]
+}
+
+export const offlineStorybookGenerator = new OfflineStorybookGenerator()
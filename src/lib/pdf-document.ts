@@ -0,0 +1,273 @@
+// PDF Document
+// Lays out headings, paragraphs and code as a tagged PDF: standard fonts, A4 pages, and a structure
+// tree so screen readers get the headings and reading order rather than loose glyphs. Text outside
+// Windows-1252 (the standard fonts' encoding) is written as '?'.
+
+export type PdfBlockRole = 'H1' | 'H2' | 'H3' | 'P' | 'Code'
+
+export interface PdfBlock {
+  role: PdfBlockRole
+  text: string
+}
+
+export interface PdfDocumentOptions {
+  title: string
+  language: string
+}
+
+type FontName = 'F1' | 'F2' | 'F3'
+
+interface BlockStyle {
+  font: FontName
+  size: number
+  spaceBefore: number
+}
+
+interface Page {
+  operations: string[]
+  marks: number[] // block index for each marked-content id on the page
+}
+
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 56
+const LINE_HEIGHT = 1.35
+const FOOTER_SIZE = 8
+
+const FONTS: Record<FontName, string> = {
+  F1: 'Helvetica',
+  F2: 'Helvetica-Bold',
+  F3: 'Courier'
+}
+
+const STYLES: Record<PdfBlockRole, BlockStyle> = {
+  H1: { font: 'F2', size: 20, spaceBefore: 0 },
+  H2: { font: 'F2', size: 15, spaceBefore: 16 },
+  H3: { font: 'F2', size: 12, spaceBefore: 12 },
+  P: { font: 'F1', size: 10.5, spaceBefore: 6 },
+  Code: { font: 'F3', size: 9, spaceBefore: 4 }
+}
+
+// Glyph widths in thousandths of the font size for ' ' through '~', from the fonts' AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+]
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+]
+
+// Unicode characters Windows-1252 places in 0x80-0x9f
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89,
+  'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95,
+  '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+}
+
+/**
+ * The blocks in order, wrapped to the page width and broken across pages, with page numbers in the
+ * footer (marked as artifacts, so assistive technology skips them)
+ */
+export function renderPdf(blocks: PdfBlock[], options: PdfDocumentOptions): Buffer {
+  const pages = layout(blocks)
+
+  // Objects 1-8 are fixed; pages and their content streams follow, then one structure element per block
+  const firstPage = 9
+  const firstElement = firstPage + pages.length * 2
+  const pageRef = (index: number) => `${firstPage + index * 2} 0 R`
+  const elementRef = (index: number) => `${firstElement + index} 0 R`
+
+  const objects: string[] = [
+    `<< /Type /Catalog /Pages 2 0 R /StructTreeRoot 3 0 R /MarkInfo << /Marked true >> /Lang ${pdfText(options.language)} ` +
+      '/ViewerPreferences << /DisplayDocTitle true >> >>',
+    `<< /Type /Pages /Kids [${pages.map((page, index) => pageRef(index)).join(' ')}] /Count ${pages.length} >>`,
+    `<< /Type /StructTreeRoot /K 5 0 R /ParentTree 4 0 R /ParentTreeNextKey ${pages.length} >>`,
+    `<< /Nums [${pages.map((page, index) => `${index} [${page.marks.map(elementRef).join(' ')}]`).join(' ')}] >>`,
+    `<< /Type /StructElem /S /Document /P 3 0 R /K [${blocks.map((block, index) => elementRef(index)).join(' ')}] >>`,
+    ...(Object.keys(FONTS) as FontName[]).map(font =>
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[font]} /Encoding /WinAnsiEncoding >>`
+    )
+  ]
+  const info = [
+    `/Title ${pdfText(options.title)}`,
+    `/CreationDate ${pdfText(pdfDate(new Date()))}`
+  ].join(' ')
+
+  pages.forEach((page, index) => {
+    const footer = `Page ${index + 1} of ${pages.length}`
+    const content = [
+      ...page.operations,
+      `/Artifact BMC BT /F1 ${FOOTER_SIZE} Tf ${number(PAGE_WIDTH - MARGIN - textWidth(footer, 'F1', FOOTER_SIZE))} ${number(MARGIN / 2)} Td ${winAnsiString(footer)} Tj ET EMC`
+    ].join('\n')
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Contents ${firstPage + index * 2 + 1} 0 R ` +
+        `/Resources << /Font << /F1 6 0 R /F2 7 0 R /F3 8 0 R >> >> /StructParents ${index} /Tabs /S >>`,
+      stream(content)
+    )
+  })
+
+  blocks.forEach((block, index) => {
+    const parts = pages.flatMap((page, pageIndex) => page.marks.flatMap((mark, mcid) =>
+      mark === index ? [`<< /Type /MCR /Pg ${pageRef(pageIndex)} /MCID ${mcid} >>`] : []
+    ))
+    objects.push(`<< /Type /StructElem /S /${block.role} /P 5 0 R /K [${parts.join(' ')}] >>`)
+  })
+
+  return serialize(objects, info)
+}
+
+function layout(blocks: PdfBlock[]): Page[] {
+  const pages: Page[] = [{ operations: [], marks: [] }]
+  const width = PAGE_WIDTH - MARGIN * 2
+  let y = PAGE_HEIGHT - MARGIN
+
+  blocks.forEach((block, index) => {
+    const style = STYLES[block.role]
+    const leading = style.size * LINE_HEIGHT
+    const lines = wrap(block.text, style, width)
+    y -= pages[pages.length - 1].operations.length > 0 ? style.spaceBefore : 0
+
+    // Keep a heading with the first lines that follow it
+    const needed = block.role.startsWith('H') ? leading * 3 : leading
+    let lineIndex = 0
+    while (lineIndex < lines.length) {
+      if (y - needed < MARGIN) {
+        pages.push({ operations: [], marks: [] })
+        y = PAGE_HEIGHT - MARGIN
+      }
+
+      const page = pages[pages.length - 1]
+      const mcid = page.marks.length
+      page.marks.push(index)
+      page.operations.push(`/${block.role} << /MCID ${mcid} >> BDC BT /${style.font} ${style.size} Tf`)
+
+      let first = true
+      while (lineIndex < lines.length && y - leading >= MARGIN) {
+        y -= leading
+        page.operations.push(first
+          ? `${MARGIN} ${number(y + (leading - style.size))} Td ${winAnsiString(lines[lineIndex])} Tj`
+          : `0 ${number(-leading)} Td ${winAnsiString(lines[lineIndex])} Tj`)
+        first = false
+        lineIndex++
+      }
+      page.operations.push('ET EMC')
+    }
+  })
+
+  return pages
+}
+
+// Lines that fit the width; code keeps its own line breaks
+function wrap(text: string, style: BlockStyle, width: number): string[] {
+  const lines: string[] = []
+  const paragraphs = style.font === 'F3' ? text.split('\n') : [text.replace(/\s+/g, ' ').trim()]
+
+  for (const paragraph of paragraphs) {
+    let line = ''
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word
+      if (textWidth(candidate, style.font, style.size) <= width) {
+        line = candidate
+        continue
+      }
+      if (line) lines.push(line)
+
+      // A word wider than the page is broken wherever it runs out of room
+      line = ''
+      for (const character of word) {
+        if (line && textWidth(line + character, style.font, style.size) > width) {
+          lines.push(line)
+          line = ''
+        }
+        line += character
+      }
+    }
+    lines.push(line)
+  }
+
+  return lines
+}
+
+function textWidth(text: string, font: FontName, size: number): number {
+  let units = 0
+  for (const character of text) {
+    const code = character.charCodeAt(0)
+    if (font === 'F3') {
+      units += 600
+    } else {
+      const widths = font === 'F2' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+      units += code >= 32 && code <= 126 ? widths[code - 32] : 556
+    }
+  }
+  return (units / 1000) * size
+}
+
+function winAnsiString(text: string): string {
+  let result = ''
+  for (const character of text) {
+    const code = character.charCodeAt(0)
+    const byte = WIN_ANSI_EXTRAS[character] ?? ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff) ? code : 0x3f)
+    result += byte === 0x28 || byte === 0x29 || byte === 0x5c ? `\\${String.fromCharCode(byte)}` : String.fromCharCode(byte)
+  }
+  return `(${result})`
+}
+
+// Document-level strings (title, language) as UTF-16, so any script survives
+function pdfText(text: string): string {
+  const bytes = Buffer.from(`\ufeff${text}`, 'utf16le').swap16()
+  return `<${bytes.toString('hex')}>`
+}
+
+function pdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`
+}
+
+function stream(content: string): string {
+  return `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+}
+
+function number(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
+
+function serialize(objects: string[], info: string): Buffer {
+  const chunks = ['%PDF-1.7\n%âãÏÓ\n']
+  const offsets: number[] = []
+  let length = Buffer.byteLength(chunks[0], 'latin1')
+
+  const add = (body: string) => {
+    offsets.push(length)
+    const chunk = `${offsets.length} 0 obj\n${body}\nendobj\n`
+    chunks.push(chunk)
+    length += Buffer.byteLength(chunk, 'latin1')
+  }
+  objects.forEach(add)
+  add(`<< ${info} >>`)
+
+  const xref = [
+    'xref',
+    `0 ${offsets.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${offsets.length + 1} /Root 1 0 R /Info ${offsets.length} 0 R >>`,
+    'startxref',
+    String(length),
+    '%%EOF',
+    ''
+  ].join('\n')
+  chunks.push(xref)
+
+  return Buffer.from(chunks.join(''), 'latin1')
+}
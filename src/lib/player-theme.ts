@@ -0,0 +1,182 @@
+// Player Themes
+// The storybook player's colours as named tokens: the built-in light, dark and high-contrast themes,
+// and custom themes from a generation request's customizations.theme. The player reads the tokens
+// as CSS custom properties, and PLAYER_THEME_PAIRS lists every token drawn on another, which is what
+// the contrast checker measures.
+
+export type PlayerThemeName = 'light' | 'dark' | 'high-contrast'
+
+export interface PlayerThemeTokens {
+  background: string // the player
+  surface: string // panels: explanation, quiz, control bar
+  text: string
+  mutedText: string // step counts, captions, hints
+  border: string // outlines of panels, inputs and quiz options
+  accent: string // links and the selected step
+  accentText: string // text on accent, such as primary buttons
+  focusRing: string
+  success: string
+  error: string
+  codeBackground: string
+  codeText: string
+}
+
+export type PlayerThemeToken = keyof PlayerThemeTokens
+
+export interface PlayerTheme {
+  name: string // a built-in name, or 'custom'
+  tokens: PlayerThemeTokens
+}
+
+// A theme of your own: a built-in theme with some of its tokens replaced
+export interface PlayerThemeCustomization {
+  base?: Exclude<PlayerThemeName, 'high-contrast'>
+  tokens: Partial<PlayerThemeTokens>
+}
+
+// 'auto' follows the reader's light or dark preference
+export type PlayerThemeSetting = 'light' | 'dark' | 'auto' | PlayerThemeCustomization
+
+// 'text' needs the full text ratio; 'non-text' is an outline or indicator (WCAG 1.4.11)
+export type ContrastKind = 'text' | 'large-text' | 'non-text'
+
+export interface PlayerThemePair {
+  foreground: PlayerThemeToken
+  background: PlayerThemeToken
+  kind: ContrastKind
+}
+
+export const PLAYER_THEMES: Record<PlayerThemeName, PlayerTheme> = {
+  light: {
+    name: 'light',
+    tokens: {
+      background: '#ffffff',
+      surface: '#f3f4f6',
+      text: '#111827',
+      mutedText: '#374151',
+      border: '#6b7280',
+      accent: '#1e40af',
+      accentText: '#ffffff',
+      focusRing: '#1d4ed8',
+      success: '#14532d',
+      error: '#991b1b',
+      codeBackground: '#f9fafb',
+      codeText: '#14532d'
+    }
+  },
+  dark: {
+    name: 'dark',
+    tokens: {
+      background: '#111827',
+      surface: '#1f2937',
+      text: '#f9fafb',
+      mutedText: '#d1d5db',
+      border: '#9ca3af',
+      accent: '#93c5fd',
+      accentText: '#111827',
+      focusRing: '#60a5fa',
+      success: '#86efac',
+      error: '#fca5a5',
+      codeBackground: '#030712',
+      codeText: '#bbf7d0'
+    }
+  },
+  'high-contrast': {
+    name: 'high-contrast',
+    tokens: {
+      background: '#000000',
+      surface: '#000000',
+      text: '#ffffff',
+      mutedText: '#ffffff',
+      border: '#ffffff',
+      accent: '#ffff00',
+      accentText: '#000000',
+      focusRing: '#ffff00',
+      success: '#00ff00',
+      error: '#ff9999',
+      codeBackground: '#000000',
+      codeText: '#ffffff'
+    }
+  }
+}
+
+export const PLAYER_THEME_TOKENS = Object.keys(PLAYER_THEMES.light.tokens) as PlayerThemeToken[]
+
+const onBackgrounds = (foreground: PlayerThemeToken, kind: ContrastKind): PlayerThemePair[] => [
+  { foreground, background: 'background', kind },
+  { foreground, background: 'surface', kind }
+]
+
+export const PLAYER_THEME_PAIRS: PlayerThemePair[] = [
+  ...onBackgrounds('text', 'text'),
+  ...onBackgrounds('mutedText', 'text'),
+  ...onBackgrounds('accent', 'text'),
+  ...onBackgrounds('success', 'text'),
+  ...onBackgrounds('error', 'text'),
+  { foreground: 'accentText', background: 'accent', kind: 'text' },
+  { foreground: 'codeText', background: 'codeBackground', kind: 'text' },
+  ...onBackgrounds('border', 'non-text'),
+  ...onBackgrounds('focusRing', 'non-text'),
+  { foreground: 'focusRing', background: 'codeBackground', kind: 'non-text' }
+]
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i
+
+/**
+ * The theme for a setting: light when there is none, and for 'auto' whichever the reader prefers
+ */
+export function resolvePlayerTheme(setting: PlayerThemeSetting | undefined, prefersDark = false): PlayerTheme {
+  if (setting && typeof setting === 'object') return customPlayerTheme(setting)
+  if (setting === 'auto') return PLAYER_THEMES[prefersDark ? 'dark' : 'light']
+  return PLAYER_THEMES[setting || 'light']
+}
+
+export function customPlayerTheme(customization: PlayerThemeCustomization): PlayerTheme {
+  const base = PLAYER_THEMES[customization.base || 'light']
+  return { name: 'custom', tokens: { ...base.tokens, ...customization.tokens } }
+}
+
+/**
+ * Every theme a storybook with this setting can be shown in: the built-in themes, which the reader
+ * can switch between, and the custom theme if there is one
+ */
+export function playerThemesFor(setting: PlayerThemeSetting | undefined): PlayerTheme[] {
+  const themes = Object.values(PLAYER_THEMES)
+  return setting && typeof setting === 'object' ? [...themes, customPlayerTheme(setting)] : themes
+}
+
+/**
+ * Why a theme setting from a request is unusable, or null when it is fine
+ */
+export function validatePlayerThemeSetting(setting: unknown): string | null {
+  if (setting === undefined || setting === 'light' || setting === 'dark' || setting === 'auto') return null
+  if (!setting || typeof setting !== 'object' || Array.isArray(setting)) {
+    return 'customizations.theme must be "light", "dark", "auto" or { base?, tokens }'
+  }
+
+  const { base, tokens } = setting as Partial<PlayerThemeCustomization>
+  if (base !== undefined && base !== 'light' && base !== 'dark') {
+    return 'customizations.theme.base must be "light" or "dark"'
+  }
+  if (!tokens || typeof tokens !== 'object') {
+    return 'customizations.theme.tokens is required'
+  }
+  for (const [token, value] of Object.entries(tokens)) {
+    if (!PLAYER_THEME_TOKENS.includes(token as PlayerThemeToken)) {
+      return `Unknown theme token "${token}"; tokens are ${PLAYER_THEME_TOKENS.join(', ')}`
+    }
+    if (typeof value !== 'string' || !HEX_COLOR.test(value)) {
+      return `Theme token ${token} must be a hex colour such as "#1e40af"`
+    }
+  }
+  return null
+}
+
+/**
+ * The tokens as CSS custom properties (--player-background, --player-muted-text, ...) for a style attribute
+ */
+export function playerThemeVariables(theme: PlayerTheme): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(theme.tokens).map(([token, value]) => [`--player-${token.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}`, value])
+  )
+}
@@ -0,0 +1,81 @@
+// RunPod
+// Clients for the serverless endpoints configured in the environment, and webhook plumbing
+
+import { timingSafeEqual } from 'crypto'
+import { RunPodClient } from './runpod-client'
+
+export * from './types'
+export * from './video-output'
+export { RunPodClient } from './runpod-client'
+export type { RunPodClientOptions } from './runpod-client'
+
+// 'video' renders scenes with Wan2.2; 'composite' stitches scenes, narration and subtitles
+export type RunPodEndpoint = 'video' | 'composite'
+
+/**
+ * RUNPOD_API_KEY plus RUNPOD_ENDPOINT_ID; RUNPOD_BASE_URL points at the local stub for offline runs
+ */
+export function isRunPodConfigured(): boolean {
+  return Boolean(process.env.RUNPOD_API_KEY && process.env.RUNPOD_ENDPOINT_ID)
+}
+
+const clients = new Map<RunPodEndpoint, RunPodClient>()
+
+export function getRunPodClient(endpoint: RunPodEndpoint = 'video'): RunPodClient {
+  let client = clients.get(endpoint)
+  if (!client) {
+    if (!isRunPodConfigured()) {
+      throw new Error('RunPod is not configured: set RUNPOD_API_KEY and RUNPOD_ENDPOINT_ID')
+    }
+    client = new RunPodClient({
+      apiKey: process.env.RUNPOD_API_KEY!,
+      endpointId: endpoint === 'composite'
+        ? process.env.RUNPOD_COMPOSITE_ENDPOINT_ID || process.env.RUNPOD_ENDPOINT_ID!
+        : process.env.RUNPOD_ENDPOINT_ID!,
+      baseUrl: process.env.RUNPOD_BASE_URL || undefined
+    })
+    clients.set(endpoint, client)
+  }
+  return client
+}
+
+/**
+ * Throw unless webhooks are off or have a secret: an open webhook would let anyone who can reach it
+ * wake workers on demand. Called at startup so a misconfigured deployment does not start.
+ */
+export function assertRunPodWebhookConfig(): void {
+  if (process.env.RUNPOD_WEBHOOK_URL && !process.env.RUNPOD_WEBHOOK_SECRET) {
+    throw new Error('RUNPOD_WEBHOOK_URL is set without RUNPOD_WEBHOOK_SECRET; set a secret or unset the URL')
+  }
+}
+
+/**
+ * Where RunPod should POST finished jobs, if this deployment is reachable (RUNPOD_WEBHOOK_URL).
+ * RunPod does not sign webhooks, so the shared RUNPOD_WEBHOOK_SECRET travels in the query string.
+ */
+export function runPodWebhookUrl(): string | undefined {
+  const base = process.env.RUNPOD_WEBHOOK_URL
+  if (!base) return undefined
+  assertRunPodWebhookConfig()
+
+  const url = new URL(base)
+  url.searchParams.set('token', process.env.RUNPOD_WEBHOOK_SECRET!)
+  return url.toString()
+}
+
+// Without a secret no webhook URL is handed out, so nothing is accepted either
+export function verifyRunPodWebhook(token: string | null): boolean {
+  const secret = process.env.RUNPOD_WEBHOOK_SECRET
+  if (!secret || !token) return false
+
+  const expected = Buffer.from(secret)
+  const given = Buffer.from(token)
+  return expected.length === given.length && timingSafeEqual(expected, given)
+}
+
+/**
+ * Wake whichever client in this process is waiting on the job, so it checks the job's status now
+ */
+export function receiveRunPodWebhook(jobId: string): boolean {
+  return Array.from(clients.values()).some(client => client.receiveWebhook(jobId))
+}
@@ -0,0 +1,244 @@
+// RunPod Client
+// Serverless endpoint client: submit, poll with backoff, stream partial output, cancel,
+// and take webhook callbacks. Points at api.runpod.ai or, via baseUrl, the local stub.
+
+import {
+  RunPodError,
+  RunPodJobError,
+  RunPodJobState,
+  RunPodRunOptions,
+  RunPodStreamResponse,
+  RunPodWaitOptions,
+  TERMINAL_STATUSES
+} from './types'
+
+export interface RunPodClientOptions {
+  apiKey: string
+  endpointId: string
+  baseUrl?: string
+  requestTimeoutMs?: number
+}
+
+const DEFAULT_BASE_URL = 'https://api.runpod.ai/v2'
+
+const WAIT_DEFAULTS = {
+  timeoutMs: 10 * 60 * 1000,
+  initialIntervalMs: 1000,
+  maxIntervalMs: 15000
+}
+
+// Consecutive failed polls tolerated before giving up on a job we cannot see
+const MAX_POLL_FAILURES = 5
+
+export class RunPodClient {
+  readonly endpointId: string
+  private baseUrl: string
+  private wakers = new Map<string, Set<() => void>>()
+
+  constructor(private options: RunPodClientOptions) {
+    this.endpointId = options.endpointId
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '')
+  }
+
+  async run<I>(input: I, options: RunPodRunOptions = {}): Promise<RunPodJobState> {
+    const policy = {
+      ...(options.executionTimeoutMs && { executionTimeout: options.executionTimeoutMs }),
+      ...(options.ttlMs && { ttl: options.ttlMs })
+    }
+
+    return this.request<RunPodJobState>('POST', 'run', {
+      input,
+      ...(options.webhook && { webhook: options.webhook }),
+      ...(Object.keys(policy).length > 0 && { policy })
+    })
+  }
+
+  async status<O = unknown>(jobId: string): Promise<RunPodJobState<O>> {
+    return this.request<RunPodJobState<O>>('GET', `status/${encodeURIComponent(jobId)}`)
+  }
+
+  async cancel(jobId: string): Promise<RunPodJobState> {
+    return this.request<RunPodJobState>('POST', `cancel/${encodeURIComponent(jobId)}`)
+  }
+
+  /**
+   * Partial outputs of a job that yields them, until the job finishes
+   */
+  async *stream(jobId: string, options: Omit<RunPodWaitOptions, 'onOutput'> = {}): AsyncGenerator<unknown> {
+    // Stops the polling when the consumer breaks out early
+    const controller = new AbortController()
+    options.signal?.addEventListener('abort', () => controller.abort())
+
+    const buffered: unknown[] = []
+    let finished = false
+    let failure: unknown
+    let wake: (() => void) | null = null
+
+    void this.waitForCompletion(jobId, {
+      ...options,
+      signal: controller.signal,
+      onOutput: output => {
+        buffered.push(output)
+        wake?.()
+      }
+    })
+      .catch(error => {
+        failure = error
+      })
+      .finally(() => {
+        finished = true
+        wake?.()
+      })
+
+    try {
+      while (buffered.length > 0 || !finished) {
+        if (buffered.length > 0) {
+          yield buffered.shift()
+          continue
+        }
+        await new Promise<void>(resolve => {
+          wake = resolve
+        })
+        wake = null
+      }
+    } finally {
+      controller.abort()
+    }
+
+    if (failure) throw failure
+  }
+
+  /**
+   * Poll until the job completes, backing off between polls. A webhook for the job ends the
+   * current wait early. Jobs still running at the deadline are cancelled.
+   */
+  async waitForCompletion<O = unknown>(jobId: string, options: RunPodWaitOptions = {}): Promise<RunPodJobState<O>> {
+    const { timeoutMs, initialIntervalMs, maxIntervalMs } = { ...WAIT_DEFAULTS, ...stripUndefined(options) }
+    const deadline = Date.now() + timeoutMs
+    let interval = initialIntervalMs
+    let failures = 0
+    let lastStatus: RunPodJobState['status'] | undefined
+
+    while (true) {
+      if (options.signal?.aborted) {
+        throw new RunPodJobError(`Stopped waiting for RunPod job ${jobId}`, jobId, lastStatus || 'IN_QUEUE')
+      }
+
+      let state: RunPodJobState<O> | undefined
+      try {
+        state = await this.poll<O>(jobId, options)
+        failures = 0
+      } catch (error) {
+        if (!isTransient(error) || ++failures >= MAX_POLL_FAILURES) throw error
+        console.warn(`⚠️ RunPod poll for ${jobId} failed (${failures}/${MAX_POLL_FAILURES}):`, error)
+      }
+
+      if (state) {
+        if (state.status !== lastStatus) {
+          lastStatus = state.status
+          options.onStatus?.(state)
+        }
+
+        if (state.status === 'COMPLETED') return state
+        if (TERMINAL_STATUSES.includes(state.status)) {
+          throw new RunPodJobError(
+            `RunPod job ${jobId} ${state.status.toLowerCase().replace('_', ' ')}${state.error ? `: ${state.error}` : ''}`,
+            jobId,
+            state.status
+          )
+        }
+      }
+
+      const remaining = deadline - Date.now()
+      if (remaining <= 0) {
+        await this.cancel(jobId).catch(error => console.warn(`⚠️ Failed to cancel RunPod job ${jobId}:`, error))
+        throw new RunPodJobError(`RunPod job ${jobId} did not finish within ${timeoutMs}ms`, jobId, 'TIMED_OUT')
+      }
+
+      await this.sleep(jobId, Math.min(interval, remaining), options.signal)
+      interval = Math.min(Math.round(interval * 1.5), maxIntervalMs)
+    }
+  }
+
+  /**
+   * A webhook said the job finished: whoever is waiting on it polls now instead of at the next interval.
+   * The webhook's body is never taken as the job's state; only the API's answer counts.
+   */
+  receiveWebhook(jobId: string): boolean {
+    const waiting = this.wakers.get(jobId)
+    if (!waiting) return false
+
+    waiting.forEach(wake => wake())
+    return true
+  }
+
+  private async poll<O>(jobId: string, options: RunPodWaitOptions): Promise<RunPodJobState<O>> {
+    if (!options.onOutput) {
+      return this.status<O>(jobId)
+    }
+
+    const streamed = await this.request<RunPodStreamResponse>('GET', `stream/${encodeURIComponent(jobId)}`)
+    streamed.stream.forEach(chunk => options.onOutput!(chunk.output))
+    // The stream only carries partial output; the final state (output, billed time) comes from /status
+    return TERMINAL_STATUSES.includes(streamed.status)
+      ? this.status<O>(jobId)
+      : { id: jobId, status: streamed.status }
+  }
+
+  private sleep(jobId: string, ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const waiting = this.wakers.get(jobId) || new Set<() => void>()
+      const done = () => {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', done)
+        waiting.delete(done)
+        if (waiting.size === 0) this.wakers.delete(jobId)
+        resolve()
+      }
+      const timer = setTimeout(done, ms)
+
+      waiting.add(done)
+      this.wakers.set(jobId, waiting)
+      signal?.addEventListener('abort', done)
+    })
+  }
+
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+    const url = `${this.baseUrl}/${encodeURIComponent(this.endpointId)}/${path}`
+
+    let response: Response
+    try {
+      response = await fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${this.options.apiKey}`,
+          ...(body !== undefined && { 'Content-Type': 'application/json' })
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: AbortSignal.timeout(this.options.requestTimeoutMs ?? 30000)
+      })
+    } catch (error) {
+      throw new RunPodError(`RunPod ${method} ${path} failed: ${error instanceof Error ? error.message : error}`)
+    }
+
+    const text = await response.text()
+    if (!response.ok) {
+      throw new RunPodError(`RunPod ${method} ${path} returned ${response.status}: ${text.slice(0, 200)}`, response.status)
+    }
+
+    try {
+      return JSON.parse(text) as T
+    } catch {
+      throw new RunPodError(`RunPod ${method} ${path} returned invalid JSON`, response.status)
+    }
+  }
+}
+
+// Network errors, rate limits and server errors are worth another poll; auth and 404s are not
+function isTransient(error: unknown): boolean {
+  return error instanceof RunPodError && (error.status === undefined || error.status === 429 || error.status >= 500)
+}
+
+function stripUndefined<T extends object>(options: T): Partial<T> {
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) as Partial<T>
+}
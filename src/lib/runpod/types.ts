@@ -0,0 +1,60 @@
+// RunPod Types
+// Request and response shapes of the RunPod serverless API (/v2/<endpoint>/...)
+
+export type RunPodStatus = 'IN_QUEUE' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED' | 'CANCELLED' | 'TIMED_OUT'
+
+export const TERMINAL_STATUSES: RunPodStatus[] = ['COMPLETED', 'FAILED', 'CANCELLED', 'TIMED_OUT']
+
+export interface RunPodJobState<O = unknown> {
+  id: string
+  status: RunPodStatus
+  delayTime?: number // ms spent waiting for a worker
+  executionTime?: number // ms of billed GPU time
+  output?: O
+  error?: string
+}
+
+export interface RunPodStreamChunk {
+  output: unknown
+}
+
+export interface RunPodStreamResponse {
+  status: RunPodStatus
+  stream: RunPodStreamChunk[]
+}
+
+export interface RunPodRunOptions {
+  webhook?: string // RunPod POSTs the final job state here
+  executionTimeoutMs?: number // RunPod stops the worker after this long
+  ttlMs?: number // how long the job may live, queue time included
+}
+
+export interface RunPodWaitOptions {
+  timeoutMs?: number
+  initialIntervalMs?: number
+  maxIntervalMs?: number
+  onStatus?: (state: RunPodJobState) => void
+  // Poll /stream instead of /status and hand over partial outputs as they arrive
+  onOutput?: (output: unknown) => void
+  signal?: AbortSignal
+}
+
+/**
+ * The API refused or failed a request (bad key, unknown endpoint, 5xx)
+ */
+export class RunPodError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message)
+    this.name = 'RunPodError'
+  }
+}
+
+/**
+ * A job ended without output: failed, cancelled, or ran past its time limit
+ */
+export class RunPodJobError extends Error {
+  constructor(message: string, readonly jobId: string, readonly jobStatus: RunPodStatus) {
+    super(message)
+    this.name = 'RunPodJobError'
+  }
+}
@@ -0,0 +1,87 @@
+// Video Worker Output
+// The output contract of our Wan2.2 and composite workers (and the local stub), mapped to app fields
+
+import { RunPodJobError } from './types'
+
+export interface VideoWorkerOutput {
+  video_url: string
+  thumbnail_url?: string
+  duration?: number
+  resolution?: string
+  file_size?: number
+  format?: string
+  subtitles_url?: string
+  audio_description_url?: string
+  transcript_url?: string
+  renditions?: WorkerRendition[]
+}
+
+interface WorkerRendition {
+  profile: string
+  label?: string
+  format: 'mp4' | 'hls'
+  url: string
+  width: number
+  height: number
+  bitrate_kbps: number
+  file_size?: number
+  variants?: { url: string; width: number; height: number; bandwidth: number }[]
+}
+
+/**
+ * One delivery profile's output: an MP4, or an HLS master playlist and its variant streams
+ */
+export interface VideoRendition {
+  profile: string
+  label: string
+  format: 'mp4' | 'hls'
+  url: string
+  width: number
+  height: number
+  bitrateKbps: number // video plus audio; for HLS, the top variant's
+  fileSize?: number // bytes; for HLS, every playlist and segment together
+  variants?: { url: string; width: number; height: number; bandwidth: number }[] // HLS only
+}
+
+export interface RunPodVideoOutput {
+  videoUrl: string
+  thumbnailUrl?: string
+  duration?: number
+  resolution?: string
+  fileSize?: number
+  format?: string
+  subtitlesUrl?: string
+  audioDescriptionUrl?: string
+  transcriptUrl?: string
+  renditions?: VideoRendition[]
+}
+
+export function toVideoOutput(jobId: string, output: unknown): RunPodVideoOutput {
+  const raw = (output ?? {}) as Partial<VideoWorkerOutput>
+  if (typeof raw.video_url !== 'string' || !raw.video_url) {
+    throw new RunPodJobError(`RunPod job ${jobId} completed without a video_url`, jobId, 'COMPLETED')
+  }
+
+  return {
+    videoUrl: raw.video_url,
+    thumbnailUrl: raw.thumbnail_url,
+    duration: raw.duration,
+    resolution: raw.resolution,
+    fileSize: raw.file_size,
+    format: raw.format,
+    subtitlesUrl: raw.subtitles_url,
+    audioDescriptionUrl: raw.audio_description_url,
+    transcriptUrl: raw.transcript_url,
+    renditions: raw.renditions?.map(rendition => ({
+      profile: rendition.profile,
+      label: rendition.label || rendition.profile,
+      format: rendition.format,
+      url: rendition.url,
+      width: rendition.width,
+      height: rendition.height,
+      bitrateKbps: rendition.bitrate_kbps,
+      fileSize: rendition.file_size,
+      variants: rendition.variants
+    }))
+  }
+}
@@ -0,0 +1,54 @@
+// File Storybook Repository
+// Default storage adapter: persists storybooks and progress as JSON files on local disk
+
+import { JsonFileCollection } from './json-file-collection'
+import type { StorybookProgress, StorybookRecord, StorybookRepository } from './types'
+
+export class FileStorybookRepository implements StorybookRepository {
+  readonly name = 'file'
+  private storybooks: JsonFileCollection<StorybookRecord>
+  private progress: JsonFileCollection<StorybookProgress>
+
+  constructor(baseDir: string) {
+    this.storybooks = new JsonFileCollection<StorybookRecord>(baseDir, 'storybooks')
+    this.progress = new JsonFileCollection<StorybookProgress>(baseDir, 'storybook-progress')
+  }
+
+  async saveStorybook(record: StorybookRecord): Promise<StorybookRecord> {
+    return this.storybooks.put(record.id, record)
+  }
+
+  async getStorybook(storybookId: string): Promise<StorybookRecord | null> {
+    return this.storybooks.get(storybookId)
+  }
+
+  async listStorybooks(options: { workflowId?: string; limit?: number } = {}): Promise<StorybookRecord[]> {
+    const records = await this.storybooks.list()
+
+    return records
+      .filter(record => !options.workflowId || record.workflowId === options.workflowId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, options.limit ?? records.length)
+  }
+
+  async deleteStorybook(storybookId: string): Promise<boolean> {
+    const progressRecords = await this.progress.list()
+    for (const entry of progressRecords.filter(p => p.storybookId === storybookId)) {
+      await this.progress.delete(progressKey(entry.storybookId, entry.userId))
+    }
+
+    return this.storybooks.delete(storybookId)
+  }
+
+  async saveProgress(progress: StorybookProgress): Promise<StorybookProgress> {
+    return this.progress.put(progressKey(progress.storybookId, progress.userId), progress)
+  }
+
+  async getProgress(storybookId: string, userId: string): Promise<StorybookProgress | null> {
+    return this.progress.get(progressKey(storybookId, userId))
+  }
+}
+
+function progressKey(storybookId: string, userId: string): string {
+  return `${storybookId}__${userId}`
+}
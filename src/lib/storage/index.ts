@@ -0,0 +1,49 @@
+// Storage Layer
+// Selects the storybook repository adapter from the environment
+
+import path from 'path'
+import { FileStorybookRepository } from './file-storybook-repository'
+import { SupabaseStorybookRepository } from './supabase-storybook-repository'
+import type { StorybookRepository } from './types'
+
+export * from './types'
+export { FileStorybookRepository } from './file-storybook-repository'
+export { SupabaseStorybookRepository } from './supabase-storybook-repository'
+export { JsonFileCollection } from './json-file-collection'
+
+export type StorageDriver = 'file' | 'supabase'
+
+/**
+ * Root directory for the file-backed adapters (STORAGE_DATA_DIR, defaults to ./.data)
+ */
+export function getDataDirectory(): string {
+  return process.env.STORAGE_DATA_DIR || path.join(process.cwd(), '.data')
+}
+
+export function createStorybookRepository(driver?: StorageDriver): StorybookRepository {
+  const selected = driver || (process.env.STORAGE_DRIVER as StorageDriver) || 'file'
+
+  switch (selected) {
+    case 'supabase': {
+      const url = process.env.SUPABASE_URL
+      const key = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY
+      if (!url || !key) {
+        throw new Error('Supabase storage requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY')
+      }
+      return new SupabaseStorybookRepository(url, key)
+    }
+    case 'file':
+      return new FileStorybookRepository(getDataDirectory())
+    default:
+      throw new Error(`Unknown storage driver: ${selected}`)
+  }
+}
+
+let repository: StorybookRepository | null = null
+
+export function getStorybookRepository(): StorybookRepository {
+  if (!repository) {
+    repository = createStorybookRepository()
+  }
+  return repository
+}
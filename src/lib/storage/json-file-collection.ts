@@ -0,0 +1,101 @@
+// JSON File Collection
+// Minimal document store that keeps one JSON file per record on local disk
+
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export class JsonFileCollection<T> {
+  private directory: string
+  private ready: Promise<void> | null = null
+
+  constructor(baseDir: string, collection: string) {
+    this.directory = path.join(baseDir, collection)
+  }
+
+  async get(id: string): Promise<T | null> {
+    await this.ensureDirectory()
+
+    try {
+      const raw = await fs.readFile(this.filePath(id), 'utf-8')
+      return JSON.parse(raw) as T
+    } catch (error) {
+      if (isNotFound(error)) return null
+      throw new Error(`Failed to read ${id}: ${error}`)
+    }
+  }
+
+  async put(id: string, value: T): Promise<T> {
+    await this.ensureDirectory()
+
+    // Write to a temp file first so readers never see a half-written record
+    const target = this.filePath(id)
+    const temp = `${target}.${process.pid}.${Date.now()}.${Math.random().toString(36).slice(2, 8)}.tmp`
+    await fs.writeFile(temp, JSON.stringify(value, null, 2), 'utf-8')
+    await fs.rename(temp, target)
+
+    return value
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.ensureDirectory()
+
+    try {
+      await fs.unlink(this.filePath(id))
+      return true
+    } catch (error) {
+      if (isNotFound(error)) return false
+      throw new Error(`Failed to delete ${id}: ${error}`)
+    }
+  }
+
+  async list(): Promise<T[]> {
+    await this.ensureDirectory()
+
+    const files = await fs.readdir(this.directory)
+    const records: T[] = []
+
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue
+      const record = await this.get(decodeURIComponent(file.slice(0, -'.json'.length)))
+      if (record) records.push(record)
+    }
+
+    return records
+  }
+
+  /**
+   * Ids of records last written before the given time (epoch ms), found without reading the records
+   */
+  async idsWrittenBefore(timestamp: number): Promise<string[]> {
+    await this.ensureDirectory()
+
+    const ids: string[] = []
+    for (const file of await fs.readdir(this.directory)) {
+      if (!file.endsWith('.json')) continue
+      try {
+        const { mtimeMs } = await fs.stat(path.join(this.directory, file))
+        if (mtimeMs < timestamp) ids.push(decodeURIComponent(file.slice(0, -'.json'.length)))
+      } catch (error) {
+        if (!isNotFound(error)) throw error
+      }
+    }
+
+    return ids
+  }
+
+  private filePath(id: string): string {
+    // Ids come from request input, so encode them to keep every record inside the collection directory
+    return path.join(this.directory, `${encodeURIComponent(id)}.json`)
+  }
+
+  private ensureDirectory(): Promise<void> {
+    if (!this.ready) {
+      this.ready = fs.mkdir(this.directory, { recursive: true }).then(() => undefined)
+    }
+    return this.ready
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as NodeJS.ErrnoException).code === 'ENOENT'
+}
@@ -0,0 +1,182 @@
+// Supabase Storybook Repository
+// Storage adapter backed by Supabase Postgres tables
+//
+// Expected schema:
+//   storybooks (id text primary key, workflow_id text, status text, storybook jsonb, content jsonb,
+//               locale text, translations jsonb, options jsonb, generation_time integer, trace jsonb,
+//               created_at timestamptz, updated_at timestamptz)
+//   storybook_progress (storybook_id text references storybooks(id) on delete cascade, user_id text,
+//               progress real, completed_chapters jsonb, user_answers jsonb, last_updated timestamptz,
+//               primary key (storybook_id, user_id))
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import type { StorybookProgress, StorybookRecord, StorybookRepository } from './types'
+
+interface StorybookRow {
+  id: string
+  workflow_id: string
+  status: StorybookRecord['status']
+  storybook: StorybookRecord['storybook']
+  content: StorybookRecord['content'] | null
+  locale: string | null
+  translations: StorybookRecord['translations'] | null
+  options: StorybookRecord['options']
+  generation_time: number
+  trace: StorybookRecord['trace'] | null
+  created_at: string
+  updated_at: string
+}
+
+interface ProgressRow {
+  storybook_id: string
+  user_id: string
+  progress: number
+  completed_chapters: string[]
+  user_answers: Record<string, unknown>
+  last_updated: string
+}
+
+export class SupabaseStorybookRepository implements StorybookRepository {
+  readonly name = 'supabase'
+  private client: SupabaseClient
+
+  constructor(url: string, serviceKey: string) {
+    this.client = createClient(url, serviceKey, {
+      auth: { persistSession: false }
+    })
+  }
+
+  async saveStorybook(record: StorybookRecord): Promise<StorybookRecord> {
+    const { error } = await this.client
+      .from('storybooks')
+      .upsert(toStorybookRow(record))
+
+    if (error) {
+      throw new Error(`Failed to save storybook ${record.id}: ${error.message}`)
+    }
+    return record
+  }
+
+  async getStorybook(storybookId: string): Promise<StorybookRecord | null> {
+    const { data, error } = await this.client
+      .from('storybooks')
+      .select('*')
+      .eq('id', storybookId)
+      .maybeSingle<StorybookRow>()
+
+    if (error) {
+      throw new Error(`Failed to fetch storybook ${storybookId}: ${error.message}`)
+    }
+    return data ? fromStorybookRow(data) : null
+  }
+
+  async listStorybooks(options: { workflowId?: string; limit?: number } = {}): Promise<StorybookRecord[]> {
+    let query = this.client
+      .from('storybooks')
+      .select('*')
+      .order('created_at', { ascending: false })
+
+    if (options.workflowId) {
+      query = query.eq('workflow_id', options.workflowId)
+    }
+    if (options.limit) {
+      query = query.limit(options.limit)
+    }
+
+    const { data, error } = await query.returns<StorybookRow[]>()
+    if (error) {
+      throw new Error(`Failed to list storybooks: ${error.message}`)
+    }
+    return (data || []).map(fromStorybookRow)
+  }
+
+  async deleteStorybook(storybookId: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('storybooks')
+      .delete()
+      .eq('id', storybookId)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to delete storybook ${storybookId}: ${error.message}`)
+    }
+    return (data || []).length > 0
+  }
+
+  async saveProgress(progress: StorybookProgress): Promise<StorybookProgress> {
+    const row: ProgressRow = {
+      storybook_id: progress.storybookId,
+      user_id: progress.userId,
+      progress: progress.progress,
+      completed_chapters: progress.completedChapters,
+      user_answers: progress.userAnswers,
+      last_updated: progress.lastUpdated
+    }
+
+    const { error } = await this.client
+      .from('storybook_progress')
+      .upsert(row, { onConflict: 'storybook_id,user_id' })
+
+    if (error) {
+      throw new Error(`Failed to save progress for ${progress.storybookId}: ${error.message}`)
+    }
+    return progress
+  }
+
+  async getProgress(storybookId: string, userId: string): Promise<StorybookProgress | null> {
+    const { data, error } = await this.client
+      .from('storybook_progress')
+      .select('*')
+      .eq('storybook_id', storybookId)
+      .eq('user_id', userId)
+      .maybeSingle<ProgressRow>()
+
+    if (error) {
+      throw new Error(`Failed to fetch progress for ${storybookId}: ${error.message}`)
+    }
+    if (!data) return null
+
+    return {
+      storybookId: data.storybook_id,
+      userId: data.user_id,
+      progress: data.progress,
+      completedChapters: data.completed_chapters || [],
+      userAnswers: data.user_answers || {},
+      lastUpdated: data.last_updated
+    }
+  }
+}
+
+function toStorybookRow(record: StorybookRecord): StorybookRow {
+  return {
+    id: record.id,
+    workflow_id: record.workflowId,
+    status: record.status,
+    storybook: record.storybook,
+    content: record.content ?? null,
+    locale: record.locale ?? null,
+    translations: record.translations ?? null,
+    options: record.options,
+    generation_time: record.generationTime,
+    trace: record.trace ?? null,
+    created_at: record.createdAt,
+    updated_at: record.updatedAt
+  }
+}
+
+function fromStorybookRow(row: StorybookRow): StorybookRecord {
+  return {
+    id: row.id,
+    workflowId: row.workflow_id,
+    status: row.status,
+    storybook: row.storybook,
+    content: row.content ?? undefined,
+    locale: row.locale ?? undefined,
+    translations: row.translations ?? undefined,
+    options: row.options || {},
+    generationTime: row.generation_time,
+    trace: row.trace ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
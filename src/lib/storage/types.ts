@@ -0,0 +1,118 @@
+// Storage Types
+// Shared record shapes and the repository contract used by every storage adapter
+
+import type { EducationalContent } from '@/lib/agents/n8n-workflow-analyzer'
+import type { ExecutionTrace } from '@/lib/agents/storybook-pipeline'
+
+export interface Storybook {
+  id: string
+  title: string
+  description: string
+  chapters: Chapter[]
+  metadata: {
+    estimatedDuration: number
+    difficulty: string
+    learningObjectives: string[]
+    prerequisites: string[]
+  }
+  accessibility: {
+    level: string
+    features: string[]
+    complianceScore: number
+  }
+}
+
+export interface Chapter {
+  id: string
+  title: string
+  description: string
+  content: ChapterContent[]
+  duration: number
+  interactiveElements: InteractiveElement[]
+  quiz?: Quiz | null
+}
+
+export interface ChapterContent {
+  type: 'text' | 'image' | 'code' | 'video' | 'interactive'
+  content: string
+  metadata: {
+    altText?: string
+    transcript?: string
+    codeLanguage?: string
+  }
+}
+
+export interface InteractiveElement {
+  id: string
+  type: 'button' | 'input' | 'drag-drop' | 'simulation'
+  config: Record<string, unknown>
+  accessibility: {
+    ariaLabel: string
+    keyboardSupport: boolean
+    screenReaderInstructions: string
+  }
+}
+
+export interface Quiz {
+  id: string
+  questions: Question[]
+  passingScore: number
+}
+
+export interface Question {
+  id: string
+  type: 'multiple-choice' | 'true-false' | 'fill-blank' | 'drag-drop'
+  question: string
+  options?: string[]
+  correctAnswer: string | string[]
+  explanation: string
+  accessibility: {
+    screenReaderText: string
+    keyboardNavigation: boolean
+  }
+}
+
+export type StorybookStatus = 'pending' | 'generating' | 'completed' | 'failed'
+
+// The storybook and its content in one other language
+export interface StorybookTranslation {
+  locale: string
+  direction: 'ltr' | 'rtl'
+  storybook: Storybook
+  content: EducationalContent
+  translatedAt: string
+}
+
+export interface StorybookRecord {
+  id: string
+  workflowId: string
+  status: StorybookStatus
+  storybook: Storybook
+  content?: EducationalContent
+  locale?: string // language of storybook and content
+  translations?: Record<string, StorybookTranslation> // by locale
+  options: Record<string, unknown>
+  generationTime: number
+  trace?: ExecutionTrace // how the generation pipeline ran: per-task status, timing, cost and errors
+  createdAt: string
+  updatedAt: string
+}
+
+export interface StorybookProgress {
+  storybookId: string
+  userId: string
+  progress: number
+  completedChapters: string[]
+  userAnswers: Record<string, unknown>
+  lastUpdated: string
+}
+
+export interface StorybookRepository {
+  readonly name: string
+  saveStorybook(record: StorybookRecord): Promise<StorybookRecord>
+  getStorybook(storybookId: string): Promise<StorybookRecord | null>
+  listStorybooks(options?: { workflowId?: string; limit?: number }): Promise<StorybookRecord[]>
+  deleteStorybook(storybookId: string): Promise<boolean>
+  saveProgress(progress: StorybookProgress): Promise<StorybookProgress>
+  getProgress(storybookId: string, userId: string): Promise<StorybookProgress | null>
+}
@@ -0,0 +1,289 @@
+// Storybook Generation
+// Runs the orchestrated analysis → content → {video, accessibility} → QA pipeline for a workflow
+// and persists the resulting storybook with its execution trace. Called from the background job worker.
+
+import { assertThemeContrast } from './accessibility'
+import {
+  agentOrchestrator,
+  OrchestrationTask,
+  OrchestrationUsage,
+  StorybookOrchestrationResult,
+  TaskType,
+  WorkflowToStorybookRequest
+} from './agents/agent-orchestrator'
+import type { EducationalStep, N8NWorkflow } from './agents/n8n-workflow-analyzer'
+import { orchestrationOptions, STAGE_LABELS } from './generation-stages'
+import { playerThemesFor, PlayerThemeSetting } from './player-theme'
+import { Chapter, ChapterContent, getStorybookRepository, Storybook, StorybookRecord, StorybookTranslation } from './storage'
+import { SOURCE_LOCALE, textDirection } from './translation'
+import { DEFAULT_TENANT_ID } from './usage'
+
+export interface GenerationOptions {
+  accessibilityLevel: 'AA' | 'AAA'
+  targetAudience: 'beginner' | 'intermediate' | 'advanced'
+  includeVideo: boolean
+  includeQuizzes: boolean
+  includeInteractiveElements: boolean
+  customizations?: {
+    theme?: PlayerThemeSetting // a built-in theme, or one with its own colours
+    language?: string // the storybook opens in this language; translated unless it is the source language
+    locales?: string[] // further languages to translate into
+    voiceNarration?: boolean
+  }
+}
+
+export type StorybookFormat = 'web' | 'pdf' | 'video' | 'all'
+
+export interface StorybookGenerationRequest {
+  storybookId: string
+  workflowId: string
+  workflow: N8NWorkflow
+  userId?: string
+  tenantId?: string // who LLM tokens and GPU time are billed to
+  options: GenerationOptions
+  format: StorybookFormat
+}
+
+export interface StorybookGenerationResult {
+  storybookId: string
+  generationTime: number
+  usage: OrchestrationUsage
+  urls: {
+    interactive?: string
+    pdf?: string
+    video?: string
+  }
+}
+
+export interface GenerationProgressEvent {
+  taskId: string
+  taskType: TaskType
+  status: 'assigned' | 'running' | 'completed' | 'failed' | 'cancelled'
+  stage: string
+  agents: string[]
+  progress: number
+  error?: string
+}
+
+export interface GenerateStorybookOptions {
+  runId?: string
+  jobId?: string // job budgets span every attempt, so usage is grouped by job rather than run
+  onProgress?: (event: GenerationProgressEvent) => void
+}
+
+// Orchestrator task events and the status each one reports
+const TASK_EVENTS: Array<[string, GenerationProgressEvent['status']]> = [
+  ['task:assigned', 'assigned'],
+  ['task:started', 'running'],
+  ['task:completed', 'completed'],
+  ['task:failed', 'failed'],
+  ['task:cancelled', 'cancelled']
+]
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  accessibilityLevel: 'AA',
+  targetAudience: 'intermediate',
+  includeVideo: false,
+  includeQuizzes: true,
+  includeInteractiveElements: true
+}
+
+export async function generateStorybook(
+  request: StorybookGenerationRequest,
+  generateOptions: GenerateStorybookOptions = {}
+): Promise<StorybookGenerationResult> {
+  const { storybookId, workflowId, workflow, options, format } = request
+  const runId = generateOptions.runId || storybookId
+  const startTime = Date.now()
+
+  // Every theme the player can show must be readable at the requested level before anything is spent
+  assertThemeContrast(playerThemesFor(options.customizations?.theme), options.accessibilityLevel)
+
+  const unsubscribe = generateOptions.onProgress
+    ? subscribeToRun(runId, generateOptions.onProgress)
+    : () => undefined
+
+  // Analysis, content, video, accessibility and QA run as dependent tasks on the shared orchestrator,
+  // so concurrent jobs share its concurrency limit and cost accounting
+  let result: StorybookOrchestrationResult
+  try {
+    result = await agentOrchestrator.createInteractiveStorybook(
+      toOrchestrationRequest(workflow, options, request.userId),
+      {
+        runId,
+        usage: {
+          tenantId: request.tenantId || DEFAULT_TENANT_ID,
+          jobId: generateOptions.jobId || runId,
+          storybookId
+        }
+      }
+    )
+  } finally {
+    unsubscribe()
+  }
+
+  const storybook = toStorybook(storybookId, result, options)
+  const translatedAt = new Date().toISOString()
+  const translations = Object.fromEntries(
+    Object.entries(result.translations).map(([locale, content]): [string, StorybookTranslation] => [locale, {
+      locale,
+      direction: textDirection(locale),
+      storybook: toStorybook(storybookId, { ...result, content }, options),
+      content,
+      translatedAt
+    }])
+  )
+
+  // Generate URLs for different formats
+  const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000'
+  const urls = {
+    interactive: `${baseUrl}/storybook/${storybookId}`,
+    ...(format === 'pdf' || format === 'all') && {
+      pdf: `${baseUrl}/api/storybook/${storybookId}/export/pdf`
+    },
+    ...(result.video?.url && (format === 'video' || format === 'all')) && {
+      video: result.video.url
+    }
+  }
+
+  const generationTime = Date.now() - startTime
+  const now = new Date().toISOString()
+
+  const storybookRecord: StorybookRecord = {
+    id: storybookId,
+    workflowId,
+    status: 'completed',
+    storybook,
+    content: result.content,
+    locale: SOURCE_LOCALE,
+    translations,
+    options: { ...options, format },
+    generationTime,
+    trace: result.trace,
+    createdAt: now,
+    updatedAt: now
+  }
+
+  await getStorybookRepository().saveStorybook(storybookRecord)
+  console.log(`📚 Storybook ${storybookId} generated in ${generationTime}ms`)
+
+  return { storybookId, generationTime, usage: result.usage, urls }
+}
+
+/**
+ * Forward the orchestrator's task events for one run, with the run's overall percentage
+ */
+function subscribeToRun(runId: string, onProgress: (event: GenerationProgressEvent) => void): () => void {
+  const listeners = TASK_EVENTS.map(([eventName, status]) => {
+    const listener = ({ task, error }: { task: OrchestrationTask; error?: unknown }) => {
+      if (task.runId !== runId) return
+
+      onProgress({
+        taskId: task.id,
+        taskType: task.type,
+        status,
+        stage: STAGE_LABELS[task.type],
+        agents: task.requiredAgents,
+        progress: agentOrchestrator.getRunProgress(runId).percent,
+        ...(status === 'failed' && { error: error instanceof Error ? error.message : task.error })
+      })
+    }
+    agentOrchestrator.on(eventName, listener)
+    return [eventName, listener] as const
+  })
+
+  return () => listeners.forEach(([eventName, listener]) => agentOrchestrator.off(eventName, listener))
+}
+
+function toOrchestrationRequest(
+  workflow: N8NWorkflow,
+  options: GenerationOptions,
+  userId = 'anonymous'
+): WorkflowToStorybookRequest {
+  const language = options.customizations?.language || SOURCE_LOCALE
+  const accessibilityNeeds = ['screen_reader', 'keyboard_navigation']
+  if (options.accessibilityLevel === 'AAA') {
+    accessibilityNeeds.push('high_contrast')
+  }
+
+  return {
+    workflow,
+    options: orchestrationOptions(options),
+    user: {
+      id: userId,
+      preferences: {
+        learningStyle: 'mixed',
+        accessibilityNeeds,
+        preferredLanguage: language,
+        experienceLevel: options.targetAudience
+      }
+    }
+  }
+}
+
+function toStorybook(
+  storybookId: string,
+  result: StorybookOrchestrationResult,
+  options: GenerationOptions
+): Storybook {
+  const { content } = result
+  const chapterDuration = Math.max(1, Math.round(content.estimatedDuration / Math.max(content.steps.length, 1)))
+
+  return {
+    id: storybookId,
+    title: content.title || 'Interactive N8N Workflow Tutorial',
+    description: content.description || 'Learn this N8N workflow step by step',
+    chapters: content.steps.map((step, index): Chapter => ({
+      id: `chapter_${index + 1}`,
+      title: step.title,
+      description: step.description,
+      content: toChapterContent(step),
+      duration: chapterDuration,
+      interactiveElements: [],
+      quiz: options.includeQuizzes && step.quiz ? {
+        id: `quiz_${index + 1}`,
+        passingScore: 70,
+        questions: [{
+          id: `question_${index + 1}`,
+          type: 'multiple-choice',
+          question: step.quiz.question,
+          options: step.quiz.options,
+          correctAnswer: step.quiz.options[step.quiz.correctAnswer],
+          explanation: step.quiz.explanation,
+          accessibility: {
+            screenReaderText: step.quiz.question,
+            keyboardNavigation: true
+          }
+        }]
+      } : null
+    })),
+    metadata: {
+      estimatedDuration: content.estimatedDuration,
+      difficulty: content.complexity,
+      learningObjectives: content.learningObjectives,
+      prerequisites: content.prerequisites
+    },
+    accessibility: {
+      level: options.accessibilityLevel,
+      features: [
+        'screen-reader-text',
+        'keyboard-navigation',
+        ...(options.accessibilityLevel === 'AAA' ? ['high-contrast'] : []),
+        ...(result.video ? ['captioned-video'] : [])
+      ],
+      complianceScore: result.qualityScore
+    }
+  }
+}
+
+function toChapterContent(step: EducationalStep): ChapterContent[] {
+  return [
+    { type: 'text', content: step.explanation || step.description, metadata: {} },
+    ...(step.code ? [{ type: 'code' as const, content: step.code, metadata: {} }] : []),
+    ...step.visualAids.map(aid => ({
+      type: 'image' as const,
+      content: aid.url || aid.description,
+      metadata: { altText: aid.altText }
+    }))
+  ]
+}
@@ -0,0 +1,187 @@
+// Storybook HTML
+// Renders a storybook's content as one static, semantic HTML page: every step, its visual aids and
+// quiz, and the video with its text tracks. Accessibility checks audit this page, so it carries the
+// same names, labels and alternatives the player shows.
+
+import type { EducationalContent, EducationalStep, InteractiveElement } from './agents/n8n-workflow-analyzer'
+import { getStorybookRepository } from './storage'
+import { SOURCE_LOCALE, TextDirection, textDirection } from './translation/locales'
+import type { StepVideoContent } from './video-navigation'
+
+export interface StorybookHtmlOptions {
+  locale?: string
+  direction?: TextDirection
+}
+
+export interface StoredStorybookContent {
+  content: EducationalContent
+  locale: string
+  direction: TextDirection
+}
+
+export function renderStorybookHtml(content: EducationalContent, options: StorybookHtmlOptions = {}): string {
+  const locale = options.locale || SOURCE_LOCALE
+  const direction = options.direction || textDirection(locale)
+
+  const objectives = content.learningObjectives?.length
+    ? section('objectives', 'Learning objectives', list(content.learningObjectives))
+    : ''
+  const prerequisites = content.prerequisites?.length
+    ? section('prerequisites', 'Prerequisites', list(content.prerequisites))
+    : ''
+  const stepLinks = content.steps
+    .map(step => `<li><a href="#${attribute(anchor(step.id))}">${text(step.title)}</a></li>`)
+    .join('')
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${attribute(locale)}" dir="${direction}">`,
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${text(content.title)}</title>`,
+    '</head>',
+    '<body>',
+    '<main>',
+    `<h1>${text(content.title)}</h1>`,
+    `<p>${text(content.description)}</p>`,
+    objectives,
+    prerequisites,
+    `<nav aria-label="Steps"><ol>${stepLinks}</ol></nav>`,
+    ...content.steps.map((step, index) => renderStep(step, index)),
+    ...content.interactiveElements.map(renderElement),
+    '</main>',
+    '</body>',
+    '</html>',
+    ''
+  ].filter(Boolean).join('\n')
+}
+
+/**
+ * A stored storybook's content in its own language or one of its translations; null when there is no
+ * content in that language
+ */
+export async function getStoredStorybookContent(storybookId: string, locale?: string): Promise<StoredStorybookContent | null> {
+  const record = await getStorybookRepository().getStorybook(storybookId)
+  if (!record) return null
+
+  const sourceLocale = record.locale || SOURCE_LOCALE
+  if (!locale || locale === sourceLocale) {
+    return record.content ? { content: record.content, locale: sourceLocale, direction: textDirection(sourceLocale) } : null
+  }
+
+  const translation = record.translations?.[locale]
+  return translation
+    ? { content: translation.content, locale, direction: translation.direction ?? textDirection(locale) }
+    : null
+}
+
+function renderStep(step: EducationalStep, index: number): string {
+  const id = anchor(step.id)
+  const explanation = step.explanation && step.explanation !== step.description ? `<p>${text(step.explanation)}</p>` : ''
+  const code = step.code ? renderCode(step, id) : ''
+
+  const aids = (step.visualAids || []).map(aid => aid.url
+    ? `<figure><img src="${attribute(aid.url)}" alt="${attribute(aid.altText)}"><figcaption>${text(aid.description)}</figcaption></figure>`
+    : `<figure><div role="img" aria-label="${attribute(aid.altText)}"></div><figcaption>${text(aid.description)}</figcaption></figure>`
+  )
+
+  return [
+    `<article id="${attribute(id)}" aria-labelledby="${attribute(id)}-title">`,
+    `<h2 id="${attribute(id)}-title">${index + 1}. ${text(step.title)}</h2>`,
+    `<p>${text(step.description)}</p>`,
+    explanation,
+    code,
+    ...aids,
+    step.quiz ? renderQuiz(step, id) : '',
+    '</article>'
+  ].filter(Boolean).join('\n')
+}
+
+function renderCode(step: EducationalStep, id: string): string {
+  const language = step.codeLanguage ? ` class="language-${attribute(step.codeLanguage)}"` : ''
+  const description = step.codeDescription
+    ? `<p id="${attribute(id)}-code-description">${text(step.codeDescription)}</p>`
+    : ''
+  const describedBy = description ? ` aria-describedby="${attribute(id)}-code-description"` : ''
+
+  // Code reads left to right in every language, as in the player
+  return [
+    `<pre dir="ltr"${describedBy}><code${language}>${text(step.code)}</code></pre>`,
+    description
+  ].filter(Boolean).join('\n')
+}
+
+function renderQuiz(step: EducationalStep, id: string): string {
+  const quiz = step.quiz!
+  const options = quiz.options.map((option, index) => {
+    const optionId = `${id}-quiz-${index}`
+    const spoken = quiz.optionScreenReaderText?.[index]
+    const name = spoken ? ` aria-label="${attribute(spoken)}"` : ''
+    return `<div><input type="radio" id="${attribute(optionId)}" name="${attribute(id)}-quiz" value="${index}"${name}>` +
+      `<label for="${attribute(optionId)}">${text(option)}</label></div>`
+  })
+
+  return [
+    `<form aria-label="Quiz: ${attribute(step.title)}">`,
+    '<fieldset>',
+    `<legend>${text(quiz.question)}</legend>`,
+    ...options,
+    '</fieldset>',
+    '<button type="submit">Check answer</button>',
+    '</form>'
+  ].join('\n')
+}
+
+function renderElement(element: InteractiveElement): string {
+  const heading = `<h2>${text(element.title)}</h2>`
+
+  switch (element.type) {
+    case 'video': {
+      const video = element.content as StepVideoContent | undefined
+      if (!video?.url) return ''
+
+      const tracks = [
+        ...(video.subtitles || []).map(track =>
+          `<track kind="${track.accessibility ? 'captions' : 'subtitles'}" src="${attribute(track.url)}" srclang="${attribute(track.language)}" label="${attribute(track.language)}">`
+        ),
+        video.chaptersUrl ? `<track kind="chapters" src="${attribute(video.chaptersUrl)}" label="Chapters">` : '',
+        video.audioDescription?.descriptionsUrl
+          ? `<track kind="descriptions" src="${attribute(video.audioDescription.descriptionsUrl)}" srclang="${attribute(video.audioDescription.language)}" label="Audio description">`
+          : ''
+      ].filter(Boolean)
+
+      return `<section>${heading}<video controls src="${attribute(video.url)}" aria-label="Video: ${attribute(element.title)}">${tracks.join('')}</video></section>`
+    }
+    case 'diagram':
+      return `<section>${heading}<div role="img" aria-label="${attribute(element.accessibility.screenReaderText)}"></div>` +
+        (element.accessibility.audioDescription ? `<p>${text(element.accessibility.audioDescription)}</p>` : '') +
+        '</section>'
+    case 'simulation':
+    case 'code-playground':
+      return `<section role="application" aria-label="${attribute(element.accessibility.screenReaderText || element.title)}">${heading}</section>`
+    default:
+      return ''
+  }
+}
+
+function section(id: string, title: string, body: string): string {
+  return `<section aria-labelledby="${id}"><h2 id="${id}">${text(title)}</h2>${body}</section>`
+}
+
+function list(items: string[]): string {
+  return `<ul>${items.map(item => `<li>${text(item)}</li>`).join('')}</ul>`
+}
+
+// Step ids come from the model; ids in the page must not contain spaces
+function anchor(stepId: string): string {
+  return `step-${stepId.replace(/\s+/g, '-')}`
+}
+
+function text(value: string | undefined): string {
+  return (value || '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function attribute(value: string | undefined): string {
+  return text(value).replace(/"/g, '&quot;')
+}
@@ -0,0 +1,183 @@
+// Subtitle Cues
+// Turns timed speech into cues people can read: at most two balanced lines, broken at clause
+// boundaries where possible, on screen long enough for the configured reading speed
+
+import { splitParagraphs, splitSentences } from '../tts/narration'
+import type { CueOptions, SubtitleEntry, TimedText } from './types'
+
+// Broadcast defaults (BBC and Netflix guidelines land close to these)
+const DEFAULTS: Required<Omit<CueOptions, 'defaultSpeaker' | 'sounds'>> = {
+  maxCharsPerLine: 42,
+  maxLines: 2,
+  maxCharsPerSecond: 17,
+  minDuration: 1,
+  maxDuration: 7,
+  speakerLabels: false
+}
+
+// A cue stretched for reading speed stops this far short of the next one, so players clear it first
+const MIN_GAP = 0.08
+
+export function buildCues(speech: TimedText[], options: CueOptions = {}): SubtitleEntry[] {
+  const settings = { ...DEFAULTS, ...options }
+  const cues: SubtitleEntry[] = []
+  let currentSpeaker: string | undefined
+
+  for (const item of speech) {
+    const blocks = splitIntoBlocks(item.text, settings.maxCharsPerLine, settings.maxLines)
+    const totalChars = blocks.reduce((sum, lines) => sum + lines.join(' ').length, 0) || 1
+    const speaker = item.speaker || settings.defaultSpeaker
+    let start = item.start
+
+    for (const lines of blocks) {
+      // Each block gets a share of the sentence's spoken time by length
+      const end = start + (item.end - item.start) * (lines.join(' ').length / totalChars)
+      const cue: SubtitleEntry = { start, end, text: lines.join('\n') }
+      if (settings.speakerLabels && speaker && speaker !== currentSpeaker) {
+        cue.speaker = speaker
+        currentSpeaker = speaker
+      }
+      cues.push(cue)
+      start = end
+    }
+  }
+
+  applyReadingSpeed(cues, settings)
+
+  const sounds = (options.sounds || []).map(sound => ({
+    start: sound.start,
+    end: sound.end,
+    text: (layoutLines(`[${sound.description}]`.split(/\s+/), settings.maxCharsPerLine, settings.maxLines)
+      || [`[${sound.description}]`]).join('\n'),
+    sound: true
+  }))
+
+  return [...cues, ...sounds]
+    .sort((a, b) => a.start - b.start)
+    .map(cue => ({ ...cue, start: round(cue.start), end: round(cue.end) }))
+}
+
+/**
+ * Without speech marks, spread the transcript's sentences over the audio by length.
+ * A rough forced alignment: right at sentence level when the speaker keeps an even pace.
+ */
+export function alignTranscript(transcript: string, duration: number): TimedText[] {
+  const sentences = splitParagraphs(transcript).flatMap(splitSentences)
+  const totalChars = sentences.reduce((sum, sentence) => sum + sentence.length, 0) || 1
+  let start = 0
+
+  return sentences.map(text => {
+    const end = start + duration * (text.length / totalChars)
+    const timed = { text, start, end }
+    start = end
+    return timed
+  })
+}
+
+/**
+ * Lay words out in at most maxLines lines of maxCharsPerLine, or null if they do not fit.
+ * Uses as few lines as possible, then balances them, preferring breaks after punctuation.
+ */
+export function layoutLines(words: string[], maxCharsPerLine: number, maxLines: number): string[] | null {
+  const text = words.join(' ')
+  if (text.length <= maxCharsPerLine) return [text]
+
+  const lineCount = greedyLineCount(words, maxCharsPerLine)
+  if (lineCount > maxLines) return null
+
+  // cost[i][l]: best layout of the first i words in l lines
+  const n = words.length
+  const cost: number[][] = Array.from({ length: n + 1 }, () => new Array(lineCount + 1).fill(Infinity))
+  const breakAt: number[][] = Array.from({ length: n + 1 }, () => new Array(lineCount + 1).fill(0))
+  cost[0][0] = 0
+
+  for (let l = 1; l <= lineCount; l++) {
+    for (let i = 1; i <= n; i++) {
+      for (let j = i - 1; j >= 0; j--) {
+        const line = words.slice(j, i).join(' ')
+        if (line.length > maxCharsPerLine && i - j > 1) break
+        if (cost[j][l - 1] === Infinity) continue
+
+        const clauseEnd = i < n && /[,;:.!?]$/.test(words[i - 1])
+        const lineCost = line.length ** 2 - (clauseEnd ? maxCharsPerLine ** 2 / 4 : 0)
+        if (cost[j][l - 1] + lineCost < cost[i][l]) {
+          cost[i][l] = cost[j][l - 1] + lineCost
+          breakAt[i][l] = j
+        }
+      }
+    }
+  }
+
+  const lines: string[] = []
+  for (let i = n, l = lineCount; l > 0; l--) {
+    const j = breakAt[i][l]
+    lines.unshift(words.slice(j, i).join(' '))
+    i = j
+  }
+  return lines
+}
+
+// Fill cues word by word; when one overflows, end it at a late clause boundary if it has one
+function splitIntoBlocks(text: string, maxCharsPerLine: number, maxLines: number): string[][] {
+  const blocks: string[][] = []
+  let current: string[] = []
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = [...current, word]
+    if (current.length === 0 || layoutLines(candidate, maxCharsPerLine, maxLines)) {
+      current = candidate
+      continue
+    }
+
+    const cut = clauseCut(current)
+    blocks.push(current.slice(0, cut))
+    current = [...current.slice(cut), word]
+    if (!layoutLines(current, maxCharsPerLine, maxLines)) {
+      blocks.push(current.slice(0, -1))
+      current = [word]
+    }
+  }
+
+  if (current.length > 0) blocks.push(current)
+  return blocks.map(words => layoutLines(words, maxCharsPerLine, maxLines) || [words.join(' ')])
+}
+
+function clauseCut(words: string[]): number {
+  for (let i = words.length - 1; i >= Math.ceil(words.length * 0.6); i--) {
+    if (/[,;:]$/.test(words[i - 1])) return i
+  }
+  return words.length
+}
+
+function greedyLineCount(words: string[], maxCharsPerLine: number): number {
+  let lines = 1
+  let length = 0
+  for (const word of words) {
+    if (length > 0 && length + 1 + word.length > maxCharsPerLine) {
+      lines++
+      length = word.length
+    } else {
+      length += (length > 0 ? 1 : 0) + word.length
+    }
+  }
+  return lines
+}
+
+// Cues spoken faster than people read stay up into the silence after them, never over the next cue
+function applyReadingSpeed(cues: SubtitleEntry[], settings: typeof DEFAULTS): void {
+  for (const [index, cue] of cues.entries()) {
+    const chars = cue.text.replace(/\n/g, ' ').length
+    const needed = Math.max(settings.minDuration, chars / settings.maxCharsPerSecond)
+    const next = cues[index + 1]
+    const limit = next ? next.start - MIN_GAP : Infinity
+
+    if (cue.end - cue.start < needed) {
+      cue.end = Math.max(cue.end, Math.min(cue.start + needed, limit))
+    }
+    cue.end = Math.min(cue.end, cue.start + settings.maxDuration)
+  }
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000
+}
@@ -0,0 +1,127 @@
+// Subtitle Formats
+// Serialises subtitle tracks to WebVTT (browsers), SubRip (ffmpeg's burn-in input, most desktop
+// players) and TTML (broadcast and streaming platforms)
+
+import type { ChapterCue, DescriptionCue, SubtitleEntry, SubtitleFormat, SubtitleTrack } from './types'
+
+export const SUBTITLE_CONTENT_TYPES: Record<SubtitleFormat, string> = {
+  vtt: 'text/vtt; charset=utf-8',
+  srt: 'application/x-subrip; charset=utf-8',
+  ttml: 'application/ttml+xml; charset=utf-8'
+}
+
+export function formatSubtitles(track: SubtitleTrack, format: SubtitleFormat): string {
+  switch (format) {
+    case 'vtt':
+      return toWebVTT(track)
+    case 'srt':
+      return toSrt(track)
+    case 'ttml':
+      return toTTML(track)
+  }
+}
+
+function timestamp(seconds: number, separator: '.' | ','): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000))
+  const hours = Math.floor(totalMs / 3600000)
+  const minutes = Math.floor((totalMs % 3600000) / 60000)
+  const secs = Math.floor((totalMs % 60000) / 1000)
+  const ms = totalMs % 1000
+
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0')
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`
+}
+
+// Speaker names are shown as well as tagged, because most players do not display voice metadata
+function cueLines(entry: SubtitleEntry): string[] {
+  // A blank line would end the cue early in WebVTT and SubRip
+  const lines = entry.text.split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+  if (entry.speaker && lines.length > 0) lines[0] = `${entry.speaker}: ${lines[0]}`
+  return lines
+}
+
+function escapeMarkup(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+export function toWebVTT(track: SubtitleTrack): string {
+  const cues = track.timestamps.map(entry => {
+    const text = escapeMarkup(cueLines(entry).join('\n'))
+    const voice = entry.speaker ? `<v ${escapeMarkup(entry.speaker)}>` : ''
+    return `${timestamp(entry.start, '.')} --> ${timestamp(entry.end, '.')}\n${voice}${text}`
+  })
+  return `WEBVTT\nLanguage: ${track.language}\n\n${cues.join('\n\n')}\n`
+}
+
+/**
+ * A WebVTT chapters track (<track kind="chapters">): one cue per chapter, titled in plain text
+ */
+export function toChapterVTT(chapters: ChapterCue[], language: string): string {
+  const cues = chapters.map(chapter =>
+    `${chapter.id}\n${timestamp(chapter.start, '.')} --> ${timestamp(chapter.end, '.')}\n${escapeMarkup(chapter.title.replace(/\s+/g, ' ').trim())}`
+  )
+  return `WEBVTT\nLanguage: ${language}\n\n${cues.join('\n\n')}\n`
+}
+
+/**
+ * A WebVTT descriptions track (<track kind="descriptions">) for screen readers and players that speak
+ * descriptions themselves. Holds are not expressible in WebVTT; players read them from the cue data.
+ */
+export function toDescriptionVTT(cues: DescriptionCue[], language: string): string {
+  const body = cues.map(cue =>
+    `${cue.id}\n${timestamp(cue.start, '.')} --> ${timestamp(cue.end, '.')}\n${escapeMarkup(cue.text.replace(/\s+/g, ' ').trim())}`
+  )
+  return `WEBVTT\nLanguage: ${language}\n\n${body.join('\n\n')}\n`
+}
+
+export function toSrt(track: SubtitleTrack): string {
+  return track.timestamps
+    .map((entry, index) =>
+      `${index + 1}\n${timestamp(entry.start, ',')} --> ${timestamp(entry.end, ',')}\n${cueLines(entry).join('\n')}`
+    )
+    .join('\n\n') + '\n'
+}
+
+/**
+ * TTML 1.0 with ttm:agent speakers. Speakers carry over to following cues until the next
+ * change, and sound descriptions are set in italics.
+ */
+export function toTTML(track: SubtitleTrack): string {
+  const agents = new Map<string, string>()
+  let speaker: string | undefined
+
+  const paragraphs = track.timestamps.map(entry => {
+    if (entry.speaker) speaker = entry.speaker
+    const attributes = [`begin="${timestamp(entry.start, '.')}"`, `end="${timestamp(entry.end, '.')}"`]
+
+    if (entry.sound) {
+      attributes.push('tts:fontStyle="italic"')
+    } else if (speaker) {
+      if (!agents.has(speaker)) agents.set(speaker, `speaker${agents.size + 1}`)
+      attributes.push(`ttm:agent="${agents.get(speaker)}"`)
+    }
+
+    return `      <p ${attributes.join(' ')}>${cueLines(entry).map(escapeMarkup).join('<br/>')}</p>`
+  })
+
+  const agentElements = [...agents].map(([name, id]) =>
+    `      <ttm:agent xml:id="${id}" type="person"><ttm:name type="full">${escapeMarkup(name)}</ttm:name></ttm:agent>`
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttm="http://www.w3.org/ns/ttml#metadata" xmlns:tts="http://www.w3.org/ns/ttml#styling" xml:lang="${escapeMarkup(track.language)}">`,
+    '  <head>',
+    '    <metadata>',
+    ...agentElements,
+    '    </metadata>',
+    '  </head>',
+    '  <body>',
+    '    <div>',
+    ...paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>',
+    ''
+  ].join('\n')
+}
@@ -0,0 +1,63 @@
+// Subtitles
+// One engine for every subtitle track: cues from speech timing, exported as WebVTT, SRT and TTML
+// and stored for /api/subtitles
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { getDataDirectory } from '../storage'
+import { formatSubtitles, toChapterVTT, toDescriptionVTT } from './formats'
+import type { ChapterCue, DescriptionCue, SubtitleFormat, SubtitleTrack } from './types'
+
+export * from './types'
+export { alignTranscript, buildCues, layoutLines } from './cues'
+export { formatSubtitles, SUBTITLE_CONTENT_TYPES, toChapterVTT, toDescriptionVTT, toSrt, toTTML, toWebVTT } from './formats'
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = ['vtt', 'srt', 'ttml']
+
+export const SUBTITLE_FILES_PATH = '/api/subtitles'
+
+/**
+ * Subtitle files live in <STORAGE_DATA_DIR>/subtitles/<trackId>.<format>
+ */
+export function getSubtitleDirectory(): string {
+  return path.join(getDataDirectory(), 'subtitles')
+}
+
+/**
+ * Write the track in every format. Returns the track with url (its own format) and files filled in.
+ */
+export async function saveSubtitles(track: SubtitleTrack): Promise<SubtitleTrack> {
+  const directory = getSubtitleDirectory()
+  await fs.mkdir(directory, { recursive: true })
+
+  const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000'
+  const files: Partial<Record<SubtitleFormat, string>> = {}
+  for (const format of SUBTITLE_FORMATS) {
+    const file = `${track.id}.${format}`
+    await fs.writeFile(path.join(directory, file), formatSubtitles(track, format))
+    files[format] = `${baseUrl}${SUBTITLE_FILES_PATH}/${file}`
+  }
+
+  return { ...track, url: files[track.format]!, files }
+}
+
+/**
+ * Write a WebVTT chapters track next to the subtitle tracks. Returns its URL.
+ */
+export async function saveChapters(id: string, chapters: ChapterCue[], language: string): Promise<string> {
+  return writeTrack(`${id}.vtt`, toChapterVTT(chapters, language))
+}
+
+/**
+ * Write a WebVTT descriptions track next to the subtitle tracks. Returns its URL.
+ */
+export async function saveDescriptions(id: string, cues: DescriptionCue[], language: string): Promise<string> {
+  return writeTrack(`${id}.vtt`, toDescriptionVTT(cues, language))
+}
+
+async function writeTrack(file: string, content: string): Promise<string> {
+  const directory = getSubtitleDirectory()
+  await fs.mkdir(directory, { recursive: true })
+  await fs.writeFile(path.join(directory, file), content)
+  return `${process.env.NEXTAUTH_URL || 'http://localhost:3000'}${SUBTITLE_FILES_PATH}/${file}`
+}
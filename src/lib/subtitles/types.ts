@@ -0,0 +1,69 @@
+// Subtitle Types
+// Tracks and cues shared by the subtitle engine, the exporters and the renderers
+
+export type SubtitleFormat = 'vtt' | 'srt' | 'ttml'
+
+// 'captions' are closed captions for viewers who cannot hear the audio: they name speakers and describe sounds
+export type SubtitleKind = 'subtitles' | 'captions'
+
+export interface SubtitleTrack {
+  id: string
+  language: string
+  kind?: SubtitleKind
+  format: SubtitleFormat
+  url: string
+  timestamps: SubtitleEntry[]
+  files?: Partial<Record<SubtitleFormat, string>> // the same track exported in every format
+}
+
+export interface SubtitleEntry {
+  start: number
+  end: number
+  text: string // line breaks are part of the cue
+  speaker?: string // only on the cue where the speaker changes
+  sound?: boolean // a sound description such as "[keyboard clicking]" rather than speech
+}
+
+// A named stretch of the video; players list these to let viewers jump around
+export interface ChapterCue {
+  id: string
+  title: string
+  start: number
+  end: number
+}
+
+// What is on screen, read to viewers who cannot see it (<track kind="descriptions">). pause is how
+// long the video holds at start so a description too long for the gap in the narration can finish.
+export interface DescriptionCue {
+  id: string
+  text: string
+  start: number
+  end: number
+  pause?: number
+}
+
+// Speech with known timing: a TTS speech mark, or a sentence placed by alignment
+export interface TimedText {
+  text: string
+  start: number
+  end: number
+  speaker?: string
+}
+
+// Non-speech audio worth describing in closed captions
+export interface SoundEvent {
+  start: number
+  end: number
+  description: string
+}
+
+export interface CueOptions {
+  maxCharsPerLine?: number
+  maxLines?: number
+  maxCharsPerSecond?: number // reading speed; fast cues borrow time from the silence after them
+  minDuration?: number
+  maxDuration?: number
+  speakerLabels?: boolean // name the speaker whenever it changes
+  defaultSpeaker?: string // for text without a speaker of its own
+  sounds?: SoundEvent[]
+}
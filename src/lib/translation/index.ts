@@ -0,0 +1,10 @@
+// Translation
+// Localizes generated storybook content into other languages
+
+export * from './locales'
+export { translateContent, translateTexts } from './translator'
+export type { TranslateOptions } from './translator'
+export { placeholdersIn, protectTerms, restoreTerms } from './placeholders'
+export type { ProtectedText } from './placeholders'
+export { collectSegments } from './segments'
+export type { TextSegment } from './segments'
@@ -0,0 +1,48 @@
+// Locales
+// Locale codes, names and text direction; free of server imports so the player can use them too
+
+// Storybooks are generated in English and translated from there
+export const SOURCE_LOCALE = 'en'
+
+export type TextDirection = 'ltr' | 'rtl'
+
+// Languages written right to left, by ISO 639 code
+const RTL_LANGUAGES = new Set(['ar', 'arc', 'ckb', 'dv', 'fa', 'he', 'ku', 'ps', 'sd', 'ug', 'ur', 'yi'])
+
+/**
+ * Canonical BCP 47 form ('pt_br' → 'pt-BR'), or null when the code is not a valid locale
+ */
+export function normalizeLocale(locale: string): string | null {
+  try {
+    const [canonical] = Intl.getCanonicalLocales(locale.trim().replace(/_/g, '-'))
+    return canonical || null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Locales a storybook is translated into: its language plus any extra locales, minus the source language
+ */
+export function translationTargets(language: string | undefined, locales: string[] = []): string[] {
+  const targets = [language, ...locales]
+    .filter((locale): locale is string => Boolean(locale))
+    .map(locale => normalizeLocale(locale))
+    .filter((locale): locale is string => locale !== null && locale.split('-')[0] !== SOURCE_LOCALE)
+  return [...new Set(targets)]
+}
+
+export function textDirection(locale: string): TextDirection {
+  return RTL_LANGUAGES.has(locale.split('-')[0].toLowerCase()) ? 'rtl' : 'ltr'
+}
+
+/**
+ * The locale's own name for itself ('es' → 'español'), so people can find their language in a list
+ */
+export function localeName(locale: string, displayLocale: string = locale): string {
+  try {
+    return new Intl.DisplayNames([displayLocale], { type: 'language' }).of(locale) || locale
+  } catch {
+    return locale
+  }
+}
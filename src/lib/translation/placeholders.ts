@@ -0,0 +1,48 @@
+// Protected Terms
+// Swaps code, n8n expressions, URLs and node names for numbered placeholders before text goes to
+// the translator, and puts them back afterwards, so none of them can be translated by mistake
+
+export interface ProtectedText {
+  text: string
+  tokens: string[]
+}
+
+const PROTECTED_PATTERNS = [
+  /```[\s\S]*?```/, // fenced code blocks
+  /`[^`\n]+`/, // inline code
+  /\{\{[\s\S]*?\}\}/, // n8n expressions such as {{ $json.email }}
+  /\$\([^)]*\)(?:\.[\w$]+)*/, // $('Node Name').item references
+  /https?:\/\/[^\s)>\]]*[^\s)>\].,;:!?'"]/ // URLs, without the sentence's closing punctuation
+]
+
+const PLACEHOLDER = /⟦(\d+)⟧/g
+
+export function protectTerms(text: string, terms: string[] = []): ProtectedText {
+  // Longest first, so "Slack Trigger" wins over "Slack"; only whole words count
+  const termPatterns = [...new Set(terms.filter(term => term.trim()))]
+    .sort((a, b) => b.length - a.length)
+    .map(term => `(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`)
+  const pattern = new RegExp([...PROTECTED_PATTERNS.map(source => source.source), ...termPatterns].join('|'), 'gu')
+
+  const tokens: string[] = []
+  const protectedText = text.replace(pattern, match => {
+    tokens.push(match)
+    return `⟦${tokens.length - 1}⟧`
+  })
+  return { text: protectedText, tokens }
+}
+
+export function restoreTerms(text: string, tokens: string[]): string {
+  return text.replace(PLACEHOLDER, (placeholder, index: string) => tokens[Number(index)] ?? placeholder)
+}
+
+/**
+ * Placeholders in a text, sorted; a faithful translation has the same ones as its source
+ */
+export function placeholdersIn(text: string): string[] {
+  return Array.from(text.matchAll(PLACEHOLDER), match => match[0]).sort()
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
@@ -0,0 +1,56 @@
+// Translatable Text
+// Every human-readable string in a storybook's content, each with a way to write its translation back.
+// Code, ids, URLs and quiz answer indexes are left alone.
+
+import type { EducationalContent } from '../agents/n8n-workflow-analyzer'
+
+export interface TextSegment {
+  text: string
+  set: (value: string) => void
+}
+
+/**
+ * Segments of a copy of the content; setting them fills in the copy, never the original
+ */
+export function collectSegments(content: EducationalContent): { copy: EducationalContent; segments: TextSegment[] } {
+  const copy = structuredClone(content)
+  const segments: TextSegment[] = []
+  const add = (text: string | undefined, set: (value: string) => void) => {
+    if (text && text.trim()) segments.push({ text, set })
+  }
+
+  add(copy.title, value => { copy.title = value })
+  add(copy.description, value => { copy.description = value })
+  copy.learningObjectives?.forEach((objective, index) => add(objective, value => { copy.learningObjectives[index] = value }))
+  copy.prerequisites?.forEach((prerequisite, index) => add(prerequisite, value => { copy.prerequisites[index] = value }))
+
+  for (const step of copy.steps || []) {
+    add(step.title, value => { step.title = value })
+    add(step.description, value => { step.description = value })
+    add(step.explanation, value => { step.explanation = value })
+    add(step.codeDescription, value => { step.codeDescription = value })
+
+    for (const aid of step.visualAids || []) {
+      add(aid.altText, value => { aid.altText = value })
+      add(aid.description, value => { aid.description = value })
+    }
+
+    const quiz = step.quiz
+    if (quiz) {
+      add(quiz.question, value => { quiz.question = value })
+      quiz.options.forEach((option, index) => add(option, value => { quiz.options[index] = value }))
+      const spoken = quiz.optionScreenReaderText
+      spoken?.forEach((text, index) => add(text, value => { spoken[index] = value }))
+      add(quiz.explanation, value => { quiz.explanation = value })
+    }
+  }
+
+  for (const element of copy.interactiveElements || []) {
+    const accessibility = element.accessibility
+    add(element.title, value => { element.title = value })
+    add(accessibility?.screenReaderText, value => { accessibility.screenReaderText = value })
+    add(accessibility?.audioDescription, value => { accessibility.audioDescription = value })
+  }
+
+  return { copy, segments }
+}
@@ -0,0 +1,117 @@
+// Content Translator
+// Localizes a storybook's content with the 'translation' LLM task. Strings are sent in batches with
+// their protected terms replaced by placeholders; a reply that drops or invents a placeholder is sent
+// back for repair like any other invalid reply.
+
+import type { EducationalContent } from '../agents/n8n-workflow-analyzer'
+import { generateStructured, isLLMConfigured, translationSchema } from '../llm'
+import { localeName, SOURCE_LOCALE } from './locales'
+import { placeholdersIn, protectTerms, restoreTerms } from './placeholders'
+import { collectSegments } from './segments'
+
+export interface TranslateOptions {
+  sourceLocale?: string
+  terms?: string[] // kept verbatim, e.g. the workflow's node names
+}
+
+// Small enough for a reply to fit comfortably in the model's output limit
+const MAX_BATCH_STRINGS = 40
+const MAX_BATCH_CHARS = 6000
+
+export async function translateContent(
+  content: EducationalContent,
+  locale: string,
+  options: TranslateOptions = {}
+): Promise<EducationalContent> {
+  const { copy, segments } = collectSegments(content)
+  const translated = await translateTexts(segments.map(segment => segment.text), locale, options)
+  segments.forEach((segment, index) => segment.set(translated[index]))
+  return copy
+}
+
+/**
+ * Translate strings, keeping protected terms intact. Duplicates are translated once.
+ */
+export async function translateTexts(texts: string[], locale: string, options: TranslateOptions = {}): Promise<string[]> {
+  const sourceLocale = options.sourceLocale || SOURCE_LOCALE
+  if (locale === sourceLocale || texts.length === 0) return [...texts]
+
+  if (!isLLMConfigured('translation')) {
+    throw new Error(`No LLM provider is configured for translation into ${locale}`)
+  }
+
+  const unique = [...new Set(texts)]
+  const protectedTexts = unique.map(text => protectTerms(text, options.terms))
+  const translations = new Map<string, string>()
+
+  for (const batch of batches(protectedTexts.map((entry, index) => ({ ...entry, source: unique[index] })))) {
+    const replies = await translateBatch(batch.map(entry => entry.text), sourceLocale, locale)
+    batch.forEach((entry, index) => translations.set(entry.source, restoreTerms(replies[index], entry.tokens)))
+  }
+
+  return texts.map(text => translations.get(text) ?? text)
+}
+
+async function translateBatch(strings: string[], sourceLocale: string, locale: string): Promise<string[]> {
+  const schema = translationSchema.superRefine((reply, ctx) => {
+    if (reply.translations.length !== strings.length) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['translations'],
+        message: `expected ${strings.length} translations, got ${reply.translations.length}`
+      })
+      return
+    }
+
+    reply.translations.forEach((translation, index) => {
+      if (placeholdersIn(translation).join() !== placeholdersIn(strings[index]).join()) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['translations', index],
+          message: `must keep exactly the placeholders ${placeholdersIn(strings[index]).join(' ') || '(none)'}`
+        })
+      }
+    })
+  })
+
+  const { data } = await generateStructured('translation', {
+    messages: [
+      {
+        role: 'system',
+        content: `You are a professional technical translator localizing an interactive tutorial about n8n automation workflows. ` +
+          `Translate each string from ${localeName(sourceLocale, 'en')} (${sourceLocale}) into ${localeName(locale, 'en')} (${locale}). ` +
+          'Placeholders such as ⟦0⟧ stand for code, node names and URLs: copy them unchanged. ' +
+          'Keep the meaning, the friendly teaching tone and any Markdown formatting. ' +
+          'Reply with a JSON object {"translations": [...]} holding one translation per input string, in the same order.'
+      },
+      { role: 'user', content: JSON.stringify({ strings }) }
+    ],
+    temperature: 0.2,
+    schema: {
+      type: 'object',
+      properties: { translations: { type: 'array', items: { type: 'string' } } },
+      required: ['translations']
+    }
+  }, schema)
+
+  return data.translations
+}
+
+function batches<T extends { text: string }>(entries: T[]): T[][] {
+  const result: T[][] = []
+  let current: T[] = []
+  let chars = 0
+
+  for (const entry of entries) {
+    if (current.length > 0 && (current.length >= MAX_BATCH_STRINGS || chars + entry.text.length > MAX_BATCH_CHARS)) {
+      result.push(current)
+      current = []
+      chars = 0
+    }
+    current.push(entry)
+    chars += entry.text.length
+  }
+
+  if (current.length > 0) result.push(current)
+  return result
+}
@@ -0,0 +1,54 @@
+// Speech Commands
+// Runs a local speech engine that reads text on stdin and writes a WAV file
+
+import { spawn } from 'child_process'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { PcmAudio, TTSProviderError } from './types'
+import { parseWav } from './wav'
+
+const COMMAND_TIMEOUT_MS = 60 * 1000
+
+/**
+ * Run `command ...args(outputFile)` with the text on stdin and decode the WAV it writes
+ */
+export async function runSpeechCommand(
+  provider: string,
+  command: string,
+  args: (outputFile: string) => string[],
+  text: string
+): Promise<PcmAudio> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), `tts-${provider}-`))
+  const outputFile = path.join(dir, 'speech.wav')
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const child = spawn(command, args(outputFile), { stdio: ['pipe', 'ignore', 'pipe'] })
+      let stderr = ''
+      child.stderr.on('data', chunk => {
+        stderr = (stderr + chunk).slice(-2000)
+      })
+
+      const timer = setTimeout(() => child.kill('SIGKILL'), COMMAND_TIMEOUT_MS)
+      child.on('error', error => {
+        clearTimeout(timer)
+        reject(new TTSProviderError(`Could not start ${command}: ${error.message}`, provider, error))
+      })
+      child.on('close', code => {
+        clearTimeout(timer)
+        if (code === 0) return resolve()
+        reject(new TTSProviderError(`${command} exited with code ${code}: ${stderr.trim().split('\n').pop() || 'no output'}`, provider))
+      })
+
+      child.stdin.on('error', () => {
+        // A failed start is reported through 'error' above
+      })
+      child.stdin.end(text)
+    })
+
+    return parseWav(await fs.readFile(outputFile))
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true })
+  }
+}
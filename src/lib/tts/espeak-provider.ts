@@ -0,0 +1,25 @@
+// eSpeak Provider
+// Formant speech with espeak-ng: robotic, but tiny, fast and available for almost every language
+
+import { runSpeechCommand } from './command'
+import { PcmAudio, TTSProvider, TTSProviderKind, VoiceOptions } from './types'
+
+const WORDS_PER_MINUTE: Record<VoiceOptions['speed'], number> = { slow: 140, normal: 170, fast: 210 }
+const PITCHES: Record<NonNullable<VoiceOptions['pitch']>, number> = { low: 30, normal: 50, high: 70 }
+
+export class EspeakProvider implements TTSProvider {
+  readonly name = 'espeak'
+  readonly kind: TTSProviderKind = 'espeak'
+
+  constructor(private binary: string) {}
+
+  async synthesize(text: string, voice: VoiceOptions): Promise<PcmAudio> {
+    return runSpeechCommand(this.name, this.binary, outputFile => [
+      '-v', voice.language.toLowerCase(),
+      '-s', String(WORDS_PER_MINUTE[voice.speed] ?? 170),
+      '-p', String(PITCHES[voice.pitch || 'normal']),
+      '-w', outputFile,
+      '--stdin'
+    ], text)
+  }
+}
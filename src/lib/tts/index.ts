@@ -0,0 +1,102 @@
+// Text-to-Speech
+// Picks the speech engine from the environment and stores narration tracks for /api/audio
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { getDataDirectory } from '../storage'
+import { EspeakProvider } from './espeak-provider'
+import { OpenAITTSProvider } from './openai-tts-provider'
+import { PiperProvider } from './piper-provider'
+import { SilentProvider } from './silent-provider'
+import type { Narration, TTSProvider, TTSProviderKind } from './types'
+import { encodeWav } from './wav'
+
+export * from './types'
+export { OpenAITTSProvider } from './openai-tts-provider'
+export { PiperProvider } from './piper-provider'
+export { EspeakProvider } from './espeak-provider'
+export { SilentProvider } from './silent-provider'
+export { synthesizeNarration, splitParagraphs, splitSentences } from './narration'
+export type { NarrationOptions } from './narration'
+export { encodeWav, parseWav, pcmDuration, placeClips } from './wav'
+
+const PROVIDER_KINDS: TTSProviderKind[] = ['openai', 'piper', 'espeak', 'silent']
+
+/**
+ * TTS_PROVIDER, else OpenAI when it has a key, else silence so offline renders still line up
+ */
+export function resolveTTSProviderKind(): TTSProviderKind {
+  const kind = process.env.TTS_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'silent')
+  if (!PROVIDER_KINDS.includes(kind as TTSProviderKind)) {
+    throw new Error(`Unknown TTS provider "${kind}"`)
+  }
+  return kind as TTSProviderKind
+}
+
+export function createTTSProvider(kind: TTSProviderKind): TTSProvider {
+  switch (kind) {
+    case 'openai':
+      return new OpenAITTSProvider({
+        apiKey: process.env.OPENAI_API_KEY || '',
+        model: process.env.TTS_OPENAI_MODEL || undefined,
+        voice: process.env.TTS_OPENAI_VOICE || undefined
+      })
+    case 'piper':
+      return new PiperProvider({
+        binary: process.env.PIPER_PATH || 'piper',
+        models: piperModelsFromEnv()
+      })
+    case 'espeak':
+      return new EspeakProvider(process.env.ESPEAK_PATH || 'espeak-ng')
+    case 'silent':
+      return new SilentProvider()
+    default:
+      throw new Error(`Unknown TTS provider: ${kind}`)
+  }
+}
+
+const providers = new Map<TTSProviderKind, TTSProvider>()
+
+export function getTTSProvider(): TTSProvider {
+  const kind = resolveTTSProviderKind()
+  let provider = providers.get(kind)
+  if (!provider) {
+    provider = createTTSProvider(kind)
+    providers.set(kind, provider)
+  }
+  return provider
+}
+
+export const AUDIO_FILES_PATH = '/api/audio'
+
+/**
+ * Narration tracks live in <STORAGE_DATA_DIR>/audio/<id>.wav
+ */
+export function getAudioDirectory(): string {
+  return path.join(getDataDirectory(), 'audio')
+}
+
+/**
+ * Write a narration as WAV; path is for local tools (ffmpeg), url for players and remote workers
+ */
+export async function saveNarration(id: string, narration: Narration): Promise<{ path: string; url: string }> {
+  const directory = getAudioDirectory()
+  const file = `${id}.wav`
+  await fs.mkdir(directory, { recursive: true })
+  await fs.writeFile(path.join(directory, file), encodeWav(narration.audio))
+
+  const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000'
+  return { path: path.join(directory, file), url: `${baseUrl}${AUDIO_FILES_PATH}/${file}` }
+}
+
+// PIPER_MODEL for any language, PIPER_MODEL_<LANG> (e.g. PIPER_MODEL_ES) per language
+function piperModelsFromEnv(): Record<string, string> {
+  const models: Record<string, string> = {}
+  if (process.env.PIPER_MODEL) models['*'] = process.env.PIPER_MODEL
+
+  for (const [name, value] of Object.entries(process.env)) {
+    const match = /^PIPER_MODEL_([A-Z]{2,3}(?:_[A-Z]{2})?)$/.exec(name)
+    if (match && value) models[match[1].toLowerCase().replace('_', '-')] = value
+  }
+  return models
+}
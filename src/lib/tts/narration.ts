@@ -0,0 +1,101 @@
+// Narration
+// Speaks a script one sentence at a time, so every sentence's real start and end in the
+// joined track is known; scenes and subtitles align to those marks
+
+import type { Narration, PcmAudio, SpeechMark, TTSProvider, VoiceOptions } from './types'
+import { pcmDuration, sameFormat, silence } from './wav'
+
+export interface NarrationOptions {
+  sentencePause?: number // seconds of silence between sentences
+  paragraphPause?: number // and between paragraphs (scenes)
+  minParagraphDuration?: number // short paragraphs are padded with silence so their scene stays on screen
+}
+
+const DEFAULTS = { sentencePause: 0.3, paragraphPause: 0.8, minParagraphDuration: 0 }
+
+// Longer sentences are split at clause boundaries so subtitle cues stay readable
+const MAX_SENTENCE_CHARS = 220
+
+export async function synthesizeNarration(
+  provider: TTSProvider,
+  text: string,
+  voice: VoiceOptions,
+  options: NarrationOptions = {}
+): Promise<Narration> {
+  const { sentencePause, paragraphPause, minParagraphDuration } = { ...DEFAULTS, ...options }
+  const clips: PcmAudio[] = []
+  const marks: SpeechMark[] = []
+  let cursor = 0
+
+  const append = (audio: PcmAudio) => {
+    clips.push(audio)
+    cursor += pcmDuration(audio)
+  }
+
+  const paragraphs = splitParagraphs(text)
+  for (const [paragraph, content] of paragraphs.entries()) {
+    let paragraphStart: number | undefined
+
+    for (const sentence of splitSentences(content)) {
+      const clip = await provider.synthesize(sentence, voice)
+      if (clips.length > 0 && !sameFormat(clips[0].format, clip.format)) {
+        throw new Error(`${provider.name} returned audio in more than one format`)
+      }
+
+      if (clips.length > 0) {
+        append(silence(clip.format, paragraphStart === undefined ? paragraphPause : sentencePause))
+      }
+
+      paragraphStart ??= cursor
+      const start = cursor
+      append(clip)
+      marks.push({ text: sentence, start: round(start), end: round(cursor), paragraph })
+    }
+
+    if (paragraphStart !== undefined && cursor - paragraphStart < minParagraphDuration) {
+      append(silence(clips[0].format, minParagraphDuration - (cursor - paragraphStart)))
+    }
+  }
+
+  if (clips.length === 0) {
+    throw new Error('Nothing to narrate')
+  }
+
+  const audio: PcmAudio = { format: clips[0].format, data: Buffer.concat(clips.map(clip => clip.data)) }
+  return { provider: provider.name, audio, duration: round(pcmDuration(audio)), marks }
+}
+
+/**
+ * Blank lines separate paragraphs; empty paragraphs keep their index so it still matches the scene
+ */
+export function splitParagraphs(text: string): string[] {
+  return text.split(/\r?\n\s*\r?\n/).map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+}
+
+export function splitSentences(paragraph: string): string[] {
+  // Only punctuation followed by whitespace ends a sentence, so "v1.5" and "node.js" stay whole
+  return paragraph.split(/(?<=[.!?…]["')\]]*)\s+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean)
+    .flatMap(sentence => sentence.length <= MAX_SENTENCE_CHARS ? [sentence] : splitClauses(sentence))
+}
+
+function splitClauses(sentence: string): string[] {
+  const parts: string[] = []
+  let current = ''
+
+  for (const clause of sentence.split(/(?<=[,;:])\s+/)) {
+    if (current && current.length + clause.length + 1 > MAX_SENTENCE_CHARS) {
+      parts.push(current)
+      current = clause
+    } else {
+      current = current ? `${current} ${clause}` : clause
+    }
+  }
+  if (current) parts.push(current)
+  return parts
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000
+}
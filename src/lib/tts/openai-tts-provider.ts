@@ -0,0 +1,56 @@
+// OpenAI TTS Provider
+// Speech through the OpenAI audio API, requested as raw PCM so clips can be measured and joined
+
+import { OpenAI } from 'openai'
+import { PcmAudio, TTSProvider, TTSProviderError, TTSProviderKind, VoiceOptions } from './types'
+
+export interface OpenAITTSProviderOptions {
+  apiKey: string
+  baseURL?: string
+  model?: string // overrides the per-voice default
+  voice?: string // overrides the per-voice default
+}
+
+// The API's 'pcm' format: 24 kHz, 16-bit signed little-endian, mono
+const PCM_FORMAT = { sampleRate: 24000, channels: 1, bitsPerSample: 16 }
+
+const VOICES: Record<VoiceOptions['voice'], { model: string; voice: string }> = {
+  neural: { model: 'tts-1-hd', voice: 'nova' },
+  wavenet: { model: 'tts-1-hd', voice: 'shimmer' },
+  standard: { model: 'tts-1', voice: 'alloy' }
+}
+
+const SPEEDS: Record<VoiceOptions['speed'], number> = { slow: 0.85, normal: 1, fast: 1.2 }
+
+export class OpenAITTSProvider implements TTSProvider {
+  readonly name = 'openai'
+  readonly kind: TTSProviderKind = 'openai'
+  private client: OpenAI
+
+  constructor(private options: OpenAITTSProviderOptions) {
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL })
+  }
+
+  async synthesize(text: string, voice: VoiceOptions): Promise<PcmAudio> {
+    const preset = VOICES[voice.voice] || VOICES.neural
+
+    try {
+      // The model detects the language from the text; pitch is not adjustable
+      const response = await this.client.audio.speech.create({
+        model: this.options.model || preset.model,
+        voice: (this.options.voice || preset.voice) as 'nova',
+        input: text,
+        speed: SPEEDS[voice.speed] ?? 1,
+        response_format: 'pcm'
+      })
+
+      return { format: PCM_FORMAT, data: Buffer.from(await response.arrayBuffer()) }
+    } catch (error) {
+      throw new TTSProviderError(
+        `OpenAI speech synthesis failed: ${error instanceof Error ? error.message : error}`,
+        this.name,
+        error
+      )
+    }
+  }
+}
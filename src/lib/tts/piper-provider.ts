@@ -0,0 +1,36 @@
+// Piper Provider
+// Local neural speech with Piper (https://github.com/rhasspy/piper); one .onnx voice model per language
+
+import { runSpeechCommand } from './command'
+import { PcmAudio, TTSProvider, TTSProviderError, TTSProviderKind, VoiceOptions } from './types'
+
+export interface PiperProviderOptions {
+  binary: string
+  // Voice model per language code ('en', 'es', ...), plus '*' for any other language
+  models: Record<string, string>
+}
+
+// Piper stretches speech with length_scale: above 1 is slower
+const LENGTH_SCALES: Record<VoiceOptions['speed'], number> = { slow: 1.2, normal: 1, fast: 0.85 }
+
+export class PiperProvider implements TTSProvider {
+  readonly name = 'piper'
+  readonly kind: TTSProviderKind = 'piper'
+
+  constructor(private options: PiperProviderOptions) {}
+
+  async synthesize(text: string, voice: VoiceOptions): Promise<PcmAudio> {
+    const language = voice.language.toLowerCase().split(/[-_]/)[0]
+    const model = this.options.models[voice.language.toLowerCase()] || this.options.models[language] || this.options.models['*']
+    if (!model) {
+      throw new TTSProviderError(`No Piper voice model configured for language "${voice.language}"`, this.name)
+    }
+
+    // Pitch and voice style come from the model itself
+    return runSpeechCommand(this.name, this.options.binary, outputFile => [
+      '--model', model,
+      '--output_file', outputFile,
+      '--length_scale', String(LENGTH_SCALES[voice.speed] ?? 1)
+    ], text)
+  }
+}
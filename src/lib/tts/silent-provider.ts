@@ -0,0 +1,19 @@
+// Silent Provider
+// Stand-in engine for offline runs and tests: silence lasting as long as the text would take to read
+
+import { PcmAudio, TTSProvider, TTSProviderKind, VoiceOptions } from './types'
+import { silence } from './wav'
+
+const FORMAT = { sampleRate: 16000, channels: 1, bitsPerSample: 16 }
+const WORDS_PER_MINUTE: Record<VoiceOptions['speed'], number> = { slow: 130, normal: 160, fast: 190 }
+
+export class SilentProvider implements TTSProvider {
+  readonly name = 'silent'
+  readonly kind: TTSProviderKind = 'silent'
+
+  async synthesize(text: string, voice: VoiceOptions): Promise<PcmAudio> {
+    const words = text.split(/\s+/).filter(Boolean).length
+    const seconds = Math.max(0.5, (words / (WORDS_PER_MINUTE[voice.speed] ?? 160)) * 60)
+    return silence(FORMAT, seconds)
+  }
+}
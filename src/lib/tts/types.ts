@@ -0,0 +1,59 @@
+// Text-to-Speech Types
+// One interface over hosted and local speech engines; every engine hands back PCM audio
+
+export type TTSProviderKind = 'openai' | 'piper' | 'espeak' | 'silent'
+
+export interface VoiceOptions {
+  language: string
+  voice: 'neural' | 'standard' | 'wavenet'
+  speed: 'slow' | 'normal' | 'fast'
+  pitch?: 'low' | 'normal' | 'high'
+}
+
+export interface PcmFormat {
+  sampleRate: number
+  channels: number
+  bitsPerSample: number
+}
+
+// Decoded WAV: the format plus raw little-endian PCM samples
+export interface PcmAudio {
+  format: PcmFormat
+  data: Buffer
+}
+
+export interface TTSProvider {
+  readonly name: string
+  readonly kind: TTSProviderKind
+  // Engines that cannot honour a voice option (pitch on OpenAI, say) ignore it
+  synthesize(text: string, voice: VoiceOptions): Promise<PcmAudio>
+}
+
+/**
+ * Where one sentence sits in the narration, in seconds. paragraph is the index of the
+ * blank-line separated paragraph it came from, which is how scenes find their sentences.
+ */
+export interface SpeechMark {
+  text: string
+  start: number
+  end: number
+  paragraph: number
+}
+
+export interface Narration {
+  provider: string
+  audio: PcmAudio
+  duration: number
+  marks: SpeechMark[]
+}
+
+export class TTSProviderError extends Error {
+  constructor(
+    message: string,
+    readonly provider: string,
+    readonly cause?: unknown
+  ) {
+    super(message)
+    this.name = 'TTSProviderError'
+  }
+}
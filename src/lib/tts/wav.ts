@@ -0,0 +1,101 @@
+// WAV
+// Minimal RIFF/WAVE reading and writing for PCM audio, enough to measure and join speech clips
+
+import type { PcmAudio, PcmFormat } from './types'
+
+export function parseWav(buffer: Buffer): PcmAudio {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a WAV file')
+  }
+
+  let format: PcmFormat | undefined
+  let offset = 12
+
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString('ascii', offset, offset + 4)
+    const declared = buffer.readUInt32LE(offset + 4)
+    const start = offset + 8
+    // Engines writing to a pipe leave placeholder sizes, so never read past the end
+    const size = Math.min(declared, buffer.length - start)
+
+    if (id === 'fmt ') {
+      const audioFormat = buffer.readUInt16LE(start)
+      // 1 = PCM; 0xfffe = WAVE_FORMAT_EXTENSIBLE, which piper and espeak only use for PCM
+      if (audioFormat !== 1 && audioFormat !== 0xfffe) {
+        throw new Error(`Unsupported WAV encoding ${audioFormat}; only PCM is supported`)
+      }
+      format = {
+        channels: buffer.readUInt16LE(start + 2),
+        sampleRate: buffer.readUInt32LE(start + 4),
+        bitsPerSample: buffer.readUInt16LE(start + 14)
+      }
+    } else if (id === 'data') {
+      if (!format) throw new Error('WAV data chunk comes before its format chunk')
+      const frameSize = bytesPerFrame(format)
+      return { format, data: buffer.subarray(start, start + size - (size % frameSize)) }
+    }
+
+    // Chunks are word aligned
+    offset = start + size + (size % 2)
+  }
+
+  throw new Error('WAV file has no data chunk')
+}
+
+export function encodeWav(audio: PcmAudio): Buffer {
+  const { format, data } = audio
+  const header = Buffer.alloc(44)
+
+  header.write('RIFF', 0, 'ascii')
+  header.writeUInt32LE(36 + data.length, 4)
+  header.write('WAVE', 8, 'ascii')
+  header.write('fmt ', 12, 'ascii')
+  header.writeUInt32LE(16, 16)
+  header.writeUInt16LE(1, 20)
+  header.writeUInt16LE(format.channels, 22)
+  header.writeUInt32LE(format.sampleRate, 24)
+  header.writeUInt32LE(format.sampleRate * bytesPerFrame(format), 28)
+  header.writeUInt16LE(bytesPerFrame(format), 32)
+  header.writeUInt16LE(format.bitsPerSample, 34)
+  header.write('data', 36, 'ascii')
+  header.writeUInt32LE(data.length, 40)
+
+  return Buffer.concat([header, data])
+}
+
+export function pcmDuration(audio: PcmAudio): number {
+  return audio.data.length / (audio.format.sampleRate * bytesPerFrame(audio.format))
+}
+
+export function silence(format: PcmFormat, seconds: number): PcmAudio {
+  const frames = Math.max(0, Math.round(seconds * format.sampleRate))
+  // Zero is silence for signed PCM; 8-bit WAV is unsigned and centred on 128
+  const fill = format.bitsPerSample === 8 ? 128 : 0
+  return { format, data: Buffer.alloc(frames * bytesPerFrame(format), fill) }
+}
+
+/**
+ * A track of the given length with each clip written in at its start time, silence elsewhere.
+ * Later clips overwrite earlier ones where they overlap, and anything past the end is cut off.
+ */
+export function placeClips(format: PcmFormat, seconds: number, clips: { audio: PcmAudio; at: number }[]): PcmAudio {
+  const track = silence(format, seconds)
+  const frameSize = bytesPerFrame(format)
+
+  for (const { audio, at } of clips) {
+    if (!sameFormat(format, audio.format)) throw new Error('Cannot place a clip in a track of another format')
+    const offset = Math.max(0, Math.round(at * format.sampleRate)) * frameSize
+    if (offset >= track.data.length) continue
+    audio.data.copy(track.data, offset, 0, Math.min(audio.data.length, track.data.length - offset))
+  }
+
+  return track
+}
+
+export function sameFormat(a: PcmFormat, b: PcmFormat): boolean {
+  return a.sampleRate === b.sampleRate && a.channels === b.channels && a.bitsPerSample === b.bitsPerSample
+}
+
+function bytesPerFrame(format: PcmFormat): number {
+  return format.channels * Math.ceil(format.bitsPerSample / 8)
+}
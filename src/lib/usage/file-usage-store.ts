@@ -0,0 +1,86 @@
+// File Usage Store
+// Default usage ledger: one append-only JSON Lines file per UTC day under the data directory, so a
+// report only reads the days its window covers
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { UsageEntry, UsageFilter, UsageStore } from './types'
+
+const DAY_FILE = /^(\d{4}-\d{2}-\d{2})\.jsonl$/
+
+export class FileUsageStore implements UsageStore {
+  readonly name = 'file'
+  private directory: string
+  private ready: Promise<void> | null = null
+
+  constructor(baseDir: string) {
+    this.directory = path.join(baseDir, 'usage')
+  }
+
+  async append(entry: UsageEntry): Promise<UsageEntry> {
+    await this.prepare()
+    await fs.appendFile(this.dayFile(entry.recordedAt.slice(0, 10)), `${JSON.stringify(entry)}\n`, 'utf-8')
+    return entry
+  }
+
+  async list(filter: UsageFilter = {}): Promise<UsageEntry[]> {
+    await this.prepare()
+
+    const sinceDay = filter.since?.slice(0, 10)
+    const untilDay = filter.until?.slice(0, 10)
+    const days = (await fs.readdir(this.directory))
+      .map(file => file.match(DAY_FILE)?.[1])
+      .filter((day): day is string => !!day && (!sinceDay || day >= sinceDay) && (!untilDay || day <= untilDay))
+
+    const entries: UsageEntry[] = []
+    for (const day of days) {
+      entries.push(...await this.readDay(day))
+    }
+
+    return entries
+      .filter(entry =>
+        (!filter.tenantId || entry.tenantId === filter.tenantId) &&
+        (!filter.jobId || entry.jobId === filter.jobId) &&
+        (!filter.storybookId || entry.storybookId === filter.storybookId) &&
+        (!filter.since || entry.recordedAt >= filter.since) &&
+        (!filter.until || entry.recordedAt <= filter.until)
+      )
+      .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt))
+  }
+
+  private async readDay(day: string): Promise<UsageEntry[]> {
+    let raw: string
+    try {
+      raw = await fs.readFile(this.dayFile(day), 'utf-8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw error
+    }
+
+    return raw.split('\n').flatMap(line => {
+      if (!line.trim()) return []
+      try {
+        return [JSON.parse(line) as UsageEntry]
+      } catch {
+        // A line cut short by a crash mid-write; the rest of the day is still good
+        return []
+      }
+    })
+  }
+
+  private dayFile(day: string): string {
+    return path.join(this.directory, `${day}.jsonl`)
+  }
+
+  private prepare(): Promise<void> {
+    if (!this.ready) {
+      this.ready = fs.mkdir(this.directory, { recursive: true })
+        .then(() => undefined)
+        .catch(error => {
+          this.ready = null
+          throw error
+        })
+    }
+    return this.ready
+  }
+}
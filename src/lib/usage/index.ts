@@ -0,0 +1,65 @@
+// Usage Metering
+// Builds the usage meter from the environment: where the ledger lives, budgets and unit prices
+
+import { getDataDirectory } from '../storage'
+import { FileUsageStore } from './file-usage-store'
+import { DEFAULT_TENANT_ID, UsageMeter } from './usage-meter'
+import type { BudgetLimits, BudgetPolicy } from './types'
+
+export * from './types'
+export { UsageMeter, DEFAULT_TENANT_ID } from './usage-meter'
+export type { UsagePricing } from './usage-meter'
+export { FileUsageStore } from './file-usage-store'
+
+/**
+ * Job budgets (BUDGET_JOB_*) cover every attempt of one job; tenant budgets (BUDGET_TENANT_*)
+ * cover a calendar month and can be overridden per tenant with BUDGET_TENANTS='{"acme":{"llmTokens":500000}}'
+ */
+export function budgetsFromEnv(): BudgetPolicy {
+  const overrides = parseTenantBudgets(process.env.BUDGET_TENANTS)
+  const tenantDefaults: BudgetLimits = {
+    llmTokens: numberFromEnv('BUDGET_TENANT_LLM_TOKENS'),
+    gpuSeconds: numberFromEnv('BUDGET_TENANT_GPU_SECONDS')
+  }
+
+  return {
+    job: {
+      llmTokens: numberFromEnv('BUDGET_JOB_LLM_TOKENS'),
+      gpuSeconds: numberFromEnv('BUDGET_JOB_GPU_SECONDS')
+    },
+    tenant: tenantId => ({ ...tenantDefaults, ...overrides[tenantId] })
+  }
+}
+
+let meter: UsageMeter | null = null
+
+export function getUsageMeter(): UsageMeter {
+  if (!meter) {
+    meter = new UsageMeter(new FileUsageStore(getDataDirectory()), budgetsFromEnv(), {
+      perThousandTokens: numberFromEnv('USAGE_PRICE_PER_1K_TOKENS') ?? 0.002,
+      perGpuSecond: numberFromEnv('USAGE_PRICE_PER_GPU_SECOND') ?? 0.0003
+    })
+  }
+  return meter
+}
+
+/**
+ * The tenant a request is billed to: the X-Tenant-Id header, then the body's tenantId
+ */
+export function tenantIdFromRequest(request: Request, bodyTenantId?: string): string {
+  return request.headers.get('x-tenant-id') || bodyTenantId || DEFAULT_TENANT_ID
+}
+
+function parseTenantBudgets(raw: string | undefined): Record<string, BudgetLimits> {
+  if (!raw) return {}
+  try {
+    return JSON.parse(raw) as Record<string, BudgetLimits>
+  } catch (error) {
+    throw new Error(`BUDGET_TENANTS is not valid JSON: ${error instanceof Error ? error.message : error}`)
+  }
+}
+
+function numberFromEnv(name: string): number | undefined {
+  const value = Number(process.env[name])
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : undefined
+}
@@ -0,0 +1,88 @@
+// Usage Types
+// Metered usage records, budget limits and the store contract for the usage ledger
+
+export interface UsageAmounts {
+  llmTokens: number
+  gpuSeconds: number
+}
+
+export type UsageMetric = keyof UsageAmounts
+
+// Who a piece of usage is charged to; the orchestrator sets it for the duration of each task
+export interface UsageScope {
+  tenantId: string
+  jobId?: string
+  storybookId?: string
+  runId?: string
+  taskId?: string
+  taskType?: string
+  agent?: string
+}
+
+export interface UsageEntry extends UsageScope, UsageAmounts {
+  id: string
+  provider: string
+  model?: string
+  cost: number
+  recordedAt: string
+}
+
+export interface UsageFilter {
+  tenantId?: string
+  jobId?: string
+  storybookId?: string
+  since?: string // ISO timestamps, inclusive
+  until?: string
+}
+
+export interface UsageStore {
+  readonly name: string
+  append(entry: UsageEntry): Promise<UsageEntry>
+  list(filter?: UsageFilter): Promise<UsageEntry[]>
+}
+
+// Unset metrics are unlimited
+export type BudgetLimits = Partial<UsageAmounts>
+
+export interface BudgetPolicy {
+  job: BudgetLimits
+  // Tenant limits apply per calendar month (UTC)
+  tenant(tenantId: string): BudgetLimits
+}
+
+export interface UsageTotals extends UsageAmounts {
+  cost: number
+  entries: number
+}
+
+export interface UsageReport {
+  filter: UsageFilter
+  totals: UsageTotals
+  byAgent: Record<string, UsageTotals>
+  byTaskType: Record<string, UsageTotals>
+  byStorybook: Record<string, UsageTotals>
+}
+
+const METRIC_LABELS: Record<UsageMetric, string> = {
+  llmTokens: 'LLM token',
+  gpuSeconds: 'GPU-second'
+}
+
+/**
+ * Raised before work starts when it would take a job or tenant past its budget
+ */
+export class BudgetExceededError extends Error {
+  readonly code = 'BUDGET_EXCEEDED'
+
+  constructor(
+    readonly budget: 'job' | 'tenant',
+    readonly metric: UsageMetric,
+    readonly used: number,
+    readonly requested: number,
+    readonly limit: number
+  ) {
+    super(`${budget === 'job' ? 'Job' : 'Tenant'} ${METRIC_LABELS[metric]} budget exceeded: ` +
+      `${used} used + ${requested} needed > ${limit}`)
+    this.name = 'BudgetExceededError'
+  }
+}
@@ -0,0 +1,214 @@
+// Usage Meter
+// Charges LLM tokens and GPU-seconds to whichever job, tenant and task is running,
+// and refuses work that would take a job or tenant past its budget
+
+import { AsyncLocalStorage } from 'async_hooks'
+import type { TokenUsage } from '../llm/types'
+import {
+  BudgetExceededError,
+  BudgetLimits,
+  BudgetPolicy,
+  UsageAmounts,
+  UsageEntry,
+  UsageFilter,
+  UsageMetric,
+  UsageReport,
+  UsageScope,
+  UsageStore,
+  UsageTotals
+} from './types'
+
+export const DEFAULT_TENANT_ID = 'default'
+
+export interface UsagePricing {
+  perThousandTokens: number
+  perGpuSecond: number
+}
+
+const METRICS: UsageMetric[] = ['llmTokens', 'gpuSeconds']
+
+interface ScopeContext {
+  scope: UsageScope
+  signal?: AbortSignal // aborted once the work has been given up on, such as a task that timed out
+}
+
+export class UsageMeter {
+  private scopes = new AsyncLocalStorage<ScopeContext>()
+  private entries: UsageEntry[] = []
+  private refreshing: Promise<void> | null = null
+  private refreshedAt: Date | null = null
+
+  constructor(
+    readonly store: UsageStore,
+    readonly budgets: BudgetPolicy,
+    private pricing: UsagePricing
+  ) {}
+
+  /**
+   * Run work with usage charged to the given scope, including every async call it makes.
+   * Once signal aborts, provider calls still in flight are abandoned and nothing more is charged.
+   */
+  runInScope<T>(scope: UsageScope, work: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return this.scopes.run({ scope, signal }, work)
+  }
+
+  currentScope(): UsageScope | undefined {
+    return this.scopes.getStore()?.scope
+  }
+
+  currentSignal(): AbortSignal | undefined {
+    return this.scopes.getStore()?.signal
+  }
+
+  recordLLM(usage: TokenUsage, provider: string, model?: string): UsageEntry | null {
+    return this.record({ llmTokens: usage.totalTokens, gpuSeconds: 0 }, provider, model)
+  }
+
+  recordGpu(seconds: number, provider: string, model?: string): UsageEntry | null {
+    return this.record({ llmTokens: 0, gpuSeconds: Math.round(seconds * 1000) / 1000 }, provider, model)
+  }
+
+  /**
+   * Throw BudgetExceededError if the estimated usage would take the scope's job or tenant over budget
+   */
+  async assertWithinBudget(scope: UsageScope, estimate: Partial<UsageAmounts> = {}): Promise<void> {
+    await this.refresh()
+
+    if (scope.jobId) {
+      const used = this.sum(this.entries.filter(entry => entry.jobId === scope.jobId))
+      checkLimits('job', used, estimate, this.budgets.job)
+    }
+
+    const monthStart = startOfMonth().toISOString()
+    const tenantUsed = this.sum(this.entries.filter(entry =>
+      entry.tenantId === scope.tenantId && entry.recordedAt >= monthStart
+    ))
+    checkLimits('tenant', tenantUsed, estimate, this.budgets.tenant(scope.tenantId))
+  }
+
+  /**
+   * Usage recorded by this process for one orchestrator task, available as soon as the task returns
+   */
+  taskTotals(taskId: string): UsageTotals {
+    return this.sum(this.entries.filter(entry => entry.taskId === taskId))
+  }
+
+  async report(filter: UsageFilter = {}): Promise<UsageReport> {
+    const entries = await this.store.list(filter)
+
+    return {
+      filter,
+      totals: this.sum(entries),
+      byAgent: this.groupBy(entries, entry => entry.agent),
+      byTaskType: this.groupBy(entries, entry => entry.taskType),
+      byStorybook: this.groupBy(entries, entry => entry.storybookId)
+    }
+  }
+
+  private record(amounts: UsageAmounts, provider: string, model?: string): UsageEntry | null {
+    if (amounts.llmTokens <= 0 && amounts.gpuSeconds <= 0) return null
+    if (this.currentSignal()?.aborted) {
+      // The task already settled; late work must not change what it was charged
+      console.warn(`⚠️ Ignoring ${provider} usage that arrived after its task was abandoned`)
+      return null
+    }
+
+    const scope = this.currentScope() || { tenantId: DEFAULT_TENANT_ID }
+    const entry: UsageEntry = {
+      ...scope,
+      ...amounts,
+      id: `usage_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+      provider,
+      model,
+      cost: this.price(amounts),
+      recordedAt: new Date().toISOString()
+    }
+
+    // Budget checks read the in-memory ledger, so it is updated before the write lands
+    this.trimEntries()
+    this.entries.push(entry)
+    void this.store.append(entry).catch(error => console.error('❌ Failed to persist usage entry:', error))
+    return entry
+  }
+
+  // Other processes sharing the ledger (job workers) spend against the same budgets, so it is read again
+  // before each check: this month and last the first time (for jobs that straddle the month boundary),
+  // then only the days since the previous read, which is where new entries are appended
+  private refresh(): Promise<void> {
+    if (!this.refreshing) {
+      const startedAt = new Date()
+      const since = (this.refreshedAt ? startOfDay(this.refreshedAt) : startOfMonth(-1)).toISOString()
+      this.refreshing = this.store.list({ since })
+        .then(stored => {
+          const known = new Set(stored.map(entry => entry.id))
+          this.entries = [
+            ...this.entries.filter(entry => entry.recordedAt < since),
+            ...stored,
+            // Recorded here but not written yet
+            ...this.entries.filter(entry => entry.recordedAt >= since && !known.has(entry.id))
+          ]
+          this.refreshedAt = startedAt
+        })
+        .finally(() => {
+          this.refreshing = null
+        })
+    }
+    return this.refreshing
+  }
+
+  // Only this month and last count toward budgets, so older entries are dropped as months turn over
+  private trimEntries(): void {
+    const keepFrom = startOfMonth(-1).toISOString()
+    if (this.entries.length > 0 && this.entries[0].recordedAt < keepFrom) {
+      this.entries = this.entries.filter(entry => entry.recordedAt >= keepFrom)
+    }
+  }
+
+  private price(amounts: UsageAmounts): number {
+    const cost = (amounts.llmTokens / 1000) * this.pricing.perThousandTokens +
+      amounts.gpuSeconds * this.pricing.perGpuSecond
+    return Math.round(cost * 1000000) / 1000000
+  }
+
+  private sum(entries: UsageEntry[]): UsageTotals {
+    return entries.reduce<UsageTotals>((totals, entry) => ({
+      llmTokens: totals.llmTokens + entry.llmTokens,
+      gpuSeconds: Math.round((totals.gpuSeconds + entry.gpuSeconds) * 1000) / 1000,
+      cost: Math.round((totals.cost + entry.cost) * 1000000) / 1000000,
+      entries: totals.entries + 1
+    }), { llmTokens: 0, gpuSeconds: 0, cost: 0, entries: 0 })
+  }
+
+  private groupBy(entries: UsageEntry[], key: (entry: UsageEntry) => string | undefined): Record<string, UsageTotals> {
+    const groups = new Map<string, UsageEntry[]>()
+    entries.forEach(entry => {
+      const name = key(entry) || 'unattributed'
+      groups.set(name, [...(groups.get(name) || []), entry])
+    })
+    return Object.fromEntries(Array.from(groups, ([name, group]) => [name, this.sum(group)]))
+  }
+}
+
+function checkLimits(
+  budget: 'job' | 'tenant',
+  used: UsageTotals,
+  estimate: Partial<UsageAmounts>,
+  limits: BudgetLimits
+): void {
+  for (const metric of METRICS) {
+    const limit = limits[metric]
+    const requested = estimate[metric] ?? 0
+    if (limit !== undefined && used[metric] + requested > limit) {
+      throw new BudgetExceededError(budget, metric, used[metric], requested, limit)
+    }
+  }
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+function startOfMonth(offset = 0): Date {
+  const now = new Date()
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + offset, 1))
+}
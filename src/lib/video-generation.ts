@@ -1,11 +1,26 @@
 // Video Generation Service
 // Handles AI video generation with Wan2.2 and RunPod integration
 
+import {
+  getRunPodClient,
+  runPodWebhookUrl,
+  RunPodJobState,
+  RunPodStatus,
+  RunPodVideoOutput,
+  toVideoOutput
+} from './runpod'
+import { alignTranscript, buildCues, saveSubtitles, SoundEvent, SubtitleTrack } from './subtitles'
+import { getTTSProvider, saveNarration, SpeechMark, synthesizeNarration, VoiceOptions } from './tts'
+import type { OutputProfile } from './video-render'
+
+export type { VoiceOptions } from './tts'
+export type { SubtitleEntry, SubtitleTrack } from './subtitles'
+
 export interface VideoScript {
   id: string
   title: string
   scenes: VideoScene[]
-  narration: string
+  narration: string // one paragraph per scene, separated by blank lines
   totalDuration: number
   metadata: {
     language: string
@@ -23,7 +38,10 @@ export interface VideoScene {
 }
 
 export interface SceneContent {
+  heading?: string
   text?: string
+  code?: string // shown as a code frame by the local renderer
+  diagram?: string[] // boxes drawn left to right as a flow
   images?: string[]
   animations?: Animation[]
   audio?: AudioTrack
@@ -42,21 +60,14 @@ export interface AudioTrack {
   duration: number
   format: 'mp3' | 'wav' | 'aac'
   transcript: string
+  path?: string // local copy, for renderers on this machine
+  marks?: SpeechMark[] // when each sentence is spoken
 }
 
-export interface SubtitleTrack {
-  id: string
-  language: string
-  format: 'vtt' | 'srt' | 'ass'
-  url: string
-  timestamps: SubtitleEntry[]
-}
-
-export interface SubtitleEntry {
-  start: number
-  end: number
-  text: string
-  speaker?: string
+export interface SubtitleOptions {
+  language?: string
+  accessibility?: boolean // closed captions: name the narrator and describe sounds
+  sounds?: SoundEvent[]
 }
 
 export interface SceneTransition {
@@ -91,19 +102,32 @@ export interface RunPodJob {
   status: 'queued' | 'running' | 'completed' | 'failed'
   progress: number
   currentStage: string
-  output?: any
+  output?: RunPodVideoOutput
   error?: string
-  createdAt: Date
-  completedAt?: Date
+  executionTime?: number // ms of billed GPU time
+}
+
+// Progress the video worker streams while it renders
+interface RenderProgress {
+  progress?: number
+  stage?: string
 }
 
-export interface VoiceOptions {
-  language: string
-  voice: 'neural' | 'standard' | 'wavenet'
-  speed: 'slow' | 'normal' | 'fast'
-  pitch?: 'low' | 'normal' | 'high'
+const RUNPOD_STATUS_MAP: Record<RunPodStatus, Pick<RunPodJob, 'status' | 'progress' | 'currentStage'>> = {
+  IN_QUEUE: { status: 'queued', progress: 0, currentStage: 'Waiting for a GPU worker' },
+  IN_PROGRESS: { status: 'running', progress: 10, currentStage: 'Generating video frames' },
+  COMPLETED: { status: 'completed', progress: 100, currentStage: 'Completed' },
+  FAILED: { status: 'failed', progress: 0, currentStage: 'Failed' },
+  CANCELLED: { status: 'failed', progress: 0, currentStage: 'Cancelled' },
+  TIMED_OUT: { status: 'failed', progress: 0, currentStage: 'Timed out' }
 }
 
+// Shortest a narrated scene may be on screen
+const MIN_SCENE_SECONDS = 3
+
+// Who closed captions attribute the narration to
+const NARRATOR = 'Narrator'
+
 export class VideoGenerationService {
   private runpodApiUrl = 'https://api.runpod.ai/v2'
   private defaultTimeout = 300000 // 5 minutes
@@ -121,7 +145,12 @@ export class VideoGenerationService {
         type: 'intro',
         duration: 10,
         content: {
+          heading: storybook.title,
           text: `Welcome to "${storybook.title}". In this tutorial, you'll learn step-by-step how to build this N8N workflow.`,
+          // The chapter roadmap, when there is more than one stop on it
+          diagram: storybook.chapters?.length > 1
+            ? storybook.chapters.map((chapter: { title: string }) => chapter.title)
+            : undefined,
           animations: [
             {
               type: 'fade',
@@ -148,7 +177,9 @@ export class VideoGenerationService {
           type: 'content',
           duration: chapter.duration || 30,
           content: {
-            text: chapter.description,
+            heading: chapter.title,
+            text: chapter.description || chapter.title,
+            code: chapter.content?.find((item: { type: string; content: string }) => item.type === 'code')?.content,
             animations: [
               {
                 type: 'slide',
@@ -175,6 +206,7 @@ export class VideoGenerationService {
         type: 'outro',
         duration: 5,
         content: {
+          heading: 'Well done!',
           text: 'Congratulations! You\'ve completed this N8N workflow tutorial. Practice building your own workflows to master these concepts.',
           animations: [
             {
@@ -196,7 +228,7 @@ export class VideoGenerationService {
       totalDuration += outroScene.duration
 
       // Generate narration script
-      const narration = scenes.map(scene => scene.content.text).join(' ')
+      const narration = scenes.map(scene => scene.content.text).join('\n\n')
 
       const script: VideoScript = {
         id: `script_${Date.now()}`,
@@ -224,18 +256,24 @@ export class VideoGenerationService {
     try {
       console.log('🔊 Synthesizing audio narration...')
 
-      // Mock audio synthesis (in production, this would use a real TTS service)
-      await this.delay(2000)
+      const provider = getTTSProvider()
+      const narration = await synthesizeNarration(provider, text, voiceOptions, {
+        minParagraphDuration: MIN_SCENE_SECONDS
+      })
+      const id = `audio_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+      const saved = await saveNarration(id, narration)
 
       const audioTrack: AudioTrack = {
-        id: `audio_${Date.now()}`,
-        url: `https://mock-audio-storage.com/audio_${Date.now()}.mp3`,
-        duration: Math.ceil(text.length / 10), // Rough estimate: 10 chars per second
-        format: 'mp3',
-        transcript: text
+        id,
+        url: saved.url,
+        path: saved.path,
+        duration: narration.duration,
+        format: 'wav',
+        transcript: text,
+        marks: narration.marks
       }
 
-      console.log(`✅ Generated audio track (${audioTrack.duration}s)`)
+      console.log(`✅ Generated audio track with ${provider.name} (${audioTrack.duration}s, ${narration.marks.length} sentences)`)
       return audioTrack
 
     } catch (error) {
@@ -244,38 +282,49 @@ export class VideoGenerationService {
     }
   }
 
-  async generateSubtitles(audioTrack: AudioTrack, options: any): Promise<SubtitleTrack[]> {
+  /**
+   * Stretch or shrink each scene to the narration spoken over it, so the picture changes when the
+   * narrator moves on. Scenes are matched to narration paragraphs by position.
+   */
+  alignScenesToNarration(script: VideoScript, audioTrack: AudioTrack): VideoScript {
+    const marks = audioTrack.marks || []
+    const starts = script.scenes.map((_, index) => marks.find(mark => mark.paragraph === index)?.start)
+
+    if (marks.length === 0 || starts.some(start => start === undefined)) {
+      console.warn('⚠️ Narration does not cover every scene; keeping the scripted scene timing')
+      return script
+    }
+
+    const scenes = script.scenes.map((scene, index) => {
+      const start = index === 0 ? 0 : starts[index]!
+      const end = index === script.scenes.length - 1 ? audioTrack.duration : starts[index + 1]!
+      return { ...scene, duration: Math.round((end - start) * 100) / 100 }
+    })
+
+    return { ...script, scenes, totalDuration: Math.round(audioTrack.duration * 100) / 100 }
+  }
+
+  async generateSubtitles(audioTrack: AudioTrack, options: SubtitleOptions): Promise<SubtitleTrack[]> {
     try {
       console.log('📝 Generating subtitles from audio...')
 
-      // Mock subtitle generation (in production, this would use speech-to-text)
-      await this.delay(1500)
-
-      const words = audioTrack.transcript.split(' ')
-      const timestamps: SubtitleEntry[] = []
-      let currentTime = 0
-      const wordsPerSecond = 3
-
-      for (let i = 0; i < words.length; i += 5) {
-        const chunk = words.slice(i, i + 5).join(' ')
-        const duration = chunk.split(' ').length / wordsPerSecond
-        
-        timestamps.push({
-          start: currentTime,
-          end: currentTime + duration,
-          text: chunk
-        })
-        
-        currentTime += duration
-      }
+      // Speech marks from the TTS step, or the transcript spread over the audio when there are none
+      const speech = audioTrack.marks?.length
+        ? audioTrack.marks
+        : alignTranscript(audioTrack.transcript, audioTrack.duration)
+
+      const timestamps = buildCues(speech, options.accessibility
+        ? { speakerLabels: true, defaultSpeaker: NARRATOR, sounds: options.sounds }
+        : {})
 
-      const subtitleTrack: SubtitleTrack = {
-        id: `subtitles_${Date.now()}`,
+      const subtitleTrack = await saveSubtitles({
+        id: `subtitles_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
         language: options.language || 'en',
+        kind: options.accessibility ? 'captions' : 'subtitles',
         format: 'vtt',
-        url: `https://mock-subtitle-storage.com/subtitles_${Date.now()}.vtt`,
+        url: '',
         timestamps
-      }
+      })
 
       console.log(`✅ Generated subtitles with ${timestamps.length} entries`)
       return [subtitleTrack]
@@ -291,40 +340,37 @@ export class VideoGenerationService {
     audioTrack?: AudioTrack
     subtitles: SubtitleTrack[]
     config: RunPodJobConfig
+    profiles?: OutputProfile[]
     videoId: string
   }): Promise<{ success: boolean; jobId?: string; error?: string }> {
     try {
       console.log('☁️ Submitting video generation job to RunPod...')
 
-      // Mock RunPod API call (in production, this would be a real API call)
-      await this.delay(1000)
-
-      const runpodJobId = `runpod_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-
-      // Simulate job submission
-      const jobPayload = {
-        input: {
-          script: job.script,
-          audioTrack: job.audioTrack,
-          subtitles: job.subtitles,
-          config: {
-            resolution: job.config.environment.RESOLUTION || '1080p',
-            style: job.config.environment.STYLE || 'modern',
-            language: job.config.environment.LANGUAGE || 'en',
-            accessibility_mode: job.config.environment.ACCESSIBILITY_MODE === 'true'
-          }
-        },
-        gpu_type: job.config.gpu_type,
-        timeout: job.config.timeout,
-        priority: job.config.priority
-      }
+      // GPU type and priority are properties of the serverless endpoint, not of a single job
+      const submitted = await getRunPodClient('video').run({
+        video_id: job.videoId,
+        script: job.script,
+        audioTrack: job.audioTrack,
+        subtitles: job.subtitles,
+        // The worker encodes each profile and reports it under renditions
+        profiles: job.profiles?.length ? job.profiles : undefined,
+        config: {
+          resolution: job.config.environment.RESOLUTION || '1080p',
+          style: job.config.environment.STYLE || 'modern',
+          language: job.config.environment.LANGUAGE || 'en',
+          accessibility_mode: job.config.environment.ACCESSIBILITY_MODE === 'true'
+        }
+      }, {
+        webhook: runPodWebhookUrl(),
+        executionTimeoutMs: job.config.timeout
+      })
 
-      console.log(`✅ Submitted job ${runpodJobId} to RunPod`)
-      console.log(`⏱️  GPU Type: ${job.config.gpu_type}, Timeout: ${job.config.timeout}ms`)
+      console.log(`✅ Submitted job ${submitted.id} to RunPod`)
+      console.log(`⏱️  Execution timeout: ${job.config.timeout}ms`)
 
       return {
         success: true,
-        jobId: runpodJobId
+        jobId: submitted.id
       }
 
     } catch (error) {
@@ -340,56 +386,9 @@ export class VideoGenerationService {
     try {
       console.log(`🔍 Checking RunPod job status: ${jobId}`)
 
-      // Mock status check (in production, this would be a real API call)
-      await this.delay(500)
-
-      // Simulate different job states
-      const random = Math.random()
-      let status: RunPodJob['status']
-      let progress: number
-      let currentStage: string
-      let output: any = undefined
-
-      if (random < 0.2) {
-        status = 'queued'
-        progress = 0
-        currentStage = 'Waiting in queue'
-      } else if (random < 0.7) {
-        status = 'running'
-        progress = Math.floor(Math.random() * 80) + 10
-        currentStage = 'Generating video frames'
-      } else if (random < 0.95) {
-        status = 'completed'
-        progress = 100
-        currentStage = 'Completed'
-        output = {
-          videoUrl: `https://mock-video-storage.com/video_${jobId}.mp4`,
-          duration: 180,
-          resolution: '1080p',
-          fileSize: 15728640, // 15MB
-          format: 'mp4',
-          subtitlesUrl: `https://mock-video-storage.com/subtitles_${jobId}.vtt`,
-          audioDescriptionUrl: `https://mock-video-storage.com/audio_desc_${jobId}.mp3`,
-          transcriptUrl: `https://mock-video-storage.com/transcript_${jobId}.txt`
-        }
-      } else {
-        status = 'failed'
-        progress = 0
-        currentStage = 'Failed'
-      }
+      const job = this.toRunPodJob(await getRunPodClient('video').status(jobId))
 
-      const job: RunPodJob = {
-        jobId,
-        status,
-        progress,
-        currentStage,
-        output,
-        error: status === 'failed' ? 'Mock error for demonstration' : undefined,
-        createdAt: new Date(Date.now() - 300000), // 5 minutes ago
-        completedAt: status === 'completed' ? new Date() : undefined
-      }
-
-      console.log(`📊 Job ${jobId} status: ${status} (${progress}%)`)
+      console.log(`📊 Job ${jobId} status: ${job.status} (${job.progress}%)`)
       return job
 
     } catch (error) {
@@ -399,20 +398,51 @@ export class VideoGenerationService {
         status: 'failed',
         progress: 0,
         currentStage: 'Error checking status',
-        error: error instanceof Error ? error.message : 'Unknown error',
-        createdAt: new Date()
+        error: error instanceof Error ? error.message : 'Unknown error'
       }
     }
   }
 
-  async cancelRunPodJob(videoId: string): Promise<{ success: boolean; error?: string }> {
+  /**
+   * Follow a submitted job until it finishes, reporting status changes and streamed render progress.
+   * Throws if the job fails, is cancelled or runs past timeoutMs.
+   */
+  async waitForRunPodJob(
+    jobId: string,
+    options: { timeoutMs?: number; onProgress?: (job: RunPodJob) => void } = {}
+  ): Promise<RunPodJob> {
+    // Status changes and streamed chunks arrive interleaved, so never report progress going backwards
+    let reported = 0
+    const report = (job: RunPodJob) => {
+      reported = Math.max(reported, job.progress)
+      options.onProgress?.({ ...job, progress: reported })
+    }
+
+    const state = await getRunPodClient('video').waitForCompletion(jobId, {
+      timeoutMs: options.timeoutMs,
+      onStatus: update => report(this.toRunPodJob(update)),
+      onOutput: chunk => {
+        const { progress, stage } = (chunk ?? {}) as RenderProgress
+        if (typeof progress !== 'number') return
+        report({
+          jobId,
+          status: 'running',
+          progress: Math.max(0, Math.min(99, Math.round(progress))),
+          currentStage: stage || RUNPOD_STATUS_MAP.IN_PROGRESS.currentStage
+        })
+      }
+    })
+
+    return this.toRunPodJob(state)
+  }
+
+  async cancelRunPodJob(runpodJobId: string): Promise<{ success: boolean; error?: string }> {
     try {
-      console.log(`🛑 Cancelling RunPod job for video: ${videoId}`)
+      console.log(`🛑 Cancelling RunPod job: ${runpodJobId}`)
 
-      // Mock cancellation (in production, this would be a real API call)
-      await this.delay(500)
+      await getRunPodClient('video').cancel(runpodJobId)
 
-      console.log(`✅ Successfully cancelled job for video ${videoId}`)
+      console.log(`✅ Successfully cancelled RunPod job ${runpodJobId}`)
       return { success: true }
 
     } catch (error) {
@@ -424,47 +454,16 @@ export class VideoGenerationService {
     }
   }
 
-  async optimizeForPlatforms(video: GeneratedVideo): Promise<GeneratedVideo[]> {
-    try {
-      console.log('🎯 Optimizing video for different platforms...')
-
-      // Mock platform optimization
-      await this.delay(2000)
-
-      const optimizedVideos: GeneratedVideo[] = [
-        {
-          ...video,
-          id: `${video.id}_youtube`,
-          resolution: '1080p',
-          format: 'mp4'
-        },
-        {
-          ...video,
-          id: `${video.id}_mobile`,
-          resolution: '720p',
-          format: 'mp4'
-        },
-        {
-          ...video,
-          id: `${video.id}_web`,
-          resolution: '480p',
-          format: 'webm'
-        }
-      ]
-
-      console.log(`✅ Generated ${optimizedVideos.length} platform-optimized versions`)
-      return optimizedVideos
-
-    } catch (error) {
-      console.error('❌ Failed to optimize video for platforms:', error)
-      throw new Error(`Platform optimization failed: ${error}`)
-    }
-  }
-
   // Private helper methods
 
-  private async delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms))
+  private toRunPodJob(state: RunPodJobState): RunPodJob {
+    return {
+      jobId: state.id,
+      ...RUNPOD_STATUS_MAP[state.status],
+      output: state.status === 'COMPLETED' ? toVideoOutput(state.id, state.output) : undefined,
+      error: state.error,
+      executionTime: state.executionTime
+    }
   }
 
   private estimateVideoDuration(script: VideoScript): number {
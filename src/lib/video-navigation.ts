@@ -0,0 +1,133 @@
+// Video Navigation
+// Chapters and hotspots that tie a tutorial video's timeline to the storybook's steps.
+// Free of server imports, so the player can use them to keep the video and the current step in sync.
+
+import type { EducationalStep } from './agents/n8n-workflow-analyzer'
+import type { AudioDescriptionTrack } from './audio-description/types'
+import type { ChapterCue } from './subtitles/types'
+
+export interface VideoChapter extends ChapterCue {
+  stepId: string
+}
+
+// 'open-step' jumps to the step's page in the storybook; 'open-quiz' also takes the learner to its quiz
+export type HotspotAction = 'open-step' | 'open-quiz'
+
+export interface VideoHotspot {
+  id: string
+  stepId: string
+  action: HotspotAction
+  label: string
+  start: number
+  end: number
+  region: { x: number; y: number; width: number; height: number } // percent of the frame
+}
+
+// When a step starts being explained in the video
+export interface StepStart {
+  stepId: string
+  title: string
+  time: number
+}
+
+/**
+ * What the player needs from a storybook's video element (an InteractiveElement of type 'video')
+ */
+export interface StepVideoContent {
+  url?: string
+  thumbnailUrl?: string
+  duration: number
+  subtitles?: { language: string; url: string; accessibility?: boolean }[]
+  chapters?: VideoChapter[]
+  hotspots?: VideoHotspot[]
+  chaptersUrl?: string // WebVTT chapters track
+  audioDescription?: AudioDescriptionTrack
+}
+
+// How long each hotspot stays up: the step link as the chapter opens, the quiz link as it closes
+const STEP_HOTSPOT_SECONDS = 4
+const QUIZ_HOTSPOT_SECONDS = 6
+
+// Top-right corner, clear of captions at the bottom of the frame
+const STEP_HOTSPOT_REGION = { x: 70, y: 4, width: 26, height: 9 }
+const QUIZ_HOTSPOT_REGION = { x: 70, y: 15, width: 26, height: 9 }
+
+/**
+ * One chapter per step, each running until the next one starts. The first chapter starts at zero
+ * so the introduction belongs to the first step.
+ */
+export function buildChapters(starts: StepStart[], duration: number): VideoChapter[] {
+  const sorted = [...starts].sort((a, b) => a.time - b.time)
+
+  return sorted
+    .map((start, index) => ({
+      id: `chapter-${index + 1}`,
+      stepId: start.stepId,
+      title: start.title,
+      start: index === 0 ? 0 : round(start.time),
+      end: round(index < sorted.length - 1 ? sorted[index + 1].time : Math.max(duration, start.time))
+    }))
+    .filter(chapter => chapter.end > chapter.start)
+}
+
+export function buildHotspots(
+  chapters: VideoChapter[],
+  steps: Pick<EducationalStep, 'id' | 'title' | 'quiz'>[]
+): VideoHotspot[] {
+  return chapters.flatMap(chapter => {
+    const step = steps.find(candidate => candidate.id === chapter.stepId)
+    if (!step) return []
+
+    const hotspots: VideoHotspot[] = [{
+      id: `${chapter.id}-step`,
+      stepId: step.id,
+      action: 'open-step',
+      label: `Open step: ${step.title}`,
+      start: chapter.start,
+      end: round(Math.min(chapter.end, chapter.start + STEP_HOTSPOT_SECONDS)),
+      region: STEP_HOTSPOT_REGION
+    }]
+
+    if (step.quiz) {
+      hotspots.push({
+        id: `${chapter.id}-quiz`,
+        stepId: step.id,
+        action: 'open-quiz',
+        label: 'Check your understanding',
+        start: round(Math.max(chapter.start, chapter.end - QUIZ_HOTSPOT_SECONDS)),
+        end: chapter.end,
+        region: QUIZ_HOTSPOT_REGION
+      })
+    }
+
+    return hotspots
+  })
+}
+
+/**
+ * The chapter playing at the given time; the last one once the video has ended
+ */
+export function chapterAt(chapters: VideoChapter[], time: number): VideoChapter | undefined {
+  let current: VideoChapter | undefined
+  for (const chapter of chapters) {
+    if (chapter.start <= time) current = chapter
+  }
+  return current
+}
+
+export function hotspotsAt(hotspots: VideoHotspot[], time: number): VideoHotspot[] {
+  return hotspots.filter(hotspot => hotspot.start <= time && time < hotspot.end)
+}
+
+// m:ss, or h:mm:ss for long videos
+export function formatClock(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds))
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const secs = String(total % 60).padStart(2, '0')
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 100) / 100
+}
@@ -0,0 +1,72 @@
+// ffmpeg
+// Runs the ffmpeg binary (FFMPEG_PATH, defaults to ffmpeg on PATH) and builds filtergraph arguments
+
+import { spawn } from 'child_process'
+
+export class FfmpegError extends Error {
+  constructor(message: string, readonly exitCode: number | null, readonly stderr: string) {
+    super(message)
+    this.name = 'FfmpegError'
+  }
+}
+
+export function ffmpegPath(): string {
+  return process.env.FFMPEG_PATH || 'ffmpeg'
+}
+
+export function runFfmpeg(args: string[], options: { timeoutMs?: number } = {}): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(ffmpegPath(), ['-hide_banner', '-nostdin', '-loglevel', 'error', '-y', ...args], {
+      stdio: ['ignore', 'ignore', 'pipe']
+    })
+
+    // Keep the tail only; a failing encode can print a lot
+    let stderr = ''
+    child.stderr.on('data', chunk => {
+      stderr = (stderr + chunk).slice(-4000)
+    })
+
+    let timedOut = false
+    const timer = options.timeoutMs
+      ? setTimeout(() => {
+        timedOut = true
+        child.kill('SIGKILL')
+      }, options.timeoutMs)
+      : undefined
+
+    child.on('error', error => {
+      clearTimeout(timer)
+      reject(new FfmpegError(`Could not start ffmpeg (${ffmpegPath()}): ${error.message}`, null, stderr))
+    })
+
+    child.on('close', code => {
+      clearTimeout(timer)
+      if (code === 0) return resolve()
+
+      const lastLine = stderr.trim().split('\n').pop() || 'no output'
+      reject(new FfmpegError(
+        timedOut ? `ffmpeg timed out after ${options.timeoutMs}ms` : `ffmpeg exited with code ${code}: ${lastLine}`,
+        code,
+        stderr
+      ))
+    })
+  })
+}
+
+/**
+ * Escape a value for use as a filter option inside a filtergraph string
+ * (option level first, then graph level)
+ */
+export function filterValue(value: string): string {
+  const option = value.replace(/[\\':]/g, match => `\\${match}`)
+  return option.replace(/[\\'[\],;]/g, match => `\\${match}`)
+}
+
+/**
+ * drawtext font selection: VIDEO_FONT_FILE / VIDEO_MONO_FONT_FILE when set, otherwise fontconfig names
+ */
+export function fontOption(kind: 'sans' | 'mono'): string {
+  const file = kind === 'mono' ? process.env.VIDEO_MONO_FONT_FILE : process.env.VIDEO_FONT_FILE
+  if (file) return `fontfile=${filterValue(file)}`
+  return kind === 'mono' ? 'font=Monospace' : 'font=Sans'
+}
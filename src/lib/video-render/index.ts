@@ -0,0 +1,39 @@
+// Video Rendering
+// The local ffmpeg renderer, writing under the storage data directory and served by /api/video/files
+
+import path from 'path'
+import { getDataDirectory } from '../storage'
+import { LocalVideoRenderer } from './local-renderer'
+
+export { LocalVideoRenderer } from './local-renderer'
+export type { CaptionMode, LocalRenderOptions, LocalRendererOptions } from './local-renderer'
+export { FfmpegError, runFfmpeg } from './ffmpeg'
+export { isVideoProfileId, ladderFor, VIDEO_PROFILE_IDS, VIDEO_PROFILES } from './profiles'
+export type { OutputProfile, RenditionSpec, VideoProfileId } from './profiles'
+export { renderSlide, slideForScene, SLIDE_THEMES } from './slides'
+export type { Slide, SlideLayout, SlideTheme } from './slides'
+
+export type VideoRenderer = 'runpod' | 'local'
+
+export const VIDEO_FILES_PATH = '/api/video/files'
+
+/**
+ * Rendered videos live in <STORAGE_DATA_DIR>/videos/<videoId>/
+ */
+export function getVideoOutputDirectory(): string {
+  return path.join(getDataDirectory(), 'videos')
+}
+
+let renderer: LocalVideoRenderer | null = null
+
+export function getLocalVideoRenderer(): LocalVideoRenderer {
+  if (!renderer) {
+    const timeout = Number(process.env.VIDEO_RENDER_TIMEOUT_MS)
+    renderer = new LocalVideoRenderer({
+      outputDir: getVideoOutputDirectory(),
+      publicPath: VIDEO_FILES_PATH,
+      timeoutMs: Number.isFinite(timeout) && timeout > 0 ? timeout : 10 * 60 * 1000
+    })
+  }
+  return renderer
+}
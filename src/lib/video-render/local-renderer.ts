@@ -0,0 +1,356 @@
+// Local Video Renderer
+// CPU-only alternative to RunPod: each scene becomes a slide segment, the segments are
+// concatenated with the narration, and captions are burnt in or written as sidecar files.
+// Requested output profiles are then encoded from that master, or from a cut re-laid out
+// for their frame when the master cannot serve them.
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import type { RunPodVideoOutput, VideoRendition } from '../runpod'
+import { formatSubtitles, SUBTITLE_FORMATS, SubtitleTrack, toSrt } from '../subtitles'
+import type { AudioTrack, VideoScene, VideoScript } from '../video-generation'
+import { filterValue, runFfmpeg } from './ffmpeg'
+import { ladderFor, OutputProfile, RenditionSpec, VIDEO_PROFILES, VideoProfileId } from './profiles'
+import { FrameSize, renderSlide, SLIDE_THEMES, SlideTheme, slideForScene } from './slides'
+
+export type CaptionMode = 'sidecar' | 'burned'
+
+export interface LocalRenderOptions {
+  videoId: string
+  resolution: '720p' | '1080p' | '4k'
+  style?: string
+  audio?: AudioTrack
+  subtitles?: SubtitleTrack[]
+  // 'burned' draws the first track into the picture; sidecar WebVTT, SRT and TTML files are written either way
+  captions?: CaptionMode
+  profiles?: VideoProfileId[] // extra deliverables next to video.mp4
+  onProgress?: (fraction: number, stage: string) => void
+}
+
+export interface LocalRendererOptions {
+  outputDir: string // one sub-directory per video
+  publicPath: string // URL prefix the output directory is served under
+  timeoutMs?: number // per ffmpeg invocation
+}
+
+const FRAME_SIZES: Record<LocalRenderOptions['resolution'], FrameSize> = {
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+  '4k': { width: 3840, height: 2160 }
+}
+
+const FPS = 24
+const ENCODE_ARGS = ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-pix_fmt', 'yuv420p']
+
+// H.264 level 4.0 covers every profile frame up to 1080x1920
+const H264_LEVEL = '4.0'
+const HLS_CODECS: Record<OutputProfile['h264Profile'], string> = {
+  baseline: 'avc1.42e028',
+  main: 'avc1.4d4028',
+  high: 'avc1.640028'
+}
+const AAC_CODEC = 'mp4a.40.2'
+
+// Peak rate allowed over the target bitrate, and the rate-control buffer, both in multiples of the target
+const MAXRATE_FACTOR = 1.2
+const BUFSIZE_FACTOR = 2
+
+interface ProfilePlan {
+  profile: OutputProfile
+  ladder: RenditionSpec[]
+  cut: FrameSize // the frame of the cut it is encoded from; the master's, or its own
+}
+
+// Everything composing a cut needs besides its frame
+interface Composition {
+  script: VideoScript
+  options: LocalRenderOptions
+  theme: SlideTheme
+  burnTrack?: SubtitleTrack
+  workDir: string
+}
+
+export class LocalVideoRenderer {
+  constructor(private options: LocalRendererOptions) {}
+
+  async render(script: VideoScript, options: LocalRenderOptions): Promise<RunPodVideoOutput> {
+    const frame = FRAME_SIZES[options.resolution] || FRAME_SIZES['1080p']
+    const theme = SLIDE_THEMES[options.style as keyof typeof SLIDE_THEMES] || SLIDE_THEMES.modern
+    const outputDir = path.join(this.options.outputDir, options.videoId)
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), `render-${options.videoId}-`))
+    const plans = (options.profiles || []).map(id => planProfile(VIDEO_PROFILES[id], frame))
+    const cutCount = new Set([frame, ...plans.map(plan => plan.cut)].map(frameKey)).size
+
+    // Each cut is its scenes plus a mux; then the thumbnail, then one encode per rendition
+    const steps = cutCount * (script.scenes.length + 1) + 1 + plans.reduce((total, plan) => total + plan.ladder.length, 0)
+    let done = 0
+    const progress = (stage: string) => options.onProgress?.(done++ / steps, stage)
+
+    try {
+      await fs.mkdir(outputDir, { recursive: true })
+
+      const subtitles = options.subtitles?.filter(track => track.timestamps.length > 0) || []
+      const captionFiles = await Promise.all(subtitles.map(async track => {
+        for (const format of SUBTITLE_FORMATS) {
+          await fs.writeFile(path.join(outputDir, `captions.${track.language}.${format}`), formatSubtitles(track, format))
+        }
+        return `captions.${track.language}.vtt`
+      }))
+
+      const composition: Composition = { script, options, theme, burnTrack: subtitles[0], workDir }
+      const videoFile = path.join(outputDir, 'video.mp4')
+      await this.compose(composition, frame, videoFile, progress)
+
+      progress('Capturing thumbnail')
+      const thumbnailFile = path.join(outputDir, 'thumbnail.jpg')
+      await runFfmpeg(
+        ['-ss', String(Math.min(1, script.totalDuration / 2)), '-i', videoFile, '-frames:v', '1', '-q:v', '3', thumbnailFile],
+        { timeoutMs: this.options.timeoutMs }
+      )
+
+      await fs.writeFile(path.join(outputDir, 'transcript.txt'), `${options.audio?.transcript || script.narration}\n`)
+
+      const url = (name: string) => `${this.options.publicPath}/${encodeURIComponent(options.videoId)}/${name}`
+      const cuts = new Map([[frameKey(frame), videoFile]])
+      const renditions: VideoRendition[] = []
+      for (const plan of plans) {
+        let source = cuts.get(frameKey(plan.cut))
+        if (!source) {
+          source = path.join(workDir, `cut-${frameKey(plan.cut)}.mp4`)
+          await this.compose(composition, plan.cut, source, progress)
+          cuts.set(frameKey(plan.cut), source)
+        }
+        renditions.push(await this.encodeProfile(plan, source, outputDir, url, Boolean(options.audio), theme, progress))
+      }
+
+      const { size } = await fs.stat(videoFile)
+      options.onProgress?.(1, 'Rendered')
+
+      return {
+        videoUrl: url('video.mp4'),
+        thumbnailUrl: url('thumbnail.jpg'),
+        duration: script.totalDuration,
+        resolution: options.resolution,
+        fileSize: size,
+        format: 'mp4',
+        subtitlesUrl: captionFiles[0] ? url(captionFiles[0]) : undefined,
+        transcriptUrl: url('transcript.txt'),
+        renditions: renditions.length > 0 ? renditions : undefined
+      }
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true })
+    }
+  }
+
+  /**
+   * Render every scene at the frame and mux them with the narration (and burned captions) into one file
+   */
+  private async compose(
+    composition: Composition,
+    frame: FrameSize,
+    outputFile: string,
+    progress: (stage: string) => void
+  ): Promise<void> {
+    const { script, options, theme } = composition
+    const cutLabel = frameKey(frame)
+    const workDir = path.join(composition.workDir, cutLabel)
+    await fs.mkdir(workDir, { recursive: true })
+
+    const segments: string[] = []
+    for (const [index, scene] of script.scenes.entries()) {
+      progress(`Rendering scene ${index + 1} of ${script.scenes.length} (${cutLabel})`)
+      segments.push(await this.renderScene(scene, script.title, index, frame, theme, workDir))
+    }
+
+    progress('Stitching scenes and narration')
+    const listFile = path.join(workDir, 'segments.txt')
+    await fs.writeFile(listFile, segments.map(segment => `file '${segment.replace(/'/g, "'\\''")}'`).join('\n'))
+
+    await runFfmpeg(
+      await this.muxArgs(listFile, outputFile, script.totalDuration, options, composition.burnTrack, workDir),
+      { timeoutMs: this.options.timeoutMs }
+    )
+  }
+
+  /**
+   * Encode one profile from its source cut: a single MP4, or an HLS variant per rung plus the master playlist
+   */
+  private async encodeProfile(
+    plan: ProfilePlan,
+    source: string,
+    outputDir: string,
+    url: (name: string) => string,
+    hasAudio: boolean,
+    theme: SlideTheme,
+    progress: (stage: string) => void
+  ): Promise<VideoRendition> {
+    const { profile, ladder } = plan
+    const [top] = ladder
+
+    for (const rung of ladder) {
+      progress(`Encoding ${profile.label} ${rung.width}x${rung.height}`)
+      const args = ['-i', source, '-map', '0:v', ...(hasAudio ? ['-map', '0:a'] : []), ...encodeArgs(profile, rung, theme)]
+
+      if (profile.container === 'hls') {
+        const segmentSeconds = profile.segmentSeconds || 6
+        const keyframes = String(FPS * segmentSeconds)
+        args.push(
+          '-g', keyframes, '-keyint_min', keyframes, '-sc_threshold', '0',
+          '-f', 'hls', '-hls_time', String(segmentSeconds), '-hls_playlist_type', 'vod',
+          '-hls_segment_filename', path.join(outputDir, `${rung.name}-%03d.ts`),
+          path.join(outputDir, `${rung.name}.m3u8`)
+        )
+      } else {
+        args.push('-movflags', '+faststart', path.join(outputDir, `${rung.name}.mp4`))
+      }
+      await runFfmpeg(args, { timeoutMs: this.options.timeoutMs })
+    }
+
+    if (profile.container === 'mp4') {
+      const name = `${top.name}.mp4`
+      const { size } = await fs.stat(path.join(outputDir, name))
+      return {
+        profile: profile.id,
+        label: profile.label,
+        format: 'mp4',
+        url: url(name),
+        width: top.width,
+        height: top.height,
+        bitrateKbps: top.videoKbps + (hasAudio ? profile.audio.kbps : 0),
+        fileSize: size
+      }
+    }
+
+    const codecs = hasAudio ? `${HLS_CODECS[profile.h264Profile]},${AAC_CODEC}` : HLS_CODECS[profile.h264Profile]
+    const variants = ladder.map(rung => ({
+      url: url(`${rung.name}.m3u8`),
+      width: rung.width,
+      height: rung.height,
+      bandwidth: Math.round((rung.videoKbps * MAXRATE_FACTOR + (hasAudio ? profile.audio.kbps : 0)) * 1000)
+    }))
+    const masterName = `${profile.id}.m3u8`
+    await fs.writeFile(path.join(outputDir, masterName), [
+      '#EXTM3U',
+      '#EXT-X-VERSION:3',
+      ...ladder.flatMap((rung, index) => [
+        `#EXT-X-STREAM-INF:BANDWIDTH=${variants[index].bandwidth},RESOLUTION=${rung.width}x${rung.height},CODECS="${codecs}"`,
+        `${rung.name}.m3u8`
+      ])
+    ].join('\n') + '\n')
+
+    // Variant playlists and segments share their rung's name stem
+    const files = (await fs.readdir(outputDir)).filter(entry => entry === masterName ||
+      ladder.some(rung => entry.startsWith(`${rung.name}.`) || entry.startsWith(`${rung.name}-`)))
+    const sizes = await Promise.all(files.map(file => fs.stat(path.join(outputDir, file)).then(stat => stat.size)))
+
+    return {
+      profile: profile.id,
+      label: profile.label,
+      format: 'hls',
+      url: url(masterName),
+      width: top.width,
+      height: top.height,
+      bitrateKbps: top.videoKbps + (hasAudio ? profile.audio.kbps : 0),
+      fileSize: sizes.reduce((total, size) => total + size, 0),
+      variants
+    }
+  }
+
+  private async renderScene(
+    scene: VideoScene,
+    title: string,
+    index: number,
+    frame: FrameSize,
+    theme: SlideTheme,
+    workDir: string
+  ): Promise<string> {
+    const slide = renderSlide(slideForScene(scene, title), frame, theme, workDir, `scene${index}`)
+    await Promise.all(slide.files.map(file => fs.writeFile(path.join(workDir, file.name), file.text)))
+
+    // Non-cut transitions dip through the background colour
+    const filters = [...slide.filters]
+    const transition = scene.transitions.find(candidate => candidate.type !== 'cut')
+    if (transition) {
+      const fade = Math.min(transition.duration, scene.duration / 4)
+      filters.push(`fade=t=in:st=0:d=${fade}:color=${theme.background}`)
+      filters.push(`fade=t=out:st=${scene.duration - fade}:d=${fade}:color=${theme.background}`)
+    }
+
+    const segment = path.join(workDir, `scene${index}.mp4`)
+    await runFfmpeg([
+      '-f', 'lavfi',
+      '-i', `color=c=${theme.background}:s=${frame.width}x${frame.height}:r=${FPS}:d=${scene.duration}`,
+      '-vf', filters.join(',') || 'null',
+      ...ENCODE_ARGS,
+      '-an',
+      segment
+    ], { timeoutMs: this.options.timeoutMs })
+
+    return segment
+  }
+
+  private async muxArgs(
+    listFile: string,
+    videoFile: string,
+    duration: number,
+    options: LocalRenderOptions,
+    burnTrack: SubtitleTrack | undefined,
+    workDir: string
+  ): Promise<string[]> {
+    const args = ['-f', 'concat', '-safe', '0', '-i', listFile]
+    const audio = options.audio ? options.audio.path || audioInput(options.audio.url) : undefined
+    if (audio) args.push('-i', audio)
+
+    args.push('-map', '0:v')
+    if (options.captions === 'burned' && burnTrack) {
+      const srtFile = path.join(workDir, 'captions.srt')
+      await fs.writeFile(srtFile, toSrt(burnTrack))
+      args.push('-vf', `subtitles=filename=${filterValue(srtFile)}`, ...ENCODE_ARGS)
+    } else {
+      args.push('-c:v', 'copy')
+    }
+
+    if (audio) {
+      // Pad short narration with silence and stop at the end of the picture
+      args.push('-map', '1:a', '-c:a', 'aac', '-b:a', '128k', '-af', 'apad')
+    }
+
+    args.push('-t', String(duration), '-movflags', '+faststart', videoFile)
+    return args
+  }
+}
+
+/**
+ * Landscape profiles no taller than the master are encoded from it; anything else gets its own cut
+ */
+function planProfile(profile: OutputProfile, master: FrameSize): ProfilePlan {
+  const ladder = ladderFor(profile, master.height)
+  const [top] = ladder
+  const fitsMaster = profile.orientation === 'landscape' && top.width <= master.width && top.height <= master.height
+  return { profile, ladder, cut: fitsMaster ? master : { width: top.width, height: top.height } }
+}
+
+function frameKey(frame: FrameSize): string {
+  return `${frame.width}x${frame.height}`
+}
+
+// Scale into the rendition's frame, letterboxing in the slide background if the aspect differs
+function encodeArgs(profile: OutputProfile, rung: RenditionSpec, theme: SlideTheme): string[] {
+  const { width, height, videoKbps } = rung
+  return [
+    '-vf', `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=${theme.background},setsar=1`,
+    '-c:v', 'libx264', '-preset', 'veryfast', '-profile:v', profile.h264Profile, '-level:v', H264_LEVEL,
+    '-b:v', `${videoKbps}k`,
+    '-maxrate', `${Math.round(videoKbps * MAXRATE_FACTOR)}k`,
+    '-bufsize', `${videoKbps * BUFSIZE_FACTOR}k`,
+    '-pix_fmt', 'yuv420p',
+    '-c:a', 'aac', '-b:a', `${profile.audio.kbps}k`, '-ac', String(profile.audio.channels)
+  ]
+}
+
+// ffmpeg reads local paths and http(s) URLs directly
+function audioInput(url: string): string {
+  return url.startsWith('file:') ? fileURLToPath(url) : url
+}
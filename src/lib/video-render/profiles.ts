@@ -0,0 +1,92 @@
+// Output Profiles
+// The renditions a video can be delivered in, declared as data: frame, bitrates and container.
+// Renderers read these to decide what to encode; nothing here runs ffmpeg.
+
+export type VideoProfileId = 'youtube' | 'shorts' | 'lms' | 'hls'
+
+export type ProfileOrientation = 'landscape' | 'portrait'
+
+export interface RenditionSpec {
+  name: string // file name stem, e.g. 'hls-720p'
+  width: number
+  height: number
+  videoKbps: number
+}
+
+export interface OutputProfile {
+  id: VideoProfileId
+  label: string
+  container: 'mp4' | 'hls'
+  // Portrait profiles re-lay out every scene for the tall frame instead of cropping the landscape cut
+  orientation: ProfileOrientation
+  h264Profile: 'baseline' | 'main' | 'high'
+  // One entry for a single file; the adaptive bitrate ladder for HLS, highest first
+  ladder: RenditionSpec[]
+  audio: {
+    kbps: number
+    channels: 1 | 2
+  }
+  segmentSeconds?: number // HLS only
+}
+
+export const VIDEO_PROFILES: Record<VideoProfileId, OutputProfile> = {
+  youtube: {
+    id: 'youtube',
+    label: 'YouTube (16:9)',
+    container: 'mp4',
+    orientation: 'landscape',
+    h264Profile: 'high',
+    ladder: [{ name: 'youtube', width: 1920, height: 1080, videoKbps: 8000 }],
+    audio: { kbps: 192, channels: 2 }
+  },
+  shorts: {
+    id: 'shorts',
+    label: 'Vertical shorts (9:16)',
+    container: 'mp4',
+    orientation: 'portrait',
+    h264Profile: 'high',
+    ladder: [{ name: 'shorts', width: 1080, height: 1920, videoKbps: 6000 }],
+    audio: { kbps: 128, channels: 2 }
+  },
+  lms: {
+    id: 'lms',
+    label: 'LMS (low bitrate)',
+    container: 'mp4',
+    orientation: 'landscape',
+    // Baseline plays in the oldest embedded players course platforms still ship
+    h264Profile: 'baseline',
+    ladder: [{ name: 'lms', width: 960, height: 540, videoKbps: 700 }],
+    audio: { kbps: 64, channels: 1 }
+  },
+  hls: {
+    id: 'hls',
+    label: 'HLS adaptive streaming',
+    container: 'hls',
+    orientation: 'landscape',
+    h264Profile: 'main',
+    ladder: [
+      { name: 'hls-1080p', width: 1920, height: 1080, videoKbps: 5000 },
+      { name: 'hls-720p', width: 1280, height: 720, videoKbps: 2800 },
+      { name: 'hls-480p', width: 854, height: 480, videoKbps: 1400 },
+      { name: 'hls-360p', width: 640, height: 360, videoKbps: 800 }
+    ],
+    audio: { kbps: 128, channels: 2 },
+    segmentSeconds: 6
+  }
+}
+
+export const VIDEO_PROFILE_IDS = Object.keys(VIDEO_PROFILES) as VideoProfileId[]
+
+export function isVideoProfileId(value: unknown): value is VideoProfileId {
+  return typeof value === 'string' && value in VIDEO_PROFILES
+}
+
+/**
+ * The ladder for a source of the given height: HLS drops rungs taller than the source, since
+ * upscaling only costs bandwidth; a single-file profile keeps its one rendition regardless
+ */
+export function ladderFor(profile: OutputProfile, sourceHeight: number): RenditionSpec[] {
+  if (profile.container !== 'hls') return profile.ladder
+  const fitting = profile.ladder.filter(rung => rung.height <= sourceHeight)
+  return fitting.length > 0 ? fitting : profile.ladder.slice(-1)
+}
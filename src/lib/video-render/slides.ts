@@ -0,0 +1,263 @@
+// Slide Frames
+// Lays out a scene as a title, text, code or diagram frame and expresses it as an ffmpeg
+// drawbox/drawtext chain, so slides render with nothing but ffmpeg on a CPU-only box
+
+import type { VideoScene } from '../video-generation'
+import { filterValue, fontOption } from './ffmpeg'
+
+export type SlideLayout = 'title' | 'text' | 'code' | 'diagram'
+
+export interface Slide {
+  layout: SlideLayout
+  heading: string
+  body?: string
+  code?: string
+  diagram?: string[]
+}
+
+export interface FrameSize {
+  width: number
+  height: number
+}
+
+export interface SlideTheme {
+  background: string
+  panel: string
+  heading: string
+  text: string
+  accent: string
+  code: string
+}
+
+export const SLIDE_THEMES: Record<'modern' | 'classic' | 'minimalist', SlideTheme> = {
+  modern: {
+    background: '0x0f172a',
+    panel: '0x1e293b',
+    heading: '0xf8fafc',
+    text: '0xcbd5e1',
+    accent: '0x38bdf8',
+    code: '0xe2e8f0'
+  },
+  classic: {
+    background: '0x1f2933',
+    panel: '0x323f4b',
+    heading: '0xfdf6e3',
+    text: '0xe4e7eb',
+    accent: '0xf0b429',
+    code: '0xf5f7fa'
+  },
+  minimalist: {
+    background: '0xffffff',
+    panel: '0xf1f5f9',
+    heading: '0x111827',
+    text: '0x374151',
+    accent: '0x2563eb',
+    code: '0x111827'
+  }
+}
+
+// A text file drawtext reads, so scene text never needs filtergraph escaping
+export interface SlideTextFile {
+  name: string
+  text: string
+}
+
+export interface RenderedSlide {
+  filters: string[]
+  files: SlideTextFile[]
+}
+
+const MAX_DIAGRAM_NODES = 12
+const DIAGRAM_COLUMNS = 4
+const PORTRAIT_DIAGRAM_COLUMNS = 2
+const MAX_CODE_LINES = 18
+
+/**
+ * Pick the frame for a scene: intro and outro are title frames (a diagram frame when the
+ * intro carries the chapter roadmap), code and diagrams win over plain text elsewhere
+ */
+export function slideForScene(scene: VideoScene, videoTitle: string): Slide {
+  const { content } = scene
+  const heading = content.heading || (scene.type === 'content' ? '' : videoTitle)
+
+  if (content.diagram && content.diagram.length > 0) {
+    return { layout: 'diagram', heading, body: content.text, diagram: content.diagram }
+  }
+  if (scene.type === 'intro' || scene.type === 'outro') {
+    return { layout: 'title', heading, body: content.text }
+  }
+  if (content.code) {
+    return { layout: 'code', heading, body: content.text, code: content.code }
+  }
+  return { layout: 'text', heading, body: content.text }
+}
+
+/**
+ * ffmpeg filters that draw the slide over a solid background of the given size.
+ * Text files are referenced as <dir>/<name>; the caller writes them before running ffmpeg.
+ * Type and boxes scale with the frame's short side, so a portrait frame gets the same
+ * legible text as a landscape one and uses its extra height for more lines.
+ */
+export function renderSlide(slide: Slide, frame: FrameSize, theme: SlideTheme, dir: string, prefix: string): RenderedSlide {
+  const { width, height } = frame
+  const unit = Math.min(width, height)
+  const portrait = height > width
+  const margin = Math.round(width * 0.06)
+  const filters: string[] = []
+  const files: SlideTextFile[] = []
+
+  const text = (
+    value: string,
+    options: { x: number | string; y: number; size: number; color: string; font?: 'sans' | 'mono' }
+  ) => {
+    if (!value.trim()) return
+    const name = `${prefix}-${files.length}.txt`
+    files.push({ name, text: value })
+    filters.push([
+      `drawtext=${fontOption(options.font || 'sans')}`,
+      `textfile=${filterValue(`${dir}/${name}`)}`,
+      'expansion=none',
+      `fontcolor=${options.color}`,
+      `fontsize=${options.size}`,
+      `line_spacing=${Math.round(options.size * 0.4)}`,
+      `x=${options.x}`,
+      `y=${options.y}`
+    ].join(':'))
+  }
+
+  const box = (x: number, y: number, w: number, h: number, color: string) => {
+    filters.push(`drawbox=x=${Math.round(x)}:y=${Math.round(y)}:w=${Math.round(w)}:h=${Math.round(h)}:color=${color}:t=fill`)
+  }
+
+  const usable = width - margin * 2
+  const headingSize = Math.round(unit * 0.065)
+  const bodySize = Math.round(unit * 0.042)
+
+  switch (slide.layout) {
+    case 'title': {
+      const titleSize = Math.round(unit * 0.09)
+      const titleLines = wrap(slide.heading, charsPerLine(usable, titleSize), 3)
+      text(titleLines.join('\n'), { x: margin, y: Math.round(height * 0.22), size: titleSize, color: theme.heading })
+      box(margin, height * 0.6, width * 0.12, Math.max(4, unit * 0.008), theme.accent)
+      if (slide.body) {
+        const bodyLines = wrap(slide.body, charsPerLine(usable, bodySize), 4)
+        text(bodyLines.join('\n'), { x: margin, y: Math.round(height * 0.65), size: bodySize, color: theme.text })
+      }
+      break
+    }
+
+    case 'text': {
+      const top = drawHeading()
+      if (slide.body) {
+        const maxLines = Math.floor((height - top - margin) / (bodySize * 1.4))
+        const bodyLines = wrap(slide.body, charsPerLine(usable, bodySize), maxLines)
+        text(bodyLines.join('\n'), { x: margin, y: top, size: bodySize, color: theme.text })
+      }
+      break
+    }
+
+    case 'code': {
+      const top = drawHeading()
+      const codeSize = Math.round(unit * 0.032)
+      const padding = Math.round(codeSize * 0.8)
+      const panelHeight = height - top - margin
+      box(margin, top, usable, panelHeight, theme.panel)
+
+      const maxLines = Math.min(MAX_CODE_LINES, Math.floor((panelHeight - padding * 2) / (codeSize * 1.4)))
+      const maxChars = charsPerLine(usable - padding * 2, codeSize, true)
+      const code = (slide.code || '').replace(/\t/g, '  ').split('\n')
+      const lines = code.slice(0, maxLines).map(line => line.length > maxChars ? `${line.slice(0, maxChars - 1)}…` : line)
+      if (code.length > maxLines) lines[lines.length - 1] = '…'
+      text(lines.join('\n'), { x: margin + padding, y: top + padding, size: codeSize, color: theme.code, font: 'mono' })
+      break
+    }
+
+    case 'diagram': {
+      const top = drawHeading()
+      const nodes = (slide.diagram || []).slice(0, MAX_DIAGRAM_NODES)
+      const hidden = (slide.diagram || []).length - nodes.length
+      if (hidden > 0) nodes[nodes.length - 1] = `+${hidden + 1} more`
+
+      const columns = Math.min(portrait ? PORTRAIT_DIAGRAM_COLUMNS : DIAGRAM_COLUMNS, nodes.length)
+      const rows = Math.ceil(nodes.length / columns)
+      const gap = Math.round(width * 0.04)
+      const boxWidth = (usable - gap * (columns - 1)) / columns
+      const boxHeight = Math.round(unit * 0.14)
+      const rowGap = Math.round(unit * 0.06)
+      const labelSize = Math.round(unit * 0.032)
+      const arrow = Math.max(3, Math.round(unit * 0.006))
+
+      // Centre the grid in the space under the heading
+      const gridHeight = rows * boxHeight + (rows - 1) * rowGap
+      const gridTop = top + Math.max(0, (height - top - margin - gridHeight) / 2)
+
+      nodes.forEach((label, index) => {
+        const row = Math.floor(index / columns)
+        const column = index % columns
+        const x = margin + column * (boxWidth + gap)
+        const y = gridTop + row * (boxHeight + rowGap)
+
+        box(x, y, boxWidth, boxHeight, theme.panel)
+        box(x, y, Math.max(4, width * 0.005), boxHeight, theme.accent)
+
+        const labelLines = wrap(label, charsPerLine(boxWidth - labelSize, labelSize), 2)
+        const labelHeight = labelLines.length * labelSize * 1.4
+        text(labelLines.join('\n'), {
+          x: Math.round(x + labelSize * 0.75),
+          y: Math.round(y + (boxHeight - labelHeight) / 2),
+          size: labelSize,
+          color: theme.heading
+        })
+
+        // Arrow to the next node in the same row
+        if (column < columns - 1 && index < nodes.length - 1) {
+          const arrowY = y + boxHeight / 2 - arrow / 2
+          box(x + boxWidth, arrowY, gap - arrow * 2, arrow, theme.accent)
+          box(x + boxWidth + gap - arrow * 3, arrowY - arrow, arrow * 3, arrow * 3, theme.accent)
+        }
+      })
+      break
+    }
+  }
+
+  return { filters, files }
+
+  // Heading plus accent rule; returns where the slide body starts
+  function drawHeading(): number {
+    const headingTop = margin
+    const lines = wrap(slide.heading, charsPerLine(usable, headingSize), 2)
+    text(lines.join('\n'), { x: margin, y: headingTop, size: headingSize, color: theme.heading })
+    const ruleY = headingTop + lines.length * headingSize * 1.4 + headingSize * 0.3
+    box(margin, ruleY, width * 0.08, Math.max(4, unit * 0.006), theme.accent)
+    return Math.round(ruleY + headingSize * 0.9)
+  }
+}
+
+// Rough glyph widths; drawtext cannot wrap by itself
+function charsPerLine(width: number, fontSize: number, monospace = false): number {
+  return Math.max(8, Math.floor(width / (fontSize * (monospace ? 0.6 : 0.52))))
+}
+
+function wrap(value: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = []
+  let current = ''
+
+  for (const word of value.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word
+    if (candidate.length <= maxChars) {
+      current = candidate
+      continue
+    }
+    if (current) lines.push(current)
+    current = word.length > maxChars ? `${word.slice(0, maxChars - 1)}…` : word
+  }
+  if (current) lines.push(current)
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, Math.max(1, maxLines))
+    const last = kept[kept.length - 1]
+    kept[kept.length - 1] = `${last.length >= maxChars ? last.slice(0, maxChars - 1) : last}…`
+    return kept
+  }
+  return lines
+}
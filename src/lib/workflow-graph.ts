@@ -0,0 +1,485 @@
+// Workflow Graph
+// Typed model of an n8n workflow's nodes and connections, with ordering and structure analysis
+
+export type ConnectionType =
+  | 'main'
+  | 'ai_agent'
+  | 'ai_chain'
+  | 'ai_document'
+  | 'ai_embedding'
+  | 'ai_languageModel'
+  | 'ai_memory'
+  | 'ai_outputParser'
+  | 'ai_retriever'
+  | 'ai_textSplitter'
+  | 'ai_tool'
+  | 'ai_vectorStore'
+
+export const AI_CONNECTION_TYPES: ConnectionType[] = [
+  'ai_agent',
+  'ai_chain',
+  'ai_document',
+  'ai_embedding',
+  'ai_languageModel',
+  'ai_memory',
+  'ai_outputParser',
+  'ai_retriever',
+  'ai_textSplitter',
+  'ai_tool',
+  'ai_vectorStore'
+]
+
+export interface WorkflowNode {
+  id: string
+  name: string
+  type: string
+  typeVersion?: number
+  position?: [number, number]
+  parameters: Record<string, unknown>
+  credentials?: Record<string, unknown>
+  disabled?: boolean
+  onError?: 'stopWorkflow' | 'continueRegularOutput' | 'continueErrorOutput'
+}
+
+// Raw connection map exactly as n8n exports it: keyed by source node *name*
+export interface ConnectionTarget {
+  node: string
+  type: string
+  index: number
+}
+
+export type WorkflowConnections = Record<string, Record<string, Array<ConnectionTarget[] | null>>>
+
+export interface WorkflowPort {
+  node: string
+  type: ConnectionType
+  index: number
+}
+
+export interface WorkflowEdge {
+  source: WorkflowPort
+  target: WorkflowPort
+  isErrorOutput: boolean
+}
+
+export interface BranchPoint {
+  node: string
+  outputs: number
+  targets: string[]
+  hasErrorOutput: boolean
+}
+
+export interface MergePoint {
+  node: string
+  sources: string[]
+}
+
+export interface GraphIssue {
+  type: 'dangling-edge' | 'unknown-connection-type' | 'cycle' | 'disconnected-node' | 'duplicate-name'
+  message: string
+  nodes: string[]
+}
+
+export class WorkflowGraph {
+  readonly nodes: Map<string, WorkflowNode> = new Map()
+  readonly edges: WorkflowEdge[] = []
+  readonly issues: GraphIssue[] = []
+
+  private outgoingEdges: Map<string, WorkflowEdge[]> = new Map()
+  private incomingEdges: Map<string, WorkflowEdge[]> = new Map()
+  private orderCache: string[] | null = null
+  private cycleCache: string[][] | null = null
+
+  static fromWorkflow(workflow: { nodes: unknown[]; connections?: unknown }): WorkflowGraph {
+    const graph = new WorkflowGraph()
+
+    for (const raw of workflow.nodes || []) {
+      graph.addNode(normalizeNode(raw))
+    }
+
+    const connections = (workflow.connections || {}) as WorkflowConnections
+    for (const [sourceName, outputsByType] of Object.entries(connections)) {
+      if (!outputsByType || typeof outputsByType !== 'object') continue
+
+      for (const [type, outputs] of Object.entries(outputsByType)) {
+        if (!Array.isArray(outputs)) continue
+
+        if (!isConnectionType(type)) {
+          graph.issues.push({
+            type: 'unknown-connection-type',
+            message: `Node "${sourceName}" uses unknown connection type "${type}"`,
+            nodes: [sourceName]
+          })
+        }
+
+        // n8n appends the error output after a node's regular main outputs
+        const errorOutputIndex = type === 'main' && graph.nodes.get(sourceName)?.onError === 'continueErrorOutput'
+          ? outputs.length - 1
+          : -1
+
+        outputs.forEach((targets, outputIndex) => {
+          for (const target of targets || []) {
+            if (!target || typeof target.node !== 'string') continue
+            graph.addEdge(
+              { node: sourceName, type: type as ConnectionType, index: outputIndex },
+              { node: target.node, type: (target.type || type) as ConnectionType, index: target.index ?? 0 },
+              outputIndex > 0 && outputIndex === errorOutputIndex
+            )
+          }
+        })
+      }
+    }
+
+    graph.collectStructuralIssues()
+    return graph
+  }
+
+  addNode(node: WorkflowNode): void {
+    if (this.nodes.has(node.name)) {
+      this.issues.push({
+        type: 'duplicate-name',
+        message: `More than one node is named "${node.name}"`,
+        nodes: [node.name]
+      })
+    }
+    this.nodes.set(node.name, node)
+    this.invalidate()
+  }
+
+  addEdge(source: WorkflowPort, target: WorkflowPort, isErrorOutput = false): void {
+    if (!this.nodes.has(source.node) || !this.nodes.has(target.node)) {
+      const missing = [source.node, target.node].filter(name => !this.nodes.has(name))
+      this.issues.push({
+        type: 'dangling-edge',
+        message: `Connection ${source.node} → ${target.node} references missing node(s): ${missing.join(', ')}`,
+        nodes: missing
+      })
+      return
+    }
+
+    const edge: WorkflowEdge = {
+      source,
+      target,
+      isErrorOutput
+    }
+
+    this.edges.push(edge)
+    pushTo(this.outgoingEdges, source.node, edge)
+    pushTo(this.incomingEdges, target.node, edge)
+    this.invalidate()
+  }
+
+  getNode(name: string): WorkflowNode | undefined {
+    return this.nodes.get(name)
+  }
+
+  outgoing(name: string, type?: ConnectionType): WorkflowEdge[] {
+    const edges = this.outgoingEdges.get(name) || []
+    return type ? edges.filter(edge => edge.source.type === type) : edges
+  }
+
+  incoming(name: string, type?: ConnectionType): WorkflowEdge[] {
+    const edges = this.incomingEdges.get(name) || []
+    return type ? edges.filter(edge => edge.target.type === type) : edges
+  }
+
+  /**
+   * Sub-nodes (language models, memories, tools…) attached to a root node through ai_* ports
+   */
+  subNodesOf(name: string): WorkflowNode[] {
+    return this.incoming(name)
+      .filter(edge => edge.target.type !== 'main')
+      .map(edge => this.nodes.get(edge.source.node)!)
+  }
+
+  isSubNode(name: string): boolean {
+    const outgoing = this.outgoing(name)
+    return outgoing.length > 0 && outgoing.every(edge => edge.source.type !== 'main')
+  }
+
+  /**
+   * Nodes with no incoming main connection — triggers and other entry points
+   */
+  entryNodes(): WorkflowNode[] {
+    return this.sortedNodes().filter(node =>
+      !this.isSubNode(node.name) && this.incoming(node.name, 'main').length === 0
+    )
+  }
+
+  /**
+   * Execution-style ordering: main edges are followed topologically, ties are broken by
+   * canvas position (left→right, top→bottom) and sub-nodes are placed right before the
+   * root node they attach to. Back edges of loops (found by a depth-first walk from the entry
+   * nodes) are ignored so every node appears exactly once.
+   */
+  topologicalOrder(): string[] {
+    if (this.orderCache) return this.orderCache
+
+    const rootNames = this.sortedNodes()
+      .map(node => node.name)
+      .filter(name => !this.isSubNode(name))
+
+    const backEdges = this.findBackEdges(rootNames)
+    const forwardTargets = (name: string) => new Set(
+      this.outgoing(name, 'main')
+        .filter(edge => !backEdges.has(edge))
+        .map(edge => edge.target.node)
+    )
+
+    const inDegree = new Map<string, number>(rootNames.map(name => [name, 0]))
+    for (const name of rootNames) {
+      for (const target of forwardTargets(name)) {
+        inDegree.set(target, (inDegree.get(target) ?? 0) + 1)
+      }
+    }
+
+    const order: string[] = []
+    const ready = rootNames.filter(name => inDegree.get(name) === 0)
+
+    while (ready.length > 0) {
+      ready.sort((a, b) => compareNodes(this.nodes.get(a)!, this.nodes.get(b)!))
+      const name = ready.shift()!
+
+      for (const subNode of this.collectSubNodes(name, new Set(order))) {
+        order.push(subNode)
+      }
+      order.push(name)
+
+      for (const target of forwardTargets(name)) {
+        const remaining = inDegree.get(target)! - 1
+        inDegree.set(target, remaining)
+        if (remaining === 0) ready.push(target)
+      }
+    }
+
+    // Orphaned sub-nodes that are not attached to any root still need a place in the order
+    for (const node of this.sortedNodes()) {
+      if (!order.includes(node.name)) order.push(node.name)
+    }
+
+    this.orderCache = order
+    return order
+  }
+
+  orderedNodes(): WorkflowNode[] {
+    return this.topologicalOrder().map(name => this.nodes.get(name)!)
+  }
+
+  /**
+   * Nodes whose main output fans out to more than one path (IF/Switch outputs, error outputs, parallel fan-out)
+   */
+  branchPoints(): BranchPoint[] {
+    const branches: BranchPoint[] = []
+
+    for (const name of this.topologicalOrder()) {
+      const edges = this.outgoing(name, 'main')
+      const outputs = new Set(edges.map(edge => edge.source.index))
+      const targets = [...new Set(edges.map(edge => edge.target.node))]
+
+      if (outputs.size > 1 || targets.length > 1) {
+        branches.push({
+          node: name,
+          outputs: outputs.size,
+          targets,
+          hasErrorOutput: edges.some(edge => edge.isErrorOutput)
+        })
+      }
+    }
+
+    return branches
+  }
+
+  /**
+   * Nodes that receive main input from more than one upstream node
+   */
+  mergePoints(): MergePoint[] {
+    const merges: MergePoint[] = []
+
+    for (const name of this.topologicalOrder()) {
+      const sources = [...new Set(this.incoming(name, 'main').map(edge => edge.source.node))]
+      if (sources.length > 1) {
+        merges.push({ node: name, sources })
+      }
+    }
+
+    return merges
+  }
+
+  /**
+   * Strongly connected components over main edges (Tarjan); each entry is one cycle
+   */
+  findCycles(): string[][] {
+    if (this.cycleCache) return this.cycleCache
+
+    let index = 0
+    const stack: string[] = []
+    const onStack = new Set<string>()
+    const indices = new Map<string, number>()
+    const lowLinks = new Map<string, number>()
+    const cycles: string[][] = []
+
+    const strongConnect = (name: string) => {
+      indices.set(name, index)
+      lowLinks.set(name, index)
+      index++
+      stack.push(name)
+      onStack.add(name)
+
+      for (const edge of this.outgoing(name, 'main')) {
+        const target = edge.target.node
+        if (!indices.has(target)) {
+          strongConnect(target)
+          lowLinks.set(name, Math.min(lowLinks.get(name)!, lowLinks.get(target)!))
+        } else if (onStack.has(target)) {
+          lowLinks.set(name, Math.min(lowLinks.get(name)!, indices.get(target)!))
+        }
+      }
+
+      if (lowLinks.get(name) === indices.get(name)) {
+        const component: string[] = []
+        let member: string
+        do {
+          member = stack.pop()!
+          onStack.delete(member)
+          component.push(member)
+        } while (member !== name)
+
+        const selfLoop = this.outgoing(name, 'main').some(edge => edge.target.node === name)
+        if (component.length > 1 || selfLoop) {
+          cycles.push(component.reverse())
+        }
+      }
+    }
+
+    for (const node of this.sortedNodes()) {
+      if (!indices.has(node.name)) strongConnect(node.name)
+    }
+
+    this.cycleCache = cycles
+    return cycles
+  }
+
+  hasCycles(): boolean {
+    return this.findCycles().length > 0
+  }
+
+  disconnectedNodes(): WorkflowNode[] {
+    return this.sortedNodes().filter(node =>
+      this.outgoing(node.name).length === 0 && this.incoming(node.name).length === 0
+    )
+  }
+
+  private findBackEdges(rootNames: string[]): Set<WorkflowEdge> {
+    const backEdges = new Set<WorkflowEdge>()
+    const state = new Map<string, 'active' | 'done'>()
+
+    const visit = (name: string) => {
+      state.set(name, 'active')
+      const edges = [...this.outgoing(name, 'main')].sort((a, b) =>
+        compareNodes(this.nodes.get(a.target.node)!, this.nodes.get(b.target.node)!)
+      )
+
+      for (const edge of edges) {
+        const targetState = state.get(edge.target.node)
+        if (targetState === 'active') {
+          backEdges.add(edge)
+        } else if (!targetState) {
+          visit(edge.target.node)
+        }
+      }
+      state.set(name, 'done')
+    }
+
+    // Start from real entry points first so loops are broken where execution re-enters them
+    const entries = rootNames.filter(name => this.incoming(name, 'main').length === 0)
+    for (const name of [...entries, ...rootNames]) {
+      if (!state.has(name)) visit(name)
+    }
+
+    return backEdges
+  }
+
+  private collectSubNodes(name: string, placed: Set<string>): string[] {
+    const result: string[] = []
+    const subNodes = this.subNodesOf(name).sort(compareNodes)
+
+    for (const subNode of subNodes) {
+      if (placed.has(subNode.name) || result.includes(subNode.name)) continue
+      // Sub-nodes can have their own sub-nodes (e.g. a vector store tool with an embedding model)
+      result.push(...this.collectSubNodes(subNode.name, new Set([...placed, ...result])), subNode.name)
+    }
+
+    return result
+  }
+
+  private collectStructuralIssues(): void {
+    for (const cycle of this.findCycles()) {
+      this.issues.push({
+        type: 'cycle',
+        message: `Loop detected between: ${cycle.join(' → ')}`,
+        nodes: cycle
+      })
+    }
+
+    const disconnected = this.disconnectedNodes().filter(node => this.nodes.size > 1 && !isStickyNote(node))
+    if (disconnected.length > 0) {
+      this.issues.push({
+        type: 'disconnected-node',
+        message: `${disconnected.length} disconnected node(s): ${disconnected.map(node => node.name).join(', ')}`,
+        nodes: disconnected.map(node => node.name)
+      })
+    }
+  }
+
+  private sortedNodes(): WorkflowNode[] {
+    return [...this.nodes.values()].sort(compareNodes)
+  }
+
+  private invalidate(): void {
+    this.orderCache = null
+    this.cycleCache = null
+  }
+}
+
+export function isConnectionType(type: string): type is ConnectionType {
+  return type === 'main' || AI_CONNECTION_TYPES.includes(type as ConnectionType)
+}
+
+export function isStickyNote(node: WorkflowNode): boolean {
+  return node.type === 'n8n-nodes-base.stickyNote'
+}
+
+function normalizeNode(raw: unknown): WorkflowNode {
+  const node = (raw || {}) as Record<string, unknown>
+  const name = String(node.name ?? node.id ?? '')
+  const position = Array.isArray(node.position) && node.position.length >= 2
+    ? [Number(node.position[0]) || 0, Number(node.position[1]) || 0] as [number, number]
+    : undefined
+
+  return {
+    id: String(node.id ?? name),
+    name,
+    type: String(node.type ?? ''),
+    typeVersion: typeof node.typeVersion === 'number' ? node.typeVersion : undefined,
+    position,
+    parameters: (node.parameters as Record<string, unknown>) || {},
+    credentials: node.credentials as Record<string, unknown> | undefined,
+    disabled: node.disabled === true,
+    onError: node.onError as WorkflowNode['onError']
+  }
+}
+
+function compareNodes(a: WorkflowNode, b: WorkflowNode): number {
+  const [ax, ay] = a.position || [0, 0]
+  const [bx, by] = b.position || [0, 0]
+  return ax - bx || ay - by || a.name.localeCompare(b.name)
+}
+
+function pushTo<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+  const list = map.get(key)
+  if (list) {
+    list.push(value)
+  } else {
+    map.set(key, [value])
+  }
+}
@@ -2,6 +2,21 @@
 // ABACUS TAMBO BUDDY MCP BOT Integration Client
 // Connects the frontend to the ABACUS chatbot for intelligent routing and MCP operations
 
+import { ZodType, ZodTypeDef } from 'zod';
+import {
+  generateStructured,
+  parseStructured,
+  isLLMConfigured,
+  LLMOutputError,
+  LLMProviderError,
+  LLMTaskType,
+  componentAnalysisSchema,
+  ComponentAnalysisResponse,
+  diagnosticsSchema,
+  DiagnosticsResponse,
+  routingResponseSchema,
+} from '../lib/llm';
+
 interface AbacusConfig {
   appId: string;
   baseUrl: string;
@@ -52,10 +67,7 @@ class AbacusAPIClient {
   async routeRequest(tier: string, payload: string, environment = 'development'): Promise<AbacusResponse> {
     try {
       const prompt = this.buildRoutingPrompt(tier, payload, environment);
-      const response = await this.sendToAbacus(prompt);
-      
-      // Parse and validate the response
-      const routingResult = this.parseRoutingResponse(response);
+      const routingResult = await this.requestRouting(prompt);
       
       // Store in conversation history for context
       this.conversationHistory.push({
@@ -67,6 +79,7 @@ class AbacusAPIClient {
       return routingResult;
     } catch (error) {
       console.error('ABACUS routing failed:', error);
+      if (error instanceof LLMOutputError || error instanceof LLMProviderError) throw error;
       throw new Error(`ABACUS Intelligence Error: ${error.message}`);
     }
   }
@@ -74,14 +87,21 @@ class AbacusAPIClient {
   /**
    * Component update intelligence - uses ABACUS for smart component modifications
    */
-  async componentUpdate(componentId: string, updateInstructions: string, author: string, environment = 'development'): Promise<any> {
+  async componentUpdate(
+    componentId: string,
+    updateInstructions: string,
+    author: string,
+    environment = 'development'
+  ): Promise<ComponentAnalysisResponse> {
     try {
       const prompt = this.buildComponentUpdatePrompt(componentId, updateInstructions, author, environment);
-      const response = await this.sendToAbacus(prompt);
-      
-      return this.parseComponentUpdateResponse(response);
+      const analysis = await this.requestStructured('component-analysis', prompt, componentAnalysisSchema,
+        () => this.simulateComponentAnalysis(componentId));
+
+      return { ...analysis, componentId };
     } catch (error) {
       console.error('ABACUS component update failed:', error);
+      if (error instanceof LLMOutputError || error instanceof LLMProviderError) throw error;
       throw new Error(`Component Update Error: ${error.message}`);
     }
   }
@@ -89,29 +109,37 @@ class AbacusAPIClient {
   /**
    * Agent diagnostics intelligence - uses ABACUS to analyze agent performance
    */
-  async agentDiagnostics(agent: string, scope: string, environment = 'development'): Promise<any> {
+  async agentDiagnostics(agent: string, scope: string, environment = 'development'): Promise<DiagnosticsResponse> {
     try {
       const prompt = this.buildDiagnosticsPrompt(agent, scope, environment);
-      const response = await this.sendToAbacus(prompt);
-      
-      return this.parseDiagnosticsResponse(response);
+      return await this.requestStructured('diagnostics', prompt, diagnosticsSchema,
+        () => this.simulateDiagnostics(agent));
     } catch (error) {
       console.error('ABACUS diagnostics failed:', error);
+      if (error instanceof LLMOutputError || error instanceof LLMProviderError) throw error;
       throw new Error(`Diagnostics Error: ${error.message}`);
     }
   }
 
   /**
-   * Send request to ABACUS TAMBO BUDDY MCP BOT
+   * Send request to ABACUS TAMBO BUDDY MCP BOT and validate the reply against the schema,
+   * repairing malformed replies. Without a provider for the task the simulation answers instead,
+   * and its answer is held to the same schema.
    */
-  private async sendToAbacus(prompt: string): Promise<string> {
-    const chatbotUrl = `${this.config.baseUrl}/?appId=${this.config.appId}&hideTopBar=2`;
-    
-    // For now, we'll use a simulated API call since the chatbot is designed for conversational use
-    // In production, you would integrate with ABACUS API for programmatic access
-    const response = await this.simulateAbacusResponse(prompt);
-    
-    return response;
+  private async requestStructured<T>(
+    task: LLMTaskType,
+    prompt: string,
+    schema: ZodType<T, ZodTypeDef, unknown>,
+    simulate: () => Promise<string>
+  ): Promise<T> {
+    if (!isLLMConfigured(task)) {
+      return parseStructured(task, await simulate(), schema);
+    }
+
+    const { data } = await generateStructured(task, {
+      messages: [{ role: 'user', content: prompt }],
+    }, schema);
+    return data;
   }
 
   /**
@@ -158,13 +186,21 @@ Author: ${author}
 Environment: ${environment}
 Update Instructions: "${updateInstructions}"
 
-Please analyze this component update request and provide:
+Please analyze this component update request, covering:
 1. Validation of the update instructions
 2. Recommended implementation approach
 3. Potential risks and considerations
 4. Code suggestions if applicable
 
-Return response in JSON format with analysis, recommendations, and any code changes.`;
+Return your analysis in this EXACT JSON format:
+{
+  "componentId": "${componentId}",
+  "updateFeasibility": "<safe|risky|dangerous>",
+  "suggestedChanges": ["<specific changes, including code suggestions>"],
+  "securityConcerns": ["<risks and considerations>"],
+  "implementationPlan": ["<step by step implementation>"],
+  "estimatedComplexity": "<simple|moderate|complex>"
+}`;
   }
 
   /**
@@ -177,84 +213,33 @@ Agent: ${agent}
 Scope: ${scope}
 Environment: ${environment}
 
-Please perform diagnostics on this agent and provide:
+Please perform diagnostics on this agent, covering:
 1. Current status and health
 2. Performance metrics
 3. Recent activity analysis
 4. Recommendations for optimization
 5. Any issues or alerts
 
-Return comprehensive diagnostics report in JSON format.`;
-  }
-
-  /**
-   * Parse routing response from ABACUS
-   */
-  private parseRoutingResponse(response: string): AbacusResponse {
-    try {
-      // Extract JSON from response if it's embedded in text
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        
-        // Validate required fields
-        if (!parsed.agent || !parsed.tier || !parsed.intent || !parsed.route) {
-          throw new Error('Invalid routing response format');
-        }
-        
-        return parsed;
-      } else {
-        throw new Error('No JSON found in response');
-      }
-    } catch (error) {
-      console.error('Failed to parse routing response:', error);
-      throw new Error(`Response parsing failed: ${error.message}`);
-    }
+Return the diagnostics report in this EXACT JSON format:
+{
+  "agent": "${agent}",
+  "status": "<healthy|degraded|critical|unknown>",
+  "insights": "<recent activity, issues and alerts>",
+  "recommendations": ["<optimization recommendations>"],
+  "riskLevel": "<low|medium|high|critical>",
+  "metrics": {
+    "performance": "<assessment>",
+    "reliability": "<assessment>",
+    "security": "<assessment>"
   }
-
-  /**
-   * Parse component update response from ABACUS
-   */
-  private parseComponentUpdateResponse(response: string): any {
-    try {
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-      
-      // If no JSON, return structured response
-      return {
-        analysis: response,
-        success: true,
-        recommendations: ['Review the update instructions for clarity'],
-        timestamp: new Date().toISOString()
-      };
-    } catch (error) {
-      console.error('Failed to parse component update response:', error);
-      return { error: error.message, success: false };
-    }
+}`;
   }
 
   /**
-   * Parse diagnostics response from ABACUS
+   * Get a validated routing decision, repairing malformed model replies
    */
-  private parseDiagnosticsResponse(response: string): any {
-    try {
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-      
-      return {
-        status: 'analyzed',
-        analysis: response,
-        timestamp: new Date().toISOString(),
-        recommendations: ['Continue monitoring agent performance']
-      };
-    } catch (error) {
-      console.error('Failed to parse diagnostics response:', error);
-      return { error: error.message, status: 'error' };
-    }
+  private async requestRouting(prompt: string): Promise<AbacusResponse> {
+    return this.requestStructured('routing', prompt, routingResponseSchema, () => this.simulateAbacusResponse(prompt));
   }
 
   /**
@@ -314,6 +299,33 @@ Return comprehensive diagnostics report in JSON format.`;
     return JSON.stringify(response, null, 2);
   }
 
+  /**
+   * Simulated component analysis: without a model nothing is judged safe
+   */
+  private async simulateComponentAnalysis(componentId: string): Promise<string> {
+    return JSON.stringify({
+      componentId,
+      updateFeasibility: 'risky',
+      suggestedChanges: ['Review the update instructions for clarity'],
+      securityConcerns: ['No model reviewed this update'],
+      implementationPlan: ['Review the change manually', 'Test in development first'],
+      estimatedComplexity: 'moderate'
+    });
+  }
+
+  /**
+   * Simulated diagnostics: the agent's health is unknown without a model to assess it
+   */
+  private async simulateDiagnostics(agent: string): Promise<string> {
+    return JSON.stringify({
+      agent,
+      status: 'unknown',
+      insights: 'No model is configured for diagnostics',
+      recommendations: ['Continue monitoring agent performance'],
+      riskLevel: 'low'
+    });
+  }
+
   /**
    * Get conversation history for analytics
    */
@@ -1,10 +1,19 @@
-
-import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from '@google/generative-ai';
-
-// Enhanced TAMBO intelligence using Google Gemini AI
-interface GeminiConfig {
-  apiKey: string;
-  model: string;
+import { ZodType, ZodTypeDef } from 'zod';
+import {
+  getLLMProvider,
+  generateStructured,
+  isLLMConfigured,
+  LLMOutputError,
+  LLMProviderError,
+  LLMTaskType,
+  intelligentDecisionSchema,
+  componentAnalysisSchema,
+  diagnosticsSchema,
+  DiagnosticsResponse,
+} from '../lib/llm';
+
+// Enhanced TAMBO intelligence, backed by Gemini unless another LLM provider is configured per task
+interface GenerationConfig {
   temperature: number;
   maxOutputTokens: number;
 }
@@ -41,53 +50,10 @@ interface ComponentAnalysis {
 }
 
 class GeminiIntelligenceClient {
-  private genAI: GoogleGenerativeAI;
-  private model: any;
-  private config: GeminiConfig;
-
-  constructor() {
-    const apiKey = import.meta.env.VITE_GOOGLE_GEMINI_API_KEY;
-    
-    if (!apiKey) {
-      throw new Error('Gemini API key not found in environment variables');
-    }
-
-    this.config = {
-      apiKey,
-      model: 'gemini-1.5-flash',
-      temperature: 0.3,
-      maxOutputTokens: 2048
-    };
-
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    this.model = this.genAI.getGenerativeModel({
-      model: this.config.model,
-      generationConfig: {
-        temperature: this.config.temperature,
-        topP: 0.95,
-        topK: 64,
-        maxOutputTokens: this.config.maxOutputTokens,
-      },
-      safetySettings: [
-        {
-          category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-        },
-        {
-          category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-          threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
-        },
-      ],
-    });
-  }
+  private config: GenerationConfig = {
+    temperature: 0.3,
+    maxOutputTokens: 2048
+  };
 
   /**
    * Intelligent request routing with Gemini AI analysis
@@ -96,13 +62,11 @@ class GeminiIntelligenceClient {
     const prompt = this.buildRoutingPrompt(context);
     
     try {
-      const result = await this.model.generateContent(prompt);
-      const response = result.response.text();
-      
-      return this.parseIntelligentDecision(response, context);
+      return await this.generateJSON('routing', prompt, intelligentDecisionSchema);
     } catch (error) {
       console.error('Gemini routing analysis failed:', error);
-      
+      if (error instanceof LLMOutputError || error instanceof LLMProviderError) throw error;
+
       // Fallback to rule-based routing
       return this.fallbackRouting(context);
     }
@@ -119,22 +83,11 @@ class GeminiIntelligenceClient {
     const prompt = this.buildComponentAnalysisPrompt(componentId, updateInstructions, currentCode);
     
     try {
-      const result = await this.model.generateContent(prompt);
-      const response = result.response.text();
-      
-      return this.parseComponentAnalysis(response, componentId);
+      const analysis = await this.generateJSON('component-analysis', prompt, componentAnalysisSchema);
+      return { ...analysis, componentId };
     } catch (error) {
       console.error('Gemini component analysis failed:', error);
-      
-      // Return safe defaults
-      return {
-        componentId,
-        updateFeasibility: 'risky',
-        suggestedChanges: ['Manual review required'],
-        securityConcerns: ['AI analysis unavailable'],
-        implementationPlan: ['Review request manually', 'Test in development first'],
-        estimatedComplexity: 'moderate'
-      };
+      throw error;
     }
   }
 
@@ -145,8 +98,7 @@ class GeminiIntelligenceClient {
     const prompt = this.buildChatPrompt(message, context);
     
     try {
-      const result = await this.model.generateContent(prompt);
-      return result.response.text();
+      return await this.generate('chat', prompt);
     } catch (error) {
       console.error('Gemini chat processing failed:', error);
       return "I'm experiencing some difficulty processing that request. Please try rephrasing or contact support if the issue persists.";
@@ -156,24 +108,48 @@ class GeminiIntelligenceClient {
   /**
    * Agent diagnostics with AI insights
    */
-  async analyzeDiagnostics(agent: string, scope: string, performanceData?: any): Promise<any> {
+  async analyzeDiagnostics(agent: string, scope: string, performanceData?: any): Promise<DiagnosticsResponse> {
     const prompt = this.buildDiagnosticsPrompt(agent, scope, performanceData);
     
     try {
-      const result = await this.model.generateContent(prompt);
-      const response = result.response.text();
-      
-      return this.parseDiagnosticsResponse(response, agent);
+      return await this.generateJSON('diagnostics', prompt, diagnosticsSchema);
     } catch (error) {
       console.error('Gemini diagnostics analysis failed:', error);
-      
-      return {
-        agent,
-        status: 'analysis_error',
-        insights: 'AI analysis unavailable',
-        recommendations: ['Manual diagnostics required'],
-        riskLevel: 'unknown'
-      };
+      throw error;
+    }
+  }
+
+  /**
+   * Single-prompt completion; throws when the task has no usable provider so callers fall back
+   */
+  private async generate(task: LLMTaskType, prompt: string): Promise<string> {
+    this.assertConfigured(task);
+
+    const result = await getLLMProvider(task).chat({
+      messages: [{ role: 'user', content: prompt }],
+      temperature: this.config.temperature,
+      maxTokens: this.config.maxOutputTokens,
+    });
+    return result.content;
+  }
+
+  /**
+   * Schema-validated completion; malformed replies are sent back to the model for repair
+   */
+  private async generateJSON<T>(task: LLMTaskType, prompt: string, schema: ZodType<T, ZodTypeDef, unknown>): Promise<T> {
+    this.assertConfigured(task);
+
+    const { data } = await generateStructured(task, {
+      messages: [{ role: 'user', content: prompt }],
+      temperature: this.config.temperature,
+      maxTokens: this.config.maxOutputTokens,
+    }, schema);
+    return data;
+  }
+
+  private assertConfigured(task: LLMTaskType): void {
+    if (!isLLMConfigured(task)) {
+      throw new LLMProviderError(`No LLM provider configured for ${task}`, 'none');
     }
   }
 
@@ -300,78 +276,6 @@ Provide comprehensive diagnostics in JSON format:
 `;
   }
 
-  private parseIntelligentDecision(response: string, context: DecisionContext): IntelligentDecision {
-    try {
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        
-        // Validate and ensure all required fields
-        return {
-          agent: parsed.agent || 'ContentRouterAgent',
-          route: parsed.route || '/content',
-          intent: parsed.intent || 'general_request',
-          confidence: parsed.confidence || 0.7,
-          reasoning: parsed.reasoning || 'AI analysis completed',
-          recommendations: parsed.recommendations || [],
-          riskAssessment: parsed.riskAssessment || { level: 'medium', concerns: [] },
-          nextSteps: parsed.nextSteps || []
-        };
-      }
-    } catch (error) {
-      console.error('Failed to parse Gemini decision:', error);
-    }
-    
-    return this.fallbackRouting(context);
-  }
-
-  private parseComponentAnalysis(response: string, componentId: string): ComponentAnalysis {
-    try {
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return {
-          componentId: parsed.componentId || componentId,
-          updateFeasibility: parsed.updateFeasibility || 'risky',
-          suggestedChanges: parsed.suggestedChanges || [],
-          securityConcerns: parsed.securityConcerns || [],
-          implementationPlan: parsed.implementationPlan || [],
-          estimatedComplexity: parsed.estimatedComplexity || 'moderate'
-        };
-      }
-    } catch (error) {
-      console.error('Failed to parse component analysis:', error);
-    }
-    
-    return {
-      componentId,
-      updateFeasibility: 'risky',
-      suggestedChanges: ['Analysis failed - manual review required'],
-      securityConcerns: ['Could not assess security implications'],
-      implementationPlan: ['Review manually', 'Test thoroughly'],
-      estimatedComplexity: 'complex'
-    };
-  }
-
-  private parseDiagnosticsResponse(response: string, agent: string): any {
-    try {
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
-      }
-    } catch (error) {
-      console.error('Failed to parse diagnostics response:', error);
-    }
-    
-    return {
-      agent,
-      status: 'unknown',
-      insights: response || 'Analysis completed',
-      recommendations: ['Manual review recommended'],
-      riskLevel: 'medium'
-    };
-  }
-
   private fallbackRouting(context: DecisionContext): IntelligentDecision {
     const payload = context.payload.toLowerCase();
     let agent = 'ContentRouterAgent';